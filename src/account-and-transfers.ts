@@ -1,8 +1,24 @@
 #!/usr/bin/env node
 
 import { CircleMintClient } from './circle-mint-client.js';
-import { config } from './config.js';
-import crypto from 'crypto';
+import { getProfile, takeProfileFlag } from './profiles.js';
+import { takeConfirmFlag } from './safety.js';
+import { Money } from './money.js';
+import type { Logger } from './logger.js';
+import type { PageParams } from './pagination.js';
+import type {
+  Balance,
+  BusinessPayout,
+  CircleResponse,
+  DepositAddress,
+  MockWirePayment,
+  Payout,
+  RecipientAddress,
+  TransactionStatus,
+  Transfer,
+  WireBankAccount,
+  WireInstructions,
+} from './types.js';
 import { fileURLToPath } from 'url';
 
 /**
@@ -15,45 +31,39 @@ interface TransferParams {
   chain: string;
   amount: string;
   currency?: 'USD' | 'EUR';
+  idempotencyKey?: string; // Reuse to retry the payout safely; generated when omitted
 }
 
 export class AccountAndTransferTester {
   private client: CircleMintClient;
+  private logger: Logger;
 
-  constructor() {
-    this.client = new CircleMintClient();
+  /** `logger` reports the steps of runTestFlow (default: the client's) */
+  constructor(client = new CircleMintClient(), logger: Logger = client.logger) {
+    this.client = client;
+    this.logger = logger;
   }
 
   /**
    * Check account balance before transfer
    */
-  async checkBalance(): Promise<any> {
+  async checkBalance(): Promise<CircleResponse<Balance>> {
     const balance = await this.client.getBalance();
-
-    if (balance.data?.available) {
-      balance.data.available.reduce((sum: number, bal: any) => {
-        return sum + (parseInt(bal.amount || '0', 10));
-      }, 0);
-    }
-
     return balance;
   }
 
   /**
    * Create a test transfer (payout)
    */
-  async createTransfer(params: TransferParams): Promise<any> {
+  async createTransfer(params: TransferParams): Promise<CircleResponse<Payout>> {
+    // Validate amount format (major units string, e.g. "1.00") before touching Circle
+    const amount = Money.parsePositive(params.amount, params.currency || 'USD');
+
     // First check balance
     await this.checkBalance();
 
-    // Validate amount format (Major units string, e.g. "1.00")
-    if (!params.amount.match(/^\d+(\.\d+)?$/)) {
-      throw new Error('Invalid amount format. Must be a string representing major units (e.g. "1.00").');
-    }
-
     // The Crypto Payouts API requires an address book entry — create one first
     const abEntry = await this.client.createAddressBookRecipient({
-      idempotencyKey: `ab-${Date.now()}`,
       chain: params.chain,
       address: params.recipientAddress,
       metadata: { nickname: `Transfer target ${params.chain}` },
@@ -62,17 +72,13 @@ export class AccountAndTransferTester {
     if (!recipientId) throw new Error('Failed to add address to address book');
 
     // Create payout using the address book recipient ID
-    const idempotencyKey = `transfer-${Date.now()}`;
     const payout = await this.client.createPayout({
-      idempotencyKey,
+      idempotencyKey: params.idempotencyKey,
       destination: {
         type: 'address_book',
         id: recipientId,
       },
-      amount: {
-        amount: parseFloat(params.amount).toFixed(2),
-        currency: params.currency || 'USD',
-      },
+      amount,
     });
 
     return payout;
@@ -81,7 +87,7 @@ export class AccountAndTransferTester {
   /**
    * Get transfer status
    */
-  async getTransferStatus(payoutId: string): Promise<any> {
+  async getTransferStatus(payoutId: string): Promise<CircleResponse<Payout>> {
     const payout = await this.client.getPayout(payoutId);
     return payout;
   }
@@ -97,21 +103,18 @@ export class AccountAndTransferTester {
     amount: string; // Fiat amount (e.g., "100.00")
     currency: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL';
     walletId?: string; // Optional source wallet ID
-  }): Promise<any> {
-    const idempotencyKey = `business-payout-${Date.now()}`;
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<BusinessPayout>> {
     const payout = await this.client.createBusinessPayout({
-      idempotencyKey,
+      idempotencyKey: params.idempotencyKey,
       destination: {
         type: params.destinationType,
         id: params.destinationId,
       },
-      amount: {
-        amount: params.amount,
-        currency: params.currency,
-      },
+      amount: Money.parsePositive(params.amount, params.currency),
       ...(params.walletId && {
         source: {
-          type: 'wallet',
+          type: 'wallet' as const,
           id: params.walletId,
         },
       }),
@@ -123,7 +126,7 @@ export class AccountAndTransferTester {
   /**
    * List business payouts
    */
-  async listBusinessPayouts(status?: 'pending' | 'complete' | 'failed'): Promise<any> {
+  async listBusinessPayouts(status?: TransactionStatus): Promise<CircleResponse<BusinessPayout[]>> {
     const payouts = await this.client.listBusinessPayouts(status ? { status } : undefined);
     return payouts;
   }
@@ -131,7 +134,7 @@ export class AccountAndTransferTester {
   /**
    * Get business payout status
    */
-  async getBusinessPayoutStatus(payoutId: string): Promise<any> {
+  async getBusinessPayoutStatus(payoutId: string): Promise<CircleResponse<BusinessPayout>> {
     const payout = await this.client.getBusinessPayout(payoutId);
     return payout;
   }
@@ -149,40 +152,36 @@ export class AccountAndTransferTester {
 
     // Step 2: Get or Create deposit address
     const blockchain = params?.blockchain || 'ETH';
-    let depositAddress;
+    let depositAddress: CircleResponse<DepositAddress> | undefined;
 
-    try {
-      const existingAddresses = await this.client.listBusinessDepositAddresses();
+    const existingAddresses = await this.client.listBusinessDepositAddresses();
 
-      if (existingAddresses.data && existingAddresses.data.length > 0) {
-        const matchedAddress = existingAddresses.data.find((addr: any) => addr.chain === blockchain);
+    if (existingAddresses.data && existingAddresses.data.length > 0) {
+      const matchedAddress = existingAddresses.data.find(addr => addr.chain === blockchain);
 
-        if (matchedAddress) {
-          depositAddress = { data: matchedAddress };
-        }
+      if (matchedAddress) {
+        depositAddress = { data: matchedAddress };
       }
+    }
 
-      if (!depositAddress) {
-        depositAddress = await this.createDepositAddress({ chain: blockchain, currency: 'USD' });
-      }
-    } catch (error: any) {
-      throw error;
+    if (!depositAddress) {
+      depositAddress = await this.createDepositAddress({ chain: blockchain, currency: 'USD' });
     }
+    this.logger.log(`Deposit address (${blockchain}): ${depositAddress.data?.address}`);
 
     // Step 3: Attempt test transfer if params provided or autoTest is true
     if (params?.testTransfer || (params?.autoTest && depositAddress.data?.address)) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
       let transferParams = params?.testTransfer;
 
       if (!transferParams && params?.autoTest && depositAddress.data?.address) {
-        let recipientId;
+        const { address } = depositAddress.data;
+        let recipientId: string | undefined;
 
         try {
           // Check if recipient already exists for this address
           const recipients = await this.client.listRecipientAddresses();
-          const existingRecipient = recipients.data?.find((r: any) =>
-            r.address === depositAddress.data.address && r.chain === blockchain
+          const existingRecipient = recipients.data?.find(r =>
+            r.address === address && r.chain === blockchain
           );
 
           if (existingRecipient) {
@@ -190,11 +189,11 @@ export class AccountAndTransferTester {
           } else {
             const newRecipient = await this.createRecipientAddress({
               chain: blockchain,
-              address: depositAddress.data.address,
-              description: `Auto-created for ${depositAddress.data.address}`,
+              address,
+              description: `Auto-created for ${address}`,
             });
             recipientId = newRecipient.data?.id;
-            await new Promise(resolve => setTimeout(resolve, 2000));
+            if (recipientId) await this.client.waitForRecipientVerified(recipientId);
           }
 
           if (recipientId) {
@@ -205,23 +204,24 @@ export class AccountAndTransferTester {
             });
 
             if (transfer.data?.id) {
-              await new Promise(resolve => setTimeout(resolve, 2000));
-              await this.getBusinessTransferStatus(transfer.data.id);
+              const settled = await this.client.waitForBusinessTransfer(transfer.data.id);
+              this.logger.log(`Test transfer ${settled.id}: ${settled.status}`);
             }
           }
 
-        } catch {
-          // Auto-transfer may fail if recipient not verified or low balance
+        } catch (error: unknown) {
+          // Auto-transfer may fail if the recipient is never verified, the balance is low or it does not settle in time
+          this.logger.warn(`Test transfer skipped: ${error instanceof Error ? error.message : String(error)}`);
         }
       } else if (transferParams) {
         try {
           const transfer = await this.createTransfer(transferParams);
           if (transfer.data?.id) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            await this.getTransferStatus(transfer.data.id);
+            const settled = await this.client.waitForPayout(transfer.data.id);
+            this.logger.log(`Test payout ${settled.id}: ${settled.status}`);
           }
-        } catch {
-          // Transfer failed
+        } catch (error: unknown) {
+          this.logger.warn(`Test payout failed: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
     }
@@ -234,11 +234,10 @@ export class AccountAndTransferTester {
     accountNumber?: string;
     routingNumber?: string;
     billingName?: string;
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
-
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<WireBankAccount>> {
     const params = {
-      idempotencyKey,
+      idempotencyKey: overrides?.idempotencyKey,
       accountNumber: overrides?.accountNumber ?? "12340010",
       routingNumber: overrides?.routingNumber ?? "121000248",
       billingDetails: {
@@ -267,8 +266,8 @@ export class AccountAndTransferTester {
   /**
    * List wire bank accounts
    */
-  async listWireBankAccounts(): Promise<any> {
-    const accounts = await this.client.listWireBankAccounts();
+  async listWireBankAccounts(params?: PageParams): Promise<CircleResponse<WireBankAccount[]>> {
+    const accounts = await this.client.listWireBankAccounts(params);
     return accounts;
   }
 
@@ -279,13 +278,10 @@ export class AccountAndTransferTester {
     trackingRef: string;
     amount: string;
     accountNumber: string;
-  }): Promise<any> {
+  }): Promise<CircleResponse<MockWirePayment>> {
     const payment = await this.client.createMockWirePayment({
       trackingRef: params.trackingRef,
-      amount: {
-        amount: params.amount,
-        currency: 'USD',
-      },
+      amount: Money.parsePositive(params.amount, 'USD'),
       beneficiaryBank: {
         accountNumber: params.accountNumber,
       },
@@ -297,7 +293,7 @@ export class AccountAndTransferTester {
   /**
    * Get wire bank account instructions
    */
-  async getWireBankAccountInstructions(id: string): Promise<any> {
+  async getWireBankAccountInstructions(id: string): Promise<CircleResponse<WireInstructions>> {
     const instructions = await this.client.getWireBankAccountInstructions(id);
     return instructions;
   }
@@ -310,21 +306,18 @@ export class AccountAndTransferTester {
     amount: string;
     currency: 'USD' | 'EUR' | 'BTC' | 'ETH';
     sourceWalletId?: string;
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<Transfer>> {
     const transfer = await this.client.createBusinessTransfer({
-      idempotencyKey,
+      idempotencyKey: params.idempotencyKey,
       destination: {
         type: 'verified_blockchain',
         addressId: params.recipientId,
       },
-      amount: {
-        amount: params.amount,
-        currency: params.currency,
-      },
+      amount: Money.parsePositive(params.amount, params.currency),
       ...(params.sourceWalletId && {
         source: {
-          type: 'wallet',
+          type: 'wallet' as const,
           id: params.sourceWalletId,
         },
       }),
@@ -336,7 +329,7 @@ export class AccountAndTransferTester {
   /**
    * Get business transfer status
    */
-  async getBusinessTransferStatus(transferId: string): Promise<any> {
+  async getBusinessTransferStatus(transferId: string): Promise<CircleResponse<Transfer>> {
     const transfer = await this.client.getBusinessTransfer(transferId);
     return transfer;
   }
@@ -349,10 +342,10 @@ export class AccountAndTransferTester {
     address: string;
     description: string;
     addressTag?: string;
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<RecipientAddress>> {
     const recipient = await this.client.createRecipientAddress({
-      idempotencyKey,
+      idempotencyKey: params.idempotencyKey,
       chain: params.chain,
       address: params.address,
       currency: 'USD',
@@ -366,15 +359,15 @@ export class AccountAndTransferTester {
   /**
    * List recipient addresses
    */
-  async listRecipientAddresses(): Promise<any> {
-    const recipients = await this.client.listRecipientAddresses();
+  async listRecipientAddresses(params?: PageParams): Promise<CircleResponse<RecipientAddress[]>> {
+    const recipients = await this.client.listRecipientAddresses(params);
     return recipients;
   }
 
   /**
    * Get a recipient address
    */
-  async getRecipientAddress(id: string): Promise<any> {
+  async getRecipientAddress(id: string): Promise<CircleResponse<RecipientAddress>> {
     const recipient = await this.client.getRecipientAddress(id);
     return recipient;
   }
@@ -385,10 +378,10 @@ export class AccountAndTransferTester {
   async createDepositAddress(params: {
     chain: string;
     currency: string;
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<DepositAddress>> {
     const address = await this.client.createDepositAddress({
-      idempotencyKey,
+      idempotencyKey: params.idempotencyKey,
       chain: params.chain,
       currency: params.currency,
     });
@@ -399,13 +392,15 @@ export class AccountAndTransferTester {
 
 // CLI Interface
 async function main() {
-  if (!config.apiKey) {
-    process.stderr.write('Error: CIRCLE_API_KEY is not set!\n');
+  const { confirm, args: rest } = takeConfirmFlag(process.argv.slice(2));
+  const { profile: profileName, args } = takeProfileFlag(rest);
+  const profile = getProfile(profileName);
+  if (!profile.apiKey) {
+    process.stderr.write(`Error: no API key for profile "${profile.name}" (set CIRCLE_API_KEY or use --profile <name>)\n`);
     process.exit(1);
   }
 
-  const tester = new AccountAndTransferTester();
-  const args = process.argv.slice(2);
+  const tester = new AccountAndTransferTester(new CircleMintClient({ profile: profile.name, confirm }));
   const command = args[0];
 
   try {
@@ -615,14 +610,21 @@ async function main() {
           '  business-transfer <rec-id> <amt> [curr]',
           '  test [chain] [addr] [chain] [amount] [currency]',
           '',
+          'Options:',
+          '  --profile <name>           - Use a named account from circle.profiles.json',
+          '  --confirm <token>          - Confirm writes in production (see safety.ts)',
+          '',
         ].join('\n'));
     }
-  } catch (error: any) {
-    process.stderr.write(`Fatal error: ${error.message}\n`);
+  } catch (error: unknown) {
+    process.stderr.write(`Fatal error: ${error instanceof Error ? error.message : String(error)}\n`);
     process.exit(1);
   }
 }
 
 if (process.argv[1] === fileURLToPath(import.meta.url)) {
-  main();
+  main().catch((error: unknown) => {
+    process.stderr.write(`Fatal error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  });
 }
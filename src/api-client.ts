@@ -0,0 +1,854 @@
+// Generated from src/openapi.ts by `npm run generate:api-client` — do not edit.
+
+/**
+ * Typed client for the dashboard REST API, for scripts
+ *
+ *   const api = new DashboardApiClient({ baseUrl: 'http://localhost:3000', token: process.env.DASHBOARD_TOKEN });
+ *   const { data } = await api.getBalance();
+ *
+ * Throws DashboardApiError on any non-2xx answer. After login(), later calls
+ * carry its session cookie.
+ */
+
+export interface ApiIssue {
+  path: string;
+  message: string;
+}
+
+/** Envelope of every Circle-backed route */
+export interface ApiResult<T = unknown> {
+  logs: string[];
+  correlationId: string;
+  /** null on error, and with `preview` */
+  data: T | null;
+  error?: string;
+  fields?: ApiIssue[];
+  issues?: ApiIssue[];
+  circleError?: Record<string, unknown>;
+  idempotencyConflict?: Record<string, unknown>;
+  blocked?: Record<string, unknown>;
+  paymentRequest?: Record<string, unknown>;
+  preview?: { method: string; url: string; headers: Record<string, string>; body?: unknown };
+}
+
+export interface DashboardApiOptions {
+  baseUrl: string;         // e.g. http://localhost:3000
+  token?: string;          // a token from CIRCLE_DASHBOARD_TOKENS
+  profile?: string;        // sent as X-Circle-Profile
+  confirm?: string;        // sent as X-Circle-Confirm, for production writes
+  preview?: boolean;       // sent as X-Circle-Preview: Circle requests are described, not sent
+}
+
+/** The JSON of a non-2xx answer: an ApiResult for Circle-backed routes, else just `error` and its detail */
+export type ApiErrorBody = Partial<ApiResult> & {
+  loginRequired?: boolean;
+  forbidden?: Record<string, unknown>;
+  approvalRequired?: Record<string, unknown>;
+};
+
+/** A non-2xx answer; `body` is its parsed JSON, if any */
+export class DashboardApiError extends Error {
+  constructor(readonly status: number, readonly body: ApiErrorBody | undefined) {
+    super(`${status}: ${body?.error ?? 'request failed'}`);
+    this.name = 'DashboardApiError';
+  }
+}
+
+interface RequestParts {
+  params?: Record<string, string | number>;
+  query?: object;
+  body?: object;
+}
+
+export interface Balance {
+  available: { amount: string; currency: string }[];
+  unsettled: { amount: string; currency: string }[];
+}
+
+export interface Wallet {
+  walletId: string;
+  entityId: string;
+  type?: string;
+  balances?: { amount: string; currency: string }[];
+}
+
+export interface DepositAddress {
+  id?: string;
+  address: string;
+  addressTag?: string;
+  currency?: string;
+  chain: string;
+}
+
+export interface Deposit {
+  id: string;
+  amount: { amount: string; currency: string };
+  status: 'pending' | 'complete' | 'failed';
+}
+
+export interface AddressBookRecipient {
+  id: string;
+  chain: string;
+  address: string;
+  status?: 'pending' | 'active' | 'inactive' | 'denied';
+}
+
+export interface Payout {
+  id: string;
+  destination?: { type: string; id: string };
+  amount: { amount: string; currency: string };
+  status: 'pending' | 'complete' | 'failed';
+}
+
+export interface BusinessPayout {
+  id: string;
+  destination?: { type: string; id: string };
+  amount: { amount: string; currency: string };
+  fees?: { amount: string; currency: string };
+  status: 'pending' | 'complete' | 'failed';
+}
+
+export interface WireBankAccount {
+  id: string;
+  status: 'pending' | 'complete' | 'failed';
+  description?: string;
+  trackingRef?: string;
+}
+
+export interface WireInstructions {
+  trackingRef: string;
+  beneficiary?: { name?: string };
+  beneficiaryBank: { name?: string; routingNumber?: string; accountNumber: string; currency?: string };
+}
+
+export interface MockWirePayment {
+  trackingRef: string;
+  amount: { amount: string; currency: string };
+  status?: 'pending' | 'complete' | 'failed';
+}
+
+export interface RecipientAddress {
+  id: string;
+  address: string;
+  chain: string;
+  currency?: string;
+  description?: string;
+}
+
+export interface Transfer {
+  id: string;
+  destination?: { type: string; addressId?: string };
+  amount: { amount: string; currency: string };
+  status: 'pending' | 'complete' | 'failed';
+}
+
+export interface ExpressRoute {
+  id: string;
+  receiptAddressId?: string;
+  destinationBankAccountId?: string;
+}
+
+export interface Subscription {
+  id: string;
+  endpoint: string;
+  subscriptionDetails?: { url: string; status: string }[];
+}
+
+export interface ProfileSummary {
+  name: string;
+  environment: 'sandbox' | 'production' | 'local';
+  baseUrl: string;
+  description?: string;
+  hasApiKey: boolean;
+  isDefault: boolean;
+  readOnly: boolean;
+}
+
+export interface AuthUser {
+  name: string;
+  via: 'session' | 'token' | 'local';
+  role: 'viewer' | 'operator' | 'approver';
+}
+
+export interface PaymentRequest {
+  id: string;
+  kind: 'payout' | 'businessPayout' | 'businessTransfer';
+  /** The Circle request body approving it sends */
+  params: { idempotencyKey?: string; destination: { type: string; id?: string; addressId?: string }; amount: { amount: string; currency: string } };
+  profile?: string;
+  status: 'pending' | 'executed' | 'rejected' | 'failed';
+  requestedBy: string;
+  /** ISO-8601; when it was submitted */
+  requestedAt: string;
+  decidedBy?: string;
+  /** ISO-8601; when it was approved or rejected */
+  decidedAt?: string;
+  /** Given on rejection */
+  reason?: string;
+  /** The payout or transfer created on approval */
+  resourceId?: string;
+  /** Why Circle refused it */
+  error?: string;
+}
+
+export interface StoredNotification {
+  id: number;
+  /** ISO-8601; when this server received it */
+  timestamp: string;
+  /** notificationType, e.g. payouts */
+  type: string;
+  resourceId?: string;
+  status?: string;
+  payload: Record<string, unknown>;
+  verification: Record<string, unknown>;
+}
+
+export interface SnsSubscription {
+  topicArn: string;
+  state: 'awaiting_confirmation' | 'confirming' | 'confirmed' | 'confirmation_failed' | 'unsubscribed';
+  subscribeUrl?: string;
+  /** ISO-8601; of the last change */
+  updatedAt: string;
+  error?: string;
+}
+
+export interface TrackedResource {
+  kind: 'payout' | 'businessPayout' | 'businessTransfer';
+  id: string;
+  profile?: string;
+  status: string;
+  terminal: boolean;
+  createdAt: string;
+  updatedAt: string;
+  timeline: ({ at: string; status: string; source: 'created' | 'webhook' | 'poll' })[];
+}
+
+export interface AuditEntry {
+  seq: number;
+  /** ISO-8601; when the call started */
+  timestamp: string;
+  /** e.g. dashboard:alice, mcp:mcp-agent, cli:jane */
+  actor: string;
+  profile?: string;
+  environment: string;
+  method: string;
+  endpoint: string;
+  /** Request body, redacted */
+  request?: Record<string, unknown>;
+  outcome: 'ok' | 'error' | 'blocked' | 'replayed';
+  /** Circle's HTTP status, when it answered */
+  status?: number;
+  circleRequestId?: string;
+  durationMs: number;
+  error?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  entries: number;
+  /** seq of the first entry whose hash or link does not match */
+  brokenAt?: number;
+}
+
+export interface ReplayResult {
+  notificationId: number;
+  endpoint: string;
+  status: number;
+  ok: boolean;
+}
+
+export interface ClientMethod {
+  name: string;
+  summary: string;
+  role?: 'operator' | 'approver';
+  payment?: boolean;
+  /** Schema of its arguments */
+  args: Record<string, unknown>;
+}
+
+export interface LoginBody {
+  password: string;
+}
+
+export interface ListDepositsQuery {
+  /** Items per page, 1–50 */
+  pageSize?: number;
+  /** Return items newer than this id */
+  pageBefore?: string;
+  /** Return items older than this id */
+  pageAfter?: string;
+  /** ISO-8601; only items created at or after this time */
+  from?: string;
+  /** ISO-8601; only items created at or before this time */
+  to?: string;
+  /** Walk every page and return all items */
+  all?: boolean;
+}
+
+export interface CreateDepositAddressBody {
+  /** Blockchain, e.g. ETH, SOL, MATIC */
+  chain: string;
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface ListAddressBookRecipientsQuery {
+  /** Items per page, 1–50 */
+  pageSize?: number;
+  /** Return items newer than this id */
+  pageBefore?: string;
+  /** Return items older than this id */
+  pageAfter?: string;
+  /** ISO-8601; only items created at or after this time */
+  from?: string;
+  /** ISO-8601; only items created at or before this time */
+  to?: string;
+  /** Walk every page and return all items */
+  all?: boolean;
+}
+
+export interface CreateAddressBookRecipientBody {
+  /** Blockchain, e.g. ETH, SOL, MATIC */
+  chain: string;
+  address: string;
+  addressTag?: string;
+  nickname?: string;
+  email?: string;
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface ListPayoutsQuery {
+  /** Items per page, 1–50 */
+  pageSize?: number;
+  /** Return items newer than this id */
+  pageBefore?: string;
+  /** Return items older than this id */
+  pageAfter?: string;
+  /** ISO-8601; only items created at or after this time */
+  from?: string;
+  /** ISO-8601; only items created at or before this time */
+  to?: string;
+  /** Walk every page and return all items */
+  all?: boolean;
+}
+
+export interface CreatePayoutBody {
+  recipientId: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount: string;
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+  /** Submit as a payment request for an approver instead of sending (always on with CIRCLE_REQUIRE_APPROVAL) */
+  requestApproval?: boolean;
+}
+
+export interface ListWireBankAccountsQuery {
+  /** Items per page, 1–50 */
+  pageSize?: number;
+  /** Return items newer than this id */
+  pageBefore?: string;
+  /** Return items older than this id */
+  pageAfter?: string;
+  /** ISO-8601; only items created at or after this time */
+  from?: string;
+  /** ISO-8601; only items created at or before this time */
+  to?: string;
+  /** Walk every page and return all items */
+  all?: boolean;
+}
+
+export interface CreateWireBankAccountBody {
+  accountNumber?: string;
+  routingNumber?: string;
+  billingName?: string;
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface CreateMockWirePaymentBody {
+  trackingRef: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount?: string;
+  accountNumber: string;
+}
+
+export interface CreateWirePayoutBody {
+  bankId: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount: string;
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+  /** Submit as a payment request for an approver instead of sending (always on with CIRCLE_REQUIRE_APPROVAL) */
+  requestApproval?: boolean;
+}
+
+export interface ListRecipientsQuery {
+  /** Items per page, 1–50 */
+  pageSize?: number;
+  /** Return items newer than this id */
+  pageBefore?: string;
+  /** Return items older than this id */
+  pageAfter?: string;
+  /** ISO-8601; only items created at or after this time */
+  from?: string;
+  /** ISO-8601; only items created at or before this time */
+  to?: string;
+  /** Walk every page and return all items */
+  all?: boolean;
+}
+
+export interface CreateRecipientBody {
+  /** Blockchain, e.g. ETH, SOL, MATIC */
+  chain: string;
+  address: string;
+  description: string;
+  addressTag?: string;
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface CreateBusinessTransferBody {
+  recipientId: string;
+  /** Default: "1.00" */
+  amount?: string;
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+  /** Submit as a payment request for an approver instead of sending (always on with CIRCLE_REQUIRE_APPROVAL) */
+  requestApproval?: boolean;
+}
+
+export interface LinkExpressRouteBankBody {
+  accountNumber?: string;
+  routingNumber?: string;
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface LinkExpressRouteReceiptAddressBody {
+  /** Blockchain, e.g. ETH, SOL, MATIC */
+  chain?: string;
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface CreateExpressRouteMockDepositBody {
+  trackingRef: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount?: string;
+  accountNumber?: string;
+}
+
+export interface CreateExpressRouteOnChainDepositBody {
+  address: string;
+  /** Blockchain, e.g. ETH, SOL, MATIC */
+  chain?: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount?: string;
+}
+
+export interface CreateExpressRouteTransferBody {
+  recipientId: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount?: string;
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface CreateExpressRouteWithdrawalBody {
+  bankAccountId: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount?: string;
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface CreateExpressRouteBody {
+  receiptAddressId: string;
+  bankAccountId: string;
+  /** Default: wire */
+  destinationType?: 'wire' | 'sepa' | 'sepa_instant';
+  /** Default: USD */
+  currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | 'BTC' | 'ETH' | 'USDC' | 'EURC';
+  /** UUID; resending the same key returns the first result instead of creating a duplicate */
+  idempotencyKey?: string;
+}
+
+export interface RunExpressRouteBody {
+  /** Blockchain, e.g. ETH, SOL, MATIC */
+  chain?: string;
+  /** Decimal amount as a string, e.g. "10.00" */
+  amount?: string;
+}
+
+export interface CreateSubscriptionBody {
+  /** Public HTTPS URL */
+  endpoint: string;
+}
+
+export interface ConfirmSnsSubscriptionBody {
+  topicArn: string;
+}
+
+export interface ListNotificationsQuery {
+  /** notificationType, e.g. payouts */
+  type?: string;
+  resourceId?: string;
+  status?: string;
+  /** ISO-8601; inclusive */
+  since?: string;
+  /** ISO-8601; exclusive */
+  until?: string;
+  /** Only notifications stored after this id */
+  afterId?: number;
+  /** Only the newest this many */
+  limit?: number;
+}
+
+export interface ReplayNotificationBody {
+  /** URL to post to */
+  endpoint: string;
+}
+
+export interface ListPaymentRequestsQuery {
+  status?: 'pending' | 'executed' | 'rejected' | 'failed';
+  kind?: 'payout' | 'businessPayout' | 'businessTransfer';
+}
+
+export interface RejectPaymentRequestBody {
+  reason?: string;
+}
+
+export interface ListAuditEntriesQuery {
+  actor?: string;
+  profile?: string;
+  method?: string;
+  /** Substring of the Circle endpoint */
+  endpoint?: string;
+  outcome?: 'ok' | 'error' | 'blocked' | 'replayed';
+  /** ISO-8601; inclusive */
+  since?: string;
+  /** ISO-8601; exclusive */
+  until?: string;
+  /** Only the newest this many */
+  limit?: number;
+}
+
+export interface CallClientMethodBody {
+  [key: string]: unknown;
+}
+
+export interface SendRawRequestBody {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Circle path with any query string, e.g. /v1/businessAccount/balances */
+  path: string;
+  /** JSON body of a POST, PUT or PATCH */
+  body?: Record<string, unknown>;
+}
+
+export class DashboardApiClient {
+  // The session cookie login() was answered with, sent on every later call
+  private session?: string;
+
+  constructor(private readonly options: DashboardApiOptions) {}
+
+  private async request<T>(method: string, path: string, parts: RequestParts = {}): Promise<T> {
+    const url = new URL(path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String(parts.params?.[name]))), this.options.baseUrl);
+    for (const [name, value] of Object.entries(parts.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(name, String(value));
+    }
+    const headers: Record<string, string> = {};
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+    if (this.session) headers.Cookie = this.session;
+    if (this.options.profile) headers['X-Circle-Profile'] = this.options.profile;
+    if (this.options.confirm) headers['X-Circle-Confirm'] = this.options.confirm;
+    if (this.options.preview) headers['X-Circle-Preview'] = 'true';
+    if (parts.body) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(url, { method, headers, body: parts.body ? JSON.stringify(parts.body) : undefined });
+    // Set by login(), emptied by logout()
+    const session = response.headers.getSetCookie().find(cookie => cookie.startsWith('circle_session='))?.split(';')[0];
+    if (session !== undefined) this.session = session === 'circle_session=' ? undefined : session;
+
+    const text = await response.text();
+    const json: unknown = text ? JSON.parse(text) : undefined;
+    if (!response.ok) throw new DashboardApiError(response.status, json as ApiErrorBody | undefined);
+    return json as T;
+  }
+
+  /** Sign in with the dashboard password or a token; sets the session cookie */
+  login(body: LoginBody): Promise<{ data: AuthUser }> {
+    return this.request('POST', '/api/login', { body });
+  }
+
+  /** Sign out */
+  logout(): Promise<{ data: { signedOut: boolean } }> {
+    return this.request('POST', '/api/logout');
+  }
+
+  /** The signed-in user and their role */
+  getMe(): Promise<{ data: AuthUser }> {
+    return this.request('GET', '/api/me');
+  }
+
+  /** OpenAPI 3 document of this API */
+  getOpenApiDocument(): Promise<Record<string, unknown>> {
+    return this.request('GET', '/api/openapi.json');
+  }
+
+  /** Push a local test notification to every dashboard (operator) */
+  sendTestNotification(): Promise<{ ok: boolean }> {
+    return this.request('POST', '/api/test-notification');
+  }
+
+  /** Configured Circle profiles */
+  listProfiles(): Promise<ApiResult<{ data: ProfileSummary[] }>> {
+    return this.request('GET', '/api/profiles');
+  }
+
+  /** Wallets of the account */
+  getAccount(): Promise<ApiResult<{ data: Wallet[] }>> {
+    return this.request('GET', '/api/account');
+  }
+
+  /** Available and unsettled balances */
+  getBalance(): Promise<ApiResult<{ data: Balance }>> {
+    return this.request('GET', '/api/balance');
+  }
+
+  /** Supported chains and currencies */
+  listChains(): Promise<ApiResult<{ data: Record<string, unknown> }>> {
+    return this.request('GET', '/api/chains');
+  }
+
+  /** Deposits */
+  listDeposits(query: ListDepositsQuery = {}): Promise<ApiResult<{ data: Deposit[] }>> {
+    return this.request('GET', '/api/deposits', { query });
+  }
+
+  /** Blockchain deposit addresses */
+  listDepositAddresses(): Promise<ApiResult<{ data: DepositAddress[] }>> {
+    return this.request('GET', '/api/deposits/addresses');
+  }
+
+  /** Create a blockchain deposit address (operator) */
+  createDepositAddress(body: CreateDepositAddressBody): Promise<ApiResult<{ data: DepositAddress }>> {
+    return this.request('POST', '/api/deposits/addresses', { body });
+  }
+
+  /** Address book recipients */
+  listAddressBookRecipients(query: ListAddressBookRecipientsQuery = {}): Promise<ApiResult<{ data: AddressBookRecipient[] }>> {
+    return this.request('GET', '/api/payouts/address-book', { query });
+  }
+
+  /** Add an address book recipient (operator) */
+  createAddressBookRecipient(body: CreateAddressBookRecipientBody): Promise<ApiResult<{ data: AddressBookRecipient }>> {
+    return this.request('POST', '/api/payouts/address-book', { body });
+  }
+
+  /** Delete an address book recipient (operator) */
+  deleteAddressBookRecipient(params: { id: string }): Promise<ApiResult> {
+    return this.request('DELETE', '/api/payouts/address-book/:id', { params });
+  }
+
+  /** Payouts */
+  listPayouts(query: ListPayoutsQuery = {}): Promise<ApiResult<{ data: Payout[] }>> {
+    return this.request('GET', '/api/payouts', { query });
+  }
+
+  /** Pay out to an address book recipient (approvers), or request it (operators) (operator) */
+  createPayout(body: CreatePayoutBody): Promise<ApiResult<{ data: PaymentRequest } | { data: Payout }>> {
+    return this.request('POST', '/api/payouts', { body });
+  }
+
+  /** Linked wire bank accounts */
+  listWireBankAccounts(query: ListWireBankAccountsQuery = {}): Promise<ApiResult<{ data: WireBankAccount[] }>> {
+    return this.request('GET', '/api/banks/wires', { query });
+  }
+
+  /** Link a wire bank account (sandbox defaults for omitted fields) (operator) */
+  createWireBankAccount(body: CreateWireBankAccountBody = {}): Promise<ApiResult<{ data: WireBankAccount }>> {
+    return this.request('POST', '/api/banks/wires', { body });
+  }
+
+  /** Wire instructions for a linked bank account */
+  getWireInstructions(params: { id: string }): Promise<ApiResult<{ data: WireInstructions }>> {
+    return this.request('GET', '/api/banks/wires/:id/instructions', { params });
+  }
+
+  /** Sandbox: simulate an incoming wire (operator) */
+  createMockWirePayment(body: CreateMockWirePaymentBody): Promise<ApiResult<{ data: MockWirePayment }>> {
+    return this.request('POST', '/api/mocks/wire', { body });
+  }
+
+  /** Wire out to a linked bank account (approvers), or request it (operators) (operator) */
+  createWirePayout(body: CreateWirePayoutBody): Promise<ApiResult<{ data: PaymentRequest } | { data: BusinessPayout }>> {
+    return this.request('POST', '/api/payouts/wire', { body });
+  }
+
+  /** Verified recipient addresses */
+  listRecipients(query: ListRecipientsQuery = {}): Promise<ApiResult<{ data: RecipientAddress[] }>> {
+    return this.request('GET', '/api/recipients', { query });
+  }
+
+  /** Add a recipient address (operator) */
+  createRecipient(body: CreateRecipientBody): Promise<ApiResult<{ data: RecipientAddress }>> {
+    return this.request('POST', '/api/recipients', { body });
+  }
+
+  /** Transfer on-chain to a recipient address (approvers), or request it (operators) (operator) */
+  createBusinessTransfer(body: CreateBusinessTransferBody): Promise<ApiResult<{ data: PaymentRequest } | { data: Transfer }>> {
+    return this.request('POST', '/api/transfers/business', { body });
+  }
+
+  /** Step 1: link a bank account (operator) */
+  linkExpressRouteBank(body: LinkExpressRouteBankBody = {}): Promise<ApiResult<{ data: WireBankAccount }>> {
+    return this.request('POST', '/api/express-route/link-bank', { body });
+  }
+
+  /** Step 2: create the receipt address (operator) */
+  linkExpressRouteReceiptAddress(body: LinkExpressRouteReceiptAddressBody = {}): Promise<ApiResult<{ data: DepositAddress }>> {
+    return this.request('POST', '/api/express-route/link-receipt', { body });
+  }
+
+  /** Step 3: sandbox wire deposit (operator) */
+  createExpressRouteMockDeposit(body: CreateExpressRouteMockDepositBody): Promise<ApiResult<{ data: MockWirePayment }>> {
+    return this.request('POST', '/api/express-route/mock-deposit', { body });
+  }
+
+  /** Step 4: sandbox on-chain deposit (operator) */
+  createExpressRouteOnChainDeposit(body: CreateExpressRouteOnChainDepositBody): Promise<ApiResult<{ data: Record<string, unknown> }>> {
+    return this.request('POST', '/api/express-route/onchain-deposit', { body });
+  }
+
+  /** Step 5: on-chain transfer (approver) */
+  createExpressRouteTransfer(body: CreateExpressRouteTransferBody): Promise<ApiResult<{ data: Transfer }>> {
+    return this.request('POST', '/api/express-route/transfer', { body });
+  }
+
+  /** Step 6: withdraw to the bank (approver) */
+  createExpressRouteWithdrawal(body: CreateExpressRouteWithdrawalBody): Promise<ApiResult<{ data: BusinessPayout }>> {
+    return this.request('POST', '/api/express-route/withdraw', { body });
+  }
+
+  /** Step 7: create the Express Route (operator) */
+  createExpressRoute(body: CreateExpressRouteBody): Promise<ApiResult<{ data: ExpressRoute }>> {
+    return this.request('POST', '/api/express-route/create', { body });
+  }
+
+  /** Run all seven steps (approver) */
+  runExpressRoute(body: RunExpressRouteBody = {}): Promise<ApiResult> {
+    return this.request('POST', '/api/express-route/run', { body });
+  }
+
+  /** Circle notification subscriptions */
+  listSubscriptions(): Promise<ApiResult<{ data: Subscription[] }>> {
+    return this.request('GET', '/api/notifications/subscriptions');
+  }
+
+  /** Subscribe an endpoint to Circle notifications (operator) */
+  createSubscription(body: CreateSubscriptionBody): Promise<ApiResult<{ data: Subscription }>> {
+    return this.request('POST', '/api/notifications/subscriptions', { body });
+  }
+
+  /** Delete a subscription (operator) */
+  deleteSubscription(params: { id: string }): Promise<ApiResult> {
+    return this.request('DELETE', '/api/notifications/subscriptions/:id', { params });
+  }
+
+  /** SNS subscription confirmations seen on /webhooks */
+  listSnsSubscriptions(): Promise<ApiResult<{ data: SnsSubscription[] }>> {
+    return this.request('GET', '/api/notifications/sns');
+  }
+
+  /** Confirm a pending SNS subscription (operator) */
+  confirmSnsSubscription(body: ConfirmSnsSubscriptionBody): Promise<ApiResult<{ data: SnsSubscription }>> {
+    return this.request('POST', '/api/notifications/sns/confirm', { body });
+  }
+
+  /** Received notifications, oldest first */
+  listNotifications(query: ListNotificationsQuery = {}): Promise<ApiResult<{ data: StoredNotification[] }>> {
+    return this.request('GET', '/api/notifications', { query });
+  }
+
+  /** A received notification */
+  getNotification(params: { id: number }): Promise<ApiResult<{ data: StoredNotification }>> {
+    return this.request('GET', '/api/notifications/:id', { params });
+  }
+
+  /** Post a received notification to an endpoint again (operator) */
+  replayNotification(params: { id: number }, body: ReplayNotificationBody): Promise<ApiResult<{ data: ReplayResult }>> {
+    return this.request('POST', '/api/notifications/:id/replay', { params, body });
+  }
+
+  /** Payment requests */
+  listPaymentRequests(query: ListPaymentRequestsQuery = {}): Promise<ApiResult<{ data: PaymentRequest[] }>> {
+    return this.request('GET', '/api/payment-requests', { query });
+  }
+
+  /** A payment request */
+  getPaymentRequest(params: { id: string }): Promise<ApiResult<{ data: PaymentRequest }>> {
+    return this.request('GET', '/api/payment-requests/:id', { params });
+  }
+
+  /** Approve and send a payment request (not your own) (approver) */
+  approvePaymentRequest(params: { id: string }): Promise<ApiResult<{ data: PaymentRequest }>> {
+    return this.request('POST', '/api/payment-requests/:id/approve', { params });
+  }
+
+  /** Reject a payment request (approver) */
+  rejectPaymentRequest(params: { id: string }, body: RejectPaymentRequestBody = {}): Promise<ApiResult<{ data: PaymentRequest }>> {
+    return this.request('POST', '/api/payment-requests/:id/reject', { params, body });
+  }
+
+  /** Payouts and transfers followed to a final status */
+  listTrackedResources(): Promise<ApiResult<{ data: TrackedResource[] }>> {
+    return this.request('GET', '/api/tracker');
+  }
+
+  /** A tracked payout or transfer */
+  getTrackedResource(params: { id: string }): Promise<ApiResult<{ data: TrackedResource }>> {
+    return this.request('GET', '/api/tracker/:id', { params });
+  }
+
+  /** Audit log entries, oldest first */
+  listAuditEntries(query: ListAuditEntriesQuery = {}): Promise<ApiResult<{ data: AuditEntry[] }>> {
+    return this.request('GET', '/api/audit', { query });
+  }
+
+  /** Check the audit log hash chain */
+  verifyAuditLog(): Promise<ApiResult<{ data: AuditVerification }>> {
+    return this.request('GET', '/api/audit/verify');
+  }
+
+  /** CircleMintClient methods with the schema of their arguments */
+  listClientMethods(): Promise<ApiResult<{ data: ClientMethod[] }>> {
+    return this.request('GET', '/api/explorer/methods');
+  }
+
+  /** Call a CircleMintClient method; the body is its arguments. The role it needs depends on the method */
+  callClientMethod(params: { name: string }, body: CallClientMethodBody = {}): Promise<ApiResult> {
+    return this.request('POST', '/api/explorer/methods/:name', { params, body });
+  }
+
+  /** Send any request to Circle under an allowed path (CIRCLE_RAW_PATHS); writes need the approver role */
+  sendRawRequest(body: SendRawRequestBody): Promise<ApiResult> {
+    return this.request('POST', '/api/raw', { body });
+  }
+}
@@ -0,0 +1,278 @@
+import crypto from 'crypto';
+import { appendFile, mkdir, open, readFile, rm, stat } from 'fs/promises';
+import { userInfo } from 'os';
+import { dirname } from 'path';
+
+/**
+ * Tamper-evident audit log of every Circle API call
+ *
+ * CircleMintClient appends one entry per request — including calls the safety
+ * guard refused and journal replays — with who made it (the actor), the
+ * request body (redacted, see redact.ts), Circle's status and request id, and the duration.
+ * Each entry carries the hash of the one before it, so editing or deleting a
+ * line breaks the chain from there on; `verifyChain` finds the first break.
+ * Removing the newest entries leaves a shorter chain that is still valid:
+ * verification cannot detect a truncated tail, so keep a copy of the latest
+ * hash elsewhere (or ship the log off the machine) if that matters.
+ */
+
+export type AuditOutcome = 'ok' | 'error' | 'blocked' | 'replayed';
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;         // ISO-8601, when the call started
+  actor: string;             // "dashboard:alice", "mcp:mcp-agent", "cli:jane"
+  profile?: string;
+  environment: string;
+  method: string;
+  endpoint: string;
+  request?: unknown;         // request body, redacted
+  outcome: AuditOutcome;
+  status?: number;           // Circle's HTTP status, when it answered
+  circleRequestId?: string;
+  durationMs: number;
+  error?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'seq' | 'prevHash' | 'hash'>;
+
+export interface AuditFilter {
+  actor?: string;
+  profile?: string;
+  method?: string;
+  endpoint?: string;   // substring
+  outcome?: AuditOutcome;
+  since?: string;      // ISO-8601, inclusive
+  until?: string;      // ISO-8601, exclusive
+  limit?: number;      // newest first when set
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  entries: number;
+  /** seq of the first entry whose hash or link does not match */
+  brokenAt?: number;
+}
+
+export interface AuditLog {
+  append(entry: NewAuditEntry): Promise<AuditEntry>;
+  /** Oldest first */
+  list(filter?: AuditFilter): Promise<AuditEntry[]>;
+  verify(): Promise<AuditVerification>;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Who calls made in this process are attributed to, unless the client names
+ * an actor: CIRCLE_AUDIT_ACTOR, else the OS user running the CLI
+ */
+export function defaultActor(): string {
+  if (process.env.CIRCLE_AUDIT_ACTOR) return process.env.CIRCLE_AUDIT_ACTOR;
+  try {
+    return `cli:${userInfo().username}`;
+  } catch {
+    return 'cli';
+  }
+}
+
+// ─── Hash chain ──────────────────────────────────────────────────────────
+
+export function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+function chain(entry: NewAuditEntry, previous: AuditEntry | undefined): AuditEntry {
+  const linked = { seq: (previous?.seq ?? 0) + 1, ...entry, prevHash: previous?.hash ?? GENESIS_HASH };
+  return { ...linked, hash: hashEntry(linked) };
+}
+
+/**
+ * Recompute every hash and link, oldest first. Entries missing from the end
+ * go unnoticed: compare the last hash with one recorded elsewhere for that.
+ */
+export function verifyChain(entries: AuditEntry[]): AuditVerification {
+  let prevHash = GENESIS_HASH;
+  for (const entry of entries) {
+    const { hash, ...rest } = entry;
+    if (entry.prevHash !== prevHash || hashEntry(rest) !== hash) {
+      return { ok: false, entries: entries.length, brokenAt: entry.seq };
+    }
+    prevHash = hash;
+  }
+  return { ok: true, entries: entries.length };
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  return (filter.actor === undefined || entry.actor === filter.actor)
+    && (filter.profile === undefined || entry.profile === filter.profile)
+    && (filter.method === undefined || entry.method === filter.method.toUpperCase())
+    && (filter.endpoint === undefined || entry.endpoint.includes(filter.endpoint))
+    && (filter.outcome === undefined || entry.outcome === filter.outcome)
+    && (filter.since === undefined || entry.timestamp >= filter.since)
+    && (filter.until === undefined || entry.timestamp < filter.until);
+}
+
+function select(all: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const found = all.filter(e => matches(e, filter));
+  return filter.limit === undefined ? found : found.slice(-filter.limit);
+}
+
+// ─── Stores ──────────────────────────────────────────────────────────────
+
+export class MemoryAuditLog implements AuditLog {
+  private all: AuditEntry[] = [];
+
+  async append(entry: NewAuditEntry): Promise<AuditEntry> {
+    const chained = chain(entry, this.all[this.all.length - 1]);
+    this.all.push(chained);
+    return chained;
+  }
+
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    return select(this.all, filter);
+  }
+
+  async verify(): Promise<AuditVerification> {
+    return verifyChain(this.all);
+  }
+}
+
+// Enough for any single entry; only the last line of the file is needed to chain
+const TAIL_BYTES = 64 * 1024;
+
+// How often to retry a held lock, and when a lock is presumed left behind by a crashed process
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 10_000;
+
+/**
+ * Run `fn` while holding `lockPath`, created with O_EXCL so that only one
+ * process at a time gets past this point
+ */
+async function withLockFile<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  for (;;) {
+    try {
+      const lock = await open(lockPath, 'wx');
+      await lock.writeFile(String(process.pid));
+      await lock.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const held = await stat(lockPath).catch(() => undefined);
+      if (held && Date.now() - held.mtimeMs > LOCK_STALE_MS) {
+        await rm(lockPath, { force: true });
+        continue;
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Append-only JSONL. The server, the MCP server and the CLI may all write it,
+ * so every append links to the file's current last line rather than a cached
+ * one, holding `<path>.lock` from reading that line until its own is written.
+ */
+export class FileAuditLog implements AuditLog {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  async append(entry: NewAuditEntry): Promise<AuditEntry> {
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      return withLockFile(`${this.path}.lock`, async () => {
+        const { last, endsLine } = await this.tail();
+        const chained = chain(entry, last);
+        // After a torn line, start a new one rather than run on from it
+        await appendFile(this.path, (endsLine ? '' : '\n') + JSON.stringify(chained) + '\n');
+        return chained;
+      });
+    });
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const entries = await this.readLines();
+    return select(entries.filter((e): e is AuditEntry => e !== undefined), filter);
+  }
+
+  async verify(): Promise<AuditVerification> {
+    const entries = await this.readLines();
+    // A line that no longer parses breaks the chain where it stands
+    const unreadable = entries.indexOf(undefined);
+    if (unreadable >= 0) {
+      return { ok: false, entries: entries.length, brokenAt: (entries[unreadable - 1]?.seq ?? 0) + 1 };
+    }
+    return verifyChain(entries as AuditEntry[]);
+  }
+
+  private async readLines(): Promise<(AuditEntry | undefined)[]> {
+    await this.writes;
+    const text = await readFile(this.path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    });
+    return text.split('\n').filter(line => line.trim()).map(line => {
+      try {
+        return JSON.parse(line) as AuditEntry;
+      } catch {
+        return undefined;
+      }
+    });
+  }
+
+  /**
+   * The last entry that parses, and whether the file ends with a complete line.
+   * A crash mid-append leaves a torn line: the chain goes on from the entry
+   * before it, and verify reports the break where the torn line stands.
+   */
+  private async tail(): Promise<{ last?: AuditEntry; endsLine: boolean }> {
+    const file = await open(this.path, 'r').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    });
+    if (!file) return { endsLine: true };
+    try {
+      const { size } = await file.stat();
+      const length = Math.min(size, TAIL_BYTES);
+      const buffer = Buffer.alloc(length);
+      await file.read(buffer, 0, length, size - length);
+      const text = buffer.toString('utf8');
+      const endsLine = size === 0 || text.endsWith('\n');
+      const lines = text.split('\n').filter(line => line.trim());
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          return { last: JSON.parse(lines[i]) as AuditEntry, endsLine };
+        } catch {
+          // Torn, or cut off by the start of the window
+        }
+      }
+      return { endsLine };
+    } finally {
+      await file.close();
+    }
+  }
+}
+
+const fileAuditLogs = new Map<string, FileAuditLog>();
+
+/**
+ * One log instance per path, so appends from every client in the process are serialized
+ */
+export function fileAuditLog(path: string): FileAuditLog {
+  let log = fileAuditLogs.get(path);
+  if (!log) {
+    log = new FileAuditLog(path);
+    fileAuditLogs.set(path, log);
+  }
+  return log;
+}
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import { config } from './config.js';
+import { parseRoles, roleOf, type Role } from './roles.js';
+
+/**
+ * Who may use the dashboard and its REST API
+ *
+ * - CIRCLE_DASHBOARD_PASSWORD — signs in as "admin" from the dashboard's login
+ *   form, which sets a session cookie
+ * - CIRCLE_DASHBOARD_TOKENS — "alice:token1,bob:token2"; send
+ *   `Authorization: Bearer <token>`, or sign in with the token for a session
+ * With neither set, only requests from this machine are served (as "local");
+ * requests that came through a proxy or tunnel (X-Forwarded-For) never count
+ * as local. POST /webhooks is not under /api and needs no login. What a user
+ * may do once signed in is their role (see roles.ts).
+ */
+
+export interface AuthUser {
+  name: string;
+  via: 'session' | 'token' | 'local';
+  role: Role;
+}
+
+export interface AuthSettings {
+  password: string;
+  tokens: Map<string, string>;  // token → user name
+  roles: Map<string, Role>;     // user name → role
+  sessionTtlMs: number;
+}
+
+/**
+ * Parse "alice:token1,bob:token2"
+ */
+export function parseTokens(spec: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const part of (spec ?? '').split(',').map(p => p.trim()).filter(Boolean)) {
+    const separator = part.indexOf(':');
+    if (separator <= 0 || separator === part.length - 1) {
+      throw new Error(`Invalid CIRCLE_DASHBOARD_TOKENS entry "${part.slice(0, separator > 0 ? separator : undefined)}…": expected user:token`);
+    }
+    tokens.set(part.slice(separator + 1), part.slice(0, separator));
+  }
+  return tokens;
+}
+
+/** Read on every request, so a changed environment (or test) applies at once */
+export function authSettingsFromConfig(): AuthSettings {
+  return {
+    password: config.dashboardPassword,
+    tokens: parseTokens(config.dashboardTokens),
+    roles: parseRoles(config.dashboardRoles),
+    sessionTtlMs: config.sessionTtlHours * 60 * 60 * 1000,
+  };
+}
+
+export function authConfigured(settings: AuthSettings): boolean {
+  return Boolean(settings.password) || settings.tokens.size > 0;
+}
+
+/** Constant-time string comparison */
+function same(a: string, b: string): boolean {
+  const digest = (s: string) => crypto.createHash('sha256').update(s).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+function userForToken(settings: AuthSettings, token: string): string | undefined {
+  for (const [candidate, name] of settings.tokens) {
+    if (same(candidate, token)) return name;
+  }
+  return undefined;
+}
+
+/**
+ * The user a login form's secret signs in as: the password is "admin", a token its owner
+ */
+export function userForSecret(settings: AuthSettings, secret: string): string | undefined {
+  if (!secret) return undefined;
+  if (settings.password && same(settings.password, secret)) return 'admin';
+  return userForToken(settings, secret);
+}
+
+// ─── Sessions ────────────────────────────────────────────────────────────
+
+export const SESSION_COOKIE = 'circle_session';
+
+/**
+ * In-memory sessions; a restart signs everyone out
+ */
+export class SessionStore {
+  private sessions = new Map<string, { user: string; expiresAt: number }>();
+
+  create(user: string, ttlMs: number): string {
+    const id = crypto.randomBytes(32).toString('base64url');
+    this.sessions.set(id, { user, expiresAt: Date.now() + ttlMs });
+    return id;
+  }
+
+  get(id: string): string | undefined {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return session.user;
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+}
+
+/**
+ * Cookies from a Cookie header; a value that is not valid percent-encoding is skipped
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) continue;
+    try {
+      cookies[part.slice(0, separator).trim()] = decodeURIComponent(part.slice(separator + 1).trim());
+    } catch {
+      // Another site's cookie on this host must not break the request
+    }
+  }
+  return cookies;
+}
+
+// ─── Authentication ──────────────────────────────────────────────────────
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+function isLocalRequest(req: IncomingMessage): boolean {
+  return LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress ?? '') && !req.headers['x-forwarded-for'];
+}
+
+/**
+ * The user behind a request, or undefined when it must sign in
+ */
+export function authenticate(req: IncomingMessage, settings: AuthSettings, sessions: SessionStore): AuthUser | undefined {
+  const user = (name: string, via: AuthUser['via']): AuthUser => ({ name, via, role: roleOf(name, settings.roles) });
+
+  if (!authConfigured(settings)) {
+    return isLocalRequest(req) ? user('local', 'local') : undefined;
+  }
+
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')?.[1];
+  if (bearer) {
+    const name = userForToken(settings, bearer.trim());
+    return name ? user(name, 'token') : undefined;
+  }
+
+  const sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  const name = sessionId ? sessions.get(sessionId) : undefined;
+  return name ? user(name, 'session') : undefined;
+}
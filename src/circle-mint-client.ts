@@ -1,16 +1,265 @@
-import { config } from './config.js';
+import { defaultActor, fileAuditLog, type AuditLog, type AuditOutcome } from './audit.js';
+import { config, type ClientConfig, type Environment } from './config.js';
+import { CircleApiError, CircleResponseValidationError, circleApiErrorFromResponse } from './errors.js';
+import { appendPageParams, MAX_PAGE_SIZE, withPageParams, type PageParams } from './pagination.js';
+import {
+  fileJournal,
+  hashRequest,
+  journalKey,
+  IdempotencyConflictError,
+  InvalidIdempotencyKeyError,
+  isValidIdempotencyKey,
+  uuidKeyProvider,
+  type IdempotencyJournal,
+  type IdempotencyKeyProvider,
+  type JournalEntry,
+} from './idempotency.js';
+import { Money } from './money.js';
+import { getProfile } from './profiles.js';
+import {
+  accountId,
+  canonicalPath,
+  FileSpendLedger,
+  policyFromConfig,
+  SafetyBlockedError,
+  SafetyGuard,
+  type SafetyPolicy,
+  type SpendLedger,
+} from './safety.js';
+import { currentLogger, type Logger } from './logger.js';
+import { redact, redactor, redactText } from './redact.js';
+import { findResponseSchema } from './response-schemas.js';
+import {
+  backoffDelay,
+  defaultRetryPolicy,
+  isRepeatable,
+  logRetry,
+  parseRetryAfter,
+  sleep,
+  type RequestAttempt,
+  type RetryPolicy,
+} from './retry.js';
+import { validateSchema } from './schema.js';
+import { waitFor, type WaitCheck, type WaitOptions } from './wait.js';
+import type {
+  Amount,
+  AddressBookRecipient,
+  Balance,
+  BusinessPayout,
+  CircleResponse,
+  Deposit,
+  DepositAddress,
+  ExpressRoute,
+  MockBlockchainPayment,
+  MockWirePayment,
+  NotificationPublicKey,
+  Payout,
+  RecipientAddress,
+  Subscription,
+  SupportedChains,
+  TransactionStatus,
+  Transfer,
+  Wallet,
+  WireBankAccount,
+  WireInstructions,
+} from './types.js';
+
+/**
+ * The only exemption from the HTTPS requirement: plain HTTP to a loopback
+ * address, and only in CIRCLE_ENV=local (the emulator in emulator.ts).
+ */
+function isLocalEmulatorUrl(url: string, environment: Environment): boolean {
+  if (environment !== 'local' || !url.startsWith('http://')) return false;
+  const { hostname } = new URL(url);
+  return hostname === '127.0.0.1' || hostname === 'localhost' || hostname === '[::1]';
+}
+
+/**
+ * Validate and format the amount at its currency's precision ("1" → "1.00");
+ * throws InvalidAmountError before anything is sent
+ */
+function withAmount<P extends { amount: Amount | Money }>(params: P): P & { amount: Amount } {
+  return { ...params, amount: Money.from(params.amount).toAmount() };
+}
+
+/**
+ * Map a payout / transfer / deposit status onto a wait check
+ */
+function settled<T extends { status: TransactionStatus; errorCode?: string }>(resource: T): WaitCheck<T> {
+  if (resource.status === 'complete') return { state: 'done', value: resource };
+  if (resource.status === 'failed') {
+    return { state: 'failed', value: resource, reason: `failed${resource.errorCode ? ` (${resource.errorCode})` : ''}` };
+  }
+  return { state: 'pending', value: resource };
+}
+
+function jsonBody(body: RequestInit['body']): Record<string, unknown> | undefined {
+  if (typeof body !== 'string') return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export const RAW_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Endpoints whose POST creates a resource worth following to a final status (see tracker.ts)
+const TRACKED_ENDPOINTS = {
+  '/v1/payouts': 'payout',
+  '/v1/businessAccount/payouts': 'businessPayout',
+  '/v1/businessAccount/transfers': 'businessTransfer',
+} as const;
+
+export type CreatedResourceKind = typeof TRACKED_ENDPOINTS[keyof typeof TRACKED_ENDPOINTS];
+
+export interface CreatedResource {
+  kind: CreatedResourceKind;
+  id: string;
+  status: TransactionStatus;
+  /** Profile of the client that created it, to poll its status under */
+  profile?: string;
+}
+
+/** A Circle request as it would go on the wire, redacted (see redact.ts) */
+export interface CircleRequestPreview {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Thrown instead of sending when the client was built with `preview`
+ */
+export class RequestPreviewedError extends Error {
+  constructor(readonly request: CircleRequestPreview) {
+    super(`Not sent (preview): ${request.method} ${request.url}`);
+    this.name = 'RequestPreviewedError';
+  }
+}
+
+export interface CircleMintClientOptions {
+  /** Account to talk to; takes precedence over `profile` */
+  config?: ClientConfig;
+  /** Named profile from circle.profiles.json (default: CIRCLE_PROFILE, then the file's default) */
+  profile?: string;
+  /** Validate every response against its endpoint schema (default: CIRCLE_STRICT_RESPONSES) */
+  strict?: boolean;
+  /** Overrides for the retry policy (default: 3 attempts, CIRCLE_RETRY_MAX_ATTEMPTS) */
+  retry?: Partial<RetryPolicy>;
+  /** Called after every attempt, including the final one (default: log retries to console) */
+  onAttempt?: (attempt: RequestAttempt) => void;
+  /** Source of idempotency keys when the caller doesn't supply one (default: random UUIDs) */
+  idempotencyKeys?: IdempotencyKeyProvider;
+  /** Replay journal for keyed POSTs; null disables it (default: CIRCLE_IDEMPOTENCY_JOURNAL file) */
+  journal?: IdempotencyJournal | null;
+  /** Overrides for the safety policy (default: CIRCLE_READ_ONLY, CIRCLE_MAX_AMOUNT, CIRCLE_DAILY_LIMIT, CIRCLE_CONFIRM_TOKEN) */
+  safety?: Partial<SafetyPolicy>;
+  /** Tally behind the daily limit (default: CIRCLE_SPEND_LEDGER file) */
+  spendLedger?: SpendLedger;
+  /** Confirmation token for writes in production (see safety.ts) */
+  confirm?: string;
+  /** Called after a payout, business payout or business transfer was created (including journal replays) */
+  onCreated?: (created: CreatedResource) => void;
+  /** Who calls are attributed to in the audit log, e.g. "dashboard:alice" (default: CIRCLE_AUDIT_ACTOR, else "cli:<os user>") */
+  actor?: string;
+  /** Audit log every call is appended to; null disables it (default: CIRCLE_AUDIT_LOG file) */
+  audit?: AuditLog | null;
+  /** Where retries, replays and warnings are logged (default: the current request's logger, else the console; see logger.ts) */
+  logger?: Logger;
+  /**
+   * Describe each request to this callback instead of sending it; the call then
+   * rejects with RequestPreviewedError. Nothing reaches Circle, the guard, the journal or the audit log.
+   */
+  preview?: (request: CircleRequestPreview) => void;
+}
+
+/** What one request learned on its way, for the audit log */
+interface CallTrace {
+  status?: number;
+  requestId?: string;
+  replayed?: boolean;
+}
+
+// Keyed POSTs currently on the wire (by journalKey), so concurrent duplicates share one request
+const inFlight = new Map<string, Omit<JournalEntry, 'key' | 'response'> & { promise: Promise<unknown> }>();
 
 /**
  * Circle Mint API Client
  * Handles authentication and API requests to Circle Mint endpoints
  */
 export class CircleMintClient {
+  /** Name of the profile this client was built from, when it came from one */
+  readonly profile?: string;
+  readonly environment: Environment;
   private apiKey: string;
   private baseUrl: string;
+  private strict: boolean;
+  private retry: RetryPolicy;
+  private onAttempt: (attempt: RequestAttempt) => void;
+  private idempotencyKeys: IdempotencyKeyProvider;
+  private journal: IdempotencyJournal | null;
+  private account: string;
+  private guard: SafetyGuard;
+  private onCreated?: (created: CreatedResource) => void;
+  private actor: string;
+  private audit: AuditLog | null;
+  private preview?: (request: CircleRequestPreview) => void;
+  readonly logger: Logger;
+
+  constructor(options: CircleMintClientOptions = {}) {
+    let account: ClientConfig;
+    if (options.config) {
+      account = options.config;
+    } else {
+      const profile = getProfile(options.profile);
+      this.profile = profile.name;
+      account = profile;
+    }
+    this.environment = account.environment;
+    this.apiKey = account.apiKey;
+    // The key may show up in an error or a logged header; never print it
+    redactor.addSecret(this.apiKey);
+    this.baseUrl = account.baseUrl;
+    this.strict = options.strict ?? config.strictResponses;
+    this.retry = { ...defaultRetryPolicy, maxAttempts: config.retryMaxAttempts, ...options.retry };
+    this.logger = options.logger ?? currentLogger();
+    this.onAttempt = options.onAttempt ?? (attempt => logRetry(attempt, this.logger));
+    this.idempotencyKeys = options.idempotencyKeys ?? uuidKeyProvider;
+    this.journal = options.journal !== undefined
+      ? options.journal
+      : config.idempotencyJournal === 'off' ? null : fileJournal(config.idempotencyJournal);
+    this.account = accountId(account);
+    this.guard = new SafetyGuard(
+      { ...account, name: this.profile },
+      { ...policyFromConfig(), ...options.safety },
+      options.spendLedger ?? new FileSpendLedger(config.spendLedger),
+      options.confirm
+    );
+    this.onCreated = options.onCreated;
+    this.actor = options.actor ?? defaultActor();
+    this.audit = options.audit !== undefined
+      ? options.audit
+      : config.auditLog === 'off' ? null : fileAuditLog(config.auditLog);
+    this.preview = options.preview;
+  }
 
-  constructor() {
-    this.apiKey = config.apiKey;
-    this.baseUrl = config.baseUrl;
+  /**
+   * A fresh idempotency key from the configured provider
+   */
+  newIdempotencyKey(): string {
+    const key = this.idempotencyKeys();
+    if (!isValidIdempotencyKey(key)) throw new InvalidIdempotencyKeyError(key);
+    return key;
+  }
+
+  /**
+   * Fill in a missing idempotencyKey; a caller-supplied key is kept so retries can reuse it
+   */
+  private withKey<P extends { idempotencyKey?: string }>(params: P): P & { idempotencyKey: string } {
+    return { ...params, idempotencyKey: params.idempotencyKey ?? this.newIdempotencyKey() };
   }
 
   /**
@@ -20,42 +269,270 @@ export class CircleMintClient {
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    raw = false
+  ): Promise<T> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    const payload = jsonBody(options.body);
+    if (this.preview) {
+      // A raw request the guard would refuse is not described as if it could be sent
+      if (raw) this.guard.authorizeRaw(method, endpoint);
+      const request: CircleRequestPreview = {
+        method,
+        url: `${this.baseUrl}${endpoint}`,
+        headers: redact(this.headers(options)),
+        ...(payload && { body: redact(payload) }),
+      };
+      this.preview(request);
+      throw new RequestPreviewedError(request);
+    }
+    const started = Date.now();
+    const trace: CallTrace = {};
+    let failure: unknown;
+    try {
+      // Refused calls never reach the network (raw allow-list, read-only, production mocks, limits, confirmation)
+      if (raw) this.guard.authorizeRaw(method, endpoint);
+      const spend = await this.guard.authorize(method, endpoint, payload);
+
+      let response: T;
+      try {
+        response = await this.dispatch<T>(method, endpoint, payload, options, trace, async () => {
+          if (spend) await this.guard.record(spend);
+        });
+      } finally {
+        if (spend) this.guard.release(spend);
+      }
+      if (method === 'POST') this.reportCreated(endpoint, response);
+      return response;
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      await this.recordAudit(method, endpoint, payload, started, trace, failure);
+    }
+  }
+
+  /**
+   * Append the call to the audit log; a failing log is reported, never fatal to the call
+   */
+  private async recordAudit(
+    method: string,
+    endpoint: string,
+    payload: Record<string, unknown> | undefined,
+    started: number,
+    trace: CallTrace,
+    failure: unknown
+  ): Promise<void> {
+    if (!this.audit) return;
+    const outcome: AuditOutcome = failure instanceof SafetyBlockedError ? 'blocked'
+      : failure !== undefined ? 'error'
+      : trace.replayed ? 'replayed' : 'ok';
+    const status = trace.status ?? (failure instanceof CircleApiError ? failure.status : undefined);
+    const circleRequestId = trace.requestId ?? (failure instanceof CircleApiError ? failure.requestId : undefined);
+    try {
+      await this.audit.append({
+        timestamp: new Date(started).toISOString(),
+        actor: this.actor,
+        ...(this.profile && { profile: this.profile }),
+        environment: this.environment,
+        method,
+        endpoint,
+        ...(payload && { request: redact(payload) }),
+        outcome,
+        ...(status !== undefined && { status }),
+        ...(circleRequestId && { circleRequestId }),
+        durationMs: Date.now() - started,
+        ...(failure !== undefined && { error: redactText(failure instanceof Error ? failure.message : String(failure)) }),
+      });
+    } catch (error) {
+      this.logger.error(`⚠️  Could not write the audit log: ${(error as Error).message}`);
+    }
+  }
+
+  private reportCreated(endpoint: string, response: unknown): void {
+    const kind = TRACKED_ENDPOINTS[endpoint as keyof typeof TRACKED_ENDPOINTS];
+    const data = (response as CircleResponse<{ id?: unknown; status?: TransactionStatus }> | undefined)?.data;
+    if (!kind || !this.onCreated || typeof data?.id !== 'string') return;
+    this.onCreated({ kind, id: data.id, status: data.status ?? 'pending', ...(this.profile && { profile: this.profile }) });
+  }
+
+  /**
+   * Everything after the guard; `onSent` runs once Circle accepted the request
+   * (not for journal replays)
+   */
+  private async dispatch<T>(
+    method: string,
+    endpoint: string,
+    payload: Record<string, unknown> | undefined,
+    options: RequestInit,
+    trace: CallTrace,
+    onSent: () => Promise<void>
   ): Promise<T> {
     // Ensure HTTPS is used (required by Circle APIs)
     const url = `${this.baseUrl}${endpoint}`;
-    if (!url.startsWith('https://')) {
+    if (!url.startsWith('https://') && !isLocalEmulatorUrl(url, this.environment)) {
       throw new Error('Circle APIs require HTTPS. All requests must be made over HTTPS.');
     }
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
+    if (this.environment === 'local') {
+      const { ensureLocalEmulator } = await import('./emulator.js');
+      await ensureLocalEmulator(this.baseUrl);
+    }
+
+    const send = async () => {
+      const response = await this.send<T>(method, endpoint, url, options, trace);
+      await onSent();
+      return response;
+    };
+    if (payload?.idempotencyKey !== undefined) {
+      return this.journaled<T>(method, endpoint, payload, trace, send);
+    }
+    return send();
+  }
+
+  /**
+   * Keyed POST: replay an identical earlier request from the journal, refuse a
+   * reused key with a different request, otherwise send and record the response.
+   */
+  private async journaled<T>(
+    method: string,
+    endpoint: string,
+    payload: Record<string, unknown>,
+    trace: CallTrace,
+    send: () => Promise<T>
+  ): Promise<T> {
+    const key = payload.idempotencyKey;
+    if (!isValidIdempotencyKey(key)) throw new InvalidIdempotencyKeyError(key);
+
+    const account = this.account;
+    const requestHash = hashRequest(account, method, endpoint, payload);
+    const filed = journalKey(account, key);
+    const pending = inFlight.get(filed);
+    if (pending) {
+      if (pending.requestHash !== requestHash) throw new IdempotencyConflictError(key, pending);
+      trace.replayed = true;
+      return pending.promise as Promise<T>;
+    }
+
+    const createdAt = new Date().toISOString();
+    const promise = (async () => {
+      const previous = await this.journal?.get(account, key);
+      if (previous) {
+        if (previous.requestHash !== requestHash) throw new IdempotencyConflictError(key, previous);
+        this.logger.log(`↺ ${method} ${endpoint} replayed from journal (idempotencyKey ${key})`);
+        trace.replayed = true;
+        return previous.response as T;
+      }
+      const response = await send();
+      await this.journal?.record({ account, key, method, endpoint, requestHash, response, createdAt });
+      return response;
+    })();
+
+    inFlight.set(filed, { account, method, endpoint, requestHash, createdAt, promise });
+    try {
+      return await promise;
+    } finally {
+      inFlight.delete(filed);
+    }
+  }
+
+  /**
+   * Send the request and parse / validate the response
+   */
+  private async send<T>(method: string, endpoint: string, url: string, options: RequestInit, trace: CallTrace): Promise<T> {
+    const response = await this.fetchWithRetry(method, endpoint, url, options);
+    trace.status = response.status;
+    trace.requestId = response.headers.get('x-request-id') ?? undefined;
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: response.statusText }));
-      throw new Error(
-        `Circle Mint API Error (${response.status}): ${JSON.stringify(error)}`
-      );
+      throw await circleApiErrorFromResponse(response, method, endpoint);
     }
 
-    return response.json() as Promise<T>;
+    // DELETE endpoints may answer with an empty body
+    const text = await response.text();
+    const body = text ? JSON.parse(text) : undefined;
+
+    if (this.strict) {
+      const schema = findResponseSchema(method, endpoint);
+      const issues = schema ? validateSchema(schema, body) : [];
+      if (issues.length > 0) {
+        throw new CircleResponseValidationError(method, endpoint, issues);
+      }
+    }
+
+    return body as T;
+  }
+
+  private headers(options: RequestInit): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'Content-Type': 'application/json',
+      ...options.headers as Record<string, string> | undefined,
+    };
+  }
+
+  /**
+   * Send a request, retrying 429/5xx responses and network errors with backoff.
+   * Only repeatable requests (idempotent method, or POST with idempotencyKey) are retried.
+   */
+  private async fetchWithRetry(
+    method: string,
+    endpoint: string,
+    url: string,
+    options: RequestInit
+  ): Promise<Response> {
+    const maxAttempts = isRepeatable(method, options.body) ? this.retry.maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const started = Date.now();
+      const report = (result: { status?: number; error?: string; delayMs?: number }) =>
+        this.onAttempt({
+          method,
+          endpoint,
+          attempt,
+          maxAttempts,
+          durationMs: Date.now() - started,
+          willRetry: result.delayMs !== undefined,
+          ...result,
+        });
+
+      let response: Response;
+      try {
+        response = await fetch(url, { ...options, headers: this.headers(options) });
+      } catch (error) {
+        const delayMs = attempt < maxAttempts ? backoffDelay(this.retry, attempt) : undefined;
+        report({ error: (error as Error).message, delayMs });
+        if (delayMs === undefined) throw error;
+        await sleep(delayMs);
+        continue;
+      }
+
+      let delayMs: number | undefined;
+      if (attempt < maxAttempts && this.retry.retryStatuses.includes(response.status)) {
+        delayMs = parseRetryAfter(response.headers.get('retry-after')) ?? backoffDelay(this.retry, attempt);
+        // Circle asked for a longer pause than we are willing to wait — give up now
+        if (delayMs > this.retry.maxDelayMs) delayMs = undefined;
+      }
+      report({ status: response.status, delayMs });
+      if (delayMs === undefined) return response;
+
+      await response.body?.cancel();
+      await sleep(delayMs);
+    }
   }
 
   /**
    * Get account balance
    * Note: Accounts API was deprecated. Use business account endpoints instead.
    */
-  async getBalance(): Promise<any> {
+  async getBalance(): Promise<CircleResponse<Balance>> {
     // Try the balances endpoint directly
     try {
       return await this.request('/v1/balances');
     } catch (error) {
+      // A malformed response is not a missing endpoint — don't mask it
+      if (error instanceof CircleResponseValidationError) throw error;
+
       // If that fails, try business account balance
       try {
         return await this.request('/v1/businessAccount/balances');
@@ -72,7 +549,7 @@ export class CircleMintClient {
   async listDepositAddresses(params?: {
     accountId?: string;
     blockchain?: string;
-  }): Promise<any> {
+  }): Promise<CircleResponse<DepositAddress[]>> {
     const queryParams = new URLSearchParams();
     if (params?.accountId) queryParams.append('accountId', params.accountId);
     if (params?.blockchain) queryParams.append('blockchain', params.blockchain);
@@ -83,18 +560,25 @@ export class CircleMintClient {
     try {
       const endpoint = query ? `/v1/paymentIntents?${query}` : '/v1/paymentIntents';
       return await this.request(endpoint);
-    } catch (error: any) {
+    } catch (error) {
       // Fallback to deposits/addresses
-      if (error.message.includes('404')) {
+      if (error instanceof CircleApiError && error.isNotFound) {
         try {
           const endpoint = query ? `/v1/deposits/addresses?${query}` : '/v1/deposits/addresses';
           return await this.request(endpoint);
         } catch (fallbackError) {
-          throw new Error(
-            `Deposit addresses endpoint not found. This may require account setup or ` +
-            `the Crypto Deposits API may not be enabled for your account. ` +
-            `Original error: ${error.message}`
-          );
+          if (!(fallbackError instanceof CircleApiError && fallbackError.isNotFound)) throw fallbackError;
+          throw new CircleApiError({
+            status: fallbackError.status,
+            code: fallbackError.code,
+            message:
+              `Deposit addresses endpoint not found. This may require account setup or ` +
+              `the Crypto Deposits API may not be enabled for your account. ` +
+              `Original error: ${error.circleMessage}`,
+            requestId: fallbackError.requestId,
+            method: fallbackError.method,
+            endpoint: fallbackError.endpoint,
+          });
         }
       }
       throw error;
@@ -109,11 +593,12 @@ export class CircleMintClient {
     accountId?: string;
     blockchain?: string;
     status?: string;
-  }): Promise<any> {
+  } & PageParams): Promise<CircleResponse<Deposit[]>> {
     const queryParams = new URLSearchParams();
     if (params?.accountId) queryParams.append('accountId', params.accountId);
     if (params?.blockchain) queryParams.append('blockchain', params.blockchain);
     if (params?.status) queryParams.append('status', params.status);
+    appendPageParams(queryParams, params);
 
     const query = queryParams.toString();
 
@@ -121,18 +606,25 @@ export class CircleMintClient {
     try {
       const endpoint = query ? `/v1/paymentIntents?${query}` : '/v1/paymentIntents';
       return await this.request(endpoint);
-    } catch (error: any) {
+    } catch (error) {
       // Fallback to deposits endpoint
-      if (error.message.includes('404')) {
+      if (error instanceof CircleApiError && error.isNotFound) {
         try {
           const endpoint = query ? `/v1/deposits?${query}` : '/v1/deposits';
           return await this.request(endpoint);
         } catch (fallbackError) {
-          throw new Error(
-            `Deposits endpoint not found. This may require account setup or ` +
-            `the Crypto Deposits API may not be enabled for your account. ` +
-            `Original error: ${error.message}`
-          );
+          if (!(fallbackError instanceof CircleApiError && fallbackError.isNotFound)) throw fallbackError;
+          throw new CircleApiError({
+            status: fallbackError.status,
+            code: fallbackError.code,
+            message:
+              `Deposits endpoint not found. This may require account setup or ` +
+              `the Crypto Deposits API may not be enabled for your account. ` +
+              `Original error: ${error.circleMessage}`,
+            requestId: fallbackError.requestId,
+            method: fallbackError.method,
+            endpoint: fallbackError.endpoint,
+          });
         }
       }
       throw error;
@@ -145,7 +637,7 @@ export class CircleMintClient {
    * Reference: POST /v1/addressBook/recipients
    */
   async createAddressBookRecipient(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     chain: string;
     address: string;
     addressTag?: string;
@@ -154,24 +646,24 @@ export class CircleMintClient {
       email?: string;
       bns?: string;
     };
-  }): Promise<any> {
+  }): Promise<CircleResponse<AddressBookRecipient>> {
     return this.request('/v1/addressBook/recipients', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(params)),
     });
   }
 
   /**
    * List address book recipients
    */
-  async listAddressBookRecipients(): Promise<any> {
-    return this.request('/v1/addressBook/recipients');
+  async listAddressBookRecipients(params?: PageParams): Promise<CircleResponse<AddressBookRecipient[]>> {
+    return this.request(withPageParams('/v1/addressBook/recipients', params));
   }
 
   /**
    * Delete an address book recipient
    */
-  async deleteAddressBookRecipient(id: string): Promise<any> {
+  async deleteAddressBookRecipient(id: string): Promise<void> {
     return this.request(`/v1/addressBook/recipients/${id}`, {
       method: 'DELETE',
     });
@@ -183,7 +675,7 @@ export class CircleMintClient {
    * Reference: POST /v1/payouts
    */
   async createPayout(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     destination: {
       type: 'address_book';
       id: string; // address book recipient UUID
@@ -191,22 +683,22 @@ export class CircleMintClient {
     amount: {
       amount: string;
       currency: 'USD' | 'EUR';
-    };
+    } | Money;
     source?: {
       type: 'wallet';
       id: string;
     };
-  }): Promise<any> {
+  }): Promise<CircleResponse<Payout>> {
     return this.request('/v1/payouts', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(withAmount(params))),
     });
   }
 
   /**
    * Get payout information
    */
-  async getPayout(payoutId: string): Promise<any> {
+  async getPayout(payoutId: string): Promise<CircleResponse<Payout>> {
     return this.request(`/v1/payouts/${payoutId}`);
   }
 
@@ -216,10 +708,11 @@ export class CircleMintClient {
   async listPayouts(params?: {
     accountId?: string;
     status?: string;
-  }): Promise<any> {
+  } & PageParams): Promise<CircleResponse<Payout[]>> {
     const queryParams = new URLSearchParams();
     if (params?.accountId) queryParams.append('accountId', params.accountId);
     if (params?.status) queryParams.append('status', params.status);
+    appendPageParams(queryParams, params);
 
     const query = queryParams.toString();
     const endpoint = query ? `/v1/payouts?${query}` : '/v1/payouts';
@@ -233,7 +726,7 @@ export class CircleMintClient {
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/create-business-payout
    */
   async createBusinessPayout(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     destination: {
       type: 'wire' | 'cubix' | 'pix' | 'sepa' | 'sepa_instant';
       id: string; // Bank account ID
@@ -241,7 +734,7 @@ export class CircleMintClient {
     amount: {
       amount: string; // Fiat amount as string (e.g., "100.00")
       currency: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL';
-    };
+    } | Money;
     toAmount?: {
       currency: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL';
     };
@@ -249,17 +742,17 @@ export class CircleMintClient {
       type: 'wallet';
       id: string; // Wallet ID
     };
-  }): Promise<any> {
+  }): Promise<CircleResponse<BusinessPayout>> {
     return this.request('/v1/businessAccount/payouts', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(withAmount(params))),
     });
   }
 
   /**
    * Get business payout information
    */
-  async getBusinessPayout(payoutId: string): Promise<any> {
+  async getBusinessPayout(payoutId: string): Promise<CircleResponse<BusinessPayout>> {
     return this.request(`/v1/businessAccount/payouts/${payoutId}`);
   }
 
@@ -267,10 +760,11 @@ export class CircleMintClient {
    * List business payouts
    */
   async listBusinessPayouts(params?: {
-    status?: 'pending' | 'complete' | 'failed';
-  }): Promise<any> {
+    status?: TransactionStatus;
+  } & PageParams): Promise<CircleResponse<BusinessPayout[]>> {
     const queryParams = new URLSearchParams();
     if (params?.status) queryParams.append('status', params.status);
+    appendPageParams(queryParams, params);
 
     const query = queryParams.toString();
     const endpoint = query ? `/v1/businessAccount/payouts?${query}` : '/v1/businessAccount/payouts';
@@ -281,7 +775,7 @@ export class CircleMintClient {
   /**
    * Get supported chains and currencies
    */
-  async getSupportedChains(): Promise<any> {
+  async getSupportedChains(): Promise<CircleResponse<Record<string, unknown>> | SupportedChains> {
     // This endpoint may vary - checking common patterns
     try {
       return await this.request('/v1/config');
@@ -304,7 +798,7 @@ export class CircleMintClient {
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/create-business-wire-account
    */
   async createWireBankAccount(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     accountNumber: string;
     routingNumber: string;
     billingDetails: {
@@ -324,10 +818,10 @@ export class CircleMintClient {
       line2?: string;
       district?: string;
     };
-  }): Promise<any> {
+  }): Promise<CircleResponse<WireBankAccount>> {
     return this.request('/v1/businessAccount/banks/wires', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(params)),
     });
   }
 
@@ -335,8 +829,8 @@ export class CircleMintClient {
    * List wire bank accounts
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/list-business-wire-accounts
    */
-  async listWireBankAccounts(): Promise<any> {
-    return this.request('/v1/businessAccount/banks/wires');
+  async listWireBankAccounts(params?: PageParams): Promise<CircleResponse<WireBankAccount[]>> {
+    return this.request(withPageParams('/v1/businessAccount/banks/wires', params));
   }
 
   /**
@@ -348,14 +842,14 @@ export class CircleMintClient {
     amount: {
       amount: string;
       currency: 'USD';
-    };
+    } | Money;
     beneficiaryBank: {
       accountNumber: string;
     };
-  }): Promise<any> {
+  }): Promise<CircleResponse<MockWirePayment>> {
     return this.request('/v1/mocks/payments/wire', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(withAmount(params)),
     });
   }
 
@@ -363,7 +857,7 @@ export class CircleMintClient {
    * Get wire bank account instructions
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/get-business-wire-account-instructions
    */
-  async getWireBankAccountInstructions(id: string): Promise<any> {
+  async getWireBankAccountInstructions(id: string): Promise<CircleResponse<WireInstructions>> {
     return this.request(`/v1/businessAccount/banks/wires/${id}/instructions`);
   }
 
@@ -372,7 +866,7 @@ export class CircleMintClient {
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/create-business-transfer
    */
   async createBusinessTransfer(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     destination: {
       type: 'verified_blockchain';
       addressId: string;
@@ -380,15 +874,15 @@ export class CircleMintClient {
     amount: {
       amount: string;
       currency: 'USD' | 'EUR' | 'BTC' | 'ETH';
-    };
+    } | Money;
     source?: {
       type: 'wallet';
       id: string;
     };
-  }): Promise<any> {
+  }): Promise<CircleResponse<Transfer>> {
     return this.request('/v1/businessAccount/transfers', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(withAmount(params))),
     });
   }
 
@@ -396,7 +890,7 @@ export class CircleMintClient {
    * Get a business transfer
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/get-business-transfer
    */
-  async getBusinessTransfer(id: string): Promise<any> {
+  async getBusinessTransfer(id: string): Promise<CircleResponse<Transfer>> {
     return this.request(`/v1/businessAccount/transfers/${id}`);
   }
 
@@ -405,16 +899,16 @@ export class CircleMintClient {
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/create-business-recipient-address
    */
   async createRecipientAddress(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     address: string;
     chain: string;
     currency: string;
     description: string;
     addressTag?: string;
-  }): Promise<any> {
+  }): Promise<CircleResponse<RecipientAddress>> {
     return this.request('/v1/businessAccount/wallets/addresses/recipient', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(params)),
     });
   }
 
@@ -422,15 +916,15 @@ export class CircleMintClient {
    * List recipient addresses
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/list-business-recipient-addresses
    */
-  async listRecipientAddresses(): Promise<any> {
-    return this.request('/v1/businessAccount/wallets/addresses/recipient');
+  async listRecipientAddresses(params?: PageParams): Promise<CircleResponse<RecipientAddress[]>> {
+    return this.request(withPageParams('/v1/businessAccount/wallets/addresses/recipient', params));
   }
 
   /**
    * Get a recipient address
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/get-business-recipient-address
    */
-  async getRecipientAddress(id: string): Promise<any> {
+  async getRecipientAddress(id: string): Promise<CircleResponse<RecipientAddress>> {
     return this.request(`/v1/businessAccount/wallets/addresses/recipient/${id}`);
   }
 
@@ -439,13 +933,13 @@ export class CircleMintClient {
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/create-business-deposit-address
    */
   async createDepositAddress(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     currency: string;
     chain: string;
-  }): Promise<any> {
+  }): Promise<CircleResponse<DepositAddress>> {
     return this.request('/v1/businessAccount/wallets/addresses/deposit', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(params)),
     });
   }
 
@@ -453,7 +947,7 @@ export class CircleMintClient {
    * List business deposit addresses
    * Reference: https://developers.circle.com/api-reference/circle-mint/account/list-business-deposit-addresses
    */
-  async listBusinessDepositAddresses(): Promise<any> {
+  async listBusinessDepositAddresses(): Promise<CircleResponse<DepositAddress[]>> {
     return this.request('/v1/businessAccount/wallets/addresses/deposit');
   }
 
@@ -467,12 +961,12 @@ export class CircleMintClient {
     amount: {
       amount: string;
       currency: 'USD' | 'USDC';
-    };
+    } | Money;
     chain: string;
-  }): Promise<any> {
+  }): Promise<CircleResponse<MockBlockchainPayment>> {
     return this.request('/v1/mocks/payments/blockchain', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(withAmount(params)),
     });
   }
 
@@ -482,55 +976,193 @@ export class CircleMintClient {
    * Reference: POST /v1/businessAccount/expressRoute
    */
   async createExpressRoute(params: {
-    idempotencyKey: string;
+    idempotencyKey?: string;
     receiptAddressId: string; // deposit address ID
     destinationBankAccountId: string; // wire bank account ID
     destinationType: 'wire' | 'sepa' | 'sepa_instant';
     currency: 'USD' | 'EUR';
-  }): Promise<any> {
+  }): Promise<CircleResponse<ExpressRoute>> {
     return this.request('/v1/businessAccount/expressRoute', {
       method: 'POST',
-      body: JSON.stringify(params),
+      body: JSON.stringify(this.withKey(params)),
     });
   }
 
   // ─── Notification Subscriptions ────────────────────────────────────────
 
-  async createSubscription(endpoint: string): Promise<any> {
+  async createSubscription(endpoint: string): Promise<CircleResponse<Subscription>> {
     return this.request('/v1/notifications/subscriptions', {
       method: 'POST',
       body: JSON.stringify({ endpoint }),
     });
   }
 
-  async listSubscriptions(): Promise<any> {
+  async listSubscriptions(): Promise<CircleResponse<Subscription[]>> {
     return this.request('/v1/notifications/subscriptions');
   }
 
-  async deleteSubscription(id: string): Promise<any> {
+  async deleteSubscription(id: string): Promise<void> {
     return this.request(`/v1/notifications/subscriptions/${id}`, {
       method: 'DELETE',
     });
   }
 
+  /**
+   * Public key for verifying notification signatures (see webhook-signature.ts)
+   */
+  async getNotificationPublicKey(keyId: string): Promise<CircleResponse<NotificationPublicKey>> {
+    return this.request(`/v2/notifications/publicKey/${encodeURIComponent(keyId)}`);
+  }
+
   /**
    * Get wallets (includes entityId and balances)
    */
-  async getWallets(): Promise<any> {
+  async getWallets(): Promise<CircleResponse<Wallet[]>> {
     return this.request('/v1/wallets');
   }
 
   /**
    * List express routes
    */
-  async listExpressRoutes(): Promise<any> {
-    return this.request('/v1/businessAccount/expressRoute');
+  async listExpressRoutes(params?: PageParams): Promise<CircleResponse<ExpressRoute[]>> {
+    return this.request(withPageParams('/v1/businessAccount/expressRoute', params));
   }
 
   /**
    * Get a specific express route
    */
-  async getExpressRoute(id: string): Promise<any> {
+  async getExpressRoute(id: string): Promise<CircleResponse<ExpressRoute>> {
     return this.request(`/v1/businessAccount/expressRoute/${id}`);
   }
+
+  // ─── Raw requests ──────────────────────────────────────────────────────
+
+  /**
+   * Call any Circle endpoint, for those this client does not wrap yet. The path
+   * must sit under CIRCLE_RAW_PATHS, and writes to production are refused unless
+   * CIRCLE_RAW_PRODUCTION_WRITES is on; otherwise it goes through the same guard,
+   * retries, journal and audit log as every other call. Include an
+   * `idempotencyKey` in a POST body to make it retryable and replayable.
+   */
+  async raw<T = unknown>(method: string, path: string, body?: Record<string, unknown>): Promise<T> {
+    const verb = method.toUpperCase();
+    if (!RAW_METHODS.includes(verb)) {
+      throw new Error(`Unsupported method ${method}: expected one of ${RAW_METHODS.join(', ')}`);
+    }
+    if (!path.startsWith('/')) {
+      throw new Error(`Invalid path "${path}": expected one starting with /, such as /v1/businessAccount/balances`);
+    }
+    if (body !== undefined && (verb === 'GET' || verb === 'DELETE')) {
+      throw new Error(`A ${verb} request has no body`);
+    }
+    // Checked and sent in one form, so "/v1//payouts" cannot pass for something other than a payout
+    return this.request<T>(canonicalPath(path), {
+      method: verb,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    }, true);
+  }
+
+  // ─── Waiting for a final state ─────────────────────────────────────────
+
+  /**
+   * Resolve with the payout once it is complete; rejects with WaitFailedError
+   * if it fails and WaitTimeoutError if it is still pending (see wait.ts)
+   */
+  async waitForPayout(id: string, options?: WaitOptions): Promise<Payout> {
+    return waitFor(`payout ${id}`, async () => settled((await this.getPayout(id)).data), options);
+  }
+
+  async waitForBusinessPayout(id: string, options?: WaitOptions): Promise<BusinessPayout> {
+    return waitFor(`business payout ${id}`, async () => settled((await this.getBusinessPayout(id)).data), options);
+  }
+
+  async waitForBusinessTransfer(id: string, options?: WaitOptions): Promise<Transfer> {
+    return waitFor(`business transfer ${id}`, async () => settled((await this.getBusinessTransfer(id)).data), options);
+  }
+
+  /**
+   * Wait for a deposit of exactly `amount` to `address` to complete.
+   * `since` (ISO-8601) ignores earlier deposits of the same amount.
+   */
+  async waitForDeposit(address: string, amount: Amount | Money, options: WaitOptions & { since?: string } = {}): Promise<Deposit> {
+    const expected = Money.from(amount);
+    return waitFor(`deposit of ${expected} ${expected.currency} to ${address}`, async () => {
+      const { data: deposits } = await this.listDeposits({ pageSize: MAX_PAGE_SIZE });
+      const deposit = deposits.find(d => {
+        const received = Money.from(d.amount);
+        return d.destination.address === address
+          && received.currency === expected.currency
+          && received.compare(expected) === 0
+          && (!options.since || d.createDate >= options.since);
+      });
+      return deposit ? settled(deposit) : { state: 'pending' };
+    }, options);
+  }
+
+  /**
+   * Wait until a recipient address is verified (`active`); `denied` or `inactive` fail the wait
+   */
+  async waitForRecipientVerified(id: string, options?: WaitOptions): Promise<RecipientAddress> {
+    return waitFor(`recipient address ${id}`, async () => {
+      const { data: recipient } = await this.getRecipientAddress(id);
+      if (recipient.status === 'active') return { state: 'done', value: recipient };
+      if (recipient.status === 'pending') return { state: 'pending', value: recipient };
+      return { state: 'failed', value: recipient, reason: `is ${recipient.status}` };
+    }, options);
+  }
+
+  // ─── Pagination ────────────────────────────────────────────────────────
+
+  /**
+   * Walk every page of a list endpoint, yielding items one at a time.
+   * Moves towards older items via pageAfter, or towards newer ones when
+   * only pageBefore is given.
+   */
+  private async *paginate<T extends { id: string }, P extends PageParams>(
+    list: (params: P) => Promise<CircleResponse<T[]>>,
+    params: P
+  ): AsyncGenerator<T> {
+    const pageSize = params.pageSize ?? MAX_PAGE_SIZE;
+    const backwards = Boolean(params.pageBefore && !params.pageAfter);
+    let cursor: PageParams = { pageBefore: params.pageBefore, pageAfter: params.pageAfter };
+
+    while (true) {
+      const page = await list({ ...params, ...cursor, pageSize });
+      const items = page?.data ?? [];
+      yield* items;
+      if (items.length < pageSize) return;
+
+      cursor = backwards
+        ? { pageBefore: items[0].id }
+        : { pageAfter: items[items.length - 1].id };
+    }
+  }
+
+  iteratePayouts(params: Parameters<CircleMintClient['listPayouts']>[0] = {}): AsyncGenerator<Payout> {
+    return this.paginate(p => this.listPayouts(p), params);
+  }
+
+  iterateBusinessPayouts(params: Parameters<CircleMintClient['listBusinessPayouts']>[0] = {}): AsyncGenerator<BusinessPayout> {
+    return this.paginate(p => this.listBusinessPayouts(p), params);
+  }
+
+  iterateDeposits(params: Parameters<CircleMintClient['listDeposits']>[0] = {}): AsyncGenerator<Deposit> {
+    return this.paginate(p => this.listDeposits(p), params);
+  }
+
+  iterateRecipientAddresses(params: PageParams = {}): AsyncGenerator<RecipientAddress> {
+    return this.paginate(p => this.listRecipientAddresses(p), params);
+  }
+
+  iterateWireBankAccounts(params: PageParams = {}): AsyncGenerator<WireBankAccount> {
+    return this.paginate(p => this.listWireBankAccounts(p), params);
+  }
+
+  iterateAddressBookRecipients(params: PageParams = {}): AsyncGenerator<AddressBookRecipient> {
+    return this.paginate(p => this.listAddressBookRecipients(p), params);
+  }
+
+  iterateExpressRoutes(params: PageParams = {}): AsyncGenerator<ExpressRoute> {
+    return this.paginate(p => this.listExpressRoutes(p), params);
+  }
 }
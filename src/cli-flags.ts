@@ -0,0 +1,21 @@
+/**
+ * Pull `--name <value>` / `--name=<value>` out of CLI arguments, leaving the
+ * positional arguments in order
+ */
+export function takeFlag(argv: string[], name: string): { value?: string; args: string[] } {
+  const flag = `--${name}`;
+  const args: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) {
+      value = argv[++i];
+      if (!value) throw new Error(`${flag} needs a value`);
+    } else if (arg.startsWith(`${flag}=`)) {
+      value = arg.slice(flag.length + 1);
+    } else {
+      args.push(arg);
+    }
+  }
+  return { value, args };
+}
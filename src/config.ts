@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { existsSync } from 'fs';
 
 // Get the directory of the current module
 const __filename = fileURLToPath(import.meta.url);
@@ -24,14 +25,81 @@ if (result.error) {
  * Circle Mint API Configuration
  * Based on: https://developers.circle.com/circle-mint/getting-started-with-the-circle-apis
  */
+export type Environment = 'sandbox' | 'production' | 'local';
+
+/**
+ * Everything a CircleMintClient needs to reach one Circle account
+ */
+export interface ClientConfig {
+  apiKey: string;
+  environment: Environment;
+  baseUrl: string;
+  /** Refuse every write to this account (see safety.ts) */
+  readOnly?: boolean;
+}
+
+/**
+ * Default API base URL for an environment
+ */
+export function defaultBaseUrl(environment: Environment): string {
+  if (environment === 'production') return 'https://api.circle.com';
+  if (environment === 'local') return `http://127.0.0.1:${process.env.CIRCLE_EMULATOR_PORT || 4010}`;
+  return 'https://api-sandbox.circle.com';
+}
+
+const environment = (process.env.CIRCLE_ENV || 'sandbox') as Environment;
+
 export const config = {
-  apiKey: process.env.CIRCLE_API_KEY || '',
-  environment: (process.env.CIRCLE_ENV || 'sandbox') as 'sandbox' | 'production',
-  baseUrl: process.env.CIRCLE_BASE_URL || (
-    process.env.CIRCLE_ENV === 'production' 
-      ? 'https://api.circle.com'
-      : 'https://api-sandbox.circle.com'
-  ),
+  // The local emulator accepts any bearer token, so a key is optional there
+  apiKey: process.env.CIRCLE_API_KEY || (environment === 'local' ? 'local-emulator' : ''),
+  environment,
+  baseUrl: process.env.CIRCLE_BASE_URL || defaultBaseUrl(environment),
+  // Validate Circle responses against per-endpoint schemas (see response-schemas.ts)
+  strictResponses: process.env.CIRCLE_STRICT_RESPONSES === 'true',
+  // Total attempts for retryable requests (429/5xx/network errors); 1 disables retries
+  retryMaxAttempts: Number(process.env.CIRCLE_RETRY_MAX_ATTEMPTS || 3),
+  // JSONL replay journal for keyed POSTs (see idempotency.ts); 'off' disables it
+  idempotencyJournal: process.env.CIRCLE_IDEMPOTENCY_JOURNAL || join(__dirname, '..', 'data', 'idempotency-journal.jsonl'),
+  // JSONL history of received notifications (see notification-store.ts); 'off' keeps it in memory
+  notificationStore: process.env.CIRCLE_NOTIFICATION_STORE || join(__dirname, '..', 'data', 'notifications.jsonl'),
+  // How often the dashboard's transaction tracker polls pending payouts and transfers (see tracker.ts)
+  trackerPollMs: Number(process.env.CIRCLE_TRACKER_POLL_MS || 5000),
+  // Named accounts (see profiles.ts); the variables above form the "default" profile
+  profilesFile: process.env.CIRCLE_PROFILES_FILE || join(__dirname, '..', 'circle.profiles.json'),
+  // Safety guard (see safety.ts): refuse all writes; production limits ("USD:1000,EUR:500" or "1000") and confirmation
+  readOnly: process.env.CIRCLE_READ_ONLY === 'true',
+  maxAmount: process.env.CIRCLE_MAX_AMOUNT || '',
+  dailyLimit: process.env.CIRCLE_DAILY_LIMIT || '',
+  confirmToken: process.env.CIRCLE_CONFIRM_TOKEN || '',
+  // Raw requests (CircleMintClient.raw): allowed path prefixes ("/v1/businessAccount/,/v1/wallets"), and production writes
+  rawPaths: process.env.CIRCLE_RAW_PATHS || '',
+  rawProductionWrites: process.env.CIRCLE_RAW_PRODUCTION_WRITES === 'true',
+  // JSONL tally of production payouts and transfers, for the daily limit
+  spendLedger: process.env.CIRCLE_SPEND_LEDGER || join(__dirname, '..', 'data', 'spend-ledger.jsonl'),
+  // Reject /webhooks posts without a valid Circle signature (see webhook-signature.ts)
+  verifyWebhooks: process.env.CIRCLE_VERIFY_WEBHOOKS !== 'false',
+  // Visit SNS SubscribeURLs as soon as the confirmation arrives (see sns.ts); 'false' leaves it to the dashboard
+  snsAutoConfirm: process.env.CIRCLE_SNS_AUTO_CONFIRM !== 'false',
+  // SNS topics allowed to post (topic ARNs or AWS account ids, comma-separated); empty means Circle's accounts
+  snsTopics: process.env.CIRCLE_SNS_TOPICS || '',
+  // Dashboard and REST API login (see auth.ts); with neither set, only this machine is served
+  dashboardPassword: process.env.CIRCLE_DASHBOARD_PASSWORD || '',
+  dashboardTokens: process.env.CIRCLE_DASHBOARD_TOKENS || '',
+  sessionTtlHours: Number(process.env.CIRCLE_SESSION_TTL_HOURS || 12),
+  // Roles (see roles.ts): "alice:approver,bob:viewer" for dashboard users, and the one the MCP server acts as
+  dashboardRoles: process.env.CIRCLE_DASHBOARD_ROLES || '',
+  mcpRole: process.env.CIRCLE_MCP_ROLE || 'operator',
+  // Maker–checker (see payment-requests.ts): payouts and transfers wait for a second user's approval; the JSONL queue
+  requireApproval: process.env.CIRCLE_REQUIRE_APPROVAL === 'true',
+  paymentRequests: process.env.CIRCLE_PAYMENT_REQUESTS || join(__dirname, '..', 'data', 'payment-requests.jsonl'),
+  // Who MCP calls are made as, e.g. in the payment request queue
+  mcpUser: process.env.CIRCLE_MCP_USER || 'mcp-agent',
+  // Hash-chained JSONL of every Circle API call (see audit.ts); 'off' disables it
+  auditLog: process.env.CIRCLE_AUDIT_LOG || join(__dirname, '..', 'data', 'audit-log.jsonl'),
+  // Extra redaction rules (see redact.ts): "taxId,routingNumber:last4,accountNumber:keep"
+  redactFields: process.env.CIRCLE_REDACT_FIELDS || '',
+  // Browser origins allowed to call the API cross-site ("https://a.example,https://b.example"); none by default
+  corsOrigins: (process.env.CIRCLE_CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
 };
 
 /**
@@ -42,7 +110,7 @@ export const config = {
  * - Store API keys in environment variables
  */
 
-if (!config.apiKey) {
+if (!config.apiKey && !existsSync(config.profilesFile)) {
   console.warn('⚠️  Warning: CIRCLE_API_KEY not set. Please set it in your .env file');
   console.warn(`   Looking for .env at: ${envPath}`);
 }
@@ -13,21 +13,28 @@
  */
 
 import { CircleMintClient } from './circle-mint-client.js';
-import { config } from './config.js';
+import { getProfile, takeProfileFlag } from './profiles.js';
+import { takeConfirmFlag } from './safety.js';
+import { Money } from './money.js';
 
 async function demo() {
   console.log('╔═══════════════════════════════════════════════════════╗');
   console.log('║     Circle Mint Account & Transfer Demo             ║');
   console.log('╚═══════════════════════════════════════════════════════╝');
-  console.log(`\nEnvironment: ${config.environment}`);
-  console.log(`Base URL: ${config.baseUrl}\n`);
 
-  if (!config.apiKey) {
+  const { confirm, args } = takeConfirmFlag(process.argv.slice(2));
+  const { profile: profileName } = takeProfileFlag(args);
+  const profile = getProfile(profileName);
+  console.log(`\nProfile: ${profile.name}`);
+  console.log(`Environment: ${profile.environment}`);
+  console.log(`Base URL: ${profile.baseUrl}\n`);
+
+  if (!profile.apiKey) {
     console.error('❌ Error: CIRCLE_API_KEY is not set!');
     process.exit(1);
   }
 
-  const client = new CircleMintClient();
+  const client = new CircleMintClient({ profile: profile.name, confirm });
 
   try {
     // Step 1: Check Balance
@@ -36,12 +43,11 @@ async function demo() {
     const balance = await client.getBalance();
     console.log('✅ Balance:', JSON.stringify(balance, null, 2));
     
-    // Calculate total
+    // Calculate totals (one per currency — USD is held as USDC, EUR as EURC)
     if (balance.data?.available) {
-      const total = balance.data.available.reduce((sum: number, bal: any) => {
-        return sum + parseInt(bal.amount || '0', 10);
-      }, 0);
-      console.log(`\n💵 Total Available: ${total} (${total / 1000000} USDC)`);
+      const totals = Money.totals(balance.data.available);
+      const summary = totals.map(total => `${total} ${total.currency}`).join(', ');
+      console.log(`\n💵 Total Available: ${summary || '0.00 USD'}`);
     }
 
     // Step 2: List existing payouts
@@ -57,9 +63,9 @@ async function demo() {
     console.log('ℹ️  To create a transfer, use:');
     console.log('   npm run account transfer <address> <chain> <amount> [currency]');
     console.log('\nExample:');
-    console.log('   npm run account transfer 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb ETH 1000000 USDC');
+    console.log('   npm run account transfer 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb ETH 1.00 USD');
     console.log('\n💡 Note:');
-    console.log('   - Amount is in smallest units (1000000 = 1 USDC)');
+    console.log('   - Amount is in major units with at most 2 decimals (1.00 = 1 USDC)');
     console.log('   - Chain identifiers: ETH, MATIC, AVAX, BASE, etc.');
     console.log('   - You need sufficient balance in your account');
     console.log('   - Transfers may require account verification');
@@ -89,4 +95,7 @@ async function demo() {
 }
 
 // Run demo
-demo();
+demo().catch(error => {
+  console.error('\n❌ Fatal error:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,801 @@
+#!/usr/bin/env node
+
+import express, { Request, Response, NextFunction, Router } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { InvalidAmountError, Money } from './money.js';
+import type {
+  AddressBookRecipient,
+  Amount,
+  BusinessPayout,
+  Deposit,
+  DepositAddress,
+  ExpressRoute,
+  Payout,
+  RecipientAddress,
+  Subscription,
+  TransactionStatus,
+  Transfer,
+  WireBankAccount,
+  WireInstructions,
+} from './types.js';
+
+/**
+ * Local Circle Mint emulator
+ *
+ * An in-memory stand-in for the Circle Mint sandbox covering every endpoint
+ * CircleMintClient calls, so scripts, the dashboard and tests run offline.
+ *
+ * - Created resources start `pending` and settle after `settleDelayMs`
+ *   (payouts and transfers fail with `insufficient_funds` if the balance can't cover them)
+ * - `/v1/mocks/payments/*` credit the balance once the deposit settles
+ * - Repeating a POST with the same idempotencyKey returns the original resource
+ * - List endpoints honour pageSize / pageBefore / pageAfter / from / to
+ *
+ * Enable with CIRCLE_ENV=local (started in-process on first request), or run
+ * standalone with `npm run emulator` and point CIRCLE_BASE_URL at it.
+ */
+
+export const DEFAULT_EMULATOR_PORT = 4010;
+
+export interface EmulatorOptions {
+  settleDelayMs?: number;  // how long created resources stay pending (default: 1000)
+  failPaymentIntents?: boolean; // answer /v1/paymentIntents with 404 like most Mint accounts (default: true)
+}
+
+// ─── State ───────────────────────────────────────────────────────────────
+
+interface Pending {
+  createdAt: number;   // epoch ms, drives settling
+  settled: boolean;
+  onSettle: () => void;
+}
+
+interface EmulatorState {
+  walletId: string;
+  entityId: string;
+  balances: Map<string, Money>;           // fiat currency → available
+  unsettled: Map<string, Money>;
+  wireBanks: Map<string, WireBankAccount & { accountNumber: string; instructions: WireInstructions }>;
+  depositAddresses: Map<string, DepositAddress>;
+  deposits: Map<string, Deposit>;
+  recipients: Map<string, RecipientAddress>;
+  addressBook: Map<string, AddressBookRecipient>;
+  payouts: Map<string, Payout>;
+  businessPayouts: Map<string, BusinessPayout>;
+  transfers: Map<string, Transfer>;
+  expressRoutes: Map<string, ExpressRoute>;
+  subscriptions: Map<string, Subscription>;
+  idempotency: Map<string, { status: number; body: unknown }>;
+  pending: Pending[];
+}
+
+// ─── Amount helpers ─────────────────────────────────────────────────────
+
+// Stablecoin currencies settle into the matching fiat balance
+function balanceCurrency(currency: string): string {
+  if (currency === 'USDC') return 'USD';
+  if (currency === 'EURC') return 'EUR';
+  return currency;
+}
+
+function balanceMoney(amount: Amount): Money {
+  return Money.parse(amount.amount, balanceCurrency(amount.currency));
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+class EmulatorError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number,
+    message: string,
+    readonly errors?: { error: string; message: string; location: string }[]
+  ) {
+    super(message);
+  }
+}
+
+function notFound(what: string): EmulatorError {
+  return new EmulatorError(404, -1, `${what} not found`);
+}
+
+/** The value at a dotted path such as "amount.currency", undefined where the path runs out */
+function fieldAt(body: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    body
+  );
+}
+
+function requireFields(body: unknown, fields: string[]): void {
+  const missing = fields.filter(path => {
+    const value = fieldAt(body, path);
+    return value === undefined || value === null || value === '';
+  });
+  if (missing.length > 0) {
+    throw new EmulatorError(400, 2, 'Invalid entity.', missing.map(location => ({
+      error: 'required',
+      message: `${location} may not be empty`,
+      location,
+    })));
+  }
+}
+
+function requireAmount(body: unknown): Amount {
+  requireFields(body, ['amount.amount', 'amount.currency']);
+  try {
+    return Money.parsePositive(fieldAt(body, 'amount.amount'), String(fieldAt(body, 'amount.currency'))).toAmount();
+  } catch (error) {
+    if (!(error instanceof InvalidAmountError)) throw error;
+    throw new EmulatorError(400, 2, 'Invalid entity.', [{
+      error: 'invalid_value',
+      message: error.message,
+      location: 'amount.amount',
+    }]);
+  }
+}
+
+// ─── Emulator ────────────────────────────────────────────────────────────
+
+export class CircleEmulator {
+  readonly app: express.Express;
+  private state: EmulatorState;
+  settleDelayMs: number;
+  failPaymentIntents: boolean;
+  /** Every request received, in order — lets tests assert on what the client sent */
+  readonly requests: { method: string; path: string; body: unknown }[] = [];
+  private faults: { method: string; path: string; status: number; body: unknown; times: number }[] = [];
+
+  constructor(options: EmulatorOptions = {}) {
+    this.settleDelayMs = options.settleDelayMs ?? 1000;
+    this.failPaymentIntents = options.failPaymentIntents ?? true;
+    this.state = CircleEmulator.emptyState();
+    this.app = express();
+    this.app.use(express.json());
+    this.app.use(this.routes());
+  }
+
+  private static emptyState(): EmulatorState {
+    return {
+      walletId: '1000000001',
+      entityId: crypto.randomUUID(),
+      balances: new Map([['USD', Money.zero('USD')], ['EUR', Money.zero('EUR')]]),
+      unsettled: new Map(),
+      wireBanks: new Map(),
+      depositAddresses: new Map(),
+      deposits: new Map(),
+      recipients: new Map(),
+      addressBook: new Map(),
+      payouts: new Map(),
+      businessPayouts: new Map(),
+      transfers: new Map(),
+      expressRoutes: new Map(),
+      subscriptions: new Map(),
+      idempotency: new Map(),
+      pending: [],
+    };
+  }
+
+  /** Drop all state, recorded requests and pending faults (keeps the HTTP server running) */
+  reset(): void {
+    this.state = CircleEmulator.emptyState();
+    this.requests.length = 0;
+    this.faults = [];
+  }
+
+  /**
+   * Answer the next `times` requests to `METHOD path` (query string ignored)
+   * with the given status and body instead of handling them
+   */
+  failNext(method: string, path: string, status: number, body: unknown = { code: -1, message: 'Injected failure' }, times = 1): void {
+    this.faults.push({ method: method.toUpperCase(), path, status, body, times });
+  }
+
+  /** Credit the available balance directly, e.g. to seed a test */
+  fund(amount: string, currency = 'USD'): void {
+    this.credit(balanceMoney({ amount, currency }));
+  }
+
+  /** Settle everything that is still pending, regardless of settleDelayMs */
+  settleAll(): void {
+    this.advance(Infinity);
+  }
+
+  // ── Balance bookkeeping ────────────────────────────────────────────────
+
+  private credit(amount: Money): void {
+    const current = this.state.balances.get(amount.currency) ?? Money.zero(amount.currency);
+    this.state.balances.set(amount.currency, current.plus(amount));
+  }
+
+  /** Debit if funds allow; returns false (and changes nothing) otherwise */
+  private tryDebit(amount: Money): boolean {
+    const available = this.state.balances.get(amount.currency) ?? Money.zero(amount.currency);
+    if (available.compare(amount) < 0) return false;
+    this.state.balances.set(amount.currency, available.minus(amount));
+    return true;
+  }
+
+  private addUnsettled(amount: Money): void {
+    const current = this.state.unsettled.get(amount.currency) ?? Money.zero(amount.currency);
+    this.state.unsettled.set(amount.currency, current.plus(amount));
+  }
+
+  private balanceList(map: Map<string, Money>): Amount[] {
+    return [...map.values()].filter(money => !money.isZero()).map(money => money.toAmount());
+  }
+
+  // ── Status transitions ─────────────────────────────────────────────────
+
+  private schedule(onSettle: () => void): void {
+    this.state.pending.push({ createdAt: Date.now(), settled: false, onSettle });
+  }
+
+  /** Apply every transition that is due at `now` */
+  private advance(now = Date.now()): void {
+    for (const item of this.state.pending) {
+      if (!item.settled && item.createdAt + this.settleDelayMs <= now) {
+        item.settled = true;
+        item.onSettle();
+      }
+    }
+    this.state.pending = this.state.pending.filter(item => !item.settled);
+  }
+
+  private stamp<T extends { status: string; updateDate?: string }>(resource: T, status: T['status']): void {
+    resource.status = status;
+    if ('updateDate' in resource) resource.updateDate = new Date().toISOString();
+  }
+
+  // ── Money movement ─────────────────────────────────────────────────────
+
+  /**
+   * Reserve funds for an outgoing movement; settles to complete, or failed with
+   * insufficient_funds when the balance could not cover it at creation time.
+   */
+  private outgoing(resource: { status: TransactionStatus; errorCode?: string; updateDate?: string }, amount: Amount): void {
+    const funded = this.tryDebit(balanceMoney(amount));
+    this.schedule(() => {
+      if (funded) {
+        this.stamp(resource, 'complete');
+      } else {
+        resource.errorCode = 'insufficient_funds';
+        this.stamp(resource, 'failed');
+      }
+    });
+  }
+
+  /** Record an incoming deposit that credits the balance once it settles */
+  private incoming(deposit: Deposit, afterCredit?: () => void): void {
+    const amount = balanceMoney(deposit.amount);
+    this.addUnsettled(amount);
+    this.schedule(() => {
+      this.addUnsettled(Money.zero(amount.currency).minus(amount));
+      this.credit(amount);
+      this.stamp(deposit, 'complete');
+      afterCredit?.();
+    });
+  }
+
+  // ── Routing ────────────────────────────────────────────────────────────
+
+  private routes(): Router {
+    const router = Router();
+    const s = () => this.state;
+    const now = () => new Date().toISOString();
+
+    // Record, request id (as Circle sends), auth, injected faults, then lazy settling on every request
+    router.use((req: Request, res: Response, next: NextFunction) => {
+      this.requests.push({ method: req.method, path: req.originalUrl, body: req.body });
+      res.set('X-Request-Id', crypto.randomUUID());
+      if (!/^Bearer \S+/.test(req.get('authorization') ?? '')) {
+        return next(new EmulatorError(401, 401, 'Malformed authorization. Are the credentials properly encoded?'));
+      }
+      const fault = this.faults.find(f => f.method === req.method && f.path === req.path);
+      if (fault) {
+        if (--fault.times <= 0) this.faults.splice(this.faults.indexOf(fault), 1);
+        res.status(fault.status).json(fault.body);
+        return;
+      }
+      this.advance();
+      next();
+    });
+
+    /**
+     * POST handler wrapper: replays the stored response for a repeated idempotencyKey
+     */
+    const create = (path: string, handler: (body: Record<string, any>) => unknown) => {
+      router.post(path, (req: Request, res: Response) => {
+        const body = req.body ?? {};
+        const key = typeof body.idempotencyKey === 'string' ? `${path}:${body.idempotencyKey}` : undefined;
+        const replay = key ? s().idempotency.get(key) : undefined;
+        if (replay) {
+          res.status(replay.status).json(replay.body);
+          return;
+        }
+        const result = { status: 201, body: { data: handler(body) } };
+        if (key) s().idempotency.set(key, result);
+        res.status(result.status).json(result.body);
+      });
+    };
+
+    const list = <T extends { id: string; createDate?: string }>(path: string, items: () => Iterable<T>) => {
+      router.get(path, (req: Request, res: Response) => {
+        res.json({ data: paginate([...items()], req.query as Record<string, string>) });
+      });
+    };
+
+    const get = <T>(path: string, what: string, lookup: (id: string) => T | undefined) => {
+      router.get(path, (req: Request, res: Response) => {
+        const item = lookup(req.params.id as string);
+        if (!item) throw notFound(what);
+        res.json({ data: item });
+      });
+    };
+
+    // ── Account ──────────────────────────────────────────────────────────
+
+    const balance = (_req: Request, res: Response) => {
+      res.json({ data: { available: this.balanceList(s().balances), unsettled: this.balanceList(s().unsettled) } });
+    };
+    router.get('/v1/balances', balance);
+    router.get('/v1/businessAccount/balances', balance);
+
+    router.get('/v1/wallets', (_req: Request, res: Response) => {
+      res.json({
+        data: [{
+          walletId: s().walletId,
+          entityId: s().entityId,
+          type: 'merchant',
+          description: 'Merchant Wallet',
+          balances: this.balanceList(s().balances),
+        }],
+      });
+    });
+
+    // ── Deposits ─────────────────────────────────────────────────────────
+
+    router.get('/v1/paymentIntents', (_req: Request, res: Response) => {
+      if (this.failPaymentIntents) throw notFound('Resource');
+      res.json({ data: [] });
+    });
+    list('/v1/deposits', () => s().deposits.values());
+    list('/v1/deposits/addresses', () => s().depositAddresses.values());
+
+    create('/v1/businessAccount/wallets/addresses/deposit', body => {
+      requireFields(body, ['idempotencyKey', 'currency', 'chain']);
+      const address: DepositAddress = {
+        id: crypto.randomUUID(),
+        address: `0x${crypto.randomBytes(20).toString('hex')}`,
+        currency: body.currency,
+        chain: body.chain,
+      };
+      s().depositAddresses.set(address.id, address);
+      return address;
+    });
+    list('/v1/businessAccount/wallets/addresses/deposit', () => s().depositAddresses.values());
+
+    // ── Address book & crypto payouts ────────────────────────────────────
+
+    create('/v1/addressBook/recipients', body => {
+      requireFields(body, ['idempotencyKey', 'chain', 'address']);
+      const recipient: AddressBookRecipient = {
+        id: crypto.randomUUID(),
+        chain: body.chain,
+        address: body.address,
+        ...(body.addressTag && { addressTag: body.addressTag }),
+        metadata: body.metadata ?? {},
+        status: 'pending',
+        createDate: now(),
+        updateDate: now(),
+      };
+      s().addressBook.set(recipient.id, recipient);
+      this.schedule(() => this.stamp(recipient, 'active'));
+      return recipient;
+    });
+    list('/v1/addressBook/recipients', () => s().addressBook.values());
+    router.delete('/v1/addressBook/recipients/:id', (req: Request, res: Response) => {
+      if (!s().addressBook.delete(req.params.id as string)) throw notFound('Address book recipient');
+      res.status(204).end();
+    });
+
+    create('/v1/payouts', body => {
+      requireFields(body, ['idempotencyKey', 'destination.type', 'destination.id']);
+      const amount = requireAmount(body);
+      const recipient = s().addressBook.get(body.destination.id);
+      if (!recipient) throw notFound('Address book recipient');
+      if (recipient.status !== 'active') {
+        throw new EmulatorError(400, 5001, 'Address book recipient is not active yet');
+      }
+      const payout: Payout = {
+        id: crypto.randomUUID(),
+        sourceWalletId: body.source?.id ?? s().walletId,
+        destination: { type: 'address_book', id: recipient.id },
+        amount,
+        toAmount: { amount: amount.amount, currency: amount.currency === 'EUR' ? 'EURC' : 'USDC' },
+        fees: { amount: '0.00', currency: amount.currency },
+        status: 'pending',
+        createDate: now(),
+        updateDate: now(),
+      };
+      s().payouts.set(payout.id, payout);
+      this.outgoing(payout, amount);
+      return payout;
+    });
+    list('/v1/payouts', () => s().payouts.values());
+    get('/v1/payouts/:id', 'Payout', id => s().payouts.get(id));
+
+    // ── Wire bank accounts & business payouts ────────────────────────────
+
+    create('/v1/businessAccount/banks/wires', body => {
+      requireFields(body, [
+        'idempotencyKey', 'accountNumber', 'routingNumber',
+        'billingDetails.name', 'billingDetails.city', 'billingDetails.country',
+        'billingDetails.line1', 'billingDetails.postalCode',
+        'bankAddress.city', 'bankAddress.country',
+      ]);
+      const id = crypto.randomUUID();
+      const trackingRef = `CIR${crypto.randomBytes(5).toString('hex').toUpperCase()}`;
+      const bank = {
+        id,
+        status: 'pending' as TransactionStatus,
+        description: `${body.bankAddress.bankName ?? 'BANK'} ****${String(body.accountNumber).slice(-4)}`,
+        trackingRef,
+        fingerprint: crypto.createHash('sha256').update(`${body.accountNumber}:${body.routingNumber}`).digest('hex'),
+        billingDetails: body.billingDetails,
+        bankAddress: body.bankAddress,
+        createDate: now(),
+        updateDate: now(),
+        accountNumber: String(body.accountNumber),
+        instructions: {
+          trackingRef,
+          beneficiary: { name: 'CIRCLE INTERNET FINANCIAL INC', address1: '1 MAIN STREET', address2: 'SUITE 1' },
+          beneficiaryBank: {
+            name: 'CRYPTO BANK',
+            swiftCode: 'CRYPTO99',
+            routingNumber: '999999999',
+            accountNumber: String(1_000_000_000 + s().wireBanks.size + 1),
+            currency: 'USD',
+            address: '1 MONEY STREET',
+            city: 'NEW YORK',
+            postalCode: '1001',
+            country: 'US',
+          },
+        },
+      };
+      s().wireBanks.set(id, bank);
+      this.schedule(() => this.stamp(bank, 'complete'));
+      return publicBank(bank);
+    });
+    list('/v1/businessAccount/banks/wires', () => [...s().wireBanks.values()].map(publicBank));
+    router.get('/v1/businessAccount/banks/wires/:id/instructions', (req: Request, res: Response) => {
+      const bank = s().wireBanks.get(req.params.id as string);
+      if (!bank) throw notFound('Wire bank account');
+      res.json({ data: bank.instructions });
+    });
+
+    create('/v1/businessAccount/payouts', body => {
+      requireFields(body, ['idempotencyKey', 'destination.type', 'destination.id']);
+      const amount = requireAmount(body);
+      const bank = s().wireBanks.get(body.destination.id);
+      if (!bank) throw notFound('Bank account');
+      const payout: BusinessPayout = {
+        id: crypto.randomUUID(),
+        sourceWalletId: body.source?.id ?? s().walletId,
+        destination: { type: body.destination.type, id: bank.id, name: bank.description },
+        amount,
+        toAmount: { amount: amount.amount, currency: body.toAmount?.currency ?? amount.currency },
+        fees: { amount: '0.00', currency: amount.currency },
+        trackingRef: bank.trackingRef,
+        status: 'pending',
+        createDate: now(),
+        updateDate: now(),
+      };
+      s().businessPayouts.set(payout.id, payout);
+      this.outgoing(payout, amount);
+      return payout;
+    });
+    list('/v1/businessAccount/payouts', () => s().businessPayouts.values());
+    get('/v1/businessAccount/payouts/:id', 'Payout', id => s().businessPayouts.get(id));
+
+    // ── Recipients & business transfers ──────────────────────────────────
+
+    create('/v1/businessAccount/wallets/addresses/recipient', body => {
+      requireFields(body, ['idempotencyKey', 'address', 'chain', 'currency', 'description']);
+      const recipient: RecipientAddress = {
+        id: crypto.randomUUID(),
+        address: body.address,
+        ...(body.addressTag && { addressTag: body.addressTag }),
+        chain: body.chain,
+        currency: body.currency,
+        description: body.description,
+        status: 'pending',
+      };
+      s().recipients.set(recipient.id, recipient);
+      this.schedule(() => { recipient.status = 'active'; });
+      return recipient;
+    });
+    list('/v1/businessAccount/wallets/addresses/recipient', () => s().recipients.values());
+    get('/v1/businessAccount/wallets/addresses/recipient/:id', 'Recipient address', id => s().recipients.get(id));
+
+    create('/v1/businessAccount/transfers', body => {
+      requireFields(body, ['idempotencyKey', 'destination.type', 'destination.addressId']);
+      const amount = requireAmount(body);
+      const recipient = s().recipients.get(body.destination.addressId);
+      if (!recipient) throw notFound('Recipient address');
+      if (recipient.status !== 'active') {
+        throw new EmulatorError(400, 5002, 'Recipient address is not verified yet');
+      }
+      const transfer: Transfer = {
+        id: crypto.randomUUID(),
+        source: { type: 'wallet', id: body.source?.id ?? s().walletId },
+        destination: {
+          type: 'verified_blockchain',
+          addressId: recipient.id,
+          address: recipient.address,
+          chain: recipient.chain,
+        },
+        amount,
+        status: 'pending',
+        createDate: now(),
+      };
+      s().transfers.set(transfer.id, transfer);
+      const funded = this.tryDebit(balanceMoney(amount));
+      this.schedule(() => {
+        if (funded) {
+          transfer.transactionHash = `0x${crypto.randomBytes(32).toString('hex')}`;
+          transfer.status = 'complete';
+        } else {
+          transfer.errorCode = 'insufficient_funds';
+          transfer.status = 'failed';
+        }
+      });
+      return transfer;
+    });
+    get('/v1/businessAccount/transfers/:id', 'Transfer', id => s().transfers.get(id));
+
+    // ── Sandbox mocks ────────────────────────────────────────────────────
+
+    router.post('/v1/mocks/payments/wire', (req: Request, res: Response) => {
+      const body = req.body ?? {};
+      requireFields(body, ['trackingRef', 'beneficiaryBank.accountNumber']);
+      const amount = requireAmount(body);
+      const bank = [...s().wireBanks.values()].find(b => b.trackingRef === body.trackingRef);
+      if (!bank || bank.instructions.beneficiaryBank.accountNumber !== body.beneficiaryBank.accountNumber) {
+        throw new EmulatorError(400, 2, 'Invalid entity.', [{
+          error: 'invalid_value',
+          message: 'trackingRef and beneficiaryBank.accountNumber must match a wire bank account\'s instructions',
+          location: 'trackingRef',
+        }]);
+      }
+      const deposit: Deposit = {
+        id: crypto.randomUUID(),
+        sourceWalletId: bank.id,
+        destination: { type: 'wallet', id: s().walletId },
+        amount,
+        status: 'pending',
+        createDate: now(),
+        updateDate: now(),
+      };
+      s().deposits.set(deposit.id, deposit);
+      this.incoming(deposit);
+      res.status(201).json({
+        data: { trackingRef: body.trackingRef, amount, beneficiaryBank: body.beneficiaryBank, status: 'pending' },
+      });
+    });
+
+    router.post('/v1/mocks/payments/blockchain', (req: Request, res: Response) => {
+      const body = req.body ?? {};
+      requireFields(body, ['address', 'chain']);
+      const amount = requireAmount(body);
+      const target = [...s().depositAddresses.values()].find(a => a.address === body.address);
+      if (!target) throw notFound('Deposit address');
+      const deposit: Deposit = {
+        id: crypto.randomUUID(),
+        destination: { type: 'blockchain', address: target.address, chain: body.chain },
+        amount: { amount: amount.amount, currency: balanceCurrency(amount.currency) },
+        status: 'pending',
+        transactionHash: `0x${crypto.randomBytes(32).toString('hex')}`,
+        createDate: now(),
+        updateDate: now(),
+      };
+      s().deposits.set(deposit.id, deposit);
+      this.incoming(deposit, () => this.redeem(target.id, deposit.amount));
+      res.status(201).json({
+        data: { address: target.address, chain: body.chain, amount, status: 'pending' },
+      });
+    });
+
+    // ── Express routes ───────────────────────────────────────────────────
+
+    create('/v1/businessAccount/expressRoute', body => {
+      requireFields(body, ['idempotencyKey', 'receiptAddressId', 'destinationBankAccountId', 'destinationType', 'currency']);
+      if (!s().depositAddresses.has(body.receiptAddressId)) throw notFound('Receipt address');
+      if (!s().wireBanks.has(body.destinationBankAccountId)) throw notFound('Bank account');
+      const existing = [...s().expressRoutes.values()].find(r => r.receiptAddressId === body.receiptAddressId);
+      if (existing) {
+        throw new EmulatorError(409, 2023, 'An express route already exists for this receipt address');
+      }
+      const route: ExpressRoute = {
+        id: crypto.randomUUID(),
+        receiptAddressId: body.receiptAddressId,
+        destinationBankAccountId: body.destinationBankAccountId,
+        destinationType: body.destinationType,
+        currency: body.currency,
+        status: 'active',
+        createDate: now(),
+      };
+      s().expressRoutes.set(route.id, route);
+      return route;
+    });
+    list('/v1/businessAccount/expressRoute', () => s().expressRoutes.values());
+    get('/v1/businessAccount/expressRoute/:id', 'Express route', id => s().expressRoutes.get(id));
+
+    // ── Notification subscriptions ───────────────────────────────────────
+
+    router.post('/v1/notifications/subscriptions', (req: Request, res: Response) => {
+      const body = req.body ?? {};
+      requireFields(body, ['endpoint']);
+      const subscription: Subscription = {
+        id: crypto.randomUUID(),
+        endpoint: body.endpoint,
+        subscriptionDetails: [{ url: `arn:aws:sns:us-east-1:000000000000:emulator_${crypto.randomUUID()}`, status: 'pending' }],
+      };
+      s().subscriptions.set(subscription.id, subscription);
+      res.status(201).json({ data: subscription });
+    });
+    router.get('/v1/notifications/subscriptions', (_req: Request, res: Response) => {
+      res.json({ data: [...s().subscriptions.values()] });
+    });
+    router.delete('/v1/notifications/subscriptions/:id', (req: Request, res: Response) => {
+      if (!s().subscriptions.delete(req.params.id as string)) throw notFound('Subscription');
+      res.status(204).end();
+    });
+
+    // ── Fallthrough & errors ─────────────────────────────────────────────
+
+    router.use((_req: Request, _res: Response, next: NextFunction) => {
+      next(notFound('Resource'));
+    });
+
+    router.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+      if (err instanceof EmulatorError) {
+        res.status(err.status).json({ code: err.code, message: err.message, ...(err.errors && { errors: err.errors }) });
+        return;
+      }
+      // express.json() parse failures carry a 4xx status
+      const status = (err as Error & { status?: number }).status ?? 500;
+      res.status(status).json({ code: -1, message: err.message });
+    });
+
+    return router;
+  }
+
+  /**
+   * Express route auto-redemption: a settled on-chain deposit to a receipt
+   * address with an express route becomes a business payout to its bank.
+   */
+  private redeem(receiptAddressId: string, amount: Amount): void {
+    const route = [...this.state.expressRoutes.values()].find(r => r.receiptAddressId === receiptAddressId);
+    const bank = route && this.state.wireBanks.get(route.destinationBankAccountId);
+    if (!route || !bank) return;
+
+    const payout: BusinessPayout = {
+      id: crypto.randomUUID(),
+      sourceWalletId: this.state.walletId,
+      destination: { type: route.destinationType, id: bank.id, name: bank.description },
+      amount: { amount: amount.amount, currency: route.currency },
+      fees: { amount: '0.00', currency: route.currency },
+      trackingRef: bank.trackingRef,
+      status: 'pending',
+      createDate: new Date().toISOString(),
+      updateDate: new Date().toISOString(),
+    };
+    this.state.businessPayouts.set(payout.id, payout);
+    this.outgoing(payout, payout.amount);
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────
+
+function publicBank(bank: WireBankAccount & { accountNumber: string; instructions: WireInstructions }): WireBankAccount {
+  const { accountNumber: _accountNumber, instructions: _instructions, ...rest } = bank;
+  return rest;
+}
+
+/**
+ * Circle-style cursor pagination over an insertion-ordered collection (newest first)
+ */
+function paginate<T extends { id: string; createDate?: string; status?: string }>(
+  items: T[],
+  query: Record<string, string | undefined>
+): T[] {
+  let result = [...items].reverse();
+
+  if (query.status) result = result.filter(item => item.status === query.status);
+  if (query.from) result = result.filter(item => !item.createDate || item.createDate >= query.from!);
+  if (query.to) result = result.filter(item => !item.createDate || item.createDate <= query.to!);
+
+  const pageSize = Math.min(Number(query.pageSize) || 50, 50);
+  if (query.pageAfter) {
+    const index = result.findIndex(item => item.id === query.pageAfter);
+    result = index === -1 ? [] : result.slice(index + 1);
+  } else if (query.pageBefore) {
+    const index = result.findIndex(item => item.id === query.pageBefore);
+    result = index === -1 ? [] : result.slice(Math.max(0, index - pageSize), index);
+    return result;
+  }
+  return result.slice(0, pageSize);
+}
+
+// ─── In-process / standalone startup ─────────────────────────────────────
+
+export interface RunningEmulator {
+  emulator: CircleEmulator;
+  server: Server;
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start an emulator on a loopback port (0 = random free port)
+ */
+export function startEmulator(port = DEFAULT_EMULATOR_PORT, options?: EmulatorOptions): Promise<RunningEmulator> {
+  const emulator = new CircleEmulator(options);
+  return new Promise((resolve, reject) => {
+    const server: Server = emulator.app.listen(port, '127.0.0.1');
+    server.once('error', reject);
+    server.once('listening', () => {
+      const { port: actual } = server.address() as AddressInfo;
+      resolve({
+        emulator,
+        server,
+        url: `http://127.0.0.1:${actual}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+let inProcess: Promise<void> | undefined;
+
+/**
+ * Make sure an emulator is listening at `baseUrl` (CIRCLE_ENV=local).
+ * Starts one in this process on first use; if the port is already taken we
+ * assume a standalone `npm run emulator` owns it. Never keeps the process alive.
+ */
+export function ensureLocalEmulator(baseUrl: string): Promise<void> {
+  inProcess ??= (async () => {
+    const port = Number(new URL(baseUrl).port) || DEFAULT_EMULATOR_PORT;
+    try {
+      const { server } = await startEmulator(port, {
+        settleDelayMs: Number(process.env.CIRCLE_EMULATOR_SETTLE_MS ?? 1000),
+      });
+      server.unref();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE') throw error;
+    }
+  })();
+  return inProcess;
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────
+
+async function main() {
+  const port = Number(process.env.CIRCLE_EMULATOR_PORT || process.argv[2] || DEFAULT_EMULATOR_PORT);
+  const { url } = await startEmulator(port, {
+    settleDelayMs: Number(process.env.CIRCLE_EMULATOR_SETTLE_MS ?? 1000),
+  });
+  process.stdout.write(`Circle Mint emulator listening on ${url}\n`);
+  process.stdout.write(`Use it with: CIRCLE_ENV=local CIRCLE_BASE_URL=${url}\n`);
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(error => {
+    process.stderr.write(`Fatal error: ${error.message}\n`);
+    process.exit(1);
+  });
+}
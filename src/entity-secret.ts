@@ -10,25 +10,63 @@
 
 // @ts-ignore - Package will be installed by user
 import { generateEntitySecret, registerEntitySecretCiphertext } from '@circle-fin/developer-controlled-wallets';
-import { config } from './config.js';
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
-import { join } from 'path';
+import { getProfile, takeProfileFlag, type CircleProfile } from './profiles.js';
+import { toCircleApiError } from './errors.js';
+import { redactor, redactText } from './redact.js';
+import { existsSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+
+// Both files are git-ignored (recovery/) and readable by this user only
+const SECRET_FILE = join(process.cwd(), 'recovery', 'entity-secret.env');
+const DEFAULT_RECOVERY_FILE = join(process.cwd(), 'recovery', 'entity-secret-recovery.json');
+
+// An earlier secret or recovery file may be the only copy; never replace one
+function existingFileError(path: string): Error {
+  return new Error(`${path} already exists; move it somewhere safe (or delete it) first, it may be the only copy of an earlier secret`);
+}
+
+function refuseExisting(...paths: string[]): void {
+  for (const path of paths) {
+    if (existsSync(path)) throw existingFileError(path);
+  }
+}
+
+function requireApiKey(profile: CircleProfile): void {
+  if (!profile.apiKey) {
+    throw new Error(`No API key for profile "${profile.name}" (set CIRCLE_API_KEY in .env or use --profile <name>)`);
+  }
+}
+
+function writePrivateFile(path: string, contents: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  try {
+    writeFileSync(path, contents, { mode: 0o600, flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') throw existingFileError(path);
+    throw error;
+  }
+}
 
 /**
- * Generate a new Entity Secret
+ * Generate a new Entity Secret and save it to SECRET_FILE; it is printed only
+ * with --show-secret, never captured in logs by default
  */
-function generateSecret(): string {
+function generateSecret(showSecret: boolean): string {
   console.log('🔐 Generating Entity Secret...');
   console.log('─'.repeat(50));
   
   const entitySecret = generateEntitySecret();
+  redactor.addSecret(entitySecret);
+  writePrivateFile(SECRET_FILE, `ENTITY_SECRET=${entitySecret}\n`);
   
   console.log('✅ Entity Secret generated successfully!');
-  console.log(`\n📝 Entity Secret: ${entitySecret}`);
+  console.log(`\n📁 Saved to: ${SECRET_FILE} (ENTITY_SECRET=…${entitySecret.slice(-4)})`);
+  if (showSecret) console.log(`\n📝 Entity Secret: ${entitySecret}`);
   console.log('\n⚠️  IMPORTANT: Save this Entity Secret securely!');
   console.log('   - Store it in a password manager');
   console.log('   - Circle does NOT store it and cannot recover it');
   console.log('   - You will need it for future API calls');
+  console.log(`   - Move it into your .env or password manager, then delete ${SECRET_FILE}`);
   
   return entitySecret;
 }
@@ -37,21 +75,24 @@ function generateSecret(): string {
  * Register Entity Secret with Circle
  */
 async function registerSecret(
+  profile: CircleProfile,
   entitySecret: string,
   recoveryFilePath?: string
 ): Promise<void> {
   console.log('\n📤 Registering Entity Secret with Circle...');
   console.log('─'.repeat(50));
 
-  if (!config.apiKey) {
-    throw new Error('CIRCLE_API_KEY is not set in .env file');
-  }
+  requireApiKey(profile);
+  // Checked before registering: once Circle has the secret, its recovery file must be saved
+  const recoveryFile = recoveryFilePath || DEFAULT_RECOVERY_FILE;
+  refuseExisting(recoveryFile);
 
   try {
     const response = await registerEntitySecretCiphertext({
-      apiKey: config.apiKey,
+      apiKey: profile.apiKey,
       entitySecret: entitySecret,
-      recoveryFileDownloadPath: recoveryFilePath || '',
+      // Saved below with owner-only permissions, so the SDK does not write it too
+      recoveryFileDownloadPath: '',
     });
 
     console.log('✅ Entity Secret registered successfully!');
@@ -59,23 +100,11 @@ async function registerSecret(
     if (response.data?.recoveryFile) {
       console.log('\n💾 Recovery file received');
       
-      // Save recovery file if path provided
-      if (recoveryFilePath) {
-        const recoveryDir = join(process.cwd(), 'recovery');
-        if (!existsSync(recoveryDir)) {
-          mkdirSync(recoveryDir, { recursive: true });
-        }
-        
-        const recoveryFile = join(recoveryDir, 'entity-secret-recovery.json');
-        writeFileSync(recoveryFile, JSON.stringify(response.data.recoveryFile, null, 2));
-        console.log(`📁 Recovery file saved to: ${recoveryFile}`);
-        console.log('\n⚠️  IMPORTANT: Store this recovery file in a safe, separate location!');
-        console.log('   This is the ONLY way to reset your Entity Secret if it\'s lost.');
-      } else {
-        console.log('\n📋 Recovery file data:');
-        console.log(JSON.stringify(response.data.recoveryFile, null, 2));
-        console.log('\n⚠️  IMPORTANT: Save this recovery file data securely!');
-      }
+      // Always written to a file, never printed
+      writePrivateFile(recoveryFile, JSON.stringify(response.data.recoveryFile, null, 2));
+      console.log(`📁 Recovery file saved to: ${recoveryFile}`);
+      console.log('\n⚠️  IMPORTANT: Store this recovery file in a safe, separate location!');
+      console.log('   This is the ONLY way to reset your Entity Secret if it\'s lost.');
     }
 
     console.log('\n✅ Registration complete!');
@@ -86,15 +115,16 @@ async function registerSecret(
     console.log('   4. Each API request will require a new ciphertext (SDK handles this)');
 
   } catch (error: any) {
-    console.error('\n❌ Error registering Entity Secret:', error.message);
+    const apiError = toCircleApiError(error);
+    console.error('\n❌ Error registering Entity Secret:', redactText(apiError?.message ?? error.message));
     
-    if (error.message.includes('401') || error.message.includes('unauthorized')) {
+    if (apiError?.isUnauthorized) {
       console.log('\n💡 Tip: Check that your API key is correct and has the right permissions');
-    } else if (error.message.includes('400')) {
+    } else if (apiError?.status === 400 || apiError?.isAlreadyExists) {
       console.log('\n💡 Tip: The Entity Secret may already be registered or invalid');
     }
     
-    throw error;
+    throw apiError ?? error;
   }
 }
 
@@ -105,44 +135,52 @@ async function main() {
   console.log('╔═══════════════════════════════════════════════════════╗');
   console.log('║     Circle Wallets Entity Secret Manager             ║');
   console.log('╚═══════════════════════════════════════════════════════╝');
-  console.log(`\nEnvironment: ${config.environment}`);
-  console.log(`Base URL: ${config.baseUrl}\n`);
 
-  const args = process.argv.slice(2);
+  const { profile: profileName, args: rest } = takeProfileFlag(process.argv.slice(2));
+  const showSecret = rest.includes('--show-secret');
+  const args = rest.filter(arg => arg !== '--show-secret');
+  const profile = getProfile(profileName);
+  console.log(`\nProfile: ${profile.name}`);
+  console.log(`Environment: ${profile.environment}`);
+  console.log(`Base URL: ${profile.baseUrl}\n`);
+
   const command = args[0];
 
   try {
     switch (command) {
       case 'generate':
         // Just generate, don't register
-        generateSecret();
+        generateSecret(showSecret);
         break;
 
       case 'register':
         // Register an existing Entity Secret
         const existingSecret = args[1];
+        redactor.addSecret(existingSecret);
         if (!existingSecret) {
           console.error('❌ Error: Entity Secret required');
           console.error('Usage: npm run entity-secret register <entity-secret> [recovery-file-path]');
           process.exit(1);
         }
         const registerRecoveryPath = args[2];
-        await registerSecret(existingSecret, registerRecoveryPath);
+        await registerSecret(profile, existingSecret, registerRecoveryPath);
         break;
 
       case 'generate-and-register':
       case undefined:
-        // Generate and register in one step
-        const entitySecret = generateSecret();
+        // Generate and register in one step; everything that would stop the
+        // registration is checked before a secret is generated and saved
+        const recoveryPath = args[1] || DEFAULT_RECOVERY_FILE;
+        requireApiKey(profile);
+        refuseExisting(SECRET_FILE, recoveryPath);
+        const entitySecret = generateSecret(showSecret);
         
         console.log('\n⏳ Registering Entity Secret...');
-        const defaultRecoveryPath = join(process.cwd(), 'recovery', 'entity-secret-recovery.json');
-        const generateRecoveryPath = args[1] || defaultRecoveryPath;
-        await registerSecret(entitySecret, generateRecoveryPath);
+        await registerSecret(profile, entitySecret, recoveryPath);
         
-        // Save Entity Secret to .env.example format (not actual .env for security)
-        console.log('\n💡 To use this Entity Secret, add it to your .env file:');
-        console.log(`   ENTITY_SECRET=${entitySecret}`);
+        // The line to copy is in the private file, not on screen
+        console.log('\n💡 To use this Entity Secret, copy the line from this file into your .env:');
+        console.log(`   ${SECRET_FILE}`);
         break;
 
       default:
@@ -150,6 +188,9 @@ async function main() {
         console.log('  generate                    - Generate a new Entity Secret (don\'t register)');
         console.log('  register <secret> [path]    - Register an existing Entity Secret');
         console.log('  generate-and-register [path] - Generate and register (default)');
+        console.log('\nOptions:');
+        console.log('  --profile <name>            - Register with a named account from circle.profiles.json');
+        console.log(`  --show-secret               - Also print a generated secret (it is always saved to ${SECRET_FILE})`);
         console.log('\nExamples:');
         console.log('  npm run entity-secret generate');
         console.log('  npm run entity-secret register <your-entity-secret>');
@@ -162,9 +203,12 @@ async function main() {
         console.log('  - Never commit Entity Secret or recovery file to version control');
     }
   } catch (error: any) {
-    console.error('\n❌ Fatal error:', error.message);
+    console.error('\n❌ Fatal error:', redactText(error.message));
     process.exit(1);
   }
 }
 
-main();
+main().catch(error => {
+  console.error('\n❌ Fatal error:', redactText(error.message));
+  process.exit(1);
+});
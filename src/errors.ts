@@ -0,0 +1,145 @@
+import type { SchemaIssue } from './schema.js';
+
+/**
+ * Thrown in strict mode when a Circle response does not match the endpoint schema
+ */
+export class CircleResponseValidationError extends Error {
+  readonly method: string;
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(method: string, endpoint: string, issues: SchemaIssue[]) {
+    const summary = issues.map(i => `${i.path} ${i.message}`).join('; ');
+    super(`Unexpected Circle response from ${method} ${endpoint}: ${summary}`);
+    this.name = 'CircleResponseValidationError';
+    this.method = method;
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Field-level error entry as returned by Circle in `errors[]`
+ */
+export interface CircleFieldError {
+  error: string;
+  message: string;
+  location?: string;
+  invalidValue?: unknown;
+  constraints?: Record<string, unknown>;
+}
+
+/**
+ * Non-2xx response from a Circle API
+ * Reference: https://developers.circle.com/circle-mint/circle-apis-api-errors
+ */
+export class CircleApiError extends Error {
+  readonly status: number;
+  readonly code?: number;
+  readonly circleMessage: string; // Circle's own message, without the status prefix
+  readonly errors: CircleFieldError[];
+  readonly requestId?: string;
+  readonly method: string;
+  readonly endpoint: string;
+
+  constructor(params: {
+    status: number;
+    code?: number;
+    message: string;
+    errors?: CircleFieldError[];
+    requestId?: string;
+    method: string;
+    endpoint: string;
+  }) {
+    super(`Circle Mint API Error (${params.status}${params.code ? `, code ${params.code}` : ''}): ${params.message}`);
+    this.name = 'CircleApiError';
+    this.status = params.status;
+    this.code = params.code;
+    this.circleMessage = params.message;
+    this.errors = params.errors ?? [];
+    this.requestId = params.requestId;
+    this.method = params.method;
+    this.endpoint = params.endpoint;
+  }
+
+  /** True when the resource (or endpoint) does not exist */
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  /** True when the API key was missing, invalid or lacks permission */
+  get isUnauthorized(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+
+  /**
+   * True when Circle rejected the request because the resource already exists.
+   * Circle reports this as code 2023 or with an "already" message on a 400/409.
+   */
+  get isAlreadyExists(): boolean {
+    return this.code === 2023 || this.status === 409 || /already/i.test(this.circleMessage);
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      status: this.status,
+      code: this.code,
+      message: this.circleMessage,
+      errors: this.errors,
+      requestId: this.requestId,
+      method: this.method,
+      endpoint: this.endpoint,
+    };
+  }
+}
+
+/**
+ * Build a CircleApiError from a failed fetch Response
+ */
+export async function circleApiErrorFromResponse(
+  response: Response,
+  method: string,
+  endpoint: string
+): Promise<CircleApiError> {
+  const body = await response.json().catch(() => ({})) as {
+    code?: number;
+    message?: string;
+    errors?: CircleFieldError[];
+  };
+  return new CircleApiError({
+    status: response.status,
+    code: typeof body.code === 'number' ? body.code : undefined,
+    message: body.message || response.statusText,
+    errors: Array.isArray(body.errors) ? body.errors : undefined,
+    requestId: response.headers.get('x-request-id') ?? undefined,
+    method,
+    endpoint,
+  });
+}
+
+/**
+ * Normalise errors thrown by Circle's SDKs (axios-based) into a CircleApiError.
+ * Returns undefined for anything that is not an HTTP error response.
+ */
+export function toCircleApiError(error: unknown): CircleApiError | undefined {
+  if (error instanceof CircleApiError) return error;
+
+  const err = error as {
+    response?: { status?: number; data?: unknown; headers?: Record<string, string> };
+    config?: { method?: string; url?: string };
+  } | null;
+  if (typeof err?.response?.status !== 'number') return undefined;
+
+  const body = err.response.data;
+  const data: { code?: unknown; message?: unknown; errors?: unknown } = typeof body === 'object' && body !== null ? body : {};
+  return new CircleApiError({
+    status: err.response.status,
+    code: typeof data.code === 'number' ? data.code : undefined,
+    message: typeof data.message === 'string' && data.message ? data.message : (error as Error).message,
+    errors: Array.isArray(data.errors) ? data.errors as CircleFieldError[] : undefined,
+    requestId: err.response.headers?.['x-request-id'],
+    method: (err.config?.method ?? 'GET').toUpperCase(),
+    endpoint: err.config?.url ?? '',
+  });
+}
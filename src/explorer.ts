@@ -0,0 +1,248 @@
+import type { CircleMintClient } from './circle-mint-client.js';
+import { CURRENCY_DECIMALS } from './money.js';
+import { MAX_PAGE_SIZE } from './pagination.js';
+import type { Role } from './roles.js';
+import type { Schema } from './schema.js';
+
+/**
+ * CircleMintClient methods, as the API explorer (public/explorer.html) offers them
+ *
+ * Each method that makes one Circle request is listed with a schema of its
+ * arguments, from which the explorer builds a form, and how to call it with
+ * the submitted object. Waits and iterators are left out; they repeat these calls.
+ */
+
+type ObjectSchema = Extract<Schema, { type: 'object' }>;
+
+export interface ClientMethod {
+  name: string;
+  summary: string;
+  /** Role needed to send it from the dashboard; reads need none */
+  role?: Exclude<Role, 'viewer'>;
+  /** Moves money: only sent directly while approvals are not required (CIRCLE_REQUIRE_APPROVAL) */
+  payment?: true;
+  args: ObjectSchema;
+  /** Called with the submitted object once it matches `args` */
+  call(client: CircleMintClient, args: Record<string, unknown>): Promise<unknown>;
+}
+
+/** The first argument of a CircleMintClient method */
+type ArgsOf<M extends keyof CircleMintClient> = CircleMintClient[M] extends (args: infer A, ...rest: never[]) => unknown
+  ? NonNullable<A>
+  : never;
+
+// `call` is typed with what the client method takes; `args` is the schema that vouches for it
+function method<A>(definition: Omit<ClientMethod, 'call'> & { call(client: CircleMintClient, args: A): Promise<unknown> }): ClientMethod {
+  return { ...definition, call: (client, args) => definition.call(client, args as A) };
+}
+
+// ─── Building blocks ─────────────────────────────────────────────────────
+
+const str: Schema = { type: 'string' };
+const id: Schema = { type: 'string', minLength: 1 };
+const idempotencyKey: Schema = { type: 'string', description: 'UUID; generated when omitted' };
+
+function amount(currencies: readonly string[] = Object.keys(CURRENCY_DECIMALS)): Schema {
+  return {
+    type: 'object',
+    properties: {
+      amount: { type: 'string', pattern: '^\\d+(\\.\\d+)?$', description: 'e.g. "10.00"' },
+      currency: { type: 'string', enum: currencies },
+    },
+    required: ['amount', 'currency'],
+  };
+}
+
+const page: Record<string, Schema> = {
+  pageSize: { type: 'integer', description: `1–${MAX_PAGE_SIZE}` },
+  pageBefore: str,
+  pageAfter: str,
+  from: { type: 'string', description: 'ISO-8601' },
+  to: { type: 'string', description: 'ISO-8601' },
+};
+
+function args(properties: Record<string, Schema> = {}, required: string[] = []): ObjectSchema {
+  return { type: 'object', properties, required };
+}
+
+const byId = args({ id }, ['id']);
+
+// ─── Methods ─────────────────────────────────────────────────────────────
+
+export const CLIENT_METHODS: ClientMethod[] = [
+  // ── Account ───────────────────────────────────────────────────────────
+  method({ name: 'getWallets', summary: 'Wallets, with entity id and balances', args: args(), call: client => client.getWallets() }),
+  method({ name: 'getBalance', summary: 'Available and unsettled balances', args: args(), call: client => client.getBalance() }),
+  method({ name: 'getSupportedChains', summary: 'Supported chains and currencies', args: args(), call: client => client.getSupportedChains() }),
+
+  // ── Deposits ──────────────────────────────────────────────────────────
+  method({
+    name: 'listDepositAddresses', summary: 'Deposit addresses (payment intents, else deposits/addresses)',
+    args: args({ accountId: str, blockchain: str }), call: (client, a: ArgsOf<'listDepositAddresses'>) => client.listDepositAddresses(a),
+  }),
+  method({
+    name: 'listDeposits', summary: 'Deposits',
+    args: args({ accountId: str, blockchain: str, status: str, ...page }), call: (client, a: ArgsOf<'listDeposits'>) => client.listDeposits(a),
+  }),
+  method({
+    name: 'listBusinessDepositAddresses', summary: 'Business account deposit addresses',
+    args: args(), call: client => client.listBusinessDepositAddresses(),
+  }),
+  method({
+    name: 'createDepositAddress', summary: 'Create a business deposit address', role: 'operator',
+    args: args({ chain: id, currency: { type: 'string', enum: ['USD', 'EUR'] }, idempotencyKey }, ['chain', 'currency']),
+    call: (client, a: ArgsOf<'createDepositAddress'>) => client.createDepositAddress(a),
+  }),
+  method({
+    name: 'createMockBlockchainDeposit', summary: 'Sandbox: simulate an on-chain deposit', role: 'operator',
+    args: args({ address: id, amount: amount(['USD', 'USDC']), chain: id }, ['address', 'amount', 'chain']),
+    call: (client, a: ArgsOf<'createMockBlockchainDeposit'>) => client.createMockBlockchainDeposit(a),
+  }),
+
+  // ── Crypto payouts ────────────────────────────────────────────────────
+  method({
+    name: 'createAddressBookRecipient', summary: 'Add an address book recipient', role: 'operator',
+    args: args({
+      chain: id,
+      address: id,
+      addressTag: str,
+      metadata: args({ nickname: str, email: str, bns: str }),
+      idempotencyKey,
+    }, ['chain', 'address']),
+    call: (client, a: Partial<ArgsOf<'createAddressBookRecipient'>> & Omit<ArgsOf<'createAddressBookRecipient'>, 'metadata'>) =>
+      client.createAddressBookRecipient({ metadata: {}, ...a }),
+  }),
+  method({
+    name: 'listAddressBookRecipients', summary: 'Address book recipients',
+    args: args(page), call: (client, a: ArgsOf<'listAddressBookRecipients'>) => client.listAddressBookRecipients(a),
+  }),
+  method({
+    name: 'deleteAddressBookRecipient', summary: 'Delete an address book recipient', role: 'operator',
+    args: byId, call: (client, a: { id: string }) => client.deleteAddressBookRecipient(a.id),
+  }),
+  method({
+    name: 'createPayout', summary: 'Pay out to an address book recipient', role: 'approver', payment: true,
+    args: args({
+      destination: args({ type: { type: 'string', enum: ['address_book'] }, id }, ['type', 'id']),
+      amount: amount(['USD', 'EUR']),
+      idempotencyKey,
+    }, ['destination', 'amount']),
+    call: (client, a: ArgsOf<'createPayout'>) => client.createPayout(a),
+  }),
+  method({ name: 'getPayout', summary: 'A payout', args: byId, call: (client, a: { id: string }) => client.getPayout(a.id) }),
+  method({
+    name: 'listPayouts', summary: 'Payouts',
+    args: args({ accountId: str, status: str, ...page }), call: (client, a: ArgsOf<'listPayouts'>) => client.listPayouts(a),
+  }),
+
+  // ── Business account ──────────────────────────────────────────────────
+  method({
+    name: 'createBusinessPayout', summary: 'Pay out fiat to a linked bank account', role: 'approver', payment: true,
+    args: args({
+      destination: args({ type: { type: 'string', enum: ['wire', 'cubix', 'pix', 'sepa', 'sepa_instant'] }, id }, ['type', 'id']),
+      amount: amount(['USD', 'EUR', 'MXN', 'SGD', 'BRL']),
+      idempotencyKey,
+    }, ['destination', 'amount']),
+    call: (client, a: ArgsOf<'createBusinessPayout'>) => client.createBusinessPayout(a),
+  }),
+  method({ name: 'getBusinessPayout', summary: 'A business payout', args: byId, call: (client, a: { id: string }) => client.getBusinessPayout(a.id) }),
+  method({
+    name: 'listBusinessPayouts', summary: 'Business payouts',
+    args: args({ status: { type: 'string', enum: ['pending', 'complete', 'failed'] }, ...page }),
+    call: (client, a: ArgsOf<'listBusinessPayouts'>) => client.listBusinessPayouts(a),
+  }),
+  method({
+    name: 'createWireBankAccount', summary: 'Link a wire bank account', role: 'operator',
+    args: args({
+      accountNumber: id,
+      routingNumber: id,
+      billingDetails: args(
+        { name: id, city: id, country: id, line1: id, line2: str, district: str, postalCode: id },
+        ['name', 'city', 'country', 'line1', 'postalCode']
+      ),
+      bankAddress: args(
+        { bankName: id, city: id, country: id, line1: id, line2: str, district: str },
+        ['bankName', 'city', 'country', 'line1']
+      ),
+      idempotencyKey,
+    }, ['accountNumber', 'routingNumber', 'billingDetails', 'bankAddress']),
+    call: (client, a: ArgsOf<'createWireBankAccount'>) => client.createWireBankAccount(a),
+  }),
+  method({
+    name: 'listWireBankAccounts', summary: 'Linked wire bank accounts',
+    args: args(page), call: (client, a: ArgsOf<'listWireBankAccounts'>) => client.listWireBankAccounts(a),
+  }),
+  method({
+    name: 'getWireBankAccountInstructions', summary: 'Wire instructions for a linked bank account',
+    args: byId, call: (client, a: { id: string }) => client.getWireBankAccountInstructions(a.id),
+  }),
+  method({
+    name: 'createMockWirePayment', summary: 'Sandbox: simulate an incoming wire', role: 'operator',
+    args: args({
+      trackingRef: id,
+      amount: amount(['USD']),
+      beneficiaryBank: args({ accountNumber: id }, ['accountNumber']),
+    }, ['trackingRef', 'amount', 'beneficiaryBank']),
+    call: (client, a: ArgsOf<'createMockWirePayment'>) => client.createMockWirePayment(a),
+  }),
+  method({
+    name: 'createBusinessTransfer', summary: 'Transfer on-chain to a verified recipient address', role: 'approver', payment: true,
+    args: args({
+      destination: args({ type: { type: 'string', enum: ['verified_blockchain'] }, addressId: id }, ['type', 'addressId']),
+      amount: amount(['USD', 'EUR', 'BTC', 'ETH']),
+      idempotencyKey,
+    }, ['destination', 'amount']),
+    call: (client, a: ArgsOf<'createBusinessTransfer'>) => client.createBusinessTransfer(a),
+  }),
+  method({ name: 'getBusinessTransfer', summary: 'A business transfer', args: byId, call: (client, a: { id: string }) => client.getBusinessTransfer(a.id) }),
+  method({
+    name: 'createRecipientAddress', summary: 'Add a recipient address', role: 'operator',
+    args: args(
+      { chain: id, address: id, currency: id, description: id, addressTag: str, idempotencyKey },
+      ['chain', 'address', 'currency', 'description']
+    ),
+    call: (client, a: ArgsOf<'createRecipientAddress'>) => client.createRecipientAddress(a),
+  }),
+  method({
+    name: 'listRecipientAddresses', summary: 'Recipient addresses',
+    args: args(page), call: (client, a: ArgsOf<'listRecipientAddresses'>) => client.listRecipientAddresses(a),
+  }),
+  method({ name: 'getRecipientAddress', summary: 'A recipient address', args: byId, call: (client, a: { id: string }) => client.getRecipientAddress(a.id) }),
+
+  // ── Express Route ─────────────────────────────────────────────────────
+  method({
+    name: 'createExpressRoute', summary: 'Tie a deposit address to a bank account for automatic redemption', role: 'operator',
+    args: args({
+      receiptAddressId: id,
+      destinationBankAccountId: id,
+      destinationType: { type: 'string', enum: ['wire', 'sepa', 'sepa_instant'] },
+      currency: { type: 'string', enum: ['USD', 'EUR'] },
+      idempotencyKey,
+    }, ['receiptAddressId', 'destinationBankAccountId', 'destinationType', 'currency']),
+    call: (client, a: ArgsOf<'createExpressRoute'>) => client.createExpressRoute(a),
+  }),
+  method({
+    name: 'listExpressRoutes', summary: 'Express routes',
+    args: args(page), call: (client, a: ArgsOf<'listExpressRoutes'>) => client.listExpressRoutes(a),
+  }),
+  method({ name: 'getExpressRoute', summary: 'An express route', args: byId, call: (client, a: { id: string }) => client.getExpressRoute(a.id) }),
+
+  // ── Notifications ─────────────────────────────────────────────────────
+  method({
+    name: 'createSubscription', summary: 'Subscribe an endpoint to notifications', role: 'operator',
+    args: args({ endpoint: id }, ['endpoint']), call: (client, a: { endpoint: string }) => client.createSubscription(a.endpoint),
+  }),
+  method({ name: 'listSubscriptions', summary: 'Notification subscriptions', args: args(), call: client => client.listSubscriptions() }),
+  method({
+    name: 'deleteSubscription', summary: 'Delete a subscription', role: 'operator',
+    args: byId, call: (client, a: { id: string }) => client.deleteSubscription(a.id),
+  }),
+  method({
+    name: 'getNotificationPublicKey', summary: 'Public key for notification signatures',
+    args: args({ keyId: id }, ['keyId']), call: (client, a: { keyId: string }) => client.getNotificationPublicKey(a.keyId),
+  }),
+];
+
+export function findClientMethod(name: string): ClientMethod | undefined {
+  return CLIENT_METHODS.find(method => method.name === name);
+}
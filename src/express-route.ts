@@ -1,8 +1,20 @@
 #!/usr/bin/env node
 
 import { CircleMintClient } from './circle-mint-client.js';
-import { config } from './config.js';
-import crypto from 'crypto';
+import { getProfile, takeProfileFlag } from './profiles.js';
+import { takeConfirmFlag } from './safety.js';
+import { CircleApiError } from './errors.js';
+import type { Logger } from './logger.js';
+import type {
+  BusinessPayout,
+  CircleResponse,
+  DepositAddress,
+  ExpressRoute,
+  MockBlockchainPayment,
+  MockWirePayment,
+  Transfer,
+  WireBankAccount,
+} from './types.js';
 import { fileURLToPath } from 'url';
 
 /**
@@ -21,9 +33,12 @@ import { fileURLToPath } from 'url';
  */
 export class ExpressRouteTester {
   private client: CircleMintClient;
+  private logger: Logger;
 
-  constructor() {
-    this.client = new CircleMintClient();
+  /** `logger` reports each step of runFullFlow (default: the client's) */
+  constructor(client = new CircleMintClient(), logger: Logger = client.logger) {
+    this.client = client;
+    this.logger = logger;
   }
 
   // ─── Step 1: Link Bank Account ───────────────────────────────────────────
@@ -31,10 +46,10 @@ export class ExpressRouteTester {
   async linkBankAccount(params?: {
     accountNumber?: string;
     routingNumber?: string;
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<WireBankAccount>> {
     const body = {
-      idempotencyKey,
+      idempotencyKey: params?.idempotencyKey,
       accountNumber: params?.accountNumber ?? '12340010',
       routingNumber: params?.routingNumber ?? '121000248',
       billingDetails: {
@@ -59,8 +74,8 @@ export class ExpressRouteTester {
     try {
       const account = await this.client.createWireBankAccount(body);
       return account;
-    } catch (error: any) {
-      if (error.message?.includes('already') || error.message?.includes('2023') || error.message?.includes('400')) {
+    } catch (error) {
+      if (error instanceof CircleApiError && (error.isAlreadyExists || error.status === 400)) {
         const existing = await this.client.listWireBankAccounts();
         const first = existing.data?.[0];
         if (first) {
@@ -76,23 +91,23 @@ export class ExpressRouteTester {
   async linkReceiptAddress(params: {
     chain?: string;
     currency?: string;
-  } = {}): Promise<any> {
+    idempotencyKey?: string;
+  } = {}): Promise<CircleResponse<DepositAddress>> {
     const chain = params.chain ?? 'ETH';
     const currency = params.currency ?? 'USD';
 
-    const idempotencyKey = crypto.randomUUID();
     try {
       const address = await this.client.createDepositAddress({
-        idempotencyKey,
+        idempotencyKey: params.idempotencyKey,
         chain,
         currency,
       });
 
       return address;
-    } catch (error: any) {
-      if (error.message?.includes('2023') || error.message?.includes('already')) {
+    } catch (error) {
+      if (error instanceof CircleApiError && error.isAlreadyExists) {
         const existing = await this.client.listBusinessDepositAddresses();
-        const match = existing.data?.find((a: any) => a.chain === chain);
+        const match = existing.data?.find(a => a.chain === chain);
         if (match) {
           return { data: match };
         }
@@ -111,7 +126,7 @@ export class ExpressRouteTester {
     trackingRef: string;
     amount?: string;
     accountNumber?: string;
-  }): Promise<any> {
+  }): Promise<CircleResponse<MockWirePayment> | null> {
     try {
       const payment = await this.client.createMockWirePayment({
         trackingRef: params.trackingRef,
@@ -125,8 +140,8 @@ export class ExpressRouteTester {
       });
 
       return payment;
-    } catch (error: any) {
-      if (error.message?.includes('already') || error.message?.includes('2023')) {
+    } catch (error) {
+      if (error instanceof CircleApiError && error.isAlreadyExists) {
         return null;
       }
       throw error;
@@ -139,7 +154,7 @@ export class ExpressRouteTester {
     address: string;
     chain?: string;
     amount?: string;
-  }): Promise<any> {
+  }): Promise<CircleResponse<MockBlockchainPayment> | null> {
     try {
       const deposit = await this.client.createMockBlockchainDeposit({
         address: params.address,
@@ -162,10 +177,10 @@ export class ExpressRouteTester {
     recipientId: string;
     amount?: string;
     currency?: 'USD' | 'EUR' | 'BTC' | 'ETH';
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<Transfer>> {
     const transfer = await this.client.createBusinessTransfer({
-      idempotencyKey,
+      idempotencyKey: params.idempotencyKey,
       destination: {
         type: 'verified_blockchain',
         addressId: params.recipientId,
@@ -186,10 +201,10 @@ export class ExpressRouteTester {
     amount?: string;
     currency?: 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL';
     destinationType?: 'wire' | 'cubix' | 'pix' | 'sepa' | 'sepa_instant';
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<BusinessPayout>> {
     const payout = await this.client.createBusinessPayout({
-      idempotencyKey,
+      idempotencyKey: params.idempotencyKey,
       destination: {
         type: params.destinationType ?? 'wire',
         id: params.bankAccountId,
@@ -210,11 +225,11 @@ export class ExpressRouteTester {
     bankAccountId: string;
     destinationType?: 'wire' | 'sepa' | 'sepa_instant';
     currency?: 'USD' | 'EUR';
-  }): Promise<any> {
-    const idempotencyKey = crypto.randomUUID();
+    idempotencyKey?: string;
+  }): Promise<CircleResponse<ExpressRoute> | null> {
     try {
       const route = await this.client.createExpressRoute({
-        idempotencyKey,
+        idempotencyKey: params.idempotencyKey,
         receiptAddressId: params.receiptAddressId,
         destinationBankAccountId: params.bankAccountId,
         destinationType: params.destinationType ?? 'wire',
@@ -222,12 +237,12 @@ export class ExpressRouteTester {
       });
 
       return route;
-    } catch (error: any) {
-      if (error.message?.includes('already') || error.message?.includes('2023')) {
+    } catch (error) {
+      if (error instanceof CircleApiError && error.isAlreadyExists) {
         try {
           const existing = await this.client.listExpressRoutes();
           const match = existing.data?.find(
-            (r: any) => r.receiptAddressId === params.receiptAddressId
+            r => r.receiptAddressId === params.receiptAddressId
           ) ?? existing.data?.[0];
           if (match) {
             return { data: match };
@@ -261,6 +276,7 @@ export class ExpressRouteTester {
       bankAccountId = bank.data?.id;
       if (!bankAccountId) throw new Error('Failed to obtain bank account ID');
     }
+    this.logger.log(`1/7 Bank account: ${bankAccountId}`);
 
     // Step 2: Link receipt address
     if (!depositAddressId || !depositAddress) {
@@ -269,6 +285,7 @@ export class ExpressRouteTester {
       depositAddress = addr.data?.address;
       if (!depositAddress) throw new Error('Failed to obtain deposit address');
     }
+    this.logger.log(`2/7 Receipt address: ${depositAddress} (${chain})`);
 
     // Step 3: Mock wire deposit
     const instructions = await this.client.getWireBankAccountInstructions(bankAccountId!);
@@ -287,6 +304,7 @@ export class ExpressRouteTester {
       amount: params?.amount ?? '100.00',
       accountNumber: beneficiaryAccountNumber,
     });
+    this.logger.log(`3/7 Mock wire deposit sent (${trackingRef})`);
 
     // Step 4: On-chain deposit
     await this.initiateOnChainDeposit({
@@ -294,11 +312,15 @@ export class ExpressRouteTester {
       chain,
       amount: params?.amount ?? '10.00',
     });
+    this.logger.log('4/7 Mock on-chain deposit sent');
 
     // Step 5: On-chain transfer (requires a verified recipient)
     const recipientId = params?.existingRecipientId;
     if (recipientId) {
       await this.initiateOnChainTransfer({ recipientId, amount: '1.00' });
+      this.logger.log(`5/7 On-chain transfer sent to ${recipientId}`);
+    } else {
+      this.logger.log('5/7 On-chain transfer skipped (no verified recipient given)');
     }
 
     // Step 6: Withdrawal
@@ -306,25 +328,29 @@ export class ExpressRouteTester {
       bankAccountId: bankAccountId!,
       amount: '10.00',
     });
+    this.logger.log('6/7 Withdrawal to the bank account created');
 
     // Step 7: Create express route
     await this.createExpressRoute({
       receiptAddressId: depositAddressId!,
       bankAccountId: bankAccountId!,
     });
+    this.logger.log('7/7 Express route created');
   }
 }
 
 // ─── CLI ───────────────────────────────────────────────────────────────────
 
 async function main() {
-  if (!config.apiKey) {
-    process.stderr.write('Error: CIRCLE_API_KEY is not set!\n');
+  const { confirm, args: rest } = takeConfirmFlag(process.argv.slice(2));
+  const { profile: profileName, args } = takeProfileFlag(rest);
+  const profile = getProfile(profileName);
+  if (!profile.apiKey) {
+    process.stderr.write(`Error: no API key for profile "${profile.name}" (set CIRCLE_API_KEY or use --profile <name>)\n`);
     process.exit(1);
   }
 
-  const tester = new ExpressRouteTester();
-  const args = process.argv.slice(2);
+  const tester = new ExpressRouteTester(new CircleMintClient({ profile: profile.name, confirm }));
   const command = args[0];
 
   try {
@@ -428,6 +454,10 @@ async function main() {
           '  run [chain] [amount] [bankId] [addrId] [addr] [recipId]',
           '                                             - Run the full flow end-to-end',
           '',
+          'Options:',
+          '  --profile <name>                           - Use a named account from circle.profiles.json',
+          '  --confirm <token>                          - Confirm writes in production (see safety.ts)',
+          '',
         ].join('\n'));
     }
   } catch (error: any) {
@@ -437,5 +467,8 @@ async function main() {
 }
 
 if (process.argv[1] === fileURLToPath(import.meta.url)) {
-  main();
+  main().catch(error => {
+    process.stderr.write(`Fatal error: ${error.message}\n`);
+    process.exit(1);
+  });
 }
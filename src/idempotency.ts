@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * Idempotency keys and the local replay journal
+ *
+ * Circle de-duplicates POSTs by idempotencyKey, which must be a UUID.
+ * The journal adds a local layer on top: key → request hash → response, so an
+ * identical retry (double-submitted dashboard form, re-run MCP tool) returns the
+ * stored result without reaching Circle, and reusing a key for a *different*
+ * request fails loudly instead of silently returning the first result.
+ * Entries belong to one account: the same key and body sent with another
+ * profile's API key is a different request.
+ * Reference: https://developers.circle.com/circle-mint/circle-apis-idempotent-requests
+ */
+
+export type IdempotencyKeyProvider = () => string;
+
+export const uuidKeyProvider: IdempotencyKeyProvider = () => crypto.randomUUID();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export function isValidIdempotencyKey(key: unknown): key is string {
+  return typeof key === 'string' && UUID_PATTERN.test(key);
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+/**
+ * A caller-supplied (or provider-generated) key is not a UUID
+ */
+export class InvalidIdempotencyKeyError extends Error {
+  readonly key: unknown;
+
+  constructor(key: unknown) {
+    super(`Invalid idempotencyKey ${JSON.stringify(key)}: Circle requires a UUID (e.g. ${crypto.randomUUID()})`);
+    this.name = 'InvalidIdempotencyKeyError';
+    this.key = key;
+  }
+}
+
+/**
+ * The key was already used for a request with a different method, path or body
+ */
+export class IdempotencyConflictError extends Error {
+  readonly key: string;
+  readonly original: Pick<JournalEntry, 'method' | 'endpoint' | 'createdAt'>;
+
+  constructor(key: string, original: Pick<JournalEntry, 'method' | 'endpoint' | 'createdAt'>) {
+    super(
+      `idempotencyKey ${key} was already used for ${original.method} ${original.endpoint} ` +
+      `at ${original.createdAt} with a different request — use a new key for a new request`
+    );
+    this.name = 'IdempotencyConflictError';
+    this.key = key;
+    this.original = { method: original.method, endpoint: original.endpoint, createdAt: original.createdAt };
+  }
+}
+
+// ─── Journal ─────────────────────────────────────────────────────────────
+
+export interface JournalEntry {
+  account: string;    // accountId() (see safety.ts), never the API key itself
+  key: string;
+  method: string;
+  endpoint: string;
+  requestHash: string;
+  response: unknown;
+  createdAt: string;  // ISO-8601
+}
+
+export interface IdempotencyJournal {
+  get(account: string, key: string): Promise<JournalEntry | undefined>;
+  record(entry: JournalEntry): Promise<void>;
+}
+
+/**
+ * Stable hash of a request to an account, ignoring property order in the JSON body
+ */
+export function hashRequest(account: string, method: string, endpoint: string, body: unknown): string {
+  return crypto.createHash('sha256')
+    .update(`${account}\n${method} ${endpoint}\n${canonicalJson(body)}`)
+    .digest('hex');
+}
+
+/** Where an entry is filed: keys are only unique within an account */
+export function journalKey(account: string, key: string): string {
+  return `${account} ${key}`;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Circle keeps idempotency keys for 24 hours; older entries are ignored */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+function isExpired(entry: JournalEntry, ttlMs: number, now = Date.now()): boolean {
+  return Date.parse(entry.createdAt) + ttlMs < now;
+}
+
+export class MemoryIdempotencyJournal implements IdempotencyJournal {
+  private entries = new Map<string, JournalEntry>();
+
+  constructor(private ttlMs = DEFAULT_TTL_MS) {}
+
+  async get(account: string, key: string): Promise<JournalEntry | undefined> {
+    const entry = this.entries.get(journalKey(account, key));
+    return entry && !isExpired(entry, this.ttlMs) ? entry : undefined;
+  }
+
+  async record(entry: JournalEntry): Promise<void> {
+    this.entries.set(journalKey(entry.account, entry.key), entry);
+  }
+}
+
+/**
+ * Append-only JSONL journal, so replay protection survives restarts
+ */
+export class FileIdempotencyJournal implements IdempotencyJournal {
+  private loaded?: Promise<Map<string, JournalEntry>>;
+
+  constructor(readonly path: string, private ttlMs = DEFAULT_TTL_MS) {}
+
+  private load(): Promise<Map<string, JournalEntry>> {
+    this.loaded ??= readFile(this.path, 'utf8')
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return '';
+        throw error;
+      })
+      .then(text => {
+        const entries = new Map<string, JournalEntry>();
+        for (const line of text.split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            const entry = JSON.parse(line) as JournalEntry;
+            // Entries from before accounts were recorded match no account, and expire within a day
+            if (!isExpired(entry, this.ttlMs)) entries.set(journalKey(entry.account, entry.key), entry);
+          } catch {
+            // A torn final line from a crash — skip it
+          }
+        }
+        return entries;
+      });
+    return this.loaded;
+  }
+
+  async get(account: string, key: string): Promise<JournalEntry | undefined> {
+    const entry = (await this.load()).get(journalKey(account, key));
+    return entry && !isExpired(entry, this.ttlMs) ? entry : undefined;
+  }
+
+  async record(entry: JournalEntry): Promise<void> {
+    const entries = await this.load();
+    entries.set(journalKey(entry.account, entry.key), entry);
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(entry) + '\n');
+  }
+}
+
+const fileJournals = new Map<string, FileIdempotencyJournal>();
+
+/**
+ * One journal instance per path, so every client in the process shares it
+ */
+export function fileJournal(path: string): FileIdempotencyJournal {
+  let journal = fileJournals.get(path);
+  if (!journal) {
+    journal = new FileIdempotencyJournal(path);
+    fileJournals.set(path, journal);
+  }
+  return journal;
+}
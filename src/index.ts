@@ -3,7 +3,56 @@
 import { CircleMintTester } from './test-functions.js';
 import { AccountAndTransferTester } from './account-and-transfers.js';
 import { ExpressRouteTester } from './express-route.js';
+import { CircleMintClient } from './circle-mint-client.js';
+import { getProfile, takeProfileFlag } from './profiles.js';
+import { takeConfirmFlag } from './safety.js';
+import { takeFlag } from './cli-flags.js';
 import { config } from './config.js';
+import { fileAuditLog, type AuditFilter, type AuditOutcome } from './audit.js';
+
+/**
+ * `audit [verify] [--actor a] [--profile p] [--method m] [--endpoint e] [--outcome o] [--since iso] [--limit n]`
+ * reads the local audit log (see audit.ts); it needs no API key
+ */
+async function auditCommand(argv: string[]) {
+  if (config.auditLog === 'off') {
+    console.error('\n❌ The audit log is off (CIRCLE_AUDIT_LOG=off)');
+    process.exit(1);
+  }
+  const log = fileAuditLog(config.auditLog);
+
+  if (argv[0] === 'verify') {
+    const result = await log.verify();
+    if (result.ok) {
+      console.log(`\n✅ Audit log intact: ${result.entries} entries (${config.auditLog})`);
+    } else {
+      console.error(`\n❌ Audit log tampered with: the chain breaks at entry ${result.brokenAt} of ${result.entries} (${config.auditLog})`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  const filter: AuditFilter = { limit: 50 };
+  let args = argv;
+  for (const name of ['actor', 'profile', 'method', 'endpoint', 'outcome', 'since', 'until', 'limit'] as const) {
+    const taken = takeFlag(args, name);
+    args = taken.args;
+    if (taken.value === undefined) continue;
+    if (name === 'limit') filter.limit = Number(taken.value);
+    else if (name === 'outcome') filter.outcome = taken.value as AuditOutcome;
+    else filter[name] = taken.value;
+  }
+
+  const entries = await log.list(filter);
+  console.log(`\n📜 Audit log (${config.auditLog}): ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`);
+  for (const e of entries) {
+    const status = e.status ?? '—';
+    const profile = e.profile ? ` [${e.profile}]` : '';
+    console.log(`  #${e.seq} ${e.timestamp} ${e.actor}${profile} ${e.method} ${e.endpoint} → ${e.outcome} ${status} ${e.durationMs}ms`
+      + (e.circleRequestId ? ` (request ${e.circleRequestId})` : '')
+      + (e.error ? `\n      ${e.error}` : ''));
+  }
+}
 
 /**
  * Circle Mint Testing App CLI
@@ -12,18 +61,27 @@ async function main() {
   console.log('╔═══════════════════════════════════════════════════════╗');
   console.log('║     Circle Mint Testing App                          ║');
   console.log('╚═══════════════════════════════════════════════════════╝');
-  console.log(`\nEnvironment: ${config.environment}`);
-  console.log(`Base URL: ${config.baseUrl}`);
 
-  if (!config.apiKey) {
+  const { confirm, args: rest } = takeConfirmFlag(process.argv.slice(2));
+  if (rest[0] === 'audit') {
+    await auditCommand(rest.slice(1));
+    return;
+  }
+  const { profile: profileName, args } = takeProfileFlag(rest);
+  const profile = getProfile(profileName);
+  console.log(`\nProfile: ${profile.name}`);
+  console.log(`Environment: ${profile.environment}`);
+  console.log(`Base URL: ${profile.baseUrl}`);
+
+  if (!profile.apiKey) {
     console.error('\n❌ Error: CIRCLE_API_KEY is not set!');
-    console.error('Please create a .env file with your Circle API key.');
+    console.error('Please create a .env file with your Circle API key, or pick a profile with --profile <name>.');
     console.error('Example: CIRCLE_API_KEY=your_api_key_here');
     process.exit(1);
   }
 
-  const tester = new CircleMintTester();
-  const args = process.argv.slice(2);
+  const client = new CircleMintClient({ profile: profile.name, confirm });
+  const tester = new CircleMintTester(client);
   const command = args[0];
 
   try {
@@ -75,7 +133,7 @@ async function main() {
         break;
 
       case 'withdraw': {
-        const transferTester = new AccountAndTransferTester();
+        const transferTester = new AccountAndTransferTester(client);
         const sub = args[1];
 
         if (!sub || sub === 'help') {
@@ -121,12 +179,11 @@ async function main() {
             console.error('Example: npm run dev withdraw <bank-id> 100.00 USD');
             process.exit(1);
           }
-          // Circle requires exactly 2 decimal places (e.g. "10.00", not "10.0")
-          const wdAmount = parseFloat(wdRaw).toFixed(2);
+          // Parsed strictly and formatted to the currency's precision ("10" → "10.00")
           await transferTester.createBusinessPayout({
             destinationType: 'wire',
             destinationId: bankId,
-            amount: wdAmount,
+            amount: wdRaw,
             currency: wdCurrency,
           });
         }
@@ -134,7 +191,7 @@ async function main() {
       }
 
       case 'express-route': {
-        const expressRouteTester = new ExpressRouteTester();
+        const expressRouteTester = new ExpressRouteTester(client);
         const sub = args[1];
 
         if (!sub || sub === 'help') {
@@ -231,7 +288,7 @@ async function main() {
 
       case undefined:
         console.log('ℹ️  Running development test flow (check balance -> deposit address -> auto transfer)...');
-        const transferTester = new AccountAndTransferTester();
+        const transferTester = new AccountAndTransferTester(client);
         await transferTester.runTestFlow({
           autoTest: true,
           blockchain: 'ETH'
@@ -253,14 +310,21 @@ async function main() {
         console.log('  all                  - Run all tests');
         console.log('  withdraw             - Withdraw to bank account (see: withdraw help)');
         console.log('  express-route        - Express route flow (auto-redeem on-chain USDC to fiat)');
+        console.log('  audit [--actor a] [--endpoint e] [--since iso] [--limit n] - Show the audit log of API calls');
+        console.log('  audit verify         - Check the audit log\'s hash chain for tampering');
+        console.log('\nOptions:');
+        console.log('  --profile <name>     - Use a named account from circle.profiles.json');
+        console.log('  --confirm <token>    - Confirm writes in production (see safety.ts)');
         console.log('\nExample:');
         console.log('  npm run dev account');
         console.log('  npm run dev deposits create ETH');
-        console.log('  npm run dev payouts create 0x123... ETH 1000000 USDC');
+        console.log('  npm run dev payouts create 0x123... ETH 1.00 USDC');
         console.log('  npm run dev withdraw list-banks');
         console.log('  npm run dev withdraw <bank-id> 100.00 USD');
         console.log('  npm run dev express-route run');
         console.log('  npm run dev express-route help');
+        console.log('  npm run dev -- balance --profile team-sandbox');
+        console.log('  npm run dev -- audit --actor dashboard:alice --limit 20');
     }
   } catch (error: any) {
     console.error('\n❌ Fatal error:', error.message);
@@ -268,4 +332,7 @@ async function main() {
   }
 }
 
-main();
+main().catch(error => {
+  console.error('\n❌ Fatal error:', error.message);
+  process.exit(1);
+});
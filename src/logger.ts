@@ -0,0 +1,85 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { redactText } from './redact.js';
+
+/**
+ * Request-scoped logging for the dashboard API
+ *
+ * Each /api request gets a RequestLogger under a correlation id. It is passed
+ * to the CircleMintClient and testers the route builds, and keeps exactly
+ * that request's lines (redacted, see redact.ts) for its response; each line
+ * is also written to the server's output, tagged with the id. Outside a
+ * request — the CLI, the MCP server — everything logs to the console as before.
+ */
+
+/** The part of the console this codebase logs through */
+export interface Logger {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export interface LogLine {
+  level: LogLevel;
+  message: string;
+  timestamp: string;   // ISO-8601
+}
+
+export const CORRELATION_HEADER = 'X-Correlation-Id';
+
+// As the dashboard has always shown them: "[WARN] …", "[ERR] …"
+const PREFIX: Record<LogLevel, string> = { info: '', warn: '[WARN] ', error: '[ERR] ' };
+
+function format(args: unknown[]): string {
+  return args.map(a => (typeof a === 'string' ? a : JSON.stringify(a, null, 2))).join(' ');
+}
+
+export class RequestLogger implements Logger {
+  readonly lines: LogLine[] = [];
+
+  constructor(
+    readonly correlationId: string = crypto.randomUUID(),
+    private readonly sink: Logger = console,
+  ) {}
+
+  log(...args: unknown[]): void {
+    this.write('info', args);
+  }
+
+  warn(...args: unknown[]): void {
+    this.write('warn', args);
+  }
+
+  error(...args: unknown[]): void {
+    this.write('error', args);
+  }
+
+  /** Lines as the dashboard prints them */
+  text(): string[] {
+    return this.lines.map(line => PREFIX[line.level] + line.message);
+  }
+
+  private write(level: LogLevel, args: unknown[]): void {
+    const message = redactText(format(args));
+    this.lines.push({ level, message, timestamp: new Date().toISOString() });
+    const tagged = `[${this.correlationId}] ${PREFIX[level]}${message}`;
+    if (level === 'info') this.sink.log(tagged);
+    else this.sink[level](tagged);
+  }
+}
+
+const scope = new AsyncLocalStorage<Logger>();
+
+/**
+ * Run `fn` with `logger` as the current logger, for code that is not handed one
+ */
+export function withLogger<T>(logger: Logger, fn: () => T): T {
+  return scope.run(logger, fn);
+}
+
+/** The logger of the request being handled, else the console */
+export function currentLogger(): Logger {
+  return scope.getStore() ?? console;
+}
@@ -6,405 +6,664 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { CircleMintClient } from './circle-mint-client.js';
+import { CircleMintClient, RAW_METHODS, type CreatedResourceKind } from './circle-mint-client.js';
 import { AccountAndTransferTester } from './account-and-transfers.js';
 import { ExpressRouteTester } from './express-route.js';
-import crypto from 'crypto';
+import { CircleApiError, CircleResponseValidationError } from './errors.js';
+import { Money } from './money.js';
+import { collect, MAX_PAGE_SIZE, pageParamsFrom } from './pagination.js';
+import { getProfile, listProfiles, takeProfileFlag } from './profiles.js';
+import { SafetyBlockedError } from './safety.js';
+import { notificationWakeups, WaitFailedError, WaitTimeoutError, type WaitOptions } from './wait.js';
+import { hasRole, isRole, PermissionDeniedError, requiredRoleForTool, TOOL_ALLOWLIST, type Role } from './roles.js';
+import { config } from './config.js';
+import { redact, redactText } from './redact.js';
+import {
+  ApprovalRequiredError,
+  checkDirectSend,
+  checkRawSend,
+  FilePaymentRequestStore,
+  MemoryPaymentRequestStore,
+  PaymentRequestError,
+  PaymentRequestQueue,
+  sendPayment,
+  type PaymentRequestBody,
+  type PaymentRequestStatus,
+} from './payment-requests.js';
+import { fileURLToPath } from 'url';
+import { watchFile } from 'fs';
 
-const client = new CircleMintClient();
-const accountTester = new AccountAndTransferTester();
-const expressRouteTester = new ExpressRouteTester();
+// ─── Tool definitions ──────────────────────────────────────────────────────
 
-const server = new Server(
-  { name: 'circle-mint', version: '1.0.0' },
-  { capabilities: { tools: {} } }
-);
+// Shared by every list_* tool — mirrors Circle's cursor pagination parameters
+const paginationProperties = {
+  pageSize: { type: 'number', description: `Items per page, 1–${MAX_PAGE_SIZE} (default: ${MAX_PAGE_SIZE}).` },
+  pageBefore: { type: 'string', description: 'Return items newer than this id.' },
+  pageAfter: { type: 'string', description: 'Return items older than this id.' },
+  from: { type: 'string', description: 'Only items created at or after this ISO-8601 time.' },
+  to: { type: 'string', description: 'Only items created at or before this ISO-8601 time.' },
+  all: { type: 'boolean', description: 'Walk every page and return all items (default: false).' },
+};
 
-// ─── Tool definitions ──────────────────────────────────────────────────────
+// Shared by every tool that creates something — pass the same key to retry safely
+const idempotencyKeyProperty = {
+  type: 'string',
+  description: 'Optional UUID. Reusing the key of an earlier call returns its result instead of creating a duplicate; generated when omitted.',
+};
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [
-    // ── Overview ──────────────────────────────────────────────────────────
-    {
-      name: 'get_wallets',
-      description: 'Get Circle account identity — returns entity ID, wallet ID, and account type.',
-      inputSchema: { type: 'object', properties: {} },
-    },
-    {
-      name: 'get_balance',
-      description: 'Get the Circle business account balance.',
-      inputSchema: { type: 'object', properties: {} },
-    },
-    {
-      name: 'get_supported_chains',
-      description: 'Get supported blockchains and currencies.',
-      inputSchema: { type: 'object', properties: {} },
+// Added to every Circle tool — runs the call against a named account
+const profileProperty = {
+  type: 'string',
+  description: 'Profile from circle.profiles.json to run against (default: the server\'s default profile). See list_profiles.',
+};
+
+// Added to every tool that writes — production refuses writes without it (see safety.ts)
+const confirmProperty = {
+  type: 'string',
+  description: 'Confirmation token for writes against a production profile (the profile name unless CIRCLE_CONFIRM_TOKEN is set). Ask the user for it; never guess.',
+};
+
+const isWriteTool = (name: string) => !/^(list|get|wait_for|request)_/.test(name);
+
+// Shared by every wait_for_* tool
+const waitProperties = {
+  timeoutSeconds: { type: 'number', description: 'Give up after this many seconds (default: 60).' },
+  pollIntervalSeconds: { type: 'number', description: 'Seconds between status checks (default: 2).' },
+};
+
+/** Polling options from the tool arguments; a notification about `resourceId` (any, without one) checks early */
+function waitOptionsFrom(args?: Record<string, unknown>, resourceId?: string): WaitOptions {
+  return {
+    wakeup: notificationWakeups.for(resourceId),
+    ...(args?.timeoutSeconds !== undefined && { timeoutMs: Number(args.timeoutSeconds) * 1000 }),
+    ...(args?.pollIntervalSeconds !== undefined && { pollIntervalMs: Number(args.pollIntervalSeconds) * 1000 }),
+  };
+}
+
+const circleTools = [
+  // ── Overview ──────────────────────────────────────────────────────────
+  {
+    name: 'get_wallets',
+    description: 'Get Circle account identity — returns entity ID, wallet ID, and account type.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_balance',
+    description: 'Get the Circle business account balance.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_supported_chains',
+    description: 'Get supported blockchains and currencies.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+
+  // ── Deposits ──────────────────────────────────────────────────────────
+  {
+    name: 'list_deposits',
+    description: 'List incoming deposits.',
+    inputSchema: { type: 'object', properties: paginationProperties },
+  },
+  {
+    name: 'list_deposit_addresses',
+    description: 'List business on-chain deposit addresses.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'create_deposit_address',
+    description: 'Create a new on-chain deposit address for a given blockchain.',
+    inputSchema: {
+      type: 'object',
+      required: ['chain'],
+      properties: {
+        chain: {
+          type: 'string',
+          description: 'Blockchain to create the address on.',
+          enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL', 'BTC'],
+        },
+        currency: {
+          type: 'string',
+          description: 'Currency (default: USD).',
+          default: 'USD',
+        },
+        idempotencyKey: idempotencyKeyProperty,
+      },
     },
+  },
 
-    // ── Deposits ──────────────────────────────────────────────────────────
-    {
-      name: 'list_deposits',
-      description: 'List incoming deposits.',
-      inputSchema: { type: 'object', properties: {} },
+  // ── Address Book ──────────────────────────────────────────────────────
+  {
+    name: 'list_address_book',
+    description: 'List address book recipients for crypto payouts.',
+    inputSchema: { type: 'object', properties: paginationProperties },
+  },
+  {
+    name: 'add_address_book_recipient',
+    description: 'Add an address to the address book. Required before sending a crypto payout to that address.',
+    inputSchema: {
+      type: 'object',
+      required: ['chain', 'address'],
+      properties: {
+        chain: {
+          type: 'string',
+          description: 'Blockchain.',
+          enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL', 'BTC'],
+        },
+        address: { type: 'string', description: 'Blockchain address.' },
+        nickname: { type: 'string', description: 'Optional display name.' },
+        email: { type: 'string', description: 'Optional contact email.' },
+        addressTag: { type: 'string', description: 'Optional tag/memo (for XLM, HBAR, etc.).' },
+        idempotencyKey: idempotencyKeyProperty,
+      },
     },
-    {
-      name: 'list_deposit_addresses',
-      description: 'List business on-chain deposit addresses.',
-      inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'delete_address_book_recipient',
+    description: 'Remove a recipient from the address book.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Address book recipient UUID.' },
+      },
     },
-    {
-      name: 'create_deposit_address',
-      description: 'Create a new on-chain deposit address for a given blockchain.',
-      inputSchema: {
-        type: 'object',
-        required: ['chain'],
-        properties: {
-          chain: {
-            type: 'string',
-            description: 'Blockchain to create the address on.',
-            enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL', 'BTC'],
-          },
-          currency: {
-            type: 'string',
-            description: 'Currency (default: USD).',
-            default: 'USD',
-          },
+  },
+
+  // ── Payouts ───────────────────────────────────────────────────────────
+  {
+    name: 'list_payouts',
+    description: 'List crypto payouts.',
+    inputSchema: { type: 'object', properties: paginationProperties },
+  },
+  {
+    name: 'create_payout',
+    description: 'Send a crypto payout (USDC or EURC) to an address book recipient. With approvals required (CIRCLE_REQUIRE_APPROVAL) it is submitted as a payment request instead.',
+    inputSchema: {
+      type: 'object',
+      required: ['recipientId', 'amount'],
+      properties: {
+        recipientId: { type: 'string', description: 'Address book recipient UUID.' },
+        amount: { type: 'string', description: 'Amount as a string (e.g. "1.00").' },
+        currency: {
+          type: 'string',
+          description: 'Currency — USD sends USDC, EUR sends EURC (default: USD).',
+          enum: ['USD', 'EUR'],
+          default: 'USD',
         },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
+  },
 
-    // ── Address Book ──────────────────────────────────────────────────────
-    {
-      name: 'list_address_book',
-      description: 'List address book recipients for crypto payouts.',
-      inputSchema: { type: 'object', properties: {} },
+  // ── Wire Bank Accounts ────────────────────────────────────────────────
+  {
+    name: 'list_wire_accounts',
+    description: 'List wire bank accounts.',
+    inputSchema: { type: 'object', properties: paginationProperties },
+  },
+  {
+    name: 'create_wire_account',
+    description: 'Create a wire bank account. Uses sandbox-safe defaults if fields are omitted.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountNumber: { type: 'string', description: 'Bank account number (default: 12340010).' },
+        routingNumber: { type: 'string', description: 'ABA routing number (default: 121000248).' },
+        billingName: { type: 'string', description: 'Account holder name (default: Satoshi Nakamoto).' },
+        idempotencyKey: idempotencyKeyProperty,
+      },
     },
-    {
-      name: 'add_address_book_recipient',
-      description: 'Add an address to the address book. Required before sending a crypto payout to that address.',
-      inputSchema: {
-        type: 'object',
-        required: ['chain', 'address'],
-        properties: {
-          chain: {
-            type: 'string',
-            description: 'Blockchain.',
-            enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL', 'BTC'],
-          },
-          address: { type: 'string', description: 'Blockchain address.' },
-          nickname: { type: 'string', description: 'Optional display name.' },
-          email: { type: 'string', description: 'Optional contact email.' },
-          addressTag: { type: 'string', description: 'Optional tag/memo (for XLM, HBAR, etc.).' },
-        },
+  },
+  {
+    name: 'get_wire_instructions',
+    description: 'Get wire transfer instructions for a bank account, including the tracking reference and beneficiary account number needed to simulate deposits.',
+    inputSchema: {
+      type: 'object',
+      required: ['bankAccountId'],
+      properties: {
+        bankAccountId: { type: 'string', description: 'Wire bank account UUID.' },
+      },
+    },
+  },
+  {
+    name: 'mock_wire_deposit',
+    description: 'Simulate an incoming wire deposit (sandbox only). Pass bankAccountId, or trackingRef and accountNumber from get_wire_instructions (whose account numbers are masked).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        bankAccountId: { type: 'string', description: 'Wire bank account UUID; its instructions supply trackingRef and accountNumber.' },
+        trackingRef: { type: 'string', description: 'Tracking reference from wire instructions.' },
+        amount: { type: 'string', description: 'USD amount (default: 100.00).' },
+        accountNumber: { type: 'string', description: 'Beneficiary account number from wire instructions.' },
       },
     },
-    {
-      name: 'delete_address_book_recipient',
-      description: 'Remove a recipient from the address book.',
-      inputSchema: {
-        type: 'object',
-        required: ['id'],
-        properties: {
-          id: { type: 'string', description: 'Address book recipient UUID.' },
+  },
+  {
+    name: 'business_payout',
+    description: 'Withdraw funds to a wire bank account (fiat offramp). With approvals required (CIRCLE_REQUIRE_APPROVAL) it is submitted as a payment request instead.',
+    inputSchema: {
+      type: 'object',
+      required: ['bankId', 'amount'],
+      properties: {
+        bankId: { type: 'string', description: 'Wire bank account UUID.' },
+        amount: { type: 'string', description: 'Amount (e.g. "100.00").' },
+        currency: {
+          type: 'string',
+          description: 'Currency (default: USD).',
+          enum: ['USD', 'EUR', 'MXN', 'SGD', 'BRL'],
+          default: 'USD',
         },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
+  },
 
-    // ── Payouts ───────────────────────────────────────────────────────────
-    {
-      name: 'list_payouts',
-      description: 'List crypto payouts.',
-      inputSchema: { type: 'object', properties: {} },
+  // ── Recipients & Transfers ────────────────────────────────────────────
+  {
+    name: 'list_recipients',
+    description: 'List verified recipient addresses for business transfers.',
+    inputSchema: { type: 'object', properties: paginationProperties },
+  },
+  {
+    name: 'create_recipient',
+    description: 'Register a blockchain address as a verified recipient for business transfers.',
+    inputSchema: {
+      type: 'object',
+      required: ['chain', 'address', 'description'],
+      properties: {
+        chain: {
+          type: 'string',
+          description: 'Blockchain.',
+          enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL'],
+        },
+        address: { type: 'string', description: 'Blockchain address.' },
+        description: { type: 'string', description: 'Label for this recipient.' },
+        addressTag: { type: 'string', description: 'Optional tag/memo.' },
+        idempotencyKey: idempotencyKeyProperty,
+      },
     },
-    {
-      name: 'create_payout',
-      description: 'Send a crypto payout (USDC or EURC) to an address book recipient.',
-      inputSchema: {
-        type: 'object',
-        required: ['recipientId', 'amount'],
-        properties: {
-          recipientId: { type: 'string', description: 'Address book recipient UUID.' },
-          amount: { type: 'string', description: 'Amount as a string (e.g. "1.00").' },
-          currency: {
-            type: 'string',
-            description: 'Currency — USD sends USDC, EUR sends EURC (default: USD).',
-            enum: ['USD', 'EUR'],
-            default: 'USD',
-          },
+  },
+  {
+    name: 'business_transfer',
+    description: 'Send an on-chain business transfer to a verified recipient address. With approvals required (CIRCLE_REQUIRE_APPROVAL) it is submitted as a payment request instead.',
+    inputSchema: {
+      type: 'object',
+      required: ['recipientId', 'amount'],
+      properties: {
+        recipientId: { type: 'string', description: 'Verified recipient address UUID.' },
+        amount: { type: 'string', description: 'Amount (default: 1.00).' },
+        currency: {
+          type: 'string',
+          description: 'Currency (default: USD).',
+          enum: ['USD', 'EUR', 'BTC', 'ETH'],
+          default: 'USD',
         },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
+  },
 
-    // ── Wire Bank Accounts ────────────────────────────────────────────────
-    {
-      name: 'list_wire_accounts',
-      description: 'List wire bank accounts.',
-      inputSchema: { type: 'object', properties: {} },
+  // ── Notifications ─────────────────────────────────────────────────────
+  {
+    name: 'list_subscriptions',
+    description: 'List Circle webhook notification subscriptions.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'create_subscription',
+    description: 'Subscribe to Circle webhook notifications. The endpoint must be a publicly accessible HTTPS URL.',
+    inputSchema: {
+      type: 'object',
+      required: ['endpoint'],
+      properties: {
+        endpoint: { type: 'string', description: 'Public HTTPS URL to receive webhooks.' },
+      },
     },
-    {
-      name: 'create_wire_account',
-      description: 'Create a wire bank account. Uses sandbox-safe defaults if fields are omitted.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          accountNumber: { type: 'string', description: 'Bank account number (default: 12340010).' },
-          routingNumber: { type: 'string', description: 'ABA routing number (default: 121000248).' },
-          billingName: { type: 'string', description: 'Account holder name (default: Satoshi Nakamoto).' },
-        },
+  },
+  {
+    name: 'delete_subscription',
+    description: 'Delete a webhook notification subscription.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Subscription UUID.' },
       },
     },
-    {
-      name: 'get_wire_instructions',
-      description: 'Get wire transfer instructions for a bank account, including the tracking reference and beneficiary account number needed to simulate deposits.',
-      inputSchema: {
-        type: 'object',
-        required: ['bankAccountId'],
-        properties: {
-          bankAccountId: { type: 'string', description: 'Wire bank account UUID.' },
-        },
+  },
+
+  // ── Express Route ─────────────────────────────────────────────────────
+  {
+    name: 'express_route_link_bank',
+    description: 'Express Route Step 1: Link a wire bank account as the fiat destination.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountNumber: { type: 'string', description: 'Account number (default: 12340010).' },
+        routingNumber: { type: 'string', description: 'Routing number (default: 121000248).' },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
-    {
-      name: 'mock_wire_deposit',
-      description: 'Simulate an incoming wire deposit (sandbox only). Use get_wire_instructions to obtain trackingRef and accountNumber.',
-      inputSchema: {
-        type: 'object',
-        required: ['trackingRef', 'accountNumber'],
-        properties: {
-          trackingRef: { type: 'string', description: 'Tracking reference from wire instructions.' },
-          amount: { type: 'string', description: 'USD amount (default: 100.00).' },
-          accountNumber: { type: 'string', description: 'Beneficiary account number from wire instructions.' },
+  },
+  {
+    name: 'express_route_link_receipt',
+    description: 'Express Route Step 2: Create an on-chain receipt address for incoming USDC.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chain: {
+          type: 'string',
+          description: 'Blockchain (default: ETH).',
+          enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL'],
+          default: 'ETH',
         },
+        currency: { type: 'string', description: 'Currency (default: USD).', default: 'USD' },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
-    {
-      name: 'business_payout',
-      description: 'Withdraw funds to a wire bank account (fiat offramp).',
-      inputSchema: {
-        type: 'object',
-        required: ['bankId', 'amount'],
-        properties: {
-          bankId: { type: 'string', description: 'Wire bank account UUID.' },
-          amount: { type: 'string', description: 'Amount (e.g. "100.00").' },
-          currency: {
-            type: 'string',
-            description: 'Currency (default: USD).',
-            enum: ['USD', 'EUR', 'MXN', 'SGD', 'BRL'],
-            default: 'USD',
-          },
-        },
+  },
+  {
+    name: 'express_route_mock_deposit',
+    description: 'Express Route Step 3: Simulate an incoming wire deposit (sandbox). Pass bankAccountId, or trackingRef and accountNumber from get_wire_instructions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        bankAccountId: { type: 'string', description: 'Wire bank account UUID; its instructions supply trackingRef and accountNumber.' },
+        trackingRef: { type: 'string', description: 'Tracking reference from wire instructions.' },
+        amount: { type: 'string', description: 'Amount (default: 100.00).' },
+        accountNumber: { type: 'string', description: 'Beneficiary account number.' },
       },
     },
-
-    // ── Recipients & Transfers ────────────────────────────────────────────
-    {
-      name: 'list_recipients',
-      description: 'List verified recipient addresses for business transfers.',
-      inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'express_route_onchain_deposit',
+    description: 'Express Route Step 4: Simulate an on-chain USDC deposit to the receipt address (sandbox).',
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', description: 'Receipt deposit address.' },
+        chain: { type: 'string', description: 'Blockchain (default: ETH).', default: 'ETH' },
+        amount: { type: 'string', description: 'Amount in USD (default: 10.00).', default: '10.00' },
+      },
     },
-    {
-      name: 'create_recipient',
-      description: 'Register a blockchain address as a verified recipient for business transfers.',
-      inputSchema: {
-        type: 'object',
-        required: ['chain', 'address', 'description'],
-        properties: {
-          chain: {
-            type: 'string',
-            description: 'Blockchain.',
-            enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL'],
-          },
-          address: { type: 'string', description: 'Blockchain address.' },
-          description: { type: 'string', description: 'Label for this recipient.' },
-          addressTag: { type: 'string', description: 'Optional tag/memo.' },
+  },
+  {
+    name: 'express_route_transfer',
+    description: 'Express Route Step 5: Send an on-chain business transfer to a verified recipient. Refused while approvals are required (CIRCLE_REQUIRE_APPROVAL).',
+    inputSchema: {
+      type: 'object',
+      required: ['recipientId'],
+      properties: {
+        recipientId: { type: 'string', description: 'Verified recipient address UUID.' },
+        amount: { type: 'string', description: 'Amount (default: 1.00).', default: '1.00' },
+        currency: {
+          type: 'string',
+          description: 'Currency (default: USD).',
+          enum: ['USD', 'EUR', 'BTC', 'ETH'],
+          default: 'USD',
         },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
-    {
-      name: 'business_transfer',
-      description: 'Send an on-chain business transfer to a verified recipient address.',
-      inputSchema: {
-        type: 'object',
-        required: ['recipientId', 'amount'],
-        properties: {
-          recipientId: { type: 'string', description: 'Verified recipient address UUID.' },
-          amount: { type: 'string', description: 'Amount (default: 1.00).' },
-          currency: {
-            type: 'string',
-            description: 'Currency (default: USD).',
-            enum: ['USD', 'EUR', 'BTC', 'ETH'],
-            default: 'USD',
-          },
+  },
+  {
+    name: 'express_route_withdraw',
+    description: 'Express Route Step 6: Withdraw USDC to bank as fiat (offramp). Refused while approvals are required (CIRCLE_REQUIRE_APPROVAL).',
+    inputSchema: {
+      type: 'object',
+      required: ['bankAccountId'],
+      properties: {
+        bankAccountId: { type: 'string', description: 'Wire bank account UUID.' },
+        amount: { type: 'string', description: 'Amount (default: 10.00).', default: '10.00' },
+        currency: {
+          type: 'string',
+          description: 'Currency (default: USD).',
+          enum: ['USD', 'EUR', 'MXN', 'SGD', 'BRL'],
+          default: 'USD',
         },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
-
-    // ── Notifications ─────────────────────────────────────────────────────
-    {
-      name: 'list_subscriptions',
-      description: 'List Circle webhook notification subscriptions.',
-      inputSchema: { type: 'object', properties: {} },
-    },
-    {
-      name: 'create_subscription',
-      description: 'Subscribe to Circle webhook notifications. The endpoint must be a publicly accessible HTTPS URL.',
-      inputSchema: {
-        type: 'object',
-        required: ['endpoint'],
-        properties: {
-          endpoint: { type: 'string', description: 'Public HTTPS URL to receive webhooks.' },
+  },
+  {
+    name: 'express_route_create',
+    description: 'Express Route Step 7: Bind a receipt address to a bank account so incoming USDC is automatically redeemed to fiat.',
+    inputSchema: {
+      type: 'object',
+      required: ['receiptAddressId', 'bankAccountId'],
+      properties: {
+        receiptAddressId: { type: 'string', description: 'Deposit address UUID.' },
+        bankAccountId: { type: 'string', description: 'Wire bank account UUID.' },
+        destinationType: {
+          type: 'string',
+          description: 'Destination type (default: wire).',
+          enum: ['wire', 'sepa', 'sepa_instant'],
+          default: 'wire',
         },
+        currency: {
+          type: 'string',
+          description: 'Currency (default: USD).',
+          enum: ['USD', 'EUR'],
+          default: 'USD',
+        },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
-    {
-      name: 'delete_subscription',
-      description: 'Delete a webhook notification subscription.',
-      inputSchema: {
-        type: 'object',
-        required: ['id'],
-        properties: {
-          id: { type: 'string', description: 'Subscription UUID.' },
-        },
+  },
+  {
+    name: 'express_route_run_full',
+    description: 'Run the complete Express Route flow (all 7 steps) end-to-end. Refused while approvals are required (CIRCLE_REQUIRE_APPROVAL).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chain: { type: 'string', description: 'Blockchain (default: ETH).', default: 'ETH' },
+        amount: { type: 'string', description: 'Deposit amount (default: 10.00).', default: '10.00' },
       },
     },
+  },
 
-    // ── Express Route ─────────────────────────────────────────────────────
-    {
-      name: 'express_route_link_bank',
-      description: 'Express Route Step 1: Link a wire bank account as the fiat destination.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          accountNumber: { type: 'string', description: 'Account number (default: 12340010).' },
-          routingNumber: { type: 'string', description: 'Routing number (default: 121000248).' },
-        },
+  // ── Approvals ─────────────────────────────────────────────────────────
+  {
+    name: 'list_payment_requests',
+    description: 'List payment requests awaiting (or past) approval, oldest first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', description: 'Only requests in this state.', enum: ['pending', 'executed', 'rejected', 'failed'] },
+        kind: { type: 'string', description: 'Only this kind of request.', enum: ['payout', 'businessPayout', 'businessTransfer'] },
       },
     },
-    {
-      name: 'express_route_link_receipt',
-      description: 'Express Route Step 2: Create an on-chain receipt address for incoming USDC.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          chain: {
-            type: 'string',
-            description: 'Blockchain (default: ETH).',
-            enum: ['ETH', 'MATIC', 'AVAX', 'BASE', 'ARB', 'SOL'],
-            default: 'ETH',
-          },
-          currency: { type: 'string', description: 'Currency (default: USD).', default: 'USD' },
+  },
+  {
+    name: 'request_payout',
+    description: 'Propose a crypto payout to an address book recipient. Nothing is sent: the request waits until a different user approves it (approve_request or the dashboard).',
+    inputSchema: {
+      type: 'object',
+      required: ['recipientId', 'amount'],
+      properties: {
+        recipientId: { type: 'string', description: 'Address book recipient UUID.' },
+        amount: { type: 'string', description: 'Amount as a string (e.g. "1.00").' },
+        currency: {
+          type: 'string',
+          description: 'Currency — USD sends USDC, EUR sends EURC (default: USD).',
+          enum: ['USD', 'EUR'],
+          default: 'USD',
         },
+        idempotencyKey: idempotencyKeyProperty,
       },
     },
-    {
-      name: 'express_route_mock_deposit',
-      description: 'Express Route Step 3: Simulate an incoming wire deposit (sandbox). Obtain trackingRef and accountNumber from get_wire_instructions.',
-      inputSchema: {
-        type: 'object',
-        required: ['trackingRef', 'accountNumber'],
-        properties: {
-          trackingRef: { type: 'string', description: 'Tracking reference from wire instructions.' },
-          amount: { type: 'string', description: 'Amount (default: 100.00).' },
-          accountNumber: { type: 'string', description: 'Beneficiary account number.' },
-        },
+  },
+  {
+    name: 'approve_request',
+    description: 'Approve a pending payment request submitted by someone else, sending it to Circle under the profile it was requested for. Requests this server submitted itself are refused.',
+    inputSchema: {
+      type: 'object',
+      required: ['requestId'],
+      properties: {
+        requestId: { type: 'string', description: 'Payment request id from list_payment_requests.' },
       },
     },
-    {
-      name: 'express_route_onchain_deposit',
-      description: 'Express Route Step 4: Simulate an on-chain USDC deposit to the receipt address (sandbox).',
-      inputSchema: {
-        type: 'object',
-        required: ['address'],
-        properties: {
-          address: { type: 'string', description: 'Receipt deposit address.' },
-          chain: { type: 'string', description: 'Blockchain (default: ETH).', default: 'ETH' },
-          amount: { type: 'string', description: 'Amount in USD (default: 10.00).', default: '10.00' },
-        },
+  },
+
+  // ── Waiting ───────────────────────────────────────────────────────────
+  {
+    name: 'wait_for_payout',
+    description: 'Wait until a crypto payout is complete. Fails if it fails or is still pending at the timeout.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Payout UUID.' },
+        ...waitProperties,
       },
     },
-    {
-      name: 'express_route_transfer',
-      description: 'Express Route Step 5: Send an on-chain business transfer to a verified recipient.',
-      inputSchema: {
-        type: 'object',
-        required: ['recipientId'],
-        properties: {
-          recipientId: { type: 'string', description: 'Verified recipient address UUID.' },
-          amount: { type: 'string', description: 'Amount (default: 1.00).', default: '1.00' },
-          currency: {
-            type: 'string',
-            description: 'Currency (default: USD).',
-            enum: ['USD', 'EUR', 'BTC', 'ETH'],
-            default: 'USD',
-          },
-        },
+  },
+  {
+    name: 'wait_for_business_payout',
+    description: 'Wait until a business (bank) payout is complete. Fails if it fails or is still pending at the timeout.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Business payout UUID.' },
+        ...waitProperties,
       },
     },
-    {
-      name: 'express_route_withdraw',
-      description: 'Express Route Step 6: Withdraw USDC to bank as fiat (offramp).',
-      inputSchema: {
-        type: 'object',
-        required: ['bankAccountId'],
-        properties: {
-          bankAccountId: { type: 'string', description: 'Wire bank account UUID.' },
-          amount: { type: 'string', description: 'Amount (default: 10.00).', default: '10.00' },
-          currency: {
-            type: 'string',
-            description: 'Currency (default: USD).',
-            enum: ['USD', 'EUR', 'MXN', 'SGD', 'BRL'],
-            default: 'USD',
-          },
-        },
+  },
+  {
+    name: 'wait_for_business_transfer',
+    description: 'Wait until an on-chain business transfer is complete. Fails if it fails or is still pending at the timeout.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Transfer UUID.' },
+        ...waitProperties,
       },
     },
-    {
-      name: 'express_route_create',
-      description: 'Express Route Step 7: Bind a receipt address to a bank account so incoming USDC is automatically redeemed to fiat.',
-      inputSchema: {
-        type: 'object',
-        required: ['receiptAddressId', 'bankAccountId'],
-        properties: {
-          receiptAddressId: { type: 'string', description: 'Deposit address UUID.' },
-          bankAccountId: { type: 'string', description: 'Wire bank account UUID.' },
-          destinationType: {
-            type: 'string',
-            description: 'Destination type (default: wire).',
-            enum: ['wire', 'sepa', 'sepa_instant'],
-            default: 'wire',
-          },
-          currency: {
-            type: 'string',
-            description: 'Currency (default: USD).',
-            enum: ['USD', 'EUR'],
-            default: 'USD',
-          },
-        },
+  },
+  {
+    name: 'wait_for_deposit',
+    description: 'Wait until a deposit of exactly this amount to a deposit address is complete.',
+    inputSchema: {
+      type: 'object',
+      required: ['address', 'amount'],
+      properties: {
+        address: { type: 'string', description: 'Deposit address (as returned by list_deposit_addresses).' },
+        amount: { type: 'string', description: 'Expected amount, e.g. "10.00".' },
+        currency: { type: 'string', description: 'Currency the deposit is credited in (default: USD).', default: 'USD' },
+        since: { type: 'string', description: 'Ignore deposits created before this ISO-8601 time.' },
+        ...waitProperties,
       },
     },
-    {
-      name: 'express_route_run_full',
-      description: 'Run the complete Express Route flow (all 7 steps) end-to-end.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          chain: { type: 'string', description: 'Blockchain (default: ETH).', default: 'ETH' },
-          amount: { type: 'string', description: 'Deposit amount (default: 10.00).', default: '10.00' },
-        },
+  },
+  {
+    name: 'wait_for_recipient_verified',
+    description: 'Wait until a recipient address is verified (active). Fails if it is denied or inactive.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Recipient address UUID.' },
+        ...waitProperties,
       },
     },
-  ],
-}));
+  },
+
+  // ── Raw requests ──────────────────────────────────────────────────────
+  {
+    name: 'circle_raw_request',
+    description: 'Call any Circle endpoint the other tools do not cover. Only paths under CIRCLE_RAW_PATHS are allowed; writes need the approver role and are refused in production unless CIRCLE_RAW_PRODUCTION_WRITES is on; payouts and transfers are refused while CIRCLE_REQUIRE_APPROVAL is on (use create_payout and the like to submit them). Prefer a dedicated tool when there is one.',
+    inputSchema: {
+      type: 'object',
+      required: ['method', 'path'],
+      properties: {
+        method: { type: 'string', description: 'HTTP method.', enum: RAW_METHODS },
+        path: { type: 'string', description: 'Circle path with any query string, e.g. /v1/businessAccount/balances.' },
+        body: { type: 'object', description: 'JSON body of a POST, PUT or PATCH. Include an idempotencyKey (UUID) in a POST so it can be retried safely.' },
+      },
+    },
+  },
+];
+
+export const tools = [
+  {
+    name: 'list_profiles',
+    description: 'List the configured Circle profiles (name, environment, base URL, whether a key is set) and which one is the default.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  ...circleTools.map(tool => ({
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        profile: profileProperty,
+        ...(isWriteTool(tool.name) && { confirm: confirmProperty }),
+      },
+    },
+  })),
+];
 
 // ─── Tool call handler ─────────────────────────────────────────────────────
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+// The same JSONL queue the dashboard reads, so either side can approve the other's requests
+const paymentRequests = new PaymentRequestQueue(
+  config.paymentRequests === 'off' ? new MemoryPaymentRequestStore() : new FilePaymentRequestStore(config.paymentRequests),
+);
 
+/**
+ * Payout and transfer tools: while approvals are required (CIRCLE_REQUIRE_APPROVAL)
+ * the call is submitted as a pending payment request instead of reaching Circle
+ */
+async function sendOrSubmit(client: CircleMintClient, body: PaymentRequestBody) {
+  if (!config.requireApproval) return sendPayment(client, body);
+  return paymentRequests.submit(body, { requestedBy: config.mcpUser, profile: client.profile });
+}
+
+/**
+ * Where a mock wire deposit goes: the instructions of `args.bankAccountId`, or
+ * the trackingRef and accountNumber given (responses mask account numbers, so
+ * an agent cannot copy them from get_wire_instructions)
+ */
+async function wireTarget(client: CircleMintClient, args: Record<string, unknown> | undefined) {
+  if (typeof args?.bankAccountId === 'string') {
+    const { data } = await client.getWireBankAccountInstructions(args.bankAccountId);
+    return { trackingRef: data.trackingRef, accountNumber: data.beneficiaryBank.accountNumber };
+  }
+  return { trackingRef: args?.trackingRef as string, accountNumber: args?.accountNumber as string };
+}
+
+/**
+ * Run a tool by name against `args.profile`, else `defaultProfile`, as `role`
+ * (see roles.ts). Errors are returned as `isError` results, never thrown.
+ * Every text the agent sees is redacted (see redact.ts).
+ */
+export async function callTool(name: string, args?: Record<string, unknown>, defaultProfile?: string, role: Role = 'approver') {
+  const response = await runTool(name, args, defaultProfile, role);
+  return { ...response, content: response.content.map(item => ({ ...item, text: redactText(item.text) })) };
+}
+
+async function runTool(name: string, args: Record<string, unknown> | undefined, defaultProfile: string | undefined, role: Role) {
   try {
+    if (tools.some(tool => tool.name === name) && !TOOL_ALLOWLIST[role].has(name)) {
+      throw new PermissionDeniedError(name, role, requiredRoleForTool(name));
+    }
     let result: unknown;
+    const client = new CircleMintClient({
+      profile: (args?.profile as string | undefined) || defaultProfile,
+      confirm: args?.confirm as string | undefined,
+      actor: `mcp:${config.mcpUser}`,
+    });
+    const accountTester = new AccountAndTransferTester(client);
+    const expressRouteTester = new ExpressRouteTester(client);
 
     switch (name) {
+      case 'list_profiles':
+        result = listProfiles().map(profile => defaultProfile ? { ...profile, isDefault: profile.name === defaultProfile } : profile);
+        break;
+
       // Overview
       case 'get_wallets':
         result = await client.getWallets();
@@ -417,9 +676,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         break;
 
       // Deposits
-      case 'list_deposits':
-        result = await client.listDeposits();
+      case 'list_deposits': {
+        const { all, ...page } = pageParamsFrom(args);
+        result = all ? { data: await collect(client.iterateDeposits(page)) } : await client.listDeposits(page);
         break;
+      }
       case 'list_deposit_addresses':
         result = await client.listBusinessDepositAddresses();
         break;
@@ -427,53 +688,66 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await accountTester.createDepositAddress({
           chain: args?.chain as string,
           currency: (args?.currency as string) ?? 'USD',
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
 
       // Address book
-      case 'list_address_book':
-        result = await client.listAddressBookRecipients();
+      case 'list_address_book': {
+        const { all, ...page } = pageParamsFrom(args);
+        result = all
+          ? { data: await collect(client.iterateAddressBookRecipients(page)) }
+          : await client.listAddressBookRecipients(page);
         break;
+      }
       case 'add_address_book_recipient':
         result = await client.createAddressBookRecipient({
-          idempotencyKey: crypto.randomUUID(),
+          idempotencyKey: args?.idempotencyKey as string | undefined,
           chain: args?.chain as string,
           address: args?.address as string,
-          ...(args?.addressTag && { addressTag: args.addressTag as string }),
+          ...(args?.addressTag ? { addressTag: args.addressTag as string } : {}),
           metadata: {
-            ...(args?.nickname && { nickname: args.nickname as string }),
-            ...(args?.email && { email: args.email as string }),
+            ...(args?.nickname ? { nickname: args.nickname as string } : {}),
+            ...(args?.email ? { email: args.email as string } : {}),
           },
         });
         break;
       case 'delete_address_book_recipient':
-        result = await client.deleteAddressBookRecipient(args?.id as string);
+        await client.deleteAddressBookRecipient(args?.id as string);
+        result = { deleted: true, id: args?.id };
         break;
 
       // Payouts
-      case 'list_payouts':
-        result = await client.listPayouts();
+      case 'list_payouts': {
+        const { all, ...page } = pageParamsFrom(args);
+        result = all ? { data: await collect(client.iteratePayouts(page)) } : await client.listPayouts(page);
         break;
+      }
       case 'create_payout':
-        result = await client.createPayout({
-          idempotencyKey: crypto.randomUUID(),
-          destination: { type: 'address_book', id: args?.recipientId as string },
-          amount: {
-            amount: parseFloat(args?.amount as string).toFixed(2),
-            currency: (args?.currency as 'USD' | 'EUR') ?? 'USD',
+        result = await sendOrSubmit(client, {
+          kind: 'payout',
+          params: {
+            idempotencyKey: args?.idempotencyKey as string | undefined,
+            destination: { type: 'address_book', id: args?.recipientId as string },
+            amount: Money.parsePositive(args?.amount, (args?.currency as string) ?? 'USD'),
           },
         });
         break;
 
       // Wire accounts
-      case 'list_wire_accounts':
-        result = await client.listWireBankAccounts();
+      case 'list_wire_accounts': {
+        const { all, ...page } = pageParamsFrom(args);
+        result = all
+          ? { data: await collect(client.iterateWireBankAccounts(page)) }
+          : await client.listWireBankAccounts(page);
         break;
+      }
       case 'create_wire_account':
         result = await accountTester.createWireBankAccount({
           accountNumber: args?.accountNumber as string | undefined,
           routingNumber: args?.routingNumber as string | undefined,
           billingName: args?.billingName as string | undefined,
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
       case 'get_wire_instructions':
@@ -481,37 +755,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         break;
       case 'mock_wire_deposit':
         result = await accountTester.createMockWirePayment({
-          trackingRef: args?.trackingRef as string,
+          ...await wireTarget(client, args),
           amount: (args?.amount as string) ?? '100.00',
-          accountNumber: args?.accountNumber as string,
         });
         break;
       case 'business_payout':
-        result = await accountTester.createBusinessPayout({
-          destinationType: 'wire',
-          destinationId: args?.bankId as string,
-          amount: parseFloat(args?.amount as string).toFixed(2),
-          currency: (args?.currency as 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL') ?? 'USD',
+        result = await sendOrSubmit(client, {
+          kind: 'businessPayout',
+          params: {
+            idempotencyKey: args?.idempotencyKey as string | undefined,
+            destination: { type: 'wire', id: args?.bankId as string },
+            amount: Money.parsePositive(args?.amount, (args?.currency as string) ?? 'USD'),
+          },
         });
         break;
 
       // Recipients & Transfers
-      case 'list_recipients':
-        result = await accountTester.listRecipientAddresses();
+      case 'list_recipients': {
+        const { all, ...page } = pageParamsFrom(args);
+        result = all
+          ? { data: await collect(client.iterateRecipientAddresses(page)) }
+          : await accountTester.listRecipientAddresses(page);
         break;
+      }
       case 'create_recipient':
         result = await accountTester.createRecipientAddress({
           chain: args?.chain as string,
           address: args?.address as string,
           description: args?.description as string,
           addressTag: args?.addressTag as string | undefined,
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
       case 'business_transfer':
-        result = await accountTester.createBusinessTransfer({
-          recipientId: args?.recipientId as string,
-          amount: (args?.amount as string) ?? '1.00',
-          currency: (args?.currency as 'USD' | 'EUR' | 'BTC' | 'ETH') ?? 'USD',
+        result = await sendOrSubmit(client, {
+          kind: 'businessTransfer',
+          params: {
+            idempotencyKey: args?.idempotencyKey as string | undefined,
+            destination: { type: 'verified_blockchain', addressId: args?.recipientId as string },
+            amount: Money.parsePositive((args?.amount as string) ?? '1.00', (args?.currency as string) ?? 'USD'),
+          },
         });
         break;
 
@@ -523,7 +806,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await client.createSubscription(args?.endpoint as string);
         break;
       case 'delete_subscription':
-        result = await client.deleteSubscription(args?.id as string);
+        await client.deleteSubscription(args?.id as string);
+        result = { deleted: true, id: args?.id };
         break;
 
       // Express Route
@@ -531,19 +815,20 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await expressRouteTester.linkBankAccount({
           accountNumber: args?.accountNumber as string | undefined,
           routingNumber: args?.routingNumber as string | undefined,
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
       case 'express_route_link_receipt':
         result = await expressRouteTester.linkReceiptAddress({
           chain: (args?.chain as string) ?? 'ETH',
           currency: (args?.currency as string) ?? 'USD',
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
       case 'express_route_mock_deposit':
         result = await expressRouteTester.initiateMockDeposit({
-          trackingRef: args?.trackingRef as string,
+          ...await wireTarget(client, args),
           amount: args?.amount as string | undefined,
-          accountNumber: args?.accountNumber as string | undefined,
         });
         break;
       case 'express_route_onchain_deposit':
@@ -554,17 +839,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         });
         break;
       case 'express_route_transfer':
+        checkDirectSend(name);
         result = await expressRouteTester.initiateOnChainTransfer({
           recipientId: args?.recipientId as string,
           amount: args?.amount as string | undefined,
           currency: args?.currency as 'USD' | 'EUR' | 'BTC' | 'ETH' | undefined,
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
       case 'express_route_withdraw':
+        checkDirectSend(name);
         result = await expressRouteTester.initiateWithdrawal({
           bankAccountId: args?.bankAccountId as string,
           amount: args?.amount as string | undefined,
           currency: args?.currency as 'USD' | 'EUR' | 'MXN' | 'SGD' | 'BRL' | undefined,
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
       case 'express_route_create':
@@ -573,9 +862,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           bankAccountId: args?.bankAccountId as string,
           destinationType: args?.destinationType as 'wire' | 'sepa' | 'sepa_instant' | undefined,
           currency: args?.currency as 'USD' | 'EUR' | undefined,
+          idempotencyKey: args?.idempotencyKey as string | undefined,
         });
         break;
       case 'express_route_run_full':
+        checkDirectSend(name);
         await expressRouteTester.runFullFlow({
           chain: args?.chain as string | undefined,
           amount: args?.amount as string | undefined,
@@ -583,23 +874,186 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = { message: 'Express Route full flow completed successfully' };
         break;
 
+      // Approvals (see payment-requests.ts); this server acts as CIRCLE_MCP_USER
+      case 'list_payment_requests':
+        result = await paymentRequests.list({
+          ...(args?.status !== undefined && { status: args.status as PaymentRequestStatus }),
+          ...(args?.kind !== undefined && { kind: args.kind as CreatedResourceKind }),
+        });
+        break;
+      case 'request_payout':
+        result = await paymentRequests.submit({
+          kind: 'payout',
+          params: {
+            idempotencyKey: args?.idempotencyKey as string | undefined,
+            destination: { type: 'address_book', id: args?.recipientId as string },
+            amount: Money.parsePositive(args?.amount, (args?.currency as string) ?? 'USD'),
+          },
+        }, { requestedBy: config.mcpUser, profile: (args?.profile as string | undefined) || defaultProfile });
+        break;
+      case 'approve_request': {
+        const id = args?.requestId as string;
+        const request = await paymentRequests.get(id);
+        const requestClient = new CircleMintClient({
+          profile: request?.profile,
+          confirm: args?.confirm as string | undefined,
+          actor: `mcp:${config.mcpUser}`,
+        });
+        result = await paymentRequests.approve(id, config.mcpUser, requestClient);
+        break;
+      }
+
+      // Waiting
+      case 'wait_for_payout':
+        result = { data: await client.waitForPayout(args?.id as string, waitOptionsFrom(args, args?.id as string)) };
+        break;
+      case 'wait_for_business_payout':
+        result = { data: await client.waitForBusinessPayout(args?.id as string, waitOptionsFrom(args, args?.id as string)) };
+        break;
+      case 'wait_for_business_transfer':
+        result = { data: await client.waitForBusinessTransfer(args?.id as string, waitOptionsFrom(args, args?.id as string)) };
+        break;
+      case 'wait_for_deposit':
+        result = {
+          data: await client.waitForDeposit(
+            args?.address as string,
+            Money.parsePositive(args?.amount, (args?.currency as string) ?? 'USD'),
+            { ...waitOptionsFrom(args), since: args?.since as string | undefined }
+          ),
+        };
+        break;
+      case 'wait_for_recipient_verified':
+        result = { data: await client.waitForRecipientVerified(args?.id as string, waitOptionsFrom(args, args?.id as string)) };
+        break;
+
+      // Raw requests: any role reads, only approvers write, and payouts and transfers wait for approval when it is required
+      case 'circle_raw_request': {
+        const method = String(args?.method ?? 'GET').toUpperCase();
+        const endpoint = String(args?.path ?? '');
+        if (method !== 'GET' && !hasRole(role, 'approver')) {
+          throw new PermissionDeniedError(`${name} ${method}`, role, 'approver');
+        }
+        checkRawSend(method, endpoint);
+        result = (await client.raw(method, endpoint, args?.body as Record<string, unknown> | undefined)) ?? { data: null };
+        break;
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
 
     return {
-      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      content: [{ type: 'text', text: JSON.stringify(redact(result), null, 2) }],
     };
   } catch (error: any) {
+    if (error instanceof CircleApiError) {
+      return {
+        content: [
+          { type: 'text', text: `Error: ${error.message}` },
+          { type: 'text', text: JSON.stringify(error.toJSON(), null, 2) },
+        ],
+        isError: true,
+      };
+    }
+    if (error instanceof PaymentRequestError) {
+      return {
+        content: [
+          { type: 'text', text: `Error: ${error.message}` },
+          { type: 'text', text: JSON.stringify({ paymentRequest: error.toJSON() }, null, 2) },
+        ],
+        isError: true,
+      };
+    }
+    if (error instanceof ApprovalRequiredError) {
+      return {
+        content: [
+          { type: 'text', text: `Error: ${error.message}` },
+          { type: 'text', text: JSON.stringify({ approvalRequired: error.toJSON() }, null, 2) },
+        ],
+        isError: true,
+      };
+    }
+    if (error instanceof PermissionDeniedError) {
+      return {
+        content: [
+          { type: 'text', text: `Error: ${error.message}` },
+          { type: 'text', text: JSON.stringify({ forbidden: error.toJSON() }, null, 2) },
+        ],
+        isError: true,
+      };
+    }
+    if (error instanceof SafetyBlockedError) {
+      return {
+        content: [
+          { type: 'text', text: `Error: ${error.message}` },
+          { type: 'text', text: JSON.stringify({ blocked: error.toJSON() }, null, 2) },
+        ],
+        isError: true,
+      };
+    }
+    if (error instanceof WaitTimeoutError || error instanceof WaitFailedError) {
+      const detail = error instanceof WaitTimeoutError
+        ? { timedOut: { what: error.what, timeoutMs: error.timeoutMs, last: error.last } }
+        : { failed: { what: error.what, reason: error.reason, resource: error.resource } };
+      return {
+        content: [
+          { type: 'text', text: `Error: ${error.message}` },
+          { type: 'text', text: JSON.stringify(detail, null, 2) },
+        ],
+        isError: true,
+      };
+    }
+    if (error instanceof CircleResponseValidationError) {
+      return {
+        content: [
+          { type: 'text', text: `Error: ${error.message}` },
+          { type: 'text', text: JSON.stringify({ endpoint: `${error.method} ${error.endpoint}`, issues: error.issues }, null, 2) },
+        ],
+        isError: true,
+      };
+    }
     return {
       content: [{ type: 'text', text: `Error: ${error.message}` }],
       isError: true,
     };
   }
-});
+}
+
+// ─── Server ────────────────────────────────────────────────────────────────
+
+/**
+ * @param options.profile Default profile for calls that do not name one
+ *   (CIRCLE_PROFILE / the profiles file's default otherwise)
+ * @param options.role What the connected agent may do (default: CIRCLE_MCP_ROLE);
+ *   only that role's tools are listed, and any other call is refused
+ */
+export function createMcpServer(options: { profile?: string; role?: Role } = {}): Server {
+  const role = options.role ?? config.mcpRole;
+  if (!isRole(role)) throw new Error(`Invalid CIRCLE_MCP_ROLE "${role}": expected viewer, operator or approver`);
+
+  const server = new Server(
+    { name: 'circle-mint', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.filter(tool => TOOL_ALLOWLIST[role].has(tool.name)),
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments, options.profile, role)
+  );
+  return server;
+}
 
 // ─── Start ─────────────────────────────────────────────────────────────────
 
-const transport = new StdioServerTransport();
-await server.connect(transport);
-process.stderr.write('Circle Mint MCP server running on stdio\n');
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const { profile } = takeProfileFlag(process.argv.slice(2));
+  const active = getProfile(profile);
+  const transport = new StdioServerTransport();
+  await createMcpServer({ profile: active.name }).connect(transport);
+  // The dashboard server stores every notification it receives; check waits again when it does
+  if (config.notificationStore !== 'off') {
+    watchFile(config.notificationStore, { interval: 1000 }, () => notificationWakeups.notify()).unref();
+  }
+  process.stderr.write(`Circle Mint MCP server running on stdio (profile: ${active.name}, ${active.environment}, role: ${config.mcpRole})\n`);
+}
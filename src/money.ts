@@ -0,0 +1,172 @@
+import type { Amount } from './types.js';
+
+/**
+ * Exact decimal money amounts
+ *
+ * Circle sends and expects amounts as decimal strings ("10.50"). Going through
+ * `parseFloat` loses precision and silently accepts "1,00" or "1e3", so every
+ * amount that crosses a boundary (REST body, CLI argument, MCP argument, Circle
+ * response) goes through `Money` instead: an integer count of the currency's
+ * smallest unit plus the currency, parsed strictly and formatted at the
+ * currency's precision.
+ */
+
+/** Decimal places Circle uses per currency */
+export const CURRENCY_DECIMALS = {
+  USD: 2,
+  EUR: 2,
+  MXN: 2,
+  SGD: 2,
+  BRL: 2,
+  BTC: 8,
+  ETH: 18,
+  // Mint quotes stablecoins at the precision of the fiat they track
+  USDC: 2,
+  EURC: 2,
+} as const;
+
+export type Currency = keyof typeof CURRENCY_DECIMALS;
+
+export function isCurrency(currency: unknown): currency is Currency {
+  return typeof currency === 'string' && Object.hasOwn(CURRENCY_DECIMALS, currency);
+}
+
+// Plain decimal: digits, optional fraction — no sign, exponent, separators or spaces
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d+))?$/;
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+/**
+ * An amount string that is not a plain decimal at the currency's precision
+ */
+export class InvalidAmountError extends Error {
+  readonly input: unknown;
+  readonly currency: string;
+
+  constructor(input: unknown, currency: string, reason?: string) {
+    const decimals = isCurrency(currency) ? CURRENCY_DECIMALS[currency] : undefined;
+    super(reason ?? (decimals === undefined
+      ? `Unsupported currency ${JSON.stringify(currency)}: expected one of ${Object.keys(CURRENCY_DECIMALS).join(', ')}`
+      : `Invalid amount format ${JSON.stringify(input)} for ${currency}: must be a decimal string in major units ` +
+        `with at most ${decimals} decimal places (e.g. "${(1).toFixed(decimals)}")`));
+    this.name = 'InvalidAmountError';
+    this.input = input;
+    this.currency = currency;
+  }
+}
+
+/**
+ * Arithmetic or comparison between two different currencies
+ */
+export class CurrencyMismatchError extends Error {
+  constructor(a: Currency, b: Currency) {
+    super(`Cannot combine ${a} and ${b} amounts`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+// ─── Money ───────────────────────────────────────────────────────────────
+
+export class Money {
+  private constructor(
+    readonly minor: bigint,  // count of the currency's smallest unit (cents, satoshi, wei)
+    readonly currency: Currency
+  ) {}
+
+  /**
+   * Parse a major-unit decimal string ("1", "1.5", "1.50") strictly.
+   * Throws InvalidAmountError for anything else, including more decimal places
+   * than the currency has — amounts are never rounded.
+   */
+  static parse(input: unknown, currency: string): Money {
+    if (!isCurrency(currency)) throw new InvalidAmountError(input, currency);
+    const match = typeof input === 'string' ? DECIMAL_PATTERN.exec(input) : null;
+    const decimals = CURRENCY_DECIMALS[currency];
+    if (!match || (match[2]?.length ?? 0) > decimals) throw new InvalidAmountError(input, currency);
+    const [, whole, fraction = ''] = match;
+    return new Money(BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0')), currency);
+  }
+
+  /**
+   * Like parse, but also rejects zero — for amounts being sent or requested
+   */
+  static parsePositive(input: unknown, currency: string): Money {
+    const money = Money.parse(input, currency);
+    if (!money.isPositive()) throw new InvalidAmountError(input, currency, `Amount must be greater than zero, got ${JSON.stringify(input)}`);
+    return money;
+  }
+
+  /** Parse a Circle `{ amount, currency }` object */
+  static from(amount: Amount | Money): Money {
+    return amount instanceof Money ? amount : Money.parse(amount.amount, amount.currency);
+  }
+
+  static fromMinor(minor: bigint, currency: Currency): Money {
+    return new Money(minor, currency);
+  }
+
+  static zero(currency: Currency): Money {
+    return new Money(0n, currency);
+  }
+
+  /**
+   * Per-currency totals of a list of amounts, in first-seen currency order
+   */
+  static totals(amounts: (Amount | Money)[]): Money[] {
+    const totals = new Map<Currency, Money>();
+    for (const amount of amounts) {
+      const money = Money.from(amount);
+      totals.set(money.currency, (totals.get(money.currency) ?? Money.zero(money.currency)).plus(money));
+    }
+    return [...totals.values()];
+  }
+
+  plus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  minus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  /** Negative, zero or positive as this is less than, equal to or greater than other */
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.minor < other.minor ? -1 : this.minor > other.minor ? 1 : 0;
+  }
+
+  isZero(): boolean {
+    return this.minor === 0n;
+  }
+
+  isPositive(): boolean {
+    return this.minor > 0n;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0n;
+  }
+
+  /** Major units at the currency's precision ("1.50", "0.00100000") */
+  toString(): string {
+    const decimals = CURRENCY_DECIMALS[this.currency];
+    const abs = this.minor < 0n ? -this.minor : this.minor;
+    const scale = 10n ** BigInt(decimals);
+    return `${this.minor < 0n ? '-' : ''}${abs / scale}.${(abs % scale).toString().padStart(decimals, '0')}`;
+  }
+
+  /** Circle's `{ amount, currency }` shape */
+  toAmount(): Amount {
+    return { amount: this.toString(), currency: this.currency };
+  }
+
+  toJSON(): Amount {
+    return this.toAmount();
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) throw new CurrencyMismatchError(this.currency, other.currency);
+  }
+}
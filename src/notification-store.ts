@@ -0,0 +1,193 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * Local history of received notifications
+ *
+ * Every notification pushed to the dashboard is stored first, under an
+ * increasing numeric id that doubles as its SSE event id: a browser that
+ * reconnects with Last-Event-ID gets everything it missed, and stored
+ * notifications can be listed, filtered and replayed to another endpoint.
+ */
+
+export interface StoredNotification {
+  id: number;
+  timestamp: string;     // ISO-8601, when this server received it
+  type: string;          // notificationType ("payouts", "transfers", …)
+  resourceId?: string;   // id of the payout, transfer, … it is about
+  status?: string;       // that resource's status
+  payload: unknown;
+  verification: unknown;
+}
+
+export type NewNotification = Pick<StoredNotification, 'timestamp' | 'payload' | 'verification'>;
+
+export interface NotificationFilter {
+  type?: string;
+  resourceId?: string;
+  status?: string;
+  since?: string;   // ISO-8601, inclusive
+  until?: string;   // ISO-8601, exclusive
+  afterId?: number;
+  limit?: number;   // newest first when set
+}
+
+export interface NotificationStore {
+  append(notification: NewNotification): Promise<StoredNotification>;
+  get(id: number): Promise<StoredNotification | undefined>;
+  /** Oldest first, so a replay keeps delivery order */
+  list(filter?: NotificationFilter): Promise<StoredNotification[]>;
+}
+
+// Top-level fields of a Circle notification that are not the resource itself
+const ENVELOPE_FIELDS = ['clientId', 'notificationType', 'version', 'customAttributes'];
+
+/**
+ * Type, resource id and status of a Circle notification payload, e.g.
+ * `{ notificationType: 'payouts', payout: { id, status } }`
+ */
+export function describeNotification(payload: unknown): Pick<StoredNotification, 'type' | 'resourceId' | 'status'> {
+  const fields = payload && typeof payload === 'object' ? payload as Record<string, unknown> : {};
+  const type = typeof fields.notificationType === 'string' ? fields.notificationType : 'unknown';
+  const resource = Object.entries(fields)
+    .filter(([name]) => !ENVELOPE_FIELDS.includes(name))
+    .map(([, value]) => value as Record<string, unknown>)
+    .find(value => value && typeof value === 'object' && typeof value.id === 'string');
+
+  return {
+    type,
+    ...(resource && { resourceId: resource.id as string }),
+    ...(typeof resource?.status === 'string' && { status: resource.status }),
+  };
+}
+
+function matches(notification: StoredNotification, filter: NotificationFilter): boolean {
+  return (filter.type === undefined || notification.type === filter.type)
+    && (filter.resourceId === undefined || notification.resourceId === filter.resourceId)
+    && (filter.status === undefined || notification.status === filter.status)
+    && (filter.since === undefined || notification.timestamp >= filter.since)
+    && (filter.until === undefined || notification.timestamp < filter.until)
+    && (filter.afterId === undefined || notification.id > filter.afterId);
+}
+
+function select(all: StoredNotification[], filter: NotificationFilter): StoredNotification[] {
+  const found = all.filter(n => matches(n, filter));
+  return filter.limit === undefined ? found : found.slice(-filter.limit);
+}
+
+export class MemoryNotificationStore implements NotificationStore {
+  private all: StoredNotification[] = [];
+
+  async append(notification: NewNotification): Promise<StoredNotification> {
+    const stored = toStored(this.all.length ? this.all[this.all.length - 1].id + 1 : 1, notification);
+    this.all.push(stored);
+    return stored;
+  }
+
+  async get(id: number): Promise<StoredNotification | undefined> {
+    return this.all.find(n => n.id === id);
+  }
+
+  async list(filter: NotificationFilter = {}): Promise<StoredNotification[]> {
+    return select(this.all, filter);
+  }
+}
+
+/**
+ * Append-only JSONL store, read once and kept in memory; only the server writes it
+ */
+export class FileNotificationStore implements NotificationStore {
+  private loaded?: Promise<StoredNotification[]>;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  private load(): Promise<StoredNotification[]> {
+    this.loaded ??= readFile(this.path, 'utf8')
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return '';
+        throw error;
+      })
+      .then(text => {
+        const all: StoredNotification[] = [];
+        for (const line of text.split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            all.push(JSON.parse(line) as StoredNotification);
+          } catch {
+            // A torn final line from a crash — skip it
+          }
+        }
+        return all;
+      });
+    return this.loaded;
+  }
+
+  async append(notification: NewNotification): Promise<StoredNotification> {
+    const all = await this.load();
+    // Ids are taken synchronously, so concurrent webhooks get distinct ones in arrival order
+    const stored = toStored(all.length ? all[all.length - 1].id + 1 : 1, notification);
+    all.push(stored);
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, JSON.stringify(stored) + '\n');
+    });
+    this.writes = write.catch(() => {});
+    await write;
+    return stored;
+  }
+
+  async get(id: number): Promise<StoredNotification | undefined> {
+    return (await this.load()).find(n => n.id === id);
+  }
+
+  async list(filter: NotificationFilter = {}): Promise<StoredNotification[]> {
+    return select(await this.load(), filter);
+  }
+}
+
+function toStored(id: number, notification: NewNotification): StoredNotification {
+  return {
+    id,
+    timestamp: notification.timestamp,
+    ...describeNotification(notification.payload),
+    payload: notification.payload,
+    verification: notification.verification,
+  };
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────
+
+export interface ReplayResult {
+  notificationId: number;
+  endpoint: string;
+  status: number;
+  ok: boolean;
+}
+
+const REPLAY_TIMEOUT_MS = 10_000;
+
+/**
+ * POST a stored notification's payload to another endpoint, to re-test a
+ * downstream consumer. X-Circle-Replay carries the stored id; the original
+ * Circle signature is not re-sent.
+ */
+export async function replayNotification(notification: StoredNotification, endpoint: string): Promise<ReplayResult> {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new Error(`Invalid replay endpoint ${JSON.stringify(endpoint)}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Replay endpoint must be http(s), got ${url.protocol}`);
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Circle-Replay': String(notification.id) },
+    body: JSON.stringify(notification.payload),
+    signal: AbortSignal.timeout(REPLAY_TIMEOUT_MS),
+  });
+  return { notificationId: notification.id, endpoint: url.toString(), status: response.status, ok: response.ok };
+}
@@ -0,0 +1,982 @@
+#!/usr/bin/env node
+
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SESSION_COOKIE } from './auth.js';
+import { RAW_METHODS } from './circle-mint-client.js';
+import { CORRELATION_HEADER } from './logger.js';
+import { CURRENCY_DECIMALS } from './money.js';
+import { MAX_PAGE_SIZE } from './pagination.js';
+import { envelope, list, resourceSchemas as circle } from './response-schemas.js';
+import { ROLES, type Role } from './roles.js';
+import { validateSchema, type Schema, type SchemaIssue } from './schema.js';
+
+/**
+ * The dashboard REST API, described once
+ *
+ * `API_ROUTES` lists every /api route server.ts serves with the body, query
+ * and path parameters it accepts and what it answers with, in the schema
+ * dialect of schema.ts. From it come the OpenAPI 3 document served at
+ * /api/openapi.json, the request checks the server runs before a route handler
+ * sees its input (`requestIssues`), and the typed client in api-client.ts
+ * (`npm run generate:api-client`).
+ */
+
+export type ApiMethod = 'get' | 'post' | 'delete';
+
+/** A response schema, or a choice of them (`oneOf` in the OpenAPI document) */
+export type ResponseSchema = Schema | { oneOf: Schema[] };
+
+export interface ApiRoute {
+  method: ApiMethod;
+  path: string;                          // Express syntax, e.g. /api/notifications/:id
+  operationId: string;
+  tag: string;
+  summary: string;
+  role?: Exclude<Role, 'viewer'>;        // the role it needs beyond signing in
+  params?: Record<string, Schema>;
+  query?: Record<string, Schema>;
+  body?: Extract<Schema, { type: 'object' }>;
+  /** `result` (default): the RunResult envelope; `plain`: its own JSON; `stream`: server-sent events */
+  response?: 'result' | 'plain' | 'stream';
+  /** What it answers with: the RunResult `data` of a `result` route, the whole body of a `plain` one; unset: unknown */
+  returns?: ResponseSchema;
+  /** Honours X-Circle-Preview: its first Circle request is described instead of sent */
+  preview?: true;
+}
+
+/** Ask a route marked `preview` for the Circle request it would make, without making it */
+export const PREVIEW_HEADER = 'X-Circle-Preview';
+
+// ─── Building blocks ─────────────────────────────────────────────────────
+
+const str: Schema = { type: 'string' };
+const id: Schema = { type: 'string', minLength: 1 };
+const chain: Schema = { type: 'string', minLength: 1, description: 'Blockchain, e.g. ETH, SOL, MATIC' };
+const currency: Schema = { type: 'string', enum: Object.keys(CURRENCY_DECIMALS), description: 'Default: USD' };
+const amount: Schema = { type: 'string', pattern: '^\\d+(\\.\\d+)?$', description: 'Decimal amount as a string, e.g. "10.00"' };
+const idempotencyKey: Schema = {
+  type: 'string',
+  description: 'UUID; resending the same key returns the first result instead of creating a duplicate',
+};
+const requestApproval: Schema = {
+  type: 'boolean',
+  description: 'Submit as a payment request for an approver instead of sending (always on with CIRCLE_REQUIRE_APPROVAL)',
+};
+const isoTime = (description: string): Schema => ({ type: 'string', description: `ISO-8601; ${description}` });
+
+const pageQuery: Record<string, Schema> = {
+  pageSize: { type: 'integer', description: `Items per page, 1–${MAX_PAGE_SIZE}` },
+  pageBefore: { type: 'string', description: 'Return items newer than this id' },
+  pageAfter: { type: 'string', description: 'Return items older than this id' },
+  from: isoTime('only items created at or after this time'),
+  to: isoTime('only items created at or before this time'),
+  all: { type: 'boolean', description: 'Walk every page and return all items' },
+};
+
+const idParam = { id };
+
+function body(properties: Record<string, Schema>, required: string[] = []): Extract<Schema, { type: 'object' }> {
+  return { type: 'object', properties, required };
+}
+
+// ─── Responses ───────────────────────────────────────────────────────────
+
+const bool: Schema = { type: 'boolean' };
+const int: Schema = { type: 'integer' };
+const anyObject: Schema = { type: 'object', properties: {} };
+const money: Schema = { type: 'object', required: ['amount', 'currency'], properties: { amount: str, currency: str } };
+const resourceKind: Schema = { type: 'string', enum: ['payout', 'businessPayout', 'businessTransfer'] };
+
+/** The app's own resources, by name; with the Circle ones in response-schemas.ts they become components and client interfaces */
+const APP_SCHEMAS = {
+  ProfileSummary: {
+    type: 'object',
+    required: ['name', 'environment', 'baseUrl', 'hasApiKey', 'isDefault', 'readOnly'],
+    properties: {
+      name: str,
+      environment: { type: 'string', enum: ['sandbox', 'production', 'local'] },
+      baseUrl: str,
+      description: str,
+      hasApiKey: bool,
+      isDefault: bool,
+      readOnly: bool,
+    },
+  },
+  AuthUser: {
+    type: 'object',
+    required: ['name', 'via', 'role'],
+    properties: { name: str, via: { type: 'string', enum: ['session', 'token', 'local'] }, role: { type: 'string', enum: ROLES } },
+  },
+  PaymentRequest: {
+    type: 'object',
+    required: ['id', 'kind', 'params', 'status', 'requestedBy', 'requestedAt'],
+    properties: {
+      id: str,
+      kind: resourceKind,
+      params: {
+        type: 'object',
+        required: ['destination', 'amount'],
+        description: 'The Circle request body approving it sends',
+        properties: {
+          idempotencyKey: str,
+          destination: { type: 'object', required: ['type'], properties: { type: str, id: str, addressId: str } },
+          amount: money,
+        },
+      },
+      profile: str,
+      status: { type: 'string', enum: ['pending', 'executed', 'rejected', 'failed'] },
+      requestedBy: str,
+      requestedAt: isoTime('when it was submitted'),
+      decidedBy: str,
+      decidedAt: isoTime('when it was approved or rejected'),
+      reason: { type: 'string', description: 'Given on rejection' },
+      resourceId: { type: 'string', description: 'The payout or transfer created on approval' },
+      error: { type: 'string', description: 'Why Circle refused it' },
+    },
+  },
+  StoredNotification: {
+    type: 'object',
+    required: ['id', 'timestamp', 'type', 'payload', 'verification'],
+    properties: {
+      id: int,
+      timestamp: isoTime('when this server received it'),
+      type: { type: 'string', description: 'notificationType, e.g. payouts' },
+      resourceId: str,
+      status: str,
+      payload: anyObject,
+      verification: anyObject,
+    },
+  },
+  SnsSubscription: {
+    type: 'object',
+    required: ['topicArn', 'state', 'updatedAt'],
+    properties: {
+      topicArn: str,
+      state: { type: 'string', enum: ['awaiting_confirmation', 'confirming', 'confirmed', 'confirmation_failed', 'unsubscribed'] },
+      subscribeUrl: str,
+      updatedAt: isoTime('of the last change'),
+      error: str,
+    },
+  },
+  TrackedResource: {
+    type: 'object',
+    required: ['kind', 'id', 'status', 'terminal', 'createdAt', 'updatedAt', 'timeline'],
+    properties: {
+      kind: resourceKind,
+      id: str,
+      profile: str,
+      status: str,
+      terminal: bool,
+      createdAt: str,
+      updatedAt: str,
+      timeline: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['at', 'status', 'source'],
+          properties: { at: str, status: str, source: { type: 'string', enum: ['created', 'webhook', 'poll'] } },
+        },
+      },
+    },
+  },
+  AuditEntry: {
+    type: 'object',
+    required: ['seq', 'timestamp', 'actor', 'environment', 'method', 'endpoint', 'outcome', 'durationMs', 'prevHash', 'hash'],
+    properties: {
+      seq: int,
+      timestamp: isoTime('when the call started'),
+      actor: { type: 'string', description: 'e.g. dashboard:alice, mcp:mcp-agent, cli:jane' },
+      profile: str,
+      environment: str,
+      method: str,
+      endpoint: str,
+      request: { type: 'object', properties: {}, description: 'Request body, redacted' },
+      outcome: { type: 'string', enum: ['ok', 'error', 'blocked', 'replayed'] },
+      status: { type: 'integer', description: "Circle's HTTP status, when it answered" },
+      circleRequestId: str,
+      durationMs: int,
+      error: str,
+      prevHash: str,
+      hash: str,
+    },
+  },
+  AuditVerification: {
+    type: 'object',
+    required: ['ok', 'entries'],
+    properties: { ok: bool, entries: int, brokenAt: { type: 'integer', description: 'seq of the first entry whose hash or link does not match' } },
+  },
+  ReplayResult: {
+    type: 'object',
+    required: ['notificationId', 'endpoint', 'status', 'ok'],
+    properties: { notificationId: int, endpoint: str, status: int, ok: bool },
+  },
+  ClientMethod: {
+    type: 'object',
+    required: ['name', 'summary', 'args'],
+    properties: {
+      name: str,
+      summary: str,
+      role: { type: 'string', enum: ['operator', 'approver'] },
+      payment: bool,
+      args: { type: 'object', properties: {}, description: 'Schema of its arguments' },
+    },
+  },
+} satisfies Record<string, Schema>;
+
+/** Named schemas: `$ref`s in the OpenAPI document, interfaces in the client */
+const NAMED_SCHEMAS: Record<string, Schema> = { ...circle, ...APP_SCHEMAS };
+const SCHEMA_NAMES = new Map(Object.entries(NAMED_SCHEMAS).map(([name, schema]) => [schema, name]));
+
+// sendOrRequest in server.ts: the pending payment request, or what Circle answered
+const sentOrRequested = (sent: Schema): ResponseSchema => ({ oneOf: [envelope(APP_SCHEMAS.PaymentRequest), envelope(sent)] });
+
+// ─── Routes ──────────────────────────────────────────────────────────────
+
+// In server.ts order: a fixed path comes before the parameterized one it overlaps
+export const API_ROUTES: ApiRoute[] = [
+  // ── Session ───────────────────────────────────────────────────────────
+  {
+    method: 'post', path: '/api/login', operationId: 'login', tag: 'Session', response: 'plain',
+    summary: 'Sign in with the dashboard password or a token; sets the session cookie',
+    body: body({ password: str }, ['password']),
+    returns: envelope(APP_SCHEMAS.AuthUser),
+  },
+  {
+    method: 'post', path: '/api/logout', operationId: 'logout', tag: 'Session', response: 'plain',
+    summary: 'Sign out',
+    returns: envelope({ type: 'object', required: ['signedOut'], properties: { signedOut: bool } }),
+  },
+  {
+    method: 'get', path: '/api/me', operationId: 'getMe', tag: 'Session', response: 'plain',
+    summary: 'The signed-in user and their role',
+    returns: envelope(APP_SCHEMAS.AuthUser),
+  },
+  {
+    method: 'get', path: '/api/openapi.json', operationId: 'getOpenApiDocument', tag: 'Session', response: 'plain',
+    summary: 'OpenAPI 3 document of this API',
+    returns: anyObject,
+  },
+
+  // ── Events ────────────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/events', operationId: 'streamEvents', tag: 'Events', response: 'stream',
+    summary: 'Server-sent events: notifications, tracker and payment request updates',
+    query: { lastEventId: { type: 'integer', description: 'Replay stored notifications after this id' } },
+  },
+  {
+    method: 'post', path: '/api/test-notification', operationId: 'sendTestNotification', tag: 'Events', response: 'plain',
+    role: 'operator', summary: 'Push a local test notification to every dashboard',
+    returns: { type: 'object', required: ['ok'], properties: { ok: bool } },
+  },
+
+  // ── Overview ──────────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/profiles', operationId: 'listProfiles', tag: 'Overview',
+    summary: 'Configured Circle profiles',
+    returns: list(APP_SCHEMAS.ProfileSummary),
+  },
+  {
+    method: 'get', path: '/api/account', operationId: 'getAccount', preview: true, tag: 'Overview',
+    summary: 'Wallets of the account',
+    returns: list(circle.Wallet),
+  },
+  {
+    method: 'get', path: '/api/balance', operationId: 'getBalance', preview: true, tag: 'Overview',
+    summary: 'Available and unsettled balances',
+    returns: envelope(circle.Balance),
+  },
+  {
+    method: 'get', path: '/api/chains', operationId: 'listChains', preview: true, tag: 'Overview',
+    summary: 'Supported chains and currencies',
+    returns: envelope(anyObject),
+  },
+
+  // ── Deposits ──────────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/deposits', operationId: 'listDeposits', preview: true, tag: 'Deposits',
+    summary: 'Deposits', query: pageQuery,
+    returns: list(circle.Deposit),
+  },
+  {
+    method: 'get', path: '/api/deposits/addresses', operationId: 'listDepositAddresses', preview: true, tag: 'Deposits',
+    summary: 'Blockchain deposit addresses',
+    returns: list(circle.DepositAddress),
+  },
+  {
+    method: 'post', path: '/api/deposits/addresses', operationId: 'createDepositAddress', preview: true, tag: 'Deposits', role: 'operator',
+    summary: 'Create a blockchain deposit address',
+    body: body({ chain, currency, idempotencyKey }, ['chain']),
+    returns: envelope(circle.DepositAddress),
+  },
+
+  // ── Payouts ───────────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/payouts/address-book', operationId: 'listAddressBookRecipients', preview: true, tag: 'Payouts',
+    summary: 'Address book recipients', query: pageQuery,
+    returns: list(circle.AddressBookRecipient),
+  },
+  {
+    method: 'post', path: '/api/payouts/address-book', operationId: 'createAddressBookRecipient', preview: true, tag: 'Payouts', role: 'operator',
+    summary: 'Add an address book recipient',
+    body: body({ chain, address: id, addressTag: str, nickname: str, email: str, idempotencyKey }, ['chain', 'address']),
+    returns: envelope(circle.AddressBookRecipient),
+  },
+  {
+    method: 'delete', path: '/api/payouts/address-book/:id', operationId: 'deleteAddressBookRecipient', preview: true, tag: 'Payouts', role: 'operator',
+    summary: 'Delete an address book recipient', params: idParam,
+  },
+  {
+    method: 'get', path: '/api/payouts', operationId: 'listPayouts', preview: true, tag: 'Payouts',
+    summary: 'Payouts', query: pageQuery,
+    returns: list(circle.Payout),
+  },
+  {
+    method: 'post', path: '/api/payouts', operationId: 'createPayout', preview: true, tag: 'Payouts', role: 'operator',
+    summary: 'Pay out to an address book recipient (approvers), or request it (operators)',
+    body: body({ recipientId: id, amount, currency, idempotencyKey, requestApproval }, ['recipientId', 'amount']),
+    returns: sentOrRequested(circle.Payout),
+  },
+
+  // ── Wire bank accounts ────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/banks/wires', operationId: 'listWireBankAccounts', preview: true, tag: 'Banks',
+    summary: 'Linked wire bank accounts', query: pageQuery,
+    returns: list(circle.WireBankAccount),
+  },
+  {
+    method: 'post', path: '/api/banks/wires', operationId: 'createWireBankAccount', preview: true, tag: 'Banks', role: 'operator',
+    summary: 'Link a wire bank account (sandbox defaults for omitted fields)',
+    body: body({ accountNumber: str, routingNumber: str, billingName: str, idempotencyKey }),
+    returns: envelope(circle.WireBankAccount),
+  },
+  {
+    method: 'get', path: '/api/banks/wires/:id/instructions', operationId: 'getWireInstructions', preview: true, tag: 'Banks',
+    summary: 'Wire instructions for a linked bank account', params: idParam,
+    returns: envelope(circle.WireInstructions),
+  },
+  {
+    method: 'post', path: '/api/mocks/wire', operationId: 'createMockWirePayment', preview: true, tag: 'Banks', role: 'operator',
+    summary: 'Sandbox: simulate an incoming wire',
+    body: body({ trackingRef: id, amount, accountNumber: id }, ['trackingRef', 'accountNumber']),
+    returns: envelope(circle.MockWirePayment),
+  },
+  {
+    method: 'post', path: '/api/payouts/wire', operationId: 'createWirePayout', preview: true, tag: 'Banks', role: 'operator',
+    summary: 'Wire out to a linked bank account (approvers), or request it (operators)',
+    body: body({ bankId: id, amount, currency, idempotencyKey, requestApproval }, ['bankId', 'amount']),
+    returns: sentOrRequested(circle.BusinessPayout),
+  },
+
+  // ── Recipients & transfers ────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/recipients', operationId: 'listRecipients', preview: true, tag: 'Transfers',
+    summary: 'Verified recipient addresses', query: pageQuery,
+    returns: list(circle.RecipientAddress),
+  },
+  {
+    method: 'post', path: '/api/recipients', operationId: 'createRecipient', preview: true, tag: 'Transfers', role: 'operator',
+    summary: 'Add a recipient address',
+    body: body({ chain, address: id, description: str, addressTag: str, idempotencyKey }, ['chain', 'address', 'description']),
+    returns: envelope(circle.RecipientAddress),
+  },
+  {
+    method: 'post', path: '/api/transfers/business', operationId: 'createBusinessTransfer', preview: true, tag: 'Transfers', role: 'operator',
+    summary: 'Transfer on-chain to a recipient address (approvers), or request it (operators)',
+    body: body({ recipientId: id, amount: { ...amount, description: 'Default: "1.00"' }, currency, idempotencyKey, requestApproval }, ['recipientId']),
+    returns: sentOrRequested(circle.Transfer),
+  },
+
+  // ── Express Route ─────────────────────────────────────────────────────
+  {
+    method: 'post', path: '/api/express-route/link-bank', operationId: 'linkExpressRouteBank', preview: true, tag: 'Express Route', role: 'operator',
+    summary: 'Step 1: link a bank account',
+    body: body({ accountNumber: str, routingNumber: str, idempotencyKey }),
+    returns: envelope(circle.WireBankAccount),
+  },
+  {
+    method: 'post', path: '/api/express-route/link-receipt', operationId: 'linkExpressRouteReceiptAddress', preview: true, tag: 'Express Route', role: 'operator',
+    summary: 'Step 2: create the receipt address',
+    body: body({ chain, currency, idempotencyKey }),
+    returns: envelope(circle.DepositAddress),
+  },
+  {
+    method: 'post', path: '/api/express-route/mock-deposit', operationId: 'createExpressRouteMockDeposit', preview: true, tag: 'Express Route', role: 'operator',
+    summary: 'Step 3: sandbox wire deposit',
+    body: body({ trackingRef: id, amount, accountNumber: str }, ['trackingRef']),
+    returns: envelope(circle.MockWirePayment),
+  },
+  {
+    method: 'post', path: '/api/express-route/onchain-deposit', operationId: 'createExpressRouteOnChainDeposit', preview: true, tag: 'Express Route', role: 'operator',
+    summary: 'Step 4: sandbox on-chain deposit',
+    body: body({ address: id, chain, amount }, ['address']),
+    returns: envelope(anyObject),
+  },
+  {
+    method: 'post', path: '/api/express-route/transfer', operationId: 'createExpressRouteTransfer', preview: true, tag: 'Express Route', role: 'approver',
+    summary: 'Step 5: on-chain transfer',
+    body: body({ recipientId: id, amount, currency, idempotencyKey }, ['recipientId']),
+    returns: envelope(circle.Transfer),
+  },
+  {
+    method: 'post', path: '/api/express-route/withdraw', operationId: 'createExpressRouteWithdrawal', preview: true, tag: 'Express Route', role: 'approver',
+    summary: 'Step 6: withdraw to the bank',
+    body: body({ bankAccountId: id, amount, currency, idempotencyKey }, ['bankAccountId']),
+    returns: envelope(circle.BusinessPayout),
+  },
+  {
+    method: 'post', path: '/api/express-route/create', operationId: 'createExpressRoute', preview: true, tag: 'Express Route', role: 'operator',
+    summary: 'Step 7: create the Express Route',
+    body: body({
+      receiptAddressId: id,
+      bankAccountId: id,
+      destinationType: { type: 'string', enum: ['wire', 'sepa', 'sepa_instant'], description: 'Default: wire' },
+      currency,
+      idempotencyKey,
+    }, ['receiptAddressId', 'bankAccountId']),
+    returns: envelope(circle.ExpressRoute),
+  },
+  {
+    method: 'post', path: '/api/express-route/run', operationId: 'runExpressRoute', tag: 'Express Route', role: 'approver',
+    summary: 'Run all seven steps',
+    body: body({ chain, amount }),
+  },
+
+  // ── Notifications ─────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/notifications/subscriptions', operationId: 'listSubscriptions', preview: true, tag: 'Notifications',
+    summary: 'Circle notification subscriptions',
+    returns: list(circle.Subscription),
+  },
+  {
+    method: 'post', path: '/api/notifications/subscriptions', operationId: 'createSubscription', preview: true, tag: 'Notifications', role: 'operator',
+    summary: 'Subscribe an endpoint to Circle notifications',
+    body: body({ endpoint: { type: 'string', minLength: 1, description: 'Public HTTPS URL' } }, ['endpoint']),
+    returns: envelope(circle.Subscription),
+  },
+  {
+    method: 'delete', path: '/api/notifications/subscriptions/:id', operationId: 'deleteSubscription', preview: true, tag: 'Notifications', role: 'operator',
+    summary: 'Delete a subscription', params: idParam,
+  },
+  {
+    method: 'get', path: '/api/notifications/sns', operationId: 'listSnsSubscriptions', tag: 'Notifications',
+    summary: 'SNS subscription confirmations seen on /webhooks',
+    returns: list(APP_SCHEMAS.SnsSubscription),
+  },
+  {
+    method: 'post', path: '/api/notifications/sns/confirm', operationId: 'confirmSnsSubscription', tag: 'Notifications', role: 'operator',
+    summary: 'Confirm a pending SNS subscription',
+    body: body({ topicArn: id }, ['topicArn']),
+    returns: envelope(APP_SCHEMAS.SnsSubscription),
+  },
+  {
+    method: 'get', path: '/api/notifications', operationId: 'listNotifications', tag: 'Notifications',
+    summary: 'Received notifications, oldest first',
+    query: {
+      type: { type: 'string', description: 'notificationType, e.g. payouts' },
+      resourceId: str,
+      status: str,
+      since: isoTime('inclusive'),
+      until: isoTime('exclusive'),
+      afterId: { type: 'integer', description: 'Only notifications stored after this id' },
+      limit: { type: 'integer', description: 'Only the newest this many' },
+    },
+    returns: list(APP_SCHEMAS.StoredNotification),
+  },
+  {
+    method: 'get', path: '/api/notifications/:id', operationId: 'getNotification', tag: 'Notifications',
+    summary: 'A received notification', params: { id: { type: 'integer' } },
+    returns: envelope(APP_SCHEMAS.StoredNotification),
+  },
+  {
+    method: 'post', path: '/api/notifications/:id/replay', operationId: 'replayNotification', tag: 'Notifications', role: 'operator',
+    summary: 'Post a received notification to an endpoint again',
+    params: { id: { type: 'integer' } },
+    body: body({ endpoint: { type: 'string', minLength: 1, description: 'URL to post to' } }, ['endpoint']),
+    returns: envelope(APP_SCHEMAS.ReplayResult),
+  },
+
+  // ── Payment requests ──────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/payment-requests', operationId: 'listPaymentRequests', tag: 'Payment requests',
+    summary: 'Payment requests',
+    query: {
+      status: { type: 'string', enum: ['pending', 'executed', 'rejected', 'failed'] },
+      kind: { type: 'string', enum: ['payout', 'businessPayout', 'businessTransfer'] },
+    },
+    returns: list(APP_SCHEMAS.PaymentRequest),
+  },
+  {
+    method: 'get', path: '/api/payment-requests/:id', operationId: 'getPaymentRequest', tag: 'Payment requests',
+    summary: 'A payment request', params: idParam,
+    returns: envelope(APP_SCHEMAS.PaymentRequest),
+  },
+  {
+    method: 'post', path: '/api/payment-requests/:id/approve', operationId: 'approvePaymentRequest', tag: 'Payment requests', role: 'approver',
+    summary: 'Approve and send a payment request (not your own)', params: idParam,
+    returns: envelope(APP_SCHEMAS.PaymentRequest),
+  },
+  {
+    method: 'post', path: '/api/payment-requests/:id/reject', operationId: 'rejectPaymentRequest', tag: 'Payment requests', role: 'approver',
+    summary: 'Reject a payment request', params: idParam,
+    body: body({ reason: str }),
+    returns: envelope(APP_SCHEMAS.PaymentRequest),
+  },
+
+  // ── Tracker ───────────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/tracker', operationId: 'listTrackedResources', tag: 'Tracker',
+    summary: 'Payouts and transfers followed to a final status',
+    returns: list(APP_SCHEMAS.TrackedResource),
+  },
+  {
+    method: 'get', path: '/api/tracker/:id', operationId: 'getTrackedResource', tag: 'Tracker',
+    summary: 'A tracked payout or transfer', params: idParam,
+    returns: envelope(APP_SCHEMAS.TrackedResource),
+  },
+
+  // ── Audit log ─────────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/audit', operationId: 'listAuditEntries', tag: 'Audit',
+    summary: 'Audit log entries, oldest first',
+    query: {
+      actor: str,
+      profile: str,
+      method: str,
+      endpoint: { type: 'string', description: 'Substring of the Circle endpoint' },
+      outcome: { type: 'string', enum: ['ok', 'error', 'blocked', 'replayed'] },
+      since: isoTime('inclusive'),
+      until: isoTime('exclusive'),
+      limit: { type: 'integer', description: 'Only the newest this many' },
+    },
+    returns: list(APP_SCHEMAS.AuditEntry),
+  },
+  {
+    method: 'get', path: '/api/audit/verify', operationId: 'verifyAuditLog', tag: 'Audit',
+    summary: 'Check the audit log hash chain',
+    returns: envelope(APP_SCHEMAS.AuditVerification),
+  },
+
+  // ── Explorer ──────────────────────────────────────────────────────────
+  {
+    method: 'get', path: '/api/explorer/methods', operationId: 'listClientMethods', tag: 'Explorer',
+    summary: 'CircleMintClient methods with the schema of their arguments',
+    returns: list(APP_SCHEMAS.ClientMethod),
+  },
+  {
+    method: 'post', path: '/api/explorer/methods/:name', operationId: 'callClientMethod', preview: true, tag: 'Explorer',
+    summary: 'Call a CircleMintClient method; the body is its arguments. The role it needs depends on the method',
+    params: { name: id },
+    body: body({}),
+  },
+
+  // ── Raw requests ──────────────────────────────────────────────────────
+  {
+    method: 'post', path: '/api/raw', operationId: 'sendRawRequest', preview: true, tag: 'Raw',
+    summary: 'Send any request to Circle under an allowed path (CIRCLE_RAW_PATHS); writes need the approver role',
+    body: body({
+      method: { type: 'string', enum: RAW_METHODS },
+      path: { type: 'string', minLength: 1, description: 'Circle path with any query string, e.g. /v1/businessAccount/balances' },
+      body: { type: 'object', properties: {}, description: 'JSON body of a POST, PUT or PATCH' },
+    }, ['method', 'path']),
+  },
+];
+
+// ─── Request validation ──────────────────────────────────────────────────
+
+interface RouteMatch {
+  route: ApiRoute;
+  params: Record<string, string>;
+}
+
+const ROUTE_PATTERNS = API_ROUTES.map(route => ({
+  route,
+  pattern: new RegExp(`^${route.path.replace(/\./g, '\\.').replace(/:(\w+)/g, '(?<$1>[^/]+)')}$`),
+}));
+
+/**
+ * The route a request is for, with its path parameters; first match wins, as in Express
+ */
+export function matchRoute(method: string, pathname: string): RouteMatch | undefined {
+  for (const { route, pattern } of ROUTE_PATTERNS) {
+    if (route.method !== method.toLowerCase()) continue;
+    const match = pattern.exec(pathname);
+    if (match) {
+      const params = Object.fromEntries(Object.entries(match.groups ?? {}).map(([name, value]) => [name, decodeURIComponent(value)]));
+      return { route, params };
+    }
+  }
+  return undefined;
+}
+
+// Query strings and path segments arrive as text
+function fromText(schema: Schema, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  if (schema.type === 'integer' || schema.type === 'number') {
+    const number = Number(value);
+    return value.trim() !== '' && Number.isFinite(number) ? number : value;
+  }
+  if (schema.type === 'boolean') return value === 'true' ? true : value === 'false' ? false : value;
+  return value;
+}
+
+function textIssues(schemas: Record<string, Schema> | undefined, values: Record<string, unknown>, at: string): SchemaIssue[] {
+  return Object.entries(schemas ?? {}).flatMap(([name, schema]) => {
+    const value = values[name];
+    return value === undefined ? [] : validateSchema(schema, fromText(schema, value), `${at}.${name}`);
+  });
+}
+
+/**
+ * Every way the request's path parameters, query and body miss the route's
+ * schemas, e.g. { path: 'body.amount', message: 'does not match pattern …' }
+ */
+export function requestIssues(
+  { route, params }: RouteMatch,
+  request: { query: Record<string, unknown>; body: unknown }
+): SchemaIssue[] {
+  return [
+    ...textIssues(route.params, params, 'params'),
+    ...textIssues(route.query, request.query, 'query'),
+    ...(route.body ? validateSchema(route.body, request.body ?? {}, 'body') : []),
+  ];
+}
+
+// ─── OpenAPI document ────────────────────────────────────────────────────
+
+const RESULT_SCHEMAS = {
+  Issue: {
+    type: 'object',
+    required: ['path', 'message'],
+    properties: { path: { type: 'string' }, message: { type: 'string' } },
+  },
+  RunResult: {
+    type: 'object',
+    description: 'Envelope of every Circle-backed route; `data` is what Circle (or the app) returned',
+    required: ['logs', 'correlationId', 'data'],
+    properties: {
+      logs: { type: 'array', items: { type: 'string' }, description: "This request's log lines, redacted" },
+      correlationId: { type: 'string', description: `Also the ${CORRELATION_HEADER} response header` },
+      data: { description: 'null on error' },
+      error: { type: 'string' },
+      fields: { type: 'array', items: { $ref: '#/components/schemas/Issue' }, description: 'Invalid request fields (422)' },
+      issues: { type: 'array', items: { $ref: '#/components/schemas/Issue' }, description: 'Circle response failed strict validation (502)' },
+      circleError: { type: 'object', description: 'Circle answered non-2xx' },
+      idempotencyConflict: { type: 'object', description: 'The idempotency key was used for a different request (409)' },
+      blocked: { type: 'object', description: 'The safety guard refused the call (403)' },
+      paymentRequest: { type: 'object', description: 'An approval or rejection was refused' },
+      preview: {
+        type: 'object',
+        description: `With ${PREVIEW_HEADER}: the Circle request that would have been sent, redacted`,
+        properties: { method: { type: 'string' }, url: { type: 'string' }, headers: { type: 'object' }, body: {} },
+      },
+    },
+  },
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      forbidden: { type: 'object', description: 'Set on a 403 for a missing role' },
+      approvalRequired: { type: 'object', description: 'Set on a 403 for a payout or transfer sent past the approval queue (CIRCLE_REQUIRE_APPROVAL)' },
+    },
+  },
+};
+
+const json = (schema: unknown) => ({ 'application/json': { schema } });
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// A named schema becomes a $ref to its component
+function openApiSchema(schema: Schema): unknown {
+  const name = SCHEMA_NAMES.get(schema);
+  return name ? ref(name) : expandedSchema(schema);
+}
+
+function expandedSchema(schema: Schema): unknown {
+  if (schema.type === 'array') return { ...schema, items: openApiSchema(schema.items) };
+  if (schema.type === 'object') {
+    return { ...schema, properties: Object.fromEntries(Object.entries(schema.properties).map(([name, inner]) => [name, openApiSchema(inner)])) };
+  }
+  return schema;
+}
+
+function openApiResponse(returns: ResponseSchema): unknown {
+  return 'oneOf' in returns ? { oneOf: returns.oneOf.map(openApiSchema) } : openApiSchema(returns);
+}
+
+function okSchema(route: ApiRoute): unknown {
+  if ((route.response ?? 'result') === 'plain') return route.returns ? openApiResponse(route.returns) : {};
+  if (!route.returns) return ref('RunResult');
+  return { allOf: [ref('RunResult'), { type: 'object', properties: { data: openApiResponse(route.returns) } }] };
+}
+
+function openApiPath(route: ApiRoute): string {
+  return route.path.replace(/:(\w+)/g, '{$1}');
+}
+
+function operation(route: ApiRoute): Record<string, unknown> {
+  const response = route.response ?? 'result';
+  const parameters = [
+    ...Object.entries(route.params ?? {}).map(([name, schema]) => ({ name, in: 'path', required: true, schema })),
+    ...Object.entries(route.query ?? {}).map(([name, schema]) => ({ name, in: 'query', required: false, schema })),
+    ...(response === 'result' ? [{ $ref: '#/components/parameters/Profile' }] : []),
+    ...(response === 'result' && route.method !== 'get' ? [{ $ref: '#/components/parameters/Confirm' }] : []),
+    ...(route.preview ? [{ $ref: '#/components/parameters/Preview' }] : []),
+  ];
+  const ok = response === 'stream'
+    ? { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } }
+    : { description: 'OK', content: json(okSchema(route)) };
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(route.role && { 'x-required-role': route.role }),
+    ...(route.path === '/api/login' && { security: [] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && { requestBody: { required: (route.body.required ?? []).length > 0, content: json(route.body) } }),
+    responses: {
+      200: ok,
+      ...(route.path !== '/api/login' && { 401: { description: 'Not signed in', content: json(ref('Error')) } }),
+      ...(route.role && { 403: { description: `Needs the ${route.role} role`, content: json(ref('Error')) } }),
+      422: { description: 'Invalid request; `fields` lists each invalid field', content: json(ref('RunResult')) },
+    },
+  };
+}
+
+/**
+ * OpenAPI 3.0 document for the dashboard API, as served at /api/openapi.json
+ */
+export function openApiDocument(): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of API_ROUTES) {
+    (paths[openApiPath(route)] ??= {})[route.method] = operation(route);
+  }
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Circle Mint Dashboard API',
+      version: '1.0.0',
+      description: 'REST API behind the dashboard. Routes that call Circle return the RunResult envelope.',
+    },
+    servers: [{ url: '/' }],
+    security: [{ session: [] }, { token: [] }],
+    tags: [...new Set(API_ROUTES.map(route => route.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE },
+        token: { type: 'http', scheme: 'bearer', description: 'A token from CIRCLE_DASHBOARD_TOKENS' },
+      },
+      parameters: {
+        Profile: { name: 'X-Circle-Profile', in: 'header', required: false, schema: { type: 'string' }, description: 'Profile to run against' },
+        Confirm: { name: 'X-Circle-Confirm', in: 'header', required: false, schema: { type: 'string' }, description: 'Confirmation token for production writes' },
+        Preview: {
+          name: PREVIEW_HEADER, in: 'header', required: false, schema: { type: 'string' },
+          description: 'Any value: answer with the Circle request (`preview`) instead of sending it',
+        },
+      },
+      schemas: {
+        ...RESULT_SCHEMAS,
+        ...Object.fromEntries(Object.entries(NAMED_SCHEMAS).map(([name, schema]) => [name, expandedSchema(schema)])),
+      },
+    },
+  };
+}
+
+// ─── Typed client ────────────────────────────────────────────────────────
+
+function pascal(name: string): string {
+  return name[0].toUpperCase() + name.slice(1);
+}
+
+function tsType(schema: Schema): string {
+  const name = SCHEMA_NAMES.get(schema);
+  if (name) return name;
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? schema.enum.map(value => `'${value}'`).join(' | ') : 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = tsType(schema.items);
+      return item.includes('|') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      // No properties: any object (see validateSchema)
+      if (Object.keys(schema.properties).length === 0) return 'Record<string, unknown>';
+      return `{ ${Object.entries(schema.properties).map(([name, inner]) =>
+        `${name}${schema.required?.includes(name) ? '' : '?'}: ${tsType(inner)}`).join('; ')} }`;
+  }
+}
+
+function tsInterface(name: string, properties: Record<string, Schema>, required: readonly string[] = []): string {
+  const fields = Object.entries(properties).map(([field, schema]) => [
+    ...(schema.description ? [`  /** ${schema.description} */`] : []),
+    `  ${field}${required.includes(field) ? '' : '?'}: ${tsType(schema)};`,
+  ].join('\n'));
+  if (fields.length === 0) fields.push('  [key: string]: unknown;');
+  return `export interface ${name} {\n${fields.join('\n')}\n}`;
+}
+
+function tsResponse(returns: ResponseSchema): string {
+  return 'oneOf' in returns ? returns.oneOf.map(tsType).join(' | ') : tsType(returns);
+}
+
+function clientMethod(route: ApiRoute): string {
+  const name = pascal(route.operationId);
+  const args: string[] = [];
+  const options: string[] = [];
+  if (route.params) {
+    args.push(`params: { ${Object.entries(route.params).map(([param, schema]) => `${param}: ${tsType(schema)}`).join('; ')} }`);
+    options.push('params');
+  }
+  if (route.body) {
+    args.push((route.body.required ?? []).length > 0 ? `body: ${name}Body` : `body: ${name}Body = {}`);
+    options.push('body');
+  }
+  if (route.query) {
+    args.push(`query: ${name}Query = {}`);
+    options.push('query');
+  }
+  const returns = route.returns ? tsResponse(route.returns) : undefined;
+  const result = (route.response ?? 'result') === 'result'
+    ? (returns ? `ApiResult<${returns}>` : 'ApiResult')
+    : returns ?? 'unknown';
+  return [
+    `  /** ${route.summary}${route.role ? ` (${route.role})` : ''} */`,
+    `  ${route.operationId}(${args.join(', ')}): Promise<${result}> {`,
+    `    return this.request('${route.method.toUpperCase()}', '${route.path}'${options.length ? `, { ${options.join(', ')} }` : ''});`,
+    '  }',
+  ].join('\n');
+}
+
+const CLIENT_RUNTIME = `export interface ApiIssue {
+  path: string;
+  message: string;
+}
+
+/** Envelope of every Circle-backed route */
+export interface ApiResult<T = unknown> {
+  logs: string[];
+  correlationId: string;
+  /** null on error, and with \`preview\` */
+  data: T | null;
+  error?: string;
+  fields?: ApiIssue[];
+  issues?: ApiIssue[];
+  circleError?: Record<string, unknown>;
+  idempotencyConflict?: Record<string, unknown>;
+  blocked?: Record<string, unknown>;
+  paymentRequest?: Record<string, unknown>;
+  preview?: { method: string; url: string; headers: Record<string, string>; body?: unknown };
+}
+
+export interface DashboardApiOptions {
+  baseUrl: string;         // e.g. http://localhost:3000
+  token?: string;          // a token from CIRCLE_DASHBOARD_TOKENS
+  profile?: string;        // sent as X-Circle-Profile
+  confirm?: string;        // sent as X-Circle-Confirm, for production writes
+  preview?: boolean;       // sent as X-Circle-Preview: Circle requests are described, not sent
+}
+
+/** The JSON of a non-2xx answer: an ApiResult for Circle-backed routes, else just \`error\` and its detail */
+export type ApiErrorBody = Partial<ApiResult> & {
+  loginRequired?: boolean;
+  forbidden?: Record<string, unknown>;
+  approvalRequired?: Record<string, unknown>;
+};
+
+/** A non-2xx answer; \`body\` is its parsed JSON, if any */
+export class DashboardApiError extends Error {
+  constructor(readonly status: number, readonly body: ApiErrorBody | undefined) {
+    super(\`\${status}: \${body?.error ?? 'request failed'}\`);
+    this.name = 'DashboardApiError';
+  }
+}
+
+interface RequestParts {
+  params?: Record<string, string | number>;
+  query?: object;
+  body?: object;
+}`;
+
+const CLIENT_REQUEST = `  // The session cookie login() was answered with, sent on every later call
+  private session?: string;
+
+  constructor(private readonly options: DashboardApiOptions) {}
+
+  private async request<T>(method: string, path: string, parts: RequestParts = {}): Promise<T> {
+    const url = new URL(path.replace(/:(\\w+)/g, (_, name: string) => encodeURIComponent(String(parts.params?.[name]))), this.options.baseUrl);
+    for (const [name, value] of Object.entries(parts.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(name, String(value));
+    }
+    const headers: Record<string, string> = {};
+    if (this.options.token) headers.Authorization = \`Bearer \${this.options.token}\`;
+    if (this.session) headers.Cookie = this.session;
+    if (this.options.profile) headers['X-Circle-Profile'] = this.options.profile;
+    if (this.options.confirm) headers['X-Circle-Confirm'] = this.options.confirm;
+    if (this.options.preview) headers['X-Circle-Preview'] = 'true';
+    if (parts.body) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(url, { method, headers, body: parts.body ? JSON.stringify(parts.body) : undefined });
+    // Set by login(), emptied by logout()
+    const session = response.headers.getSetCookie().find(cookie => cookie.startsWith('${SESSION_COOKIE}='))?.split(';')[0];
+    if (session !== undefined) this.session = session === '${SESSION_COOKIE}=' ? undefined : session;
+
+    const text = await response.text();
+    const json: unknown = text ? JSON.parse(text) : undefined;
+    if (!response.ok) throw new DashboardApiError(response.status, json as ApiErrorBody | undefined);
+    return json as T;
+  }`;
+
+/**
+ * Source of api-client.ts: one typed method per operation (the event stream excepted)
+ */
+export function generateApiClient(): string {
+  const routes = API_ROUTES.filter(route => route.response !== 'stream');
+  const types = [
+    ...Object.entries(NAMED_SCHEMAS).map(([name, schema]) =>
+      schema.type === 'object' ? tsInterface(name, schema.properties, schema.required) : `export type ${name} = ${tsType(schema)};`),
+    ...routes.flatMap(route => [
+      ...(route.body ? [tsInterface(`${pascal(route.operationId)}Body`, route.body.properties, route.body.required)] : []),
+      ...(route.query ? [tsInterface(`${pascal(route.operationId)}Query`, route.query)] : []),
+    ]),
+  ];
+  return [
+    '// Generated from src/openapi.ts by `npm run generate:api-client` — do not edit.',
+    '',
+    '/**',
+    ' * Typed client for the dashboard REST API, for scripts',
+    ' *',
+    ' *   const api = new DashboardApiClient({ baseUrl: \'http://localhost:3000\', token: process.env.DASHBOARD_TOKEN });',
+    ' *   const { data } = await api.getBalance();',
+    ' *',
+    ' * Throws DashboardApiError on any non-2xx answer. After login(), later calls',
+    ' * carry its session cookie.',
+    ' */',
+    '',
+    CLIENT_RUNTIME,
+    '',
+    types.join('\n\n'),
+    '',
+    'export class DashboardApiClient {',
+    CLIENT_REQUEST,
+    '',
+    routes.map(clientMethod).join('\n\n'),
+    '}',
+    '',
+  ].join('\n');
+}
+
+export const API_CLIENT_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'api-client.ts');
+
+// Run directly: regenerate api-client.ts
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  writeFileSync(API_CLIENT_PATH, generateApiClient());
+  console.log(`Wrote ${path.relative(process.cwd(), API_CLIENT_PATH)} (${API_ROUTES.length} routes)`);
+}
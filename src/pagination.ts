@@ -0,0 +1,54 @@
+/**
+ * Cursor pagination and date-range filters accepted by every Circle list endpoint
+ * Items are returned newest first. Reference: https://developers.circle.com/circle-mint/pagination
+ */
+export interface PageParams {
+  pageBefore?: string; // id — return items newer than this one
+  pageAfter?: string;  // id — return items older than this one
+  pageSize?: number;   // 1–50 (Circle default: 50)
+  from?: string;       // ISO-8601 — only items created at or after this time
+  to?: string;         // ISO-8601 — only items created at or before this time
+}
+
+export const MAX_PAGE_SIZE = 50;
+
+export function appendPageParams(queryParams: URLSearchParams, params?: PageParams): void {
+  if (params?.pageBefore) queryParams.append('pageBefore', params.pageBefore);
+  if (params?.pageAfter) queryParams.append('pageAfter', params.pageAfter);
+  if (params?.pageSize) queryParams.append('pageSize', String(params.pageSize));
+  if (params?.from) queryParams.append('from', params.from);
+  if (params?.to) queryParams.append('to', params.to);
+}
+
+export function withPageParams(path: string, params?: PageParams): string {
+  const queryParams = new URLSearchParams();
+  appendPageParams(queryParams, params);
+  const query = queryParams.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Drain an async iterator (e.g. client.iteratePayouts()) into an array
+ */
+export async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+/**
+ * Read pagination options from untyped input (REST query string or MCP tool args).
+ * `all` asks the caller to walk every page instead of returning one.
+ */
+export function pageParamsFrom(input: Record<string, unknown> = {}): PageParams & { all: boolean } {
+  const str = (key: string) => (typeof input[key] === 'string' && input[key] ? input[key] as string : undefined);
+  const size = Number(input.pageSize);
+  return {
+    pageBefore: str('pageBefore'),
+    pageAfter: str('pageAfter'),
+    pageSize: Number.isInteger(size) && size > 0 ? Math.min(size, MAX_PAGE_SIZE) : undefined,
+    from: str('from'),
+    to: str('to'),
+    all: input.all === true || input.all === 'true',
+  };
+}
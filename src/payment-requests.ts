@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { CircleMintClient, CreatedResourceKind } from './circle-mint-client.js';
+import { config } from './config.js';
+import { CircleApiError } from './errors.js';
+import { movesMoney } from './safety.js';
+import type { CircleResponse } from './types.js';
+
+/**
+ * Maker–checker approval for payouts and transfers
+ *
+ * A submitted payout, business (wire) payout or business transfer is stored
+ * as a pending payment request, with its full Circle request body and
+ * idempotency key. Nothing reaches Circle until a different user approves it;
+ * then exactly that body is sent, so retrying a failed approval can never pay
+ * twice. The JSONL store is re-read on every call, so the dashboard and the
+ * MCP server share one queue. While CIRCLE_REQUIRE_APPROVAL is on, anything
+ * that would send a payout or transfer directly calls checkDirectSend first
+ * (checkRawSend for a raw Circle request).
+ */
+
+export type PaymentRequestStatus = 'pending' | 'executed' | 'rejected' | 'failed';
+
+/** What the approval sends: the Circle request body for each kind */
+export type PaymentRequestBody =
+  | { kind: 'payout'; params: Parameters<CircleMintClient['createPayout']>[0] }
+  | { kind: 'businessPayout'; params: Parameters<CircleMintClient['createBusinessPayout']>[0] }
+  | { kind: 'businessTransfer'; params: Parameters<CircleMintClient['createBusinessTransfer']>[0] };
+
+export type PaymentRequest = PaymentRequestBody & {
+  id: string;
+  profile?: string;
+  status: PaymentRequestStatus;
+  requestedBy: string;
+  requestedAt: string;   // ISO-8601
+  decidedBy?: string;
+  decidedAt?: string;
+  reason?: string;       // given on rejection
+  resourceId?: string;   // the payout or transfer created on approval
+  error?: string;        // why Circle refused it
+};
+
+export type PaymentRequestEvent = {
+  type: 'payment_request.submitted' | 'payment_request.executed' | 'payment_request.rejected' | 'payment_request.failed';
+  request: PaymentRequest;
+};
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+export type PaymentRequestErrorReason = 'not_found' | 'not_pending' | 'self_approval';
+
+/**
+ * An approval or rejection the queue refused; nothing was sent to Circle
+ */
+export class PaymentRequestError extends Error {
+  readonly reason: PaymentRequestErrorReason;
+  readonly requestId: string;
+
+  constructor(reason: PaymentRequestErrorReason, requestId: string, message: string) {
+    super(message);
+    this.name = 'PaymentRequestError';
+    this.reason = reason;
+    this.requestId = requestId;
+  }
+
+  toJSON() {
+    return { reason: this.reason, requestId: this.requestId };
+  }
+}
+
+// ─── Stores ──────────────────────────────────────────────────────────────
+
+export interface PaymentRequestStore {
+  /** Latest state of every request, oldest first */
+  list(): Promise<PaymentRequest[]>;
+  save(request: PaymentRequest): Promise<void>;
+}
+
+export class MemoryPaymentRequestStore implements PaymentRequestStore {
+  private requests = new Map<string, PaymentRequest>();
+
+  async list(): Promise<PaymentRequest[]> {
+    return [...this.requests.values()].map(r => structuredClone(r));
+  }
+
+  async save(request: PaymentRequest): Promise<void> {
+    this.requests.set(request.id, structuredClone(request));
+  }
+}
+
+/**
+ * Append-only JSONL of request snapshots; the last line for an id wins
+ */
+export class FilePaymentRequestStore implements PaymentRequestStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  async list(): Promise<PaymentRequest[]> {
+    await this.writes;
+    const text = await readFile(this.path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    });
+    const requests = new Map<string, PaymentRequest>();
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const request = JSON.parse(line) as PaymentRequest;
+        // Re-inserting keeps submission order while the latest snapshot wins
+        requests.set(request.id, { ...requests.get(request.id), ...request });
+      } catch {
+        // A torn final line from a crash — skip it
+      }
+    }
+    return [...requests.values()];
+  }
+
+  async save(request: PaymentRequest): Promise<void> {
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, JSON.stringify(request) + '\n');
+    });
+    this.writes = write.catch(() => {});
+    await write;
+  }
+}
+
+/**
+ * A payout or transfer sent straight to Circle while approvals are required
+ */
+export class ApprovalRequiredError extends Error {
+  readonly reason = 'approval_required';
+  readonly action: string;   // "express_route_transfer" or "POST /api/express-route/transfer"
+
+  constructor(action: string) {
+    super(`${action} moves money and needs approval (CIRCLE_REQUIRE_APPROVAL); submit it as a payment request instead`);
+    this.name = 'ApprovalRequiredError';
+    this.action = action;
+  }
+
+  toJSON() {
+    return { reason: this.reason, action: this.action };
+  }
+}
+
+/**
+ * Refuse a direct payout or transfer while CIRCLE_REQUIRE_APPROVAL is on;
+ * throws ApprovalRequiredError
+ */
+export function checkDirectSend(action: string): void {
+  if (config.requireApproval) throw new ApprovalRequiredError(action);
+}
+
+/**
+ * checkDirectSend for a raw Circle request: only one that moves money (see
+ * movesMoney) is refused, as "POST /v1/payouts"
+ */
+export function checkRawSend(method: string, endpoint: string): void {
+  if (movesMoney(method, endpoint)) checkDirectSend(`${method} ${endpoint}`);
+}
+
+// ─── Queue ───────────────────────────────────────────────────────────────
+
+/**
+ * Send a payment body to Circle, as an approval does (or a direct submission without one)
+ */
+export async function sendPayment(client: CircleMintClient, body: PaymentRequestBody): Promise<CircleResponse<{ id: string }>> {
+  switch (body.kind) {
+    case 'payout': return client.createPayout(body.params);
+    case 'businessPayout': return client.createBusinessPayout(body.params);
+    case 'businessTransfer': return client.createBusinessTransfer(body.params);
+  }
+}
+
+export class PaymentRequestQueue {
+  // Approvals in flight, so a double click cannot send twice
+  private executing = new Set<string>();
+
+  constructor(
+    private readonly store: PaymentRequestStore,
+    private readonly onEvent: (event: PaymentRequestEvent) => void = () => {},
+  ) {}
+
+  async list(filter: { status?: PaymentRequestStatus; kind?: CreatedResourceKind } = {}): Promise<PaymentRequest[]> {
+    return (await this.store.list()).filter(r =>
+      (filter.status === undefined || r.status === filter.status) && (filter.kind === undefined || r.kind === filter.kind));
+  }
+
+  async get(id: string): Promise<PaymentRequest | undefined> {
+    return (await this.store.list()).find(r => r.id === id);
+  }
+
+  /**
+   * Store a pending request; the idempotency key is fixed now, so whatever
+   * happens on approval, Circle sees one operation
+   */
+  async submit(body: PaymentRequestBody, by: { requestedBy: string; profile?: string }): Promise<PaymentRequest> {
+    const request = {
+      id: crypto.randomUUID(),
+      kind: body.kind,
+      params: JSON.parse(JSON.stringify({ ...body.params, idempotencyKey: body.params.idempotencyKey || crypto.randomUUID() })),
+      ...(by.profile && { profile: by.profile }),
+      status: 'pending',
+      requestedBy: by.requestedBy,
+      requestedAt: new Date().toISOString(),
+    } as PaymentRequest;
+    await this.store.save(request);
+    this.onEvent({ type: 'payment_request.submitted', request });
+    return request;
+  }
+
+  /**
+   * Approve and send a pending request with `client` (for its profile).
+   * Circle refusing it (4xx) marks it failed; any other error leaves it
+   * pending to approve again. Either way the error is rethrown.
+   */
+  async approve(id: string, approver: string, client: CircleMintClient): Promise<PaymentRequest> {
+    const request = this.pending(id, await this.get(id));
+    if (request.requestedBy === approver) {
+      throw new PaymentRequestError('self_approval', id, `Payment request ${id} was submitted by ${approver}; a different user must approve it`);
+    }
+
+    this.executing.add(id);
+    try {
+      const { data } = await sendPayment(client, request);
+      return await this.decide(request, 'executed', approver, { resourceId: data.id });
+    } catch (error) {
+      if (error instanceof CircleApiError && error.status >= 400 && error.status < 500) {
+        await this.decide(request, 'failed', approver, { error: error.message });
+      }
+      throw error;
+    } finally {
+      this.executing.delete(id);
+    }
+  }
+
+  async reject(id: string, by: string, reason?: string): Promise<PaymentRequest> {
+    const request = this.pending(id, await this.get(id));
+    return this.decide(request, 'rejected', by, reason ? { reason } : {});
+  }
+
+  // Synchronous from the lookup to `executing.add`, so two approvals cannot both pass
+  private pending(id: string, request: PaymentRequest | undefined): PaymentRequest {
+    if (!request) throw new PaymentRequestError('not_found', id, `Payment request ${id} not found`);
+    if (request.status !== 'pending' || this.executing.has(id)) {
+      throw new PaymentRequestError('not_pending', id, `Payment request ${id} is ${this.executing.has(id) ? 'being approved' : request.status}`);
+    }
+    return request;
+  }
+
+  private async decide(
+    request: PaymentRequest,
+    status: Exclude<PaymentRequestStatus, 'pending'>,
+    by: string,
+    details: Pick<PaymentRequest, 'reason' | 'resourceId' | 'error'>,
+  ): Promise<PaymentRequest> {
+    const decided: PaymentRequest = { ...request, status, decidedBy: by, decidedAt: new Date().toISOString(), ...details };
+    await this.store.save(decided);
+    this.onEvent({ type: `payment_request.${status}`, request: decided });
+    return decided;
+  }
+}
@@ -0,0 +1,177 @@
+import { readFileSync } from 'fs';
+import { takeFlag } from './cli-flags.js';
+import { config, defaultBaseUrl, type ClientConfig, type Environment } from './config.js';
+
+/**
+ * Named Circle accounts
+ *
+ * `circle.profiles.json` (or CIRCLE_PROFILES_FILE) maps profile names to
+ * accounts, so one checkout can switch between several sandbox entities and a
+ * production key:
+ *
+ *   {
+ *     "default": "team-sandbox",
+ *     "profiles": {
+ *       "team-sandbox": { "environment": "sandbox", "apiKeyEnv": "CIRCLE_TEAM_SANDBOX_KEY" },
+ *       "prod-readonly": { "environment": "production", "apiKeyEnv": "CIRCLE_PROD_READONLY_KEY", "readOnly": true }
+ *     }
+ *   }
+ *
+ * `apiKeyEnv` names an environment variable holding the key, which keeps keys
+ * out of the file; `apiKey` inlines it. `"readOnly": true` refuses every write
+ * (see safety.ts). The CIRCLE_* variables always form a
+ * profile called "default", so nothing changes without a profiles file.
+ * The active profile is the explicit one, else CIRCLE_PROFILE, else the
+ * file's "default".
+ */
+
+export const DEFAULT_PROFILE = 'default';
+
+export interface CircleProfile extends ClientConfig {
+  name: string;
+  description?: string;
+}
+
+/**
+ * What the dashboard and MCP may show about a profile — never the key itself
+ */
+export interface ProfileSummary {
+  name: string;
+  environment: Environment;
+  baseUrl: string;
+  description?: string;
+  hasApiKey: boolean;
+  isDefault: boolean;
+  readOnly: boolean;
+}
+
+interface ProfileFileEntry {
+  environment?: Environment;
+  apiKey?: string;
+  apiKeyEnv?: string;
+  baseUrl?: string;
+  description?: string;
+  readOnly?: boolean;
+}
+
+interface ProfilesFile {
+  default?: string;
+  profiles?: Record<string, ProfileFileEntry>;
+}
+
+const ENVIRONMENTS: Environment[] = ['sandbox', 'production', 'local'];
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+/**
+ * The profiles file exists but is not valid
+ */
+export class ProfileConfigError extends Error {
+  constructor(readonly path: string, detail: string) {
+    super(`Invalid profiles file ${path}: ${detail}`);
+    this.name = 'ProfileConfigError';
+  }
+}
+
+/**
+ * A profile name that is not defined
+ */
+export class UnknownProfileError extends Error {
+  constructor(readonly profile: string, readonly available: string[]) {
+    super(`Unknown profile "${profile}". Available profiles: ${available.join(', ')}`);
+    this.name = 'UnknownProfileError';
+  }
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────
+
+function envProfile(): CircleProfile {
+  return {
+    name: DEFAULT_PROFILE,
+    apiKey: config.apiKey,
+    environment: config.environment,
+    baseUrl: config.baseUrl,
+  };
+}
+
+function readProfilesFile(path: string): ProfilesFile | undefined {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+  try {
+    return JSON.parse(text) as ProfilesFile;
+  } catch (error) {
+    throw new ProfileConfigError(path, (error as Error).message);
+  }
+}
+
+function toProfile(path: string, name: string, entry: ProfileFileEntry): CircleProfile {
+  const environment = entry.environment ?? 'sandbox';
+  if (!ENVIRONMENTS.includes(environment)) {
+    throw new ProfileConfigError(path, `profile "${name}" has unknown environment "${environment}"`);
+  }
+  const apiKey = entry.apiKey
+    ?? (entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined)
+    ?? (environment === 'local' ? 'local-emulator' : '');
+  return {
+    name,
+    apiKey,
+    environment,
+    baseUrl: entry.baseUrl ?? defaultBaseUrl(environment),
+    ...(entry.description && { description: entry.description }),
+    ...(entry.readOnly && { readOnly: true }),
+  };
+}
+
+/**
+ * Every profile plus the name of the default one. The file is re-read on each
+ * call, so edits apply without restarting the dashboard or MCP server.
+ */
+export function loadProfiles(path = config.profilesFile): { defaultName: string; profiles: Map<string, CircleProfile> } {
+  const profiles = new Map([[DEFAULT_PROFILE, envProfile()]]);
+  const file = readProfilesFile(path);
+  for (const [name, entry] of Object.entries(file?.profiles ?? {})) {
+    profiles.set(name, toProfile(path, name, entry));
+  }
+
+  const defaultName = process.env.CIRCLE_PROFILE || file?.default || DEFAULT_PROFILE;
+  if (!profiles.has(defaultName)) throw new UnknownProfileError(defaultName, [...profiles.keys()]);
+  return { defaultName, profiles };
+}
+
+/**
+ * Resolve a profile by name, or the active default when no name is given
+ */
+export function getProfile(name?: string, path?: string): CircleProfile {
+  const { defaultName, profiles } = loadProfiles(path);
+  const profile = profiles.get(name || defaultName);
+  if (!profile) throw new UnknownProfileError(name!, [...profiles.keys()]);
+  return profile;
+}
+
+export function listProfiles(path?: string): ProfileSummary[] {
+  const { defaultName, profiles } = loadProfiles(path);
+  return [...profiles.values()].map(profile => ({
+    name: profile.name,
+    environment: profile.environment,
+    baseUrl: profile.baseUrl,
+    ...(profile.description && { description: profile.description }),
+    hasApiKey: Boolean(profile.apiKey),
+    isDefault: profile.name === defaultName,
+    readOnly: Boolean(profile.readOnly || config.readOnly),
+  }));
+}
+
+// ─── CLI flag ────────────────────────────────────────────────────────────
+
+/**
+ * Pull `--profile <name>` / `--profile=<name>` out of CLI arguments
+ */
+export function takeProfileFlag(argv: string[]): { profile?: string; args: string[] } {
+  const { value, args } = takeFlag(argv, 'profile');
+  return { profile: value, args };
+}
@@ -0,0 +1,122 @@
+import { config } from './config.js';
+
+/**
+ * What never leaves this process in the clear
+ *
+ * Field rules match object keys at any depth: `mask` replaces the value with
+ * [REDACTED], `last4` keeps the last four characters (bank account numbers),
+ * `keep` switches a default rule off. Text is scrubbed too — console lines,
+ * error messages, JSON printed as a string — of Circle API keys, bearer
+ * tokens and every value registered with `addSecret` (each client's API key,
+ * a generated Entity Secret).
+ *
+ * CIRCLE_REDACT_FIELDS adds or overrides rules by exact field name, e.g.
+ * "taxId,routingNumber:last4,accountNumber:keep". The shared `redactor` is
+ * applied to dashboard console capture, the audit log, SSE events and MCP
+ * responses.
+ */
+
+export type RedactAction = 'mask' | 'last4' | 'keep';
+
+export interface FieldRule {
+  field: RegExp;
+  action: RedactAction;
+}
+
+export const REDACTED = '[REDACTED]';
+
+export const DEFAULT_FIELD_RULES: FieldRule[] = [
+  { field: /secret|password|passphrase|token|api_?key|ciphertext|encrypted|private_?key|recovery_?file/i, action: 'mask' },
+  { field: /^(accountNumber|iban)$/i, action: 'last4' },
+];
+
+// Circle keys look like SAND_API_KEY:<id>:<secret>
+const API_KEY_PATTERN = /\b(?:SAND|TEST|LIVE|PROD)_API_KEY:[\w-]+:[\w-]+/g;
+const BEARER_PATTERN = /\b(Bearer\s+)[\w.~+/:=-]+/gi;
+// A string field in JSON that was already printed: "name": "value"
+const JSON_STRING_FIELD = /"([\w$-]+)"(\s*:\s*)"((?:[^"\\]|\\.)*)"/g;
+
+// Shorter values would mask ordinary words
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Parse "taxId,routingNumber:last4,accountNumber:keep"; a bare name is masked
+ */
+export function parseFieldRules(spec: string | undefined): FieldRule[] {
+  return (spec ?? '').split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const [name, action = 'mask'] = part.split(':').map(p => p.trim());
+    if (!/^[\w$-]+$/.test(name) || !['mask', 'last4', 'keep'].includes(action)) {
+      throw new Error(`Invalid CIRCLE_REDACT_FIELDS entry "${part}": expected field[:mask|last4|keep]`);
+    }
+    return { field: new RegExp(`^${name}$`, 'i'), action: action as RedactAction };
+  });
+}
+
+export class Redactor {
+  private readonly rules: FieldRule[];
+  private readonly secrets = new Set<string>();
+
+  /** `rules` come first, so they override the defaults */
+  constructor(rules: FieldRule[] = [], defaults: FieldRule[] = DEFAULT_FIELD_RULES) {
+    this.rules = [...rules, ...defaults];
+  }
+
+  /** Scrub `value` from all text from now on */
+  addSecret(value: string | undefined): void {
+    if (value && value.length >= MIN_SECRET_LENGTH) this.secrets.add(value);
+  }
+
+  /**
+   * Copy of `value` (as JSON would serialize it) with redacted fields and scrubbed strings
+   */
+  value<T>(value: T): T {
+    if (value === undefined || value === null) return value;
+    return this.walk(JSON.parse(JSON.stringify(value))) as T;
+  }
+
+  text(text: string): string {
+    let scrubbed = text;
+    for (const secret of this.secrets) scrubbed = scrubbed.split(secret).join(REDACTED);
+    return scrubbed
+      .replace(API_KEY_PATTERN, REDACTED)
+      .replace(BEARER_PATTERN, `$1${REDACTED}`)
+      .replace(JSON_STRING_FIELD, (match, field: string, colon: string, inner: string) => {
+        const action = this.actionFor(field);
+        return action === 'keep' ? match : `"${field}"${colon}"${this.apply(action, inner)}"`;
+      });
+  }
+
+  private walk(value: unknown): unknown {
+    if (typeof value === 'string') return this.text(value);
+    if (Array.isArray(value)) return value.map(item => this.walk(item));
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.entries(value).map(([field, inner]) => {
+      const action = this.actionFor(field);
+      if (action === 'keep') return [field, this.walk(inner)];
+      // A flag such as hasApiKey says nothing secret
+      if (inner === null || typeof inner === 'boolean') return [field, inner];
+      if (action === 'last4' && typeof inner !== 'string' && typeof inner !== 'number') return [field, REDACTED];
+      return [field, this.apply(action, String(inner))];
+    }));
+  }
+
+  private actionFor(field: string): RedactAction {
+    return this.rules.find(rule => rule.field.test(field))?.action ?? 'keep';
+  }
+
+  private apply(action: Exclude<RedactAction, 'keep'>, value: string): string {
+    if (action === 'mask') return REDACTED;
+    return value.length > 4 ? `…${value.slice(-4)}` : value;
+  }
+}
+
+/** The process-wide redactor, with CIRCLE_REDACT_FIELDS on top of the defaults */
+export const redactor = new Redactor(parseFieldRules(config.redactFields));
+
+export function redact<T>(value: T): T {
+  return redactor.value(value);
+}
+
+export function redactText(text: string): string {
+  return redactor.text(text);
+}
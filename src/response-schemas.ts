@@ -0,0 +1,253 @@
+import type { Schema } from './schema.js';
+
+/**
+ * Circle Mint response schemas, keyed by endpoint
+ * Only the fields this app relies on are required; everything else is checked
+ * for type when present. Used by CircleMintClient in strict mode.
+ */
+
+// ─── Building blocks ─────────────────────────────────────────────────────
+
+const str: Schema = { type: 'string' };
+const status: Schema = { type: 'string', enum: ['pending', 'complete', 'failed'] };
+
+const amount: Schema = {
+  type: 'object',
+  required: ['amount', 'currency'],
+  properties: { amount: str, currency: str },
+};
+
+/** Circle's `{ data }` wrapper around a resource */
+export function envelope(data: Schema): Schema {
+  return { type: 'object', required: ['data'], properties: { data } };
+}
+
+/** Circle's `{ data: [...] }` wrapper around a list */
+export function list(item: Schema): Schema {
+  return envelope({ type: 'array', items: item });
+}
+
+// ─── Resources ───────────────────────────────────────────────────────────
+
+const balance: Schema = {
+  type: 'object',
+  required: ['available', 'unsettled'],
+  properties: {
+    available: { type: 'array', items: amount },
+    unsettled: { type: 'array', items: amount },
+  },
+};
+
+const wallet: Schema = {
+  type: 'object',
+  required: ['walletId', 'entityId'],
+  properties: {
+    walletId: str,
+    entityId: str,
+    type: str,
+    balances: { type: 'array', items: amount },
+  },
+};
+
+const depositAddress: Schema = {
+  type: 'object',
+  required: ['address', 'chain'],
+  properties: { id: str, address: str, addressTag: str, currency: str, chain: str },
+};
+
+const deposit: Schema = {
+  type: 'object',
+  required: ['id', 'amount', 'status'],
+  properties: { id: str, amount, status },
+};
+
+const addressBookRecipient: Schema = {
+  type: 'object',
+  required: ['id', 'chain', 'address'],
+  properties: {
+    id: str,
+    chain: str,
+    address: str,
+    status: { type: 'string', enum: ['pending', 'active', 'inactive', 'denied'] },
+  },
+};
+
+const payout: Schema = {
+  type: 'object',
+  required: ['id', 'amount', 'status'],
+  properties: {
+    id: str,
+    destination: { type: 'object', required: ['type', 'id'], properties: { type: str, id: str } },
+    amount,
+    status,
+  },
+};
+
+const businessPayout: Schema = {
+  type: 'object',
+  required: ['id', 'amount', 'status'],
+  properties: {
+    id: str,
+    destination: { type: 'object', required: ['type', 'id'], properties: { type: str, id: str } },
+    amount,
+    fees: amount,
+    status,
+  },
+};
+
+const wireBankAccount: Schema = {
+  type: 'object',
+  required: ['id', 'status'],
+  properties: { id: str, status, description: str, trackingRef: str },
+};
+
+const wireInstructions: Schema = {
+  type: 'object',
+  required: ['trackingRef', 'beneficiaryBank'],
+  properties: {
+    trackingRef: str,
+    beneficiary: { type: 'object', properties: { name: str } },
+    beneficiaryBank: {
+      type: 'object',
+      required: ['accountNumber'],
+      properties: { name: str, routingNumber: str, accountNumber: str, currency: str },
+    },
+  },
+};
+
+const mockWirePayment: Schema = {
+  type: 'object',
+  required: ['trackingRef', 'amount'],
+  properties: { trackingRef: str, amount, status },
+};
+
+const recipientAddress: Schema = {
+  type: 'object',
+  required: ['id', 'address', 'chain'],
+  properties: { id: str, address: str, chain: str, currency: str, description: str },
+};
+
+const transfer: Schema = {
+  type: 'object',
+  required: ['id', 'amount', 'status'],
+  properties: {
+    id: str,
+    destination: { type: 'object', required: ['type'], properties: { type: str, addressId: str } },
+    amount,
+    status,
+  },
+};
+
+const expressRoute: Schema = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: str, receiptAddressId: str, destinationBankAccountId: str },
+};
+
+const subscription: Schema = {
+  type: 'object',
+  required: ['id', 'endpoint'],
+  properties: {
+    id: str,
+    endpoint: str,
+    subscriptionDetails: {
+      type: 'array',
+      items: { type: 'object', required: ['url', 'status'], properties: { url: str, status: str } },
+    },
+  },
+};
+
+const notificationPublicKey: Schema = {
+  type: 'object',
+  required: ['id', 'algorithm', 'publicKey'],
+  properties: { id: str, algorithm: str, publicKey: str, createDate: str },
+};
+
+/**
+ * The resources above by name, for the dashboard API's document and client (see openapi.ts)
+ */
+export const resourceSchemas = {
+  Balance: balance,
+  Wallet: wallet,
+  DepositAddress: depositAddress,
+  Deposit: deposit,
+  AddressBookRecipient: addressBookRecipient,
+  Payout: payout,
+  BusinessPayout: businessPayout,
+  WireBankAccount: wireBankAccount,
+  WireInstructions: wireInstructions,
+  MockWirePayment: mockWirePayment,
+  RecipientAddress: recipientAddress,
+  Transfer: transfer,
+  ExpressRoute: expressRoute,
+  Subscription: subscription,
+};
+
+// ─── Endpoint registry ───────────────────────────────────────────────────
+
+/**
+ * `METHOD /path` → schema. Path segments starting with `:` match any single segment.
+ */
+export const responseSchemas: Record<string, Schema> = {
+  'GET /v1/balances': envelope(balance),
+  'GET /v1/businessAccount/balances': envelope(balance),
+  'GET /v1/wallets': list(wallet),
+
+  'GET /v1/paymentIntents': list({ type: 'object', properties: {} }),
+  'GET /v1/deposits': list(deposit),
+  'GET /v1/deposits/addresses': list(depositAddress),
+
+  'POST /v1/addressBook/recipients': envelope(addressBookRecipient),
+  'GET /v1/addressBook/recipients': list(addressBookRecipient),
+
+  'POST /v1/payouts': envelope(payout),
+  'GET /v1/payouts': list(payout),
+  'GET /v1/payouts/:id': envelope(payout),
+
+  'POST /v1/businessAccount/payouts': envelope(businessPayout),
+  'GET /v1/businessAccount/payouts': list(businessPayout),
+  'GET /v1/businessAccount/payouts/:id': envelope(businessPayout),
+
+  'POST /v1/businessAccount/banks/wires': envelope(wireBankAccount),
+  'GET /v1/businessAccount/banks/wires': list(wireBankAccount),
+  'GET /v1/businessAccount/banks/wires/:id/instructions': envelope(wireInstructions),
+  'POST /v1/mocks/payments/wire': envelope(mockWirePayment),
+
+  'POST /v1/businessAccount/transfers': envelope(transfer),
+  'GET /v1/businessAccount/transfers/:id': envelope(transfer),
+
+  'POST /v1/businessAccount/wallets/addresses/recipient': envelope(recipientAddress),
+  'GET /v1/businessAccount/wallets/addresses/recipient': list(recipientAddress),
+  'GET /v1/businessAccount/wallets/addresses/recipient/:id': envelope(recipientAddress),
+
+  'POST /v1/businessAccount/wallets/addresses/deposit': envelope(depositAddress),
+  'GET /v1/businessAccount/wallets/addresses/deposit': list(depositAddress),
+
+  'POST /v1/businessAccount/expressRoute': envelope(expressRoute),
+  'GET /v1/businessAccount/expressRoute': list(expressRoute),
+  'GET /v1/businessAccount/expressRoute/:id': envelope(expressRoute),
+
+  'POST /v1/notifications/subscriptions': envelope(subscription),
+  'GET /v1/notifications/subscriptions': list(subscription),
+  'GET /v2/notifications/publicKey/:id': envelope(notificationPublicKey),
+};
+
+/**
+ * Look up the response schema for a request. The query string is ignored.
+ */
+export function findResponseSchema(method: string, endpoint: string): Schema | undefined {
+  const path = endpoint.split('?')[0];
+  const segments = path.split('/');
+
+  for (const [key, schema] of Object.entries(responseSchemas)) {
+    const [keyMethod, keyPath] = key.split(' ');
+    if (keyMethod !== method) continue;
+
+    const keySegments = keyPath.split('/');
+    if (keySegments.length !== segments.length) continue;
+    if (keySegments.every((seg, i) => seg.startsWith(':') || seg === segments[i])) {
+      return schema;
+    }
+  }
+  return undefined;
+}
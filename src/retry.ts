@@ -0,0 +1,92 @@
+import type { Logger } from './logger.js';
+
+/**
+ * Retry policy for Circle API requests
+ * Circle recommends retrying 429 and 5xx responses with backoff, and only
+ * when the request is safe to repeat (idempotent method or idempotencyKey).
+ * Reference: https://developers.circle.com/circle-mint/circle-apis-api-errors
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number;   // total attempts including the first (1 = no retries)
+  baseDelayMs: number;   // delay before the first retry; doubles each attempt
+  maxDelayMs: number;    // cap for computed delays and for honoured Retry-After values
+  jitter: number;        // 0..1 — fraction of the delay that is randomised
+  retryStatuses: number[];
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.2,
+  retryStatuses: [429, 500, 502, 503, 504],
+};
+
+/**
+ * Reported once per attempt via the client's `onAttempt` hook
+ */
+export interface RequestAttempt {
+  method: string;
+  endpoint: string;
+  attempt: number;       // 1-based
+  maxAttempts: number;
+  status?: number;       // HTTP status, if a response was received
+  error?: string;        // network error message, if no response
+  durationMs: number;
+  willRetry: boolean;
+  delayMs?: number;      // wait before the next attempt, when willRetry
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * A request may be repeated if its method is idempotent, or it is a POST whose
+ * body carries an idempotencyKey (Circle de-duplicates those server-side).
+ */
+export function isRepeatable(method: string, body: unknown): boolean {
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+  if (method !== 'POST' || typeof body !== 'string') return false;
+  try {
+    return typeof JSON.parse(body)?.idempotencyKey === 'string';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with proportional jitter for the given (1-based) attempt
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number, random = Math.random): number {
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  const spread = exponential * policy.jitter;
+  return Math.min(Math.round(exponential - spread + random() * spread * 2), policy.maxDelayMs);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Default attempt hook: surface retries on the client's logger so CLI and dashboard logs show them
+ */
+export function logRetry(attempt: RequestAttempt, logger: Logger = console): void {
+  if (!attempt.willRetry) return;
+  const reason = attempt.status ? `HTTP ${attempt.status}` : attempt.error;
+  logger.warn(
+    `↻ ${attempt.method} ${attempt.endpoint} failed (${reason}), ` +
+    `retrying in ${attempt.delayMs}ms (attempt ${attempt.attempt + 1}/${attempt.maxAttempts})`
+  );
+}
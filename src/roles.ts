@@ -0,0 +1,143 @@
+/**
+ * Who may do what, in the dashboard API and the MCP server
+ *
+ * Roles are cumulative:
+ * - viewer   — list and read everything, wait for results
+ * - operator — also create recipients, addresses, wire accounts and
+ *   subscriptions, run sandbox mocks, and submit payment requests
+ * - approver — also send money: payouts, business payouts, business
+ *   transfers, and approving payment requests (see payment-requests.ts)
+ *
+ * Dashboard users get their role from CIRCLE_DASHBOARD_ROLES
+ * ("alice:approver,bob:viewer"); "admin" (the password) and "local" are
+ * approvers unless listed, anyone else is a viewer. The MCP server runs as
+ * CIRCLE_MCP_ROLE (default: operator, so an agent proposes payments but
+ * cannot send them).
+ */
+
+export type Role = 'viewer' | 'operator' | 'approver';
+
+export const ROLES: Role[] = ['viewer', 'operator', 'approver'];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/** Whether `role` includes everything `required` may do */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Parse "alice:approver,bob:viewer"
+ */
+export function parseRoles(spec: string | undefined): Map<string, Role> {
+  const roles = new Map<string, Role>();
+  for (const part of (spec ?? '').split(',').map(p => p.trim()).filter(Boolean)) {
+    const [user, role] = part.split(':').map(p => p.trim());
+    if (!user || !isRole(role)) {
+      throw new Error(`Invalid CIRCLE_DASHBOARD_ROLES entry "${part}": expected user:${ROLES.join('|')}`);
+    }
+    roles.set(user, role);
+  }
+  return roles;
+}
+
+const DEFAULT_APPROVERS = ['admin', 'local'];
+
+export function roleOf(user: string, roles: Map<string, Role>): Role {
+  return roles.get(user) ?? (DEFAULT_APPROVERS.includes(user) ? 'approver' : 'viewer');
+}
+
+// ─── MCP tool allowlist ──────────────────────────────────────────────────
+
+const VIEWER_TOOLS = [
+  'list_profiles',
+  'get_wallets',
+  'get_balance',
+  'get_supported_chains',
+  'list_deposits',
+  'list_deposit_addresses',
+  'list_address_book',
+  'list_payouts',
+  'list_wire_accounts',
+  'get_wire_instructions',
+  'list_recipients',
+  'list_subscriptions',
+  'list_payment_requests',
+  'wait_for_payout',
+  'wait_for_business_payout',
+  'wait_for_business_transfer',
+  'wait_for_deposit',
+  'wait_for_recipient_verified',
+  'circle_raw_request',   // writes need an approver (see mcp-server.ts)
+];
+
+const OPERATOR_TOOLS = [
+  ...VIEWER_TOOLS,
+  'create_deposit_address',
+  'add_address_book_recipient',
+  'delete_address_book_recipient',
+  'create_wire_account',
+  'mock_wire_deposit',
+  'create_recipient',
+  'create_subscription',
+  'delete_subscription',
+  'express_route_link_bank',
+  'express_route_link_receipt',
+  'express_route_mock_deposit',
+  'express_route_onchain_deposit',
+  'express_route_create',
+  'request_payout',
+];
+
+const APPROVER_TOOLS = [
+  ...OPERATOR_TOOLS,
+  'create_payout',
+  'business_payout',
+  'business_transfer',
+  'express_route_transfer',
+  'express_route_withdraw',
+  'express_route_run_full',
+  'approve_request',
+];
+
+/**
+ * The tools each role may call; a tool missing here is refused to everyone
+ */
+export const TOOL_ALLOWLIST: Record<Role, ReadonlySet<string>> = {
+  viewer: new Set(VIEWER_TOOLS),
+  operator: new Set(OPERATOR_TOOLS),
+  approver: new Set(APPROVER_TOOLS),
+};
+
+/** The lowest role allowed to call `tool`, if any is */
+export function requiredRoleForTool(tool: string): Role | undefined {
+  return ROLES.find(role => TOOL_ALLOWLIST[role].has(tool));
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+/**
+ * An action the caller's role does not allow; nothing was sent to Circle
+ */
+export class PermissionDeniedError extends Error {
+  readonly reason = 'forbidden';
+  readonly action: string;    // "POST /api/payouts" or "create_payout"
+  readonly role: Role;
+  readonly required?: Role;   // undefined: no role may do this
+
+  constructor(action: string, role: Role, required?: Role) {
+    super(required
+      ? `${action} needs the ${required} role; you are ${role === 'approver' || role === 'operator' ? 'an' : 'a'} ${role}`
+      : `${action} is not allowed for any role`);
+    this.name = 'PermissionDeniedError';
+    this.action = action;
+    this.role = role;
+    this.required = required;
+  }
+
+  toJSON() {
+    return { reason: this.reason, action: this.action, role: this.role, required: this.required };
+  }
+}
@@ -0,0 +1,363 @@
+import crypto from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { takeFlag } from './cli-flags.js';
+import { config, defaultBaseUrl, type ClientConfig } from './config.js';
+import { Money } from './money.js';
+import type { Amount } from './types.js';
+
+/**
+ * Guard rails for calls that change state or move money
+ *
+ * Checked by CircleMintClient before anything is sent, in this order:
+ * - read-only mode (CIRCLE_READ_ONLY or a profile's `readOnly`) refuses every write
+ * - in production, mock endpoints (/v1/mocks/*) are refused outright
+ * - in production, every write needs a confirmation token: CIRCLE_CONFIRM_TOKEN
+ *   when set, otherwise the profile name (CLI --confirm, dashboard prompt,
+ *   MCP `confirm` argument)
+ * - in production, payouts and transfers are held to a per-operation limit
+ *   (CIRCLE_MAX_AMOUNT) and a per-account daily limit (CIRCLE_DAILY_LIMIT),
+ *   the latter tallied in a local spend ledger
+ *
+ * Raw requests (CircleMintClient.raw) are sent in canonical form (canonicalPath),
+ * held to an allow-list of path prefixes (CIRCLE_RAW_PATHS) and, in production,
+ * refused if they write unless CIRCLE_RAW_PRODUCTION_WRITES is on.
+ *
+ * "Production" is an account labelled so, or any account whose base URL is
+ * Circle's production host, whatever its label says.
+ */
+
+/** Currency (or "*" for any) → major-unit decimal string */
+export type AmountLimits = Record<string, string>;
+
+export interface SafetyPolicy {
+  readOnly: boolean;
+  maxAmount: AmountLimits;   // per operation
+  dailyLimit: AmountLimits;  // per account and UTC day
+  confirmToken?: string;     // default: the profile name (or "production" for an explicit config)
+  rawPaths?: string[];       // path prefixes raw requests may call (default: DEFAULT_RAW_PATHS)
+  rawProductionWrites?: boolean;
+}
+
+// Endpoints whose POST moves funds out of the account
+const MONEY_MOVING_ENDPOINTS = ['/v1/payouts', '/v1/businessAccount/payouts', '/v1/businessAccount/transfers'];
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const PRODUCTION_HOST = new URL(defaultBaseUrl('production')).hostname;
+
+/**
+ * Whether calls go to Circle's production API: by label, or by host for a
+ * profile labelled "sandbox" that points at api.circle.com
+ */
+export function isProduction(account: Pick<ClientConfig, 'environment' | 'baseUrl'>): boolean {
+  if (account.environment === 'production') return true;
+  try {
+    return new URL(account.baseUrl).hostname.toLowerCase() === PRODUCTION_HOST;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The one form a path is checked and sent in: repeated slashes collapsed and
+ * escaped unreserved characters decoded, so "/v1//%70ayouts" is "/v1/payouts".
+ * The query string is left as it is; so are other escapes, which underPrefix refuses.
+ */
+export function canonicalPath(endpoint: string): string {
+  const start = endpoint.search(/[?#]/);
+  const [path, rest] = start === -1 ? [endpoint, ''] : [endpoint.slice(0, start), endpoint.slice(start)];
+  const decoded = path.replace(/%([0-9a-f]{2})/gi, (escape, hex: string) => {
+    const char = String.fromCharCode(parseInt(hex, 16));
+    return /[\w.~-]/.test(char) ? char : escape;
+  });
+  return decoded.replace(/\/{2,}/g, '/') + rest;
+}
+
+/**
+ * Whether the call sends funds out of the account; the query string, a
+ * trailing slash and any other spelling of the same path do not change that
+ */
+export function movesMoney(method: string, endpoint: string): boolean {
+  const path = canonicalPath(endpoint).split(/[?#]/)[0].replace(/\/+$/, '');
+  return WRITE_METHODS.includes(method) && MONEY_MOVING_ENDPOINTS.includes(path);
+}
+
+/** The Circle Mint API families; a prefix ending in "/" covers only what is below it */
+export const DEFAULT_RAW_PATHS = [
+  '/v1/businessAccount/',
+  '/v1/wallets',
+  '/v1/payouts',
+  '/v1/transfers',
+  '/v1/deposits',
+  '/v1/paymentIntents',
+  '/v1/addressBook/',
+  '/v1/notifications/',
+  '/v1/configuration',
+  '/v1/stablecoins',
+  '/v1/mocks/',
+  '/v1/ping',
+];
+
+/**
+ * Parse "/v1/businessAccount/,/v1/wallets"; empty means DEFAULT_RAW_PATHS
+ */
+export function parseRawPaths(spec: string | undefined): string[] {
+  const prefixes = (spec ?? '').split(',').map(p => p.trim()).filter(Boolean);
+  for (const prefix of prefixes) {
+    if (!prefix.startsWith('/')) {
+      throw new Error(`Invalid CIRCLE_RAW_PATHS entry "${prefix}": expected a path such as /v1/businessAccount/`);
+    }
+  }
+  return prefixes.length > 0 ? prefixes : DEFAULT_RAW_PATHS;
+}
+
+function underPrefix(endpoint: string, prefixes: string[]): boolean {
+  const path = canonicalPath(endpoint).split(/[?#]/)[0];
+  // The URL parser resolves dot segments and backslashes, which would step out from under the prefix;
+  // an escape left after canonicalPath (%2F, %25, …) could be read as another route
+  if (/(^|\/)\.{1,2}(\/|$)|\\|%/.test(path)) return false;
+  return prefixes.some(prefix => prefix.endsWith('/')
+    ? path.startsWith(prefix)
+    : path === prefix || path.startsWith(`${prefix}/`));
+}
+
+/**
+ * Parse "USD:1000,EUR:500" (or a bare "1000" for every currency)
+ */
+export function parseAmountLimits(spec: string | undefined): AmountLimits {
+  const limits: AmountLimits = {};
+  for (const part of (spec ?? '').split(',').map(p => p.trim()).filter(Boolean)) {
+    const [currency, amount] = part.includes(':') ? part.split(':').map(p => p.trim()) : ['*', part];
+    // The widest precision accepts any sensible limit for "*"; a named currency is checked at its own
+    Money.parse(amount, currency === '*' ? 'ETH' : currency);
+    limits[currency] = amount;
+  }
+  return limits;
+}
+
+export function policyFromConfig(): SafetyPolicy {
+  return {
+    readOnly: config.readOnly,
+    maxAmount: parseAmountLimits(config.maxAmount),
+    dailyLimit: parseAmountLimits(config.dailyLimit),
+    ...(config.confirmToken && { confirmToken: config.confirmToken }),
+    rawPaths: parseRawPaths(config.rawPaths),
+    rawProductionWrites: config.rawProductionWrites,
+  };
+}
+
+function limitFor(limits: AmountLimits, currency: string): Money | undefined {
+  const limit = limits[currency] ?? limits['*'];
+  return limit === undefined ? undefined : Money.parse(limit, currency);
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+export type BlockReason =
+  | 'read_only'
+  | 'mock_in_production'
+  | 'confirmation_required'
+  | 'amount_limit'
+  | 'daily_limit'
+  | 'raw_path_not_allowed'
+  | 'raw_write_in_production';
+
+/**
+ * A call the safety guard refused; nothing was sent to Circle
+ */
+export class SafetyBlockedError extends Error {
+  readonly reason: BlockReason;
+  readonly operation: string;  // "POST /v1/payouts"
+  readonly detail: string;
+
+  constructor(reason: BlockReason, operation: string, detail: string) {
+    super(`Blocked by safety guard (${reason}): ${operation} — ${detail}`);
+    this.name = 'SafetyBlockedError';
+    this.reason = reason;
+    this.operation = operation;
+    this.detail = detail;
+  }
+
+  toJSON() {
+    return { reason: this.reason, operation: this.operation, detail: this.detail };
+  }
+}
+
+// ─── Spend ledger ────────────────────────────────────────────────────────
+
+export interface SpendEntry {
+  account: string;   // accountId() — never the key itself
+  day: string;       // UTC date, YYYY-MM-DD
+  endpoint: string;
+  amount: Amount;
+  createdAt: string; // ISO-8601
+}
+
+export interface SpendLedger {
+  entries(account: string, day: string): Promise<SpendEntry[]>;
+  record(entry: SpendEntry): Promise<void>;
+}
+
+export class MemorySpendLedger implements SpendLedger {
+  private all: SpendEntry[] = [];
+
+  async entries(account: string, day: string): Promise<SpendEntry[]> {
+    return this.all.filter(e => e.account === account && e.day === day);
+  }
+
+  async record(entry: SpendEntry): Promise<void> {
+    this.all.push(entry);
+  }
+}
+
+/**
+ * Append-only JSONL ledger. Re-read on every check, so the CLI, dashboard and
+ * MCP server share one daily tally.
+ */
+export class FileSpendLedger implements SpendLedger {
+  constructor(readonly path: string) {}
+
+  async entries(account: string, day: string): Promise<SpendEntry[]> {
+    const text = await readFile(this.path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    });
+    const entries: SpendEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as SpendEntry;
+        if (entry.account === account && entry.day === day) entries.push(entry);
+      } catch {
+        // A torn final line from a crash — skip it
+      }
+    }
+    return entries;
+  }
+
+  async record(entry: SpendEntry): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Stable, non-secret identifier for an account: base URL plus a hash of the key
+ */
+export function accountId(account: ClientConfig): string {
+  const key = crypto.createHash('sha256').update(account.apiKey).digest('hex').slice(0, 16);
+  return `${account.baseUrl}#${key}`;
+}
+
+// ─── Guard ───────────────────────────────────────────────────────────────
+
+// Spends authorised but not yet sent, so concurrent calls can't both fit under the daily limit
+const reserved = new Set<SpendEntry>();
+
+export class SafetyGuard {
+  private readonly account: string;
+
+  constructor(
+    private readonly target: ClientConfig & { name?: string; readOnly?: boolean },
+    private readonly policy: SafetyPolicy,
+    private readonly ledger: SpendLedger,
+    private readonly confirmation?: string
+  ) {
+    this.account = accountId(target);
+  }
+
+  /**
+   * Throw SafetyBlockedError if the call may not be sent. For a payout or
+   * transfer in production, returns the spend, which the caller must
+   * `record` once Circle accepted it and `release` either way.
+   */
+  async authorize(method: string, endpoint: string, payload?: Record<string, unknown>): Promise<SpendEntry | undefined> {
+    if (!WRITE_METHODS.includes(method)) return undefined;
+    const operation = `${method} ${endpoint}`;
+    const production = isProduction(this.target);
+    const where = this.target.name ? `profile "${this.target.name}"` : `${production ? 'production' : this.target.environment} account`;
+
+    if (this.policy.readOnly || this.target.readOnly) {
+      throw new SafetyBlockedError('read_only', operation, `${where} is read-only`);
+    }
+    if (!production) return undefined;
+
+    if (endpoint.startsWith('/v1/mocks/')) {
+      throw new SafetyBlockedError('mock_in_production', operation, 'mock endpoints only exist in the sandbox');
+    }
+    const token = this.policy.confirmToken ?? this.target.name ?? 'production';
+    if (this.confirmation !== token) {
+      throw new SafetyBlockedError(
+        'confirmation_required',
+        operation,
+        `writes to ${where} need confirmation (CLI --confirm <token>, dashboard prompt or MCP "confirm" argument)` +
+        (this.policy.confirmToken ? '' : `; the token is the profile name`)
+      );
+    }
+
+    const amount = movesMoney(method, endpoint) ? payload?.amount as Amount | undefined : undefined;
+    if (!amount) return undefined;
+    const money = Money.from(amount);
+
+    const max = limitFor(this.policy.maxAmount, money.currency);
+    if (max && money.compare(max) > 0) {
+      throw new SafetyBlockedError('amount_limit', operation, `${money} ${money.currency} is over the per-operation limit of ${max} ${max.currency}`);
+    }
+
+    const spend: SpendEntry = {
+      account: this.account,
+      day: new Date().toISOString().slice(0, 10),
+      endpoint,
+      amount: money.toAmount(),
+      createdAt: new Date().toISOString(),
+    };
+    const daily = limitFor(this.policy.dailyLimit, money.currency);
+    if (daily) {
+      const earlier = [...await this.ledger.entries(spend.account, spend.day), ...reserved]
+        .filter(e => e.account === spend.account && e.day === spend.day && e.amount.currency === money.currency);
+      const spent = Money.totals(earlier.map(e => e.amount))[0] ?? Money.zero(money.currency);
+      if (spent.plus(money).compare(daily) > 0) {
+        throw new SafetyBlockedError(
+          'daily_limit',
+          operation,
+          `${money} ${money.currency} would bring today's total to ${spent.plus(money)}, over the daily limit of ${daily} ${daily.currency}`
+        );
+      }
+    }
+    reserved.add(spend);
+    return spend;
+  }
+
+  /**
+   * Throw SafetyBlockedError if a raw request may not be sent: its path must
+   * sit under an allowed prefix, and it may only write to production with
+   * CIRCLE_RAW_PRODUCTION_WRITES. `authorize` still applies after this.
+   */
+  authorizeRaw(method: string, endpoint: string): void {
+    const operation = `${method} ${endpoint}`;
+    const prefixes = this.policy.rawPaths ?? DEFAULT_RAW_PATHS;
+    if (!underPrefix(endpoint, prefixes)) {
+      throw new SafetyBlockedError('raw_path_not_allowed', operation, `raw requests may only call ${prefixes.join(', ')} (CIRCLE_RAW_PATHS)`);
+    }
+    if (WRITE_METHODS.includes(method) && isProduction(this.target) && !this.policy.rawProductionWrites) {
+      throw new SafetyBlockedError('raw_write_in_production', operation, 'raw writes to production are off (CIRCLE_RAW_PRODUCTION_WRITES)');
+    }
+  }
+
+  async record(spend: SpendEntry): Promise<void> {
+    await this.ledger.record(spend);
+  }
+
+  release(spend: SpendEntry): void {
+    reserved.delete(spend);
+  }
+}
+
+/**
+ * Pull `--confirm <token>` / `--confirm=<token>` out of CLI arguments
+ */
+export function takeConfirmFlag(argv: string[]): { confirm?: string; args: string[] } {
+  const { value, args } = takeFlag(argv, 'confirm');
+  return { confirm: value, args };
+}
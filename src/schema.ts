@@ -0,0 +1,96 @@
+/**
+ * Minimal JSON Schema subset
+ * Same dialect as the MCP tool `inputSchema` definitions, so a schema can be shared
+ * between tool definitions and runtime checks without pulling in a validator library.
+ */
+
+export type Schema =
+  | { type: 'string'; enum?: readonly string[]; pattern?: string; minLength?: number; description?: string }
+  | { type: 'number' | 'integer' | 'boolean'; description?: string }
+  | { type: 'array'; items: Schema; description?: string }
+  | {
+      type: 'object';
+      properties: Record<string, Schema>;
+      required?: readonly string[];
+      description?: string;
+    };
+
+export interface SchemaIssue {
+  path: string;   // e.g. "data.beneficiaryBank.accountNumber"
+  message: string;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validate a value against a schema, collecting every offending path.
+ * Unknown properties are allowed — Circle adds fields without notice.
+ */
+export function validateSchema(schema: Schema, value: unknown, path = ''): SchemaIssue[] {
+  const at = path || '(root)';
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return [{ path: at, message: `expected string, got ${typeOf(value)}` }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path: at, message: `expected one of ${schema.enum.join(', ')}, got "${value}"` }];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [{ path: at, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` }];
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return [{ path: at, message: `does not match pattern ${schema.pattern}` }];
+      }
+      return [];
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [{ path: at, message: `expected ${schema.type}, got ${typeOf(value)}` }];
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return [{ path: at, message: 'expected integer' }];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? []
+        : [{ path: at, message: `expected boolean, got ${typeOf(value)}` }];
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [{ path: at, message: `expected array, got ${typeOf(value)}` }];
+      }
+      return value.flatMap((item, i) => validateSchema(schema.items, item, join(path, i)));
+
+    case 'object': {
+      if (typeOf(value) !== 'object') {
+        return [{ path: at, message: `expected object, got ${typeOf(value)}` }];
+      }
+      const obj = value as Record<string, unknown>;
+      const issues: SchemaIssue[] = [];
+      for (const key of schema.required ?? []) {
+        if (obj[key] === undefined || obj[key] === null) {
+          issues.push({ path: join(path, key), message: 'is required' });
+        }
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        if (obj[key] === undefined || obj[key] === null) continue;
+        issues.push(...validateSchema(propSchema, obj[key], join(path, key)));
+      }
+      return issues;
+    }
+  }
+}
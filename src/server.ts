@@ -2,32 +2,254 @@
 
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
+import type { IncomingMessage, ServerResponse } from 'http';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { CircleMintClient } from './circle-mint-client.js';
+import { CircleMintClient, type CircleRequestPreview, type CreatedResourceKind } from './circle-mint-client.js';
 import { AccountAndTransferTester } from './account-and-transfers.js';
 import { ExpressRouteTester } from './express-route.js';
 import { config } from './config.js';
+import { getProfile, listProfiles } from './profiles.js';
+import { SafetyBlockedError } from './safety.js';
+import { collect, pageParamsFrom } from './pagination.js';
+import { CircleApiError, CircleResponseValidationError } from './errors.js';
+import { IdempotencyConflictError } from './idempotency.js';
+import { Money } from './money.js';
+import {
+  FileNotificationStore,
+  MemoryNotificationStore,
+  replayNotification,
+  type NewNotification,
+  type NotificationFilter,
+} from './notification-store.js';
+import { validateSchema, type SchemaIssue } from './schema.js';
+import { TransactionTracker } from './tracker.js';
+import { notificationWakeups } from './wait.js';
+import { fileAuditLog, type AuditFilter } from './audit.js';
+import { redact, redactText } from './redact.js';
+import { CORRELATION_HEADER, RequestLogger, withLogger } from './logger.js';
+import { matchRoute, openApiDocument, PREVIEW_HEADER, requestIssues } from './openapi.js';
+import { CLIENT_METHODS, findClientMethod } from './explorer.js';
+import {
+  authConfigured,
+  authenticate,
+  authSettingsFromConfig,
+  parseCookies,
+  SESSION_COOKIE,
+  SessionStore,
+  userForSecret,
+  type AuthUser,
+} from './auth.js';
+import { hasRole, PermissionDeniedError, roleOf, type Role } from './roles.js';
+import {
+  ApprovalRequiredError,
+  checkDirectSend,
+  checkRawSend,
+  FilePaymentRequestStore,
+  MemoryPaymentRequestStore,
+  PaymentRequestError,
+  PaymentRequestQueue,
+  sendPayment,
+  type PaymentRequestBody,
+  type PaymentRequestErrorReason,
+  type PaymentRequestStatus,
+} from './payment-requests.js';
+import {
+  awsSigningCerts,
+  checkSnsTopic,
+  isSnsUrl,
+  parseSnsEnvelope,
+  parseSnsTopics,
+  SnsSubscriptions,
+  SnsVerificationError,
+  unwrapSnsMessage,
+  verifySnsEnvelope,
+  visitSubscribeUrl,
+  type SigningCertProvider,
+  type SubscriptionConfirmer,
+} from './sns.js';
+import {
+  cachedPublicKeys,
+  circlePublicKeys,
+  verifyWebhookSignature,
+  WebhookSignatureError,
+  type PublicKeyProvider,
+} from './webhook-signature.js';
+
+type RawBodyRequest = Request & { rawBody?: Buffer };
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const app = express();
+export const app = express();
 const PORT = process.env.PORT || 3000;
 
-app.use(cors());
-app.use(express.json());
+// Same-origin only unless CIRCLE_CORS_ORIGINS lists the sites allowed to call the API
+app.use(cors({
+  origin: config.corsOrigins.length > 0 ? config.corsOrigins : false,
+  credentials: true,
+  exposedHeaders: [CORRELATION_HEADER],
+}));
+// Webhook signatures cover the exact bytes Circle sent, so keep them next to the parsed body
+function keepRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+app.use(express.json({ verify: keepRawBody }));
 app.use(express.static(path.join(__dirname, '..', 'public')));
 
+// The API explorer (see explorer.ts)
+app.get('/explorer', (_req: Request, res: Response) => {
+  res.sendFile(path.join(__dirname, '..', 'public', 'explorer.html'));
+});
+
+// ─── Authentication (see auth.ts) ─────────────────────────────────────────
+
+const sessions = new SessionStore();
+
+/** The signed-in user; set for every /api route past the login gate */
+function userOf(res: Response): AuthUser {
+  return res.locals.user as AuthUser;
+}
+
+function sessionCookie(req: Request, value: string, maxAgeSeconds: number): string {
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAgeSeconds}${req.secure ? '; Secure' : ''}`;
+}
+
+// ─── Request logging (see logger.ts) ──────────────────────────────────────
+
+// A caller's own correlation id is kept if it looks like one
+const CORRELATION_ID = /^[\w.:-]{1,100}$/;
+
+/** The request's logger; set for every /api route */
+function loggerOf(res: Response): RequestLogger {
+  return res.locals.logger as RequestLogger;
+}
+
+// Give every API call its own logger and correlation id, and attribute it to its user in the server log
+app.use('/api', (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(CORRELATION_HEADER);
+  const logger = new RequestLogger(incoming && CORRELATION_ID.test(incoming) ? incoming : undefined);
+  res.locals.logger = logger;
+  res.set(CORRELATION_HEADER, logger.correlationId);
+  res.on('finish', () => {
+    const user = res.locals.user as AuthUser | undefined;
+    console.log(`[api] [${logger.correlationId}] ${user?.name ?? '-'} ${req.method} ${req.originalUrl} → ${res.statusCode}`);
+  });
+  withLogger(logger, next);
+});
+
+app.post('/api/login', (req: Request, res: Response) => {
+  const settings = authSettingsFromConfig();
+  const name = userForSecret(settings, String(req.body?.password ?? ''));
+  if (!authConfigured(settings) || !name) {
+    res.status(401).json({ error: 'Invalid password or token' });
+    return;
+  }
+  const id = sessions.create(name, settings.sessionTtlMs);
+  res.locals.user = { name, via: 'session', role: roleOf(name, settings.roles) } satisfies AuthUser;
+  res.setHeader('Set-Cookie', sessionCookie(req, id, Math.floor(settings.sessionTtlMs / 1000)));
+  res.json({ data: res.locals.user });
+});
+
+app.post('/api/logout', (req: Request, res: Response) => {
+  const id = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  if (id) sessions.delete(id);
+  res.setHeader('Set-Cookie', sessionCookie(req, '', 0));
+  res.json({ data: { signedOut: true } });
+});
+
+// Everything else under /api needs a user
+app.use('/api', (req: Request, res: Response, next: NextFunction) => {
+  const settings = authSettingsFromConfig();
+  const user = authenticate(req, settings, sessions);
+  if (!user) {
+    res.status(401).json({
+      error: authConfigured(settings)
+        ? 'Authentication required'
+        : 'Only local requests are served; set CIRCLE_DASHBOARD_PASSWORD or CIRCLE_DASHBOARD_TOKENS to allow remote access',
+      loginRequired: authConfigured(settings),
+    });
+    return;
+  }
+  res.locals.user = user;
+  next();
+});
+
+app.get('/api/me', (_req: Request, res: Response) => {
+  res.json({ data: userOf(res) });
+});
+
+/**
+ * Refuse the route with a 403 unless the user's role includes `required` (see roles.ts)
+ */
+function requireRole(required: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (hasRole(userOf(res).role, required)) {
+      next();
+      return;
+    }
+    forbid(req, res, required);
+  };
+}
+
+/**
+ * Refuse a route that sends payouts or transfers past the payment request
+ * queue while approvals are required; a preview sends nothing, so it may
+ */
+function requireDirectSend(req: Request, res: Response, next: NextFunction): void {
+  if (res.locals.previews || directSendAllowed(res, () => checkDirectSend(`${req.method} ${req.route?.path ?? req.path}`))) next();
+}
+
+/** Runs a checkDirectSend-style check; if it refuses, answers 403 and returns false */
+function directSendAllowed(res: Response, check: () => void): boolean {
+  try {
+    check();
+    return true;
+  } catch (err) {
+    if (!(err instanceof ApprovalRequiredError)) throw err;
+    res.status(403).json({ error: err.message, approvalRequired: err.toJSON() });
+    return false;
+  }
+}
+
+function forbid(req: Request, res: Response, required: Role, action = `${req.method} ${req.route?.path ?? req.path}`): void {
+  const denied = new PermissionDeniedError(action, userOf(res).role, required);
+  res.status(403).json({ error: denied.message, forbidden: denied.toJSON() });
+}
+
 // ─── SSE clients for real-time webhook events ─────────────────────────────
 
-type SseClient = { id: string; res: Response };
+// Live events queue up in `backlog` while a reconnecting client is sent what it missed
+type SseClient = { id: string; res: Response; backlog?: { eventId?: number; payload: string }[] };
 const sseClients: SseClient[] = [];
 
-function pushEvent(event: string, data: unknown) {
-  const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-  sseClients.forEach(c => c.res.write(payload));
+// Every event is redacted (see redact.ts) on its way to the browser
+function formatEvent(event: string, data: unknown, eventId?: number): string {
+  return `${eventId !== undefined ? `id: ${eventId}\n` : ''}event: ${event}\ndata: ${JSON.stringify(redact(data))}\n\n`;
 }
 
-app.get('/api/events', (req: Request, res: Response) => {
+function pushEvent(event: string, data: unknown, eventId?: number) {
+  const payload = formatEvent(event, data, eventId);
+  sseClients.forEach(c => c.backlog ? c.backlog.push({ eventId, payload }) : c.res.write(payload));
+}
+
+const notifications = config.notificationStore === 'off'
+  ? new MemoryNotificationStore()
+  : new FileNotificationStore(config.notificationStore);
+
+// Payouts and transfers created from the dashboard, followed to a final status
+const tracker = new TransactionTracker(event => pushEvent(event.type, event), { pollIntervalMs: config.trackerPollMs });
+
+/**
+ * Store a notification, then push it with its stored id as the SSE event id
+ */
+async function pushNotification(notification: NewNotification): Promise<void> {
+  const stored = await notifications.append(notification);
+  pushEvent('notification', stored, stored.id);
+  tracker.observe(stored);
+  notificationWakeups.notify(stored.resourceId);
+}
+
+app.get('/api/events', asyncHandler(async (req, res) => {
   res.set({
     'Content-Type': 'text/event-stream',
     'Cache-Control': 'no-cache',
@@ -35,16 +257,31 @@ app.get('/api/events', (req: Request, res: Response) => {
   });
   res.flushHeaders();
 
-  const client: SseClient = { id: crypto.randomUUID(), res };
+  // EventSource resends the last id it saw; the dashboard passes it as ?lastEventId= when it reconnects itself
+  const lastEventId = Number(req.get('Last-Event-ID') ?? req.query.lastEventId);
+  const replaying = Number.isInteger(lastEventId) && lastEventId >= 0;
+  const client: SseClient = { id: crypto.randomUUID(), res, ...(replaying && { backlog: [] }) };
   sseClients.push(client);
 
-  res.write(`event: connected\ndata: ${JSON.stringify({ id: client.id })}\n\n`);
-
   req.on('close', () => {
     const idx = sseClients.findIndex(c => c.id === client.id);
     if (idx !== -1) sseClients.splice(idx, 1);
   });
-});
+
+  res.write(formatEvent('connected', { id: client.id }));
+  if (!replaying) return;
+
+  let sent = lastEventId;
+  for (const missed of await notifications.list({ afterId: lastEventId })) {
+    res.write(formatEvent('notification', missed, missed.id));
+    sent = missed.id;
+  }
+  // Anything pushed meanwhile, minus what the replay already covered
+  for (const { eventId, payload } of client.backlog ?? []) {
+    if (eventId === undefined || eventId > sent) res.write(payload);
+  }
+  delete client.backlog;
+}));
 
 // ─── Webhook receiver (Circle → your server) ─────────────────────────────
 
@@ -53,62 +290,152 @@ app.head('/webhooks', (_req: Request, res: Response) => {
   res.sendStatus(200);
 });
 
-app.post('/webhooks', (req: Request, res: Response) => {
-  const body = req.body;
-  pushEvent('notification', {
-    timestamp: new Date().toISOString(),
-    payload: body,
-  });
-  res.sendStatus(200);
-});
+interface WebhookDependencies {
+  publicKeys: PublicKeyProvider;               // Circle notification keys (X-Circle-Signature)
+  signingCerts: SigningCertProvider;           // AWS certificates for SNS envelopes
+  confirmSubscription: SubscriptionConfirmer;  // visits an SNS SubscribeURL
+}
+
+const webhooks: WebhookDependencies = {
+  publicKeys: cachedPublicKeys(circlePublicKeys()),
+  signingCerts: awsSigningCerts(),
+  confirmSubscription: visitSubscribeUrl,
+};
+
+/**
+ * Swap how /webhooks verifies and confirms, e.g. local keys and a stub confirmer in tests
+ */
+export function configureWebhooks(overrides: Partial<WebhookDependencies>): void {
+  Object.assign(webhooks, overrides);
+}
+
+const snsSubscriptions = new SnsSubscriptions(subscription => pushEvent('subscription', subscription));
+
+/**
+ * SNS envelope: confirm subscriptions, unwrap notifications
+ */
+async function receiveSns(body: string, timestamp: string): Promise<void> {
+  const envelope = parseSnsEnvelope(body);
+  const topics = parseSnsTopics(config.snsTopics);
+  if (config.verifyWebhooks) {
+    await verifySnsEnvelope(envelope, webhooks.signingCerts, topics);
+  } else {
+    // Even unverified, never act for a topic that is not allowed or visit a URL that is not SNS
+    checkSnsTopic(envelope, topics);
+    if (envelope.SubscribeURL !== undefined && !isSnsUrl(envelope.SubscribeURL)) {
+      throw new SnsVerificationError('untrusted_url', `SubscribeURL ${envelope.SubscribeURL} is not an SNS host`);
+    }
+  }
+
+  switch (envelope.Type) {
+    case 'SubscriptionConfirmation':
+      snsSubscriptions.update(envelope.TopicArn, { state: 'awaiting_confirmation', subscribeUrl: envelope.SubscribeURL });
+      if (config.snsAutoConfirm) await snsSubscriptions.confirm(envelope.TopicArn, webhooks.confirmSubscription);
+      break;
+    case 'UnsubscribeConfirmation':
+      snsSubscriptions.update(envelope.TopicArn, { state: 'unsubscribed' });
+      break;
+    case 'Notification':
+      await pushNotification({
+        timestamp,
+        payload: unwrapSnsMessage(envelope),
+        verification: config.verifyWebhooks
+          ? { verified: true, via: 'sns', topicArn: envelope.TopicArn, messageId: envelope.MessageId }
+          : { verified: false, reason: 'verification disabled' },
+      });
+      break;
+  }
+}
+
+/**
+ * Notification posted directly, signed with X-Circle-Signature
+ */
+async function receiveSigned(req: Request, timestamp: string): Promise<void> {
+  if (!config.verifyWebhooks) {
+    await pushNotification({ timestamp, payload: req.body, verification: { verified: false, reason: 'verification disabled' } });
+    return;
+  }
+  const verification = await verifyWebhookSignature(
+    (req as RawBodyRequest).rawBody ?? '',
+    { signature: req.get('X-Circle-Signature'), keyId: req.get('X-Circle-Key-Id') },
+    webhooks.publicKeys
+  );
+  await pushNotification({ timestamp, payload: req.body, verification });
+}
+
+// SNS posts its envelopes as text/plain
+app.use('/webhooks', express.text({ type: 'text/plain', verify: keepRawBody }));
 
-app.post('/api/test-notification', (_req: Request, res: Response) => {
-  pushEvent('notification', {
+app.post('/webhooks', asyncHandler(async (req, res) => {
+  const timestamp = new Date().toISOString();
+  try {
+    if (req.get('x-amz-sns-message-type')) {
+      await receiveSns(((req as RawBodyRequest).rawBody ?? '').toString(), timestamp);
+    } else {
+      await receiveSigned(req, timestamp);
+    }
+    res.sendStatus(200);
+  } catch (err) {
+    if (!(err instanceof WebhookSignatureError || err instanceof SnsVerificationError)) throw err;
+    // Show the attempt in the stream, but never the unverified payload as if it were an event
+    const keyId = err instanceof WebhookSignatureError ? err.keyId : undefined;
+    pushEvent('rejected', { timestamp, verification: { verified: false, reason: err.reason, keyId }, error: err.message });
+    res.status(err.reason === 'malformed_envelope' ? 400 : 401).json({ error: err.message });
+  }
+}));
+
+app.post('/api/test-notification', requireRole('operator'), asyncHandler(async (_req, res) => {
+  await pushNotification({
     timestamp: new Date().toISOString(),
     payload: {
       notificationType: 'test',
       message: 'This is a test notification from the dashboard',
     },
+    verification: { verified: false, reason: 'local test notification' },
   });
   res.json({ ok: true });
-});
+}));
 
-// ─── Utility: capture console output from tester methods ─────────────────
+// ─── Utility: run a route's work and map its errors ───────────────────────
 
 interface RunResult {
-  logs: string[];
+  logs: string[]; // this request's log lines, redacted (see logger.ts)
+  correlationId: string; // also the X-Correlation-Id response header
   data: unknown;
   error?: string;
+  fields?: SchemaIssue[]; // set when the request did not match its route's schema (see openapi.ts)
+  issues?: SchemaIssue[]; // set when a Circle response failed strict validation
+  circleError?: ReturnType<CircleApiError['toJSON']>; // set when Circle answered non-2xx
+  idempotencyConflict?: IdempotencyConflictError['original']; // set when a key was reused for a different request
+  blocked?: ReturnType<SafetyBlockedError['toJSON']>; // set when the safety guard refused the call
+  paymentRequest?: ReturnType<PaymentRequestError['toJSON']>; // set when an approval or rejection was refused
+  preview?: CircleRequestPreview; // set instead of sending when X-Circle-Preview was given
 }
 
-async function run(fn: () => Promise<unknown>): Promise<RunResult> {
-  const logs: string[] = [];
-  const orig = {
-    log: console.log.bind(console),
-    error: console.error.bind(console),
-    warn: console.warn.bind(console),
-  };
-
-  const capture = (prefix: string) => (...args: unknown[]) => {
-    const msg = args
-      .map(a => (typeof a === 'string' ? a : JSON.stringify(a, null, 2)))
-      .join(' ');
-    logs.push(prefix + msg);
-    orig.log(prefix + msg);
-  };
-
-  console.log = capture('');
-  console.error = capture('[ERR] ');
-  console.warn = capture('[WARN] ');
+/** What `run` found; `send` adds the request's logs */
+type Outcome = Omit<RunResult, 'logs' | 'correlationId'>;
 
+async function run(fn: () => Promise<unknown>): Promise<Outcome> {
   try {
-    const data = await fn();
-    Object.assign(console, orig);
-    return { logs, data };
+    return { data: await fn() };
   } catch (err: unknown) {
-    Object.assign(console, orig);
-    const message = err instanceof Error ? err.message : String(err);
-    return { logs, data: null, error: message };
+    const message = redactText(err instanceof Error ? err.message : String(err));
+    if (err instanceof CircleResponseValidationError) {
+      return { data: null, error: message, issues: err.issues };
+    }
+    if (err instanceof CircleApiError) {
+      return { data: null, error: message, circleError: err.toJSON() };
+    }
+    if (err instanceof IdempotencyConflictError) {
+      return { data: null, error: message, idempotencyConflict: err.original };
+    }
+    if (err instanceof SafetyBlockedError) {
+      return { data: null, error: message, blocked: err.toJSON() };
+    }
+    if (err instanceof PaymentRequestError) {
+      return { data: null, error: message, paymentRequest: err.toJSON() };
+    }
+    return { data: null, error: message };
   }
 }
 
@@ -120,65 +447,183 @@ function asyncHandler(fn: (req: Request, res: Response) => Promise<void>) {
   };
 }
 
-async function send(res: Response, result: RunResult) {
+/**
+ * A request that does not match its schema is a 422; Circle 4xx errors keep
+ * their status; Circle 5xx and malformed Circle responses become 502 (upstream failure); a reused idempotency key is a 409; a call the
+ * safety guard refused is a 403; an unknown payment request is a 404, one
+ * already decided a 409, approving your own a 403; anything else is a 400 from
+ * our side.
+ */
+const PAYMENT_REQUEST_STATUS: Record<PaymentRequestErrorReason, number> = { not_found: 404, not_pending: 409, self_approval: 403 };
+
+function errorStatus(result: Outcome): number {
+  if (result.fields) return 422;
+  if (result.issues) return 502;
+  if (result.idempotencyConflict) return 409;
+  if (result.blocked) return 403;
+  if (result.paymentRequest) return PAYMENT_REQUEST_STATUS[result.paymentRequest.reason];
+  const status = result.circleError?.status;
+  if (status === undefined) return 400;
+  return status >= 500 ? 502 : status;
+}
+
+async function send(res: Response, outcome: Outcome) {
+  const logger = loggerOf(res);
+  // A preview answers with the first request the route would have sent, whatever the route made of its refusal
+  const previews = res.locals.previews as CircleRequestPreview[] | undefined;
+  if (previews?.length) outcome = { data: null, preview: previews[0] };
+  const result: RunResult = { logs: logger.text(), correlationId: logger.correlationId, ...outcome };
   if (result.error) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
   } else {
     res.json(result);
   }
 }
 
+// ─── Profiles ─────────────────────────────────────────────────────────────
+
+/**
+ * Profile picked in the dashboard header (X-Circle-Profile) or ?profile=;
+ * undefined means the default profile
+ */
+function profileOf(req: Request): string | undefined {
+  const query = req.query.profile;
+  return req.get('X-Circle-Profile') || (typeof query === 'string' ? query : undefined);
+}
+
+/**
+ * Client for the request's profile (or `profile`), audited as the signed-in
+ * user and logging to the request's logger; production writes are confirmed with the X-Circle-Confirm header (see safety.ts).
+ * In a preview its requests are collected instead of sent.
+ */
+function clientFor(req: Request, profile = profileOf(req)): CircleMintClient {
+  const previews = req.res!.locals.previews as CircleRequestPreview[] | undefined;
+  return new CircleMintClient({
+    profile,
+    confirm: req.get('X-Circle-Confirm'),
+    actor: `dashboard:${userOf(req.res!).name}`,
+    logger: loggerOf(req.res!),
+    onCreated: created => tracker.track(created),
+    ...(previews && { preview: request => previews.push(request) }),
+  });
+}
+
+// Reject an unknown profile up front, before any route builds a client for it
+app.use('/api', (req: Request, res: Response, next: NextFunction) => {
+  const profile = profileOf(req);
+  if (profile) {
+    try {
+      getProfile(profile);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+  }
+  next();
+});
+
+// ─── Request validation (see openapi.ts) ─────────────────────────────────
+
+// Check params, query and body against the route's schema before any handler
+// reads them. The session and event routes above are served before this and
+// take what they are given: a missing password is a wrong one, a bad lastEventId no replay.
+app.use('/api', (req: Request, res: Response, next: NextFunction) => {
+  const match = matchRoute(req.method, req.baseUrl + req.path);
+  const fields = match ? requestIssues(match, req) : [];
+  if (fields.length === 0) {
+    next();
+    return;
+  }
+  invalid(res, fields).catch(next);
+});
+
+function invalid(res: Response, fields: SchemaIssue[]): Promise<void> {
+  return send(res, {
+    data: null,
+    error: `Invalid request: ${fields.map(field => `${field.path} ${field.message}`).join('; ')}`,
+    fields,
+  });
+}
+
+// X-Circle-Preview: run the route with a client that describes its Circle requests instead of sending them
+app.use('/api', (req: Request, res: Response, next: NextFunction) => {
+  if (!req.get(PREVIEW_HEADER)) {
+    next();
+    return;
+  }
+  if (!matchRoute(req.method, req.baseUrl + req.path)?.route.preview) {
+    res.status(400).json({ error: `${req.method} ${req.baseUrl + req.path} cannot be previewed` });
+    return;
+  }
+  res.locals.previews = [];
+  next();
+});
+
+app.get('/api/openapi.json', (_req: Request, res: Response) => {
+  res.json(openApiDocument());
+});
+
+app.get('/api/profiles', asyncHandler(async (_req, res) => {
+  await send(res, await run(async () => ({ data: listProfiles() })));
+}));
+
 // ─── Overview ─────────────────────────────────────────────────────────────
 
-app.get('/api/account', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
+app.get('/api/account', asyncHandler(async (req, res) => {
+  const client = clientFor(req);
   await send(res, await run(() => client.getWallets()));
 }));
 
-app.get('/api/balance', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
+app.get('/api/balance', asyncHandler(async (req, res) => {
+  const client = clientFor(req);
   await send(res, await run(() => client.getBalance()));
 }));
 
-app.get('/api/chains', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
+app.get('/api/chains', asyncHandler(async (req, res) => {
+  const client = clientFor(req);
   await send(res, await run(() => client.getSupportedChains()));
 }));
 
 // ─── Deposits ─────────────────────────────────────────────────────────────
 
-app.get('/api/deposits', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
-  await send(res, await run(() => client.listDeposits()));
+app.get('/api/deposits', asyncHandler(async (req, res) => {
+  const { all, ...page } = pageParamsFrom(req.query);
+  const client = clientFor(req);
+  await send(res, await run(async () => all
+    ? { data: await collect(client.iterateDeposits(page)) }
+    : client.listDeposits(page)));
 }));
 
-app.get('/api/deposits/addresses', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
+app.get('/api/deposits/addresses', asyncHandler(async (req, res) => {
+  const client = clientFor(req);
   await send(res, await run(() => client.listBusinessDepositAddresses()));
 }));
 
-app.post('/api/deposits/addresses', asyncHandler(async (req, res) => {
-  const { chain, currency = 'USD' } = req.body;
-  const tester = new AccountAndTransferTester();
-  await send(res, await run(() => tester.createDepositAddress({ chain, currency })));
+app.post('/api/deposits/addresses', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { chain, currency = 'USD', idempotencyKey } = req.body;
+  const tester = new AccountAndTransferTester(clientFor(req));
+  await send(res, await run(() => tester.createDepositAddress({ chain, currency, idempotencyKey })));
 }));
 
 // ─── Payouts ──────────────────────────────────────────────────────────────
 
 // Address book routes MUST come before /api/payouts to avoid prefix conflicts
-app.get('/api/payouts/address-book', async (_req: Request, res: Response, next: NextFunction) => {
+app.get('/api/payouts/address-book', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const client = new CircleMintClient();
-    await send(res, await run(() => client.listAddressBookRecipients()));
+    const { all, ...page } = pageParamsFrom(req.query);
+    const client = clientFor(req);
+    await send(res, await run(async () => all
+      ? { data: await collect(client.iterateAddressBookRecipients(page)) }
+      : client.listAddressBookRecipients(page)));
   } catch (err) { next(err); }
 });
 
-app.post('/api/payouts/address-book', async (req: Request, res: Response, next: NextFunction) => {
+app.post('/api/payouts/address-book', requireRole('operator'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { chain, address, addressTag, nickname, email } = req.body;
-    const client = new CircleMintClient();
+    const { chain, address, addressTag, nickname, email, idempotencyKey } = req.body;
+    const client = clientFor(req);
     await send(res, await run(() => client.createAddressBookRecipient({
-      idempotencyKey: crypto.randomUUID(),
+      idempotencyKey,
       chain,
       address,
       ...(addressTag && { addressTag }),
@@ -190,152 +635,370 @@ app.post('/api/payouts/address-book', async (req: Request, res: Response, next:
   } catch (err) { next(err); }
 });
 
-app.delete('/api/payouts/address-book/:id', async (req: Request, res: Response, next: NextFunction) => {
+app.delete('/api/payouts/address-book/:id', requireRole('operator'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const client = new CircleMintClient();
+    const client = clientFor(req);
     await send(res, await run(() => client.deleteAddressBookRecipient(req.params.id as string)));
   } catch (err) { next(err); }
 });
 
-app.get('/api/payouts', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
-  await send(res, await run(() => client.listPayouts()));
+app.get('/api/payouts', asyncHandler(async (req, res) => {
+  const { all, ...page } = pageParamsFrom(req.query);
+  const client = clientFor(req);
+  await send(res, await run(async () => all
+    ? { data: await collect(client.iteratePayouts(page)) }
+    : client.listPayouts(page)));
 }));
 
-app.post('/api/payouts', asyncHandler(async (req, res) => {
-  const { recipientId, amount, currency = 'USD' } = req.body;
-  // Ensure exactly 2 decimal places ("1" → "1.00")
-  const formattedAmount = parseFloat(amount).toFixed(2);
-  const client = new CircleMintClient();
-  await send(res, await run(() => client.createPayout({
-    idempotencyKey: crypto.randomUUID(),
-    destination: { type: 'address_book', id: recipientId },
-    amount: { amount: formattedAmount, currency },
-  })));
+app.post('/api/payouts', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { recipientId, amount, currency = 'USD', idempotencyKey } = req.body;
+  await sendOrRequest(req, res, () => ({
+    kind: 'payout',
+    params: {
+      idempotencyKey,
+      destination: { type: 'address_book', id: recipientId },
+      amount: Money.parsePositive(amount, currency), // "1" → "1.00"; "1,00" is rejected
+    },
+  }));
 }));
 
 // ─── Wire Bank Accounts ───────────────────────────────────────────────────
 
-app.get('/api/banks/wires', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
-  await send(res, await run(() => client.listWireBankAccounts()));
+app.get('/api/banks/wires', asyncHandler(async (req, res) => {
+  const { all, ...page } = pageParamsFrom(req.query);
+  const client = clientFor(req);
+  await send(res, await run(async () => all
+    ? { data: await collect(client.iterateWireBankAccounts(page)) }
+    : client.listWireBankAccounts(page)));
 }));
 
-app.post('/api/banks/wires', asyncHandler(async (req, res) => {
-  const { accountNumber, routingNumber, billingName } = req.body;
-  const tester = new AccountAndTransferTester();
-  await send(res, await run(() => tester.createWireBankAccount({ accountNumber, routingNumber, billingName })));
+app.post('/api/banks/wires', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { accountNumber, routingNumber, billingName, idempotencyKey } = req.body;
+  const tester = new AccountAndTransferTester(clientFor(req));
+  await send(res, await run(() => tester.createWireBankAccount({ accountNumber, routingNumber, billingName, idempotencyKey })));
 }));
 
 app.get('/api/banks/wires/:id/instructions', asyncHandler(async (req, res) => {
-  const client = new CircleMintClient();
+  const client = clientFor(req);
   await send(res, await run(() => client.getWireBankAccountInstructions(req.params.id as string)));
 }));
 
-app.post('/api/mocks/wire', asyncHandler(async (req, res) => {
+app.post('/api/mocks/wire', requireRole('operator'), asyncHandler(async (req, res) => {
   const { trackingRef, amount = '100.00', accountNumber } = req.body;
-  const tester = new AccountAndTransferTester();
+  const tester = new AccountAndTransferTester(clientFor(req));
   await send(res, await run(() => tester.createMockWirePayment({ trackingRef, amount, accountNumber })));
 }));
 
-app.post('/api/payouts/wire', asyncHandler(async (req, res) => {
-  const { bankId, amount, currency = 'USD' } = req.body;
-  const tester = new AccountAndTransferTester();
-  await send(res, await run(() => tester.createBusinessPayout({
-    destinationType: 'wire',
-    destinationId: bankId,
-    amount: parseFloat(amount).toFixed(2),
-    currency,
-  })));
+app.post('/api/payouts/wire', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { bankId, amount, currency = 'USD', idempotencyKey } = req.body;
+  await sendOrRequest(req, res, () => ({
+    kind: 'businessPayout',
+    params: {
+      idempotencyKey,
+      destination: { type: 'wire', id: bankId },
+      amount: Money.parsePositive(amount, currency),
+    },
+  }));
 }));
 
 // ─── Recipients & Transfers ───────────────────────────────────────────────
 
-app.get('/api/recipients', asyncHandler(async (_req, res) => {
-  const tester = new AccountAndTransferTester();
-  await send(res, await run(() => tester.listRecipientAddresses()));
+app.get('/api/recipients', asyncHandler(async (req, res) => {
+  const { all, ...page } = pageParamsFrom(req.query);
+  const client = clientFor(req);
+  const tester = new AccountAndTransferTester(client);
+  await send(res, await run(async () => all
+    ? { data: await collect(client.iterateRecipientAddresses(page)) }
+    : tester.listRecipientAddresses(page)));
 }));
 
-app.post('/api/recipients', asyncHandler(async (req, res) => {
-  const { chain, address, description, addressTag } = req.body;
-  const tester = new AccountAndTransferTester();
-  await send(res, await run(() => tester.createRecipientAddress({ chain, address, description, addressTag })));
+app.post('/api/recipients', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { chain, address, description, addressTag, idempotencyKey } = req.body;
+  const tester = new AccountAndTransferTester(clientFor(req));
+  await send(res, await run(() => tester.createRecipientAddress({ chain, address, description, addressTag, idempotencyKey })));
 }));
 
-app.post('/api/transfers/business', asyncHandler(async (req, res) => {
-  const { recipientId, amount = '1.00', currency = 'USD' } = req.body;
-  const tester = new AccountAndTransferTester();
-  await send(res, await run(() => tester.createBusinessTransfer({ recipientId, amount, currency })));
+app.post('/api/transfers/business', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { recipientId, amount = '1.00', currency = 'USD', idempotencyKey } = req.body;
+  await sendOrRequest(req, res, () => ({
+    kind: 'businessTransfer',
+    params: {
+      idempotencyKey,
+      destination: { type: 'verified_blockchain', addressId: recipientId },
+      amount: Money.parsePositive(amount, currency),
+    },
+  }));
 }));
 
 // ─── Express Route steps ──────────────────────────────────────────────────
 
-app.post('/api/express-route/link-bank', asyncHandler(async (req, res) => {
-  const { accountNumber, routingNumber } = req.body;
-  const tester = new ExpressRouteTester();
-  await send(res, await run(() => tester.linkBankAccount({ accountNumber, routingNumber })));
+app.post('/api/express-route/link-bank', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { accountNumber, routingNumber, idempotencyKey } = req.body;
+  const tester = new ExpressRouteTester(clientFor(req));
+  await send(res, await run(() => tester.linkBankAccount({ accountNumber, routingNumber, idempotencyKey })));
 }));
 
-app.post('/api/express-route/link-receipt', asyncHandler(async (req, res) => {
-  const { chain = 'ETH', currency = 'USD' } = req.body;
-  const tester = new ExpressRouteTester();
-  await send(res, await run(() => tester.linkReceiptAddress({ chain, currency })));
+app.post('/api/express-route/link-receipt', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { chain = 'ETH', currency = 'USD', idempotencyKey } = req.body;
+  const tester = new ExpressRouteTester(clientFor(req));
+  await send(res, await run(() => tester.linkReceiptAddress({ chain, currency, idempotencyKey })));
 }));
 
-app.post('/api/express-route/mock-deposit', asyncHandler(async (req, res) => {
+app.post('/api/express-route/mock-deposit', requireRole('operator'), asyncHandler(async (req, res) => {
   const { trackingRef, amount, accountNumber } = req.body;
-  const tester = new ExpressRouteTester();
+  const tester = new ExpressRouteTester(clientFor(req));
   await send(res, await run(() => tester.initiateMockDeposit({ trackingRef, amount, accountNumber })));
 }));
 
-app.post('/api/express-route/onchain-deposit', asyncHandler(async (req, res) => {
+app.post('/api/express-route/onchain-deposit', requireRole('operator'), asyncHandler(async (req, res) => {
   const { address, chain, amount } = req.body;
-  const tester = new ExpressRouteTester();
+  const tester = new ExpressRouteTester(clientFor(req));
   await send(res, await run(() => tester.initiateOnChainDeposit({ address, chain, amount })));
 }));
 
-app.post('/api/express-route/transfer', asyncHandler(async (req, res) => {
-  const { recipientId, amount, currency } = req.body;
-  const tester = new ExpressRouteTester();
-  await send(res, await run(() => tester.initiateOnChainTransfer({ recipientId, amount, currency })));
+app.post('/api/express-route/transfer', requireRole('approver'), requireDirectSend, asyncHandler(async (req, res) => {
+  const { recipientId, amount, currency, idempotencyKey } = req.body;
+  const tester = new ExpressRouteTester(clientFor(req));
+  await send(res, await run(() => tester.initiateOnChainTransfer({ recipientId, amount, currency, idempotencyKey })));
 }));
 
-app.post('/api/express-route/withdraw', asyncHandler(async (req, res) => {
-  const { bankAccountId, amount, currency } = req.body;
-  const tester = new ExpressRouteTester();
-  await send(res, await run(() => tester.initiateWithdrawal({ bankAccountId, amount, currency })));
+app.post('/api/express-route/withdraw', requireRole('approver'), requireDirectSend, asyncHandler(async (req, res) => {
+  const { bankAccountId, amount, currency, idempotencyKey } = req.body;
+  const tester = new ExpressRouteTester(clientFor(req));
+  await send(res, await run(() => tester.initiateWithdrawal({ bankAccountId, amount, currency, idempotencyKey })));
 }));
 
-app.post('/api/express-route/create', asyncHandler(async (req, res) => {
-  const { receiptAddressId, bankAccountId, destinationType, currency } = req.body;
-  const tester = new ExpressRouteTester();
-  await send(res, await run(() => tester.createExpressRoute({ receiptAddressId, bankAccountId, destinationType, currency })));
+app.post('/api/express-route/create', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { receiptAddressId, bankAccountId, destinationType, currency, idempotencyKey } = req.body;
+  const tester = new ExpressRouteTester(clientFor(req));
+  await send(res, await run(() => tester.createExpressRoute({ receiptAddressId, bankAccountId, destinationType, currency, idempotencyKey })));
 }));
 
-app.post('/api/express-route/run', asyncHandler(async (req, res) => {
+app.post('/api/express-route/run', requireRole('approver'), requireDirectSend, asyncHandler(async (req, res) => {
   const { chain, amount } = req.body;
-  const tester = new ExpressRouteTester();
+  const tester = new ExpressRouteTester(clientFor(req));
   await send(res, await run(() => tester.runFullFlow({ chain, amount })));
 }));
 
 // ─── Notifications ────────────────────────────────────────────────────────
 
-app.get('/api/notifications/subscriptions', asyncHandler(async (_req, res) => {
-  const client = new CircleMintClient();
+app.get('/api/notifications/subscriptions', asyncHandler(async (req, res) => {
+  const client = clientFor(req);
   await send(res, await run(() => client.listSubscriptions()));
 }));
 
-app.post('/api/notifications/subscriptions', asyncHandler(async (req, res) => {
+app.post('/api/notifications/subscriptions', requireRole('operator'), asyncHandler(async (req, res) => {
   const { endpoint } = req.body;
-  const client = new CircleMintClient();
+  const client = clientFor(req);
   await send(res, await run(() => client.createSubscription(endpoint)));
 }));
 
-app.delete('/api/notifications/subscriptions/:id', asyncHandler(async (req, res) => {
-  const client = new CircleMintClient();
+app.delete('/api/notifications/subscriptions/:id', requireRole('operator'), asyncHandler(async (req, res) => {
+  const client = clientFor(req);
   await send(res, await run(() => client.deleteSubscription(req.params.id as string)));
 }));
 
+// SNS subscription confirmations seen on /webhooks
+app.get('/api/notifications/sns', asyncHandler(async (_req, res) => {
+  await send(res, await run(async () => ({ data: snsSubscriptions.list() })));
+}));
+
+app.post('/api/notifications/sns/confirm', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { topicArn } = req.body;
+  await send(res, await run(async () => ({ data: await snsSubscriptions.confirm(topicArn, webhooks.confirmSubscription) })));
+}));
+
+// Received notifications (see notification-store.ts); after the fixed /api/notifications/* routes
+app.get('/api/notifications', asyncHandler(async (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+  const filter: NotificationFilter = {
+    type: query.type,
+    resourceId: query.resourceId,
+    status: query.status,
+    since: query.since,
+    until: query.until,
+    ...(query.afterId !== undefined && { afterId: Number(query.afterId) }),
+    ...(query.limit !== undefined && { limit: Number(query.limit) }),
+  };
+  await send(res, await run(async () => ({ data: await notifications.list(filter) })));
+}));
+
+app.get('/api/notifications/:id', asyncHandler(async (req, res) => {
+  const notification = await notifications.get(Number(req.params.id));
+  if (!notification) {
+    res.status(404).json({ error: `Notification ${req.params.id} not found` });
+    return;
+  }
+  await send(res, await run(async () => ({ data: notification })));
+}));
+
+app.post('/api/notifications/:id/replay', requireRole('operator'), asyncHandler(async (req, res) => {
+  const { endpoint } = req.body;
+  const notification = await notifications.get(Number(req.params.id));
+  if (!notification) {
+    res.status(404).json({ error: `Notification ${req.params.id} not found` });
+    return;
+  }
+  await send(res, await run(async () => ({ data: await replayNotification(notification, endpoint) })));
+}));
+
+// ─── Payment requests (see payment-requests.ts) ───────────────────────────
+
+const paymentRequests = new PaymentRequestQueue(
+  config.paymentRequests === 'off' ? new MemoryPaymentRequestStore() : new FilePaymentRequestStore(config.paymentRequests),
+  event => pushEvent(event.type, event),
+);
+
+/**
+ * Money-moving routes: with approvals on (CIRCLE_REQUIRE_APPROVAL, or
+ * `requestApproval: true` in the body) the submission becomes a pending
+ * payment request; otherwise only an approver may send it straight away
+ */
+async function sendOrRequest(req: Request, res: Response, body: () => PaymentRequestBody): Promise<void> {
+  const user = userOf(res);
+  // What approving it would send; nothing is submitted
+  if (res.locals.previews) {
+    await send(res, await run(() => sendPayment(clientFor(req), body())));
+    return;
+  }
+  if (config.requireApproval || req.body.requestApproval === true) {
+    await send(res, await run(async () => ({
+      data: await paymentRequests.submit(body(), { requestedBy: user.name, profile: profileOf(req) }),
+    })));
+    return;
+  }
+  if (!hasRole(user.role, 'approver')) {
+    forbid(req, res, 'approver');
+    return;
+  }
+  const client = clientFor(req);
+  await send(res, await run(() => sendPayment(client, body())));
+}
+
+app.get('/api/payment-requests', asyncHandler(async (req, res) => {
+  const { status, kind } = req.query;
+  await send(res, await run(async () => ({
+    data: await paymentRequests.list({
+      ...(typeof status === 'string' && { status: status as PaymentRequestStatus }),
+      ...(typeof kind === 'string' && { kind: kind as CreatedResourceKind }),
+    }),
+  })));
+}));
+
+app.get('/api/payment-requests/:id', asyncHandler(async (req, res) => {
+  const request = await paymentRequests.get(req.params.id as string);
+  if (!request) {
+    res.status(404).json({ error: `Payment request ${req.params.id} not found` });
+    return;
+  }
+  await send(res, await run(async () => ({ data: request })));
+}));
+
+// Sent with the profile it was submitted under, whatever the approver has picked
+app.post('/api/payment-requests/:id/approve', requireRole('approver'), asyncHandler(async (req, res) => {
+  const id = req.params.id as string;
+  await send(res, await run(async () => {
+    const request = await paymentRequests.get(id);
+    return { data: await paymentRequests.approve(id, userOf(res).name, clientFor(req, request?.profile)) };
+  }));
+}));
+
+app.post('/api/payment-requests/:id/reject', requireRole('approver'), asyncHandler(async (req, res) => {
+  const { reason } = req.body;
+  await send(res, await run(async () => ({
+    data: await paymentRequests.reject(req.params.id as string, userOf(res).name, typeof reason === 'string' ? reason : undefined),
+  })));
+}));
+
+// ─── Transaction tracker ──────────────────────────────────────────────────
+
+app.get('/api/tracker', asyncHandler(async (_req, res) => {
+  await send(res, await run(async () => ({ data: tracker.list() })));
+}));
+
+app.get('/api/tracker/:id', asyncHandler(async (req, res) => {
+  const resource = tracker.get(req.params.id as string);
+  if (!resource) {
+    res.status(404).json({ error: `${req.params.id} is not tracked` });
+    return;
+  }
+  await send(res, await run(async () => ({ data: resource })));
+}));
+
+// ─── Audit log (see audit.ts) ─────────────────────────────────────────────
+
+const auditLog = config.auditLog === 'off' ? null : fileAuditLog(config.auditLog);
+
+const AUDIT_FILTERS = ['actor', 'profile', 'method', 'endpoint', 'outcome', 'since', 'until'] as const;
+
+app.get('/api/audit', asyncHandler(async (req, res) => {
+  if (!auditLog) {
+    res.status(404).json({ error: 'The audit log is off (CIRCLE_AUDIT_LOG=off)' });
+    return;
+  }
+  const filter: AuditFilter = {};
+  for (const name of AUDIT_FILTERS) {
+    const value = req.query[name];
+    if (typeof value === 'string' && value) Object.assign(filter, { [name]: value });
+  }
+  const limit = Number(req.query.limit);
+  if (Number.isInteger(limit) && limit > 0) filter.limit = limit;
+  await send(res, await run(async () => ({ data: await auditLog.list(filter) })));
+}));
+
+app.get('/api/audit/verify', asyncHandler(async (_req, res) => {
+  if (!auditLog) {
+    res.status(404).json({ error: 'The audit log is off (CIRCLE_AUDIT_LOG=off)' });
+    return;
+  }
+  await send(res, await run(async () => ({ data: await auditLog.verify() })));
+}));
+
+// ─── API explorer (see explorer.ts) ───────────────────────────────────────
+
+app.get('/api/explorer/methods', asyncHandler(async (_req, res) => {
+  await send(res, await run(async () => ({ data: CLIENT_METHODS.map(({ call: _call, ...method }) => method) })));
+}));
+
+// The method's own role applies, and payments wait for approval when that is required; a preview sends nothing, so anyone may
+app.post('/api/explorer/methods/:name', asyncHandler(async (req, res) => {
+  const method = findClientMethod(req.params.name as string);
+  if (!method) {
+    res.status(404).json({ error: `No CircleMintClient method ${req.params.name} in the explorer` });
+    return;
+  }
+  if (!res.locals.previews) {
+    if (method.role && !hasRole(userOf(res).role, method.role)) {
+      forbid(req, res, method.role, `CircleMintClient.${method.name}`);
+      return;
+    }
+    if (method.payment && !directSendAllowed(res, () => checkDirectSend(`CircleMintClient.${method.name}`))) return;
+  }
+  const fields = validateSchema(method.args, req.body ?? {}, 'body');
+  if (fields.length > 0) {
+    await invalid(res, fields);
+    return;
+  }
+  const client = clientFor(req);
+  await send(res, await run(() => method.call(client, req.body ?? {})));
+}));
+
+// ─── Raw requests (see CircleMintClient.raw) ──────────────────────────────
+
+// Reads are open to every role. Writes need an approver, as a raw POST can move money, and payouts and transfers wait for approval when that is required
+app.post('/api/raw', asyncHandler(async (req, res) => {
+  const { method, path: endpoint, body } = req.body as { method: string; path: string; body?: Record<string, unknown> };
+  if (!res.locals.previews && method !== 'GET') {
+    if (!hasRole(userOf(res).role, 'approver')) {
+      forbid(req, res, 'approver', `${method} ${endpoint}`);
+      return;
+    }
+    if (!directSendAllowed(res, () => checkRawSend(method, endpoint))) return;
+  }
+  const client = clientFor(req);
+  await send(res, await run(async () => (await client.raw(method, endpoint, body)) ?? null));
+}));
+
 // ─── JSON 404 fallback for unmatched /api routes ──────────────────────────
 
 app.use('/api', (_req: Request, res: Response) => {
@@ -351,12 +1014,17 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 
 // ─── Start ────────────────────────────────────────────────────────────────
 
-app.listen(PORT, () => {
-  console.log(`\n╔═══════════════════════════════════════════╗`);
-  console.log(`║  Circle Mint Dashboard                    ║`);
-  console.log(`║  http://localhost:${PORT}                    ║`);
-  console.log(`╚═══════════════════════════════════════════╝`);
-  console.log(`\nEnvironment: ${config.environment}`);
-  console.log(`Circle API:  ${config.baseUrl}`);
-  console.log(`Webhook URL: http://localhost:${PORT}/webhooks\n`);
-});
+// Only listen when run directly, so tests can import `app` and bind their own port
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  app.listen(PORT, () => {
+    console.log(`\n╔═══════════════════════════════════════════╗`);
+    console.log(`║  Circle Mint Dashboard                    ║`);
+    console.log(`║  http://localhost:${PORT}                    ║`);
+    console.log(`╚═══════════════════════════════════════════╝`);
+    const profile = getProfile();
+    console.log(`\nProfile:     ${profile.name} (${listProfiles().map(p => p.name).join(', ')})`);
+    console.log(`Environment: ${profile.environment}`);
+    console.log(`Circle API:  ${profile.baseUrl}`);
+    console.log(`Webhook URL: http://localhost:${PORT}/webhooks\n`);
+  });
+}
@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+
+/**
+ * AWS SNS envelopes around Circle notifications
+ *
+ * Circle delivers notifications through SNS, which POSTs a JSON envelope
+ * (Content-Type text/plain, x-amz-sns-message-type header):
+ * - SubscriptionConfirmation — visit SubscribeURL once to start delivery
+ * - Notification — the Circle payload, JSON-encoded in `Message`
+ * - UnsubscribeConfirmation — the subscription was removed
+ * Every envelope is signed by AWS with the certificate at SigningCertURL;
+ * envelopes are verified before anything in them is trusted or visited.
+ * A valid signature only proves the envelope came from *some* SNS topic, so
+ * TopicArn must also belong to Circle (or a topic you allow).
+ * Reference: https://developers.circle.com/circle-mint/circle-apis-notifications-quickstart
+ * Reference: https://docs.aws.amazon.com/sns/latest/dg/sns-verify-signature-of-message.html
+ */
+
+export type SnsMessageType = 'SubscriptionConfirmation' | 'Notification' | 'UnsubscribeConfirmation';
+
+export interface SnsEnvelope {
+  Type: SnsMessageType;
+  MessageId: string;
+  TopicArn: string;
+  Message: string;
+  Timestamp: string;
+  SignatureVersion: '1' | '2';
+  Signature: string;
+  SigningCertURL: string;
+  Subject?: string;
+  Token?: string;          // confirmations only
+  SubscribeURL?: string;   // confirmations only
+  UnsubscribeURL?: string; // notifications only
+}
+
+const MESSAGE_TYPES: SnsMessageType[] = ['SubscriptionConfirmation', 'Notification', 'UnsubscribeConfirmation'];
+
+// Fields covered by the signature, in signing order
+const SIGNED_FIELDS: Record<SnsMessageType, (keyof SnsEnvelope)[]> = {
+  Notification: ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'],
+  SubscriptionConfirmation: ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'],
+  UnsubscribeConfirmation: ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'],
+};
+
+const SNS_HOST = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+/**
+ * Only HTTPS URLs on an SNS host are fetched (signing certificates) or visited (SubscribeURL)
+ */
+export function isSnsUrl(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && SNS_HOST.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
+// AWS accounts Circle publishes notifications from: sandbox, production
+export const CIRCLE_SNS_ACCOUNTS = ['908968368384', '635098045498'];
+
+/**
+ * Parse CIRCLE_SNS_TOPICS: comma-separated topic ARNs or 12-digit AWS account ids.
+ * Empty means Circle's own accounts.
+ */
+export function parseSnsTopics(value: string): string[] {
+  const topics = value.split(',').map(topic => topic.trim()).filter(Boolean);
+  return topics.length ? topics : CIRCLE_SNS_ACCOUNTS;
+}
+
+/**
+ * Whether a TopicArn is allowed, either listed itself or owned by a listed account
+ */
+export function isAllowedTopic(topicArn: string, allowed: string[]): boolean {
+  // arn:<partition>:sns:<region>:<account>:<topic>
+  const parts = topicArn.split(':');
+  if (parts.length !== 6 || parts[0] !== 'arn' || parts[2] !== 'sns') return false;
+  return allowed.some(entry => entry === topicArn || entry === parts[4]);
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+export type SnsRejection = 'malformed_envelope' | 'untrusted_topic' | 'untrusted_url' | 'unsupported_signature_version' | 'unknown_certificate' | 'invalid_signature';
+
+/**
+ * An SNS envelope that is malformed or not signed by AWS
+ */
+export class SnsVerificationError extends Error {
+  readonly reason: SnsRejection;
+
+  constructor(reason: SnsRejection, detail: string) {
+    super(`SNS message rejected (${reason}): ${detail}`);
+    this.name = 'SnsVerificationError';
+    this.reason = reason;
+  }
+}
+
+// ─── Verification ────────────────────────────────────────────────────────
+
+/** PEM certificate (or public key) for a SigningCertURL */
+export type SigningCertProvider = (url: string) => Promise<string>;
+
+/**
+ * Download signing certificates from AWS, cached by URL (they are immutable)
+ */
+export function awsSigningCerts(): SigningCertProvider {
+  const cache = new Map<string, Promise<string>>();
+  return url => {
+    let cert = cache.get(url);
+    if (!cert) {
+      cert = fetch(url).then(async response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      });
+      cache.set(url, cert);
+      cert.catch(() => cache.delete(url));
+    }
+    return cert;
+  };
+}
+
+/**
+ * Parse a POST body as an SNS envelope; throws SnsVerificationError('malformed_envelope')
+ */
+export function parseSnsEnvelope(body: string): SnsEnvelope {
+  let envelope: Partial<SnsEnvelope>;
+  try {
+    envelope = JSON.parse(body);
+  } catch {
+    throw new SnsVerificationError('malformed_envelope', 'body is not JSON');
+  }
+  if (!envelope || !MESSAGE_TYPES.includes(envelope.Type as SnsMessageType)) {
+    throw new SnsVerificationError('malformed_envelope', `unknown message type ${JSON.stringify(envelope?.Type)}`);
+  }
+  for (const field of ['MessageId', 'TopicArn', 'Message', 'Timestamp', 'Signature', 'SigningCertURL'] as const) {
+    if (typeof envelope[field] !== 'string') throw new SnsVerificationError('malformed_envelope', `${field} is missing`);
+  }
+  return envelope as SnsEnvelope;
+}
+
+/**
+ * The exact string AWS signed for an envelope
+ */
+export function snsStringToSign(envelope: SnsEnvelope): string {
+  return SIGNED_FIELDS[envelope.Type]
+    .filter(field => envelope[field] !== undefined)
+    .map(field => `${field}\n${envelope[field]}\n`)
+    .join('');
+}
+
+/**
+ * Refuse envelopes from a topic that is not allowed; throws SnsVerificationError('untrusted_topic')
+ */
+export function checkSnsTopic(envelope: SnsEnvelope, topics: string[] = CIRCLE_SNS_ACCOUNTS): void {
+  if (!isAllowedTopic(envelope.TopicArn, topics)) {
+    throw new SnsVerificationError('untrusted_topic', `TopicArn ${envelope.TopicArn} is not an allowed topic (CIRCLE_SNS_TOPICS)`);
+  }
+}
+
+/**
+ * Check an envelope's topic and AWS signature; throws SnsVerificationError
+ */
+export async function verifySnsEnvelope(
+  envelope: SnsEnvelope,
+  certs: SigningCertProvider,
+  topics: string[] = CIRCLE_SNS_ACCOUNTS
+): Promise<void> {
+  checkSnsTopic(envelope, topics);
+  if (!isSnsUrl(envelope.SigningCertURL)) {
+    throw new SnsVerificationError('untrusted_url', `SigningCertURL ${envelope.SigningCertURL} is not an SNS host`);
+  }
+  if (envelope.SubscribeURL !== undefined && !isSnsUrl(envelope.SubscribeURL)) {
+    throw new SnsVerificationError('untrusted_url', `SubscribeURL ${envelope.SubscribeURL} is not an SNS host`);
+  }
+  const algorithm = envelope.SignatureVersion === '1' ? 'sha1' : envelope.SignatureVersion === '2' ? 'sha256' : undefined;
+  if (!algorithm) {
+    throw new SnsVerificationError('unsupported_signature_version', `SignatureVersion ${JSON.stringify(envelope.SignatureVersion)}`);
+  }
+
+  let cert: string;
+  try {
+    cert = await certs(envelope.SigningCertURL);
+  } catch (error) {
+    throw new SnsVerificationError('unknown_certificate', `could not get ${envelope.SigningCertURL}: ${(error as Error).message}`);
+  }
+
+  let valid: boolean;
+  try {
+    valid = crypto.verify(algorithm, Buffer.from(snsStringToSign(envelope)), cert, Buffer.from(envelope.Signature, 'base64'));
+  } catch (error) {
+    throw new SnsVerificationError('unknown_certificate', `certificate is unusable: ${(error as Error).message}`);
+  }
+  if (!valid) throw new SnsVerificationError('invalid_signature', `signature does not match message ${envelope.MessageId}`);
+}
+
+/**
+ * The Circle payload inside a Notification (`Message` is JSON-encoded)
+ */
+export function unwrapSnsMessage(envelope: SnsEnvelope): unknown {
+  try {
+    return JSON.parse(envelope.Message);
+  } catch {
+    return envelope.Message;
+  }
+}
+
+// ─── Subscription confirmations ─────────────────────────────────────────
+
+export type SnsSubscriptionState =
+  | 'awaiting_confirmation'  // auto-confirm is off; confirm from the dashboard
+  | 'confirming'
+  | 'confirmed'
+  | 'confirmation_failed'
+  | 'unsubscribed';
+
+export interface SnsSubscription {
+  topicArn: string;
+  state: SnsSubscriptionState;
+  subscribeUrl?: string;
+  updatedAt: string;  // ISO-8601
+  error?: string;
+}
+
+/** Visits a SubscribeURL; rejects if SNS did not accept the confirmation */
+export type SubscriptionConfirmer = (subscribeUrl: string) => Promise<void>;
+
+export const visitSubscribeUrl: SubscriptionConfirmer = async url => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`SNS answered HTTP ${response.status}`);
+};
+
+/**
+ * Confirmation state per SNS topic, as seen by this server since it started
+ */
+export class SnsSubscriptions {
+  private byTopic = new Map<string, SnsSubscription>();
+
+  constructor(private readonly onChange: (subscription: SnsSubscription) => void = () => {}) {}
+
+  list(): SnsSubscription[] {
+    return [...this.byTopic.values()];
+  }
+
+  get(topicArn: string): SnsSubscription | undefined {
+    return this.byTopic.get(topicArn);
+  }
+
+  update(topicArn: string, changes: Omit<SnsSubscription, 'topicArn' | 'updatedAt'>): SnsSubscription {
+    const { error: _previousError, ...previous } = this.byTopic.get(topicArn) ?? { topicArn };
+    const subscription = { ...previous, ...changes, topicArn, updatedAt: new Date().toISOString() };
+    this.byTopic.set(topicArn, subscription);
+    this.onChange(subscription);
+    return subscription;
+  }
+
+  /**
+   * Visit the topic's SubscribeURL and record the outcome
+   */
+  async confirm(topicArn: string, confirmer: SubscriptionConfirmer): Promise<SnsSubscription> {
+    const subscribeUrl = this.byTopic.get(topicArn)?.subscribeUrl;
+    if (!subscribeUrl) throw new Error(`No pending SNS subscription for ${topicArn}`);
+
+    this.update(topicArn, { state: 'confirming', subscribeUrl });
+    try {
+      await confirmer(subscribeUrl);
+      return this.update(topicArn, { state: 'confirmed', subscribeUrl });
+    } catch (error) {
+      return this.update(topicArn, { state: 'confirmation_failed', subscribeUrl, error: (error as Error).message });
+    }
+  }
+}
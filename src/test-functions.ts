@@ -1,4 +1,5 @@
 import { CircleMintClient } from './circle-mint-client.js';
+import { Money } from './money.js';
 
 /**
  * Test functions for Circle Mint operations
@@ -6,8 +7,8 @@ import { CircleMintClient } from './circle-mint-client.js';
 export class CircleMintTester {
   private client: CircleMintClient;
 
-  constructor() {
-    this.client = new CircleMintClient();
+  constructor(client = new CircleMintClient()) {
+    this.client = client;
   }
 
   /**
@@ -83,10 +84,9 @@ export class CircleMintTester {
     console.log(`\n📝 Testing: Create Deposit Address (${blockchain})`);
     console.log('─'.repeat(50));
     try {
-      const idempotencyKey = `test-${Date.now()}`;
       const address = await this.client.createDepositAddress({
-        idempotencyKey,
-        blockchain,
+        chain: blockchain,
+        currency: 'USD',
       });
       console.log('✅ Deposit address created:');
       console.log(JSON.stringify(address, null, 2));
@@ -142,18 +142,22 @@ export class CircleMintTester {
     console.log(`\n💸 Testing: Create Payout`);
     console.log('─'.repeat(50));
     try {
-      const idempotencyKey = `payout-${Date.now()}`;
+      // USD settles as USDC, EUR as EURC; reject a bad amount before touching the address book
+      const amount = Money.parsePositive(params.amount, params.currency === 'EURC' ? 'EUR' : 'USD');
+
+      // Payouts can only target address book recipients
+      const recipient = await this.client.createAddressBookRecipient({
+        chain: params.chain,
+        address: params.address,
+        metadata: { nickname: `Test payout ${params.chain}` },
+      });
+
       const payout = await this.client.createPayout({
-        idempotencyKey,
         destination: {
-          type: 'address',
-          address: params.address,
-          chain: params.chain,
-        },
-        amount: {
-          amount: params.amount,
-          currency: params.currency || 'USDC',
+          type: 'address_book',
+          id: recipient.data.id,
         },
+        amount,
       });
       console.log('✅ Payout created:');
       console.log(JSON.stringify(payout, null, 2));
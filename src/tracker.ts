@@ -0,0 +1,202 @@
+import { CircleMintClient, type CreatedResource, type CreatedResourceKind } from './circle-mint-client.js';
+import { CircleApiError } from './errors.js';
+import type { TransactionStatus } from './types.js';
+
+/**
+ * Follow created payouts and transfers to a final status
+ *
+ * Every payout, business payout and business transfer created through a
+ * client with `onCreated: tracker.track` is recorded here. Status changes come
+ * from two sources: incoming /webhooks notifications (`observe`), and polling
+ * getPayout / getBusinessPayout / getBusinessTransfer as a fallback while
+ * anything is still pending. Each change lands on the resource's timeline and
+ * is reported as a typed TrackerEvent.
+ *
+ * Polls go through a client of the tracker's own per profile, audited as
+ * "system:tracker" and logging to the console, never through the client that
+ * created the resource: that one belongs to a dashboard request and its user.
+ * Polling a resource stops once it is final, after `maxPolls` attempts, or when
+ * Circle answers 4xx (other than 429); notifications still update it after that.
+ */
+
+const TERMINAL_STATUSES: string[] = ['complete', 'failed'] satisfies TransactionStatus[];
+
+export type StatusSource = 'created' | 'webhook' | 'poll';
+
+export interface TimelineEntry {
+  at: string;  // ISO-8601
+  status: string;
+  source: StatusSource;
+}
+
+export interface TrackedResource {
+  kind: CreatedResourceKind;
+  id: string;
+  profile?: string;
+  status: string;
+  terminal: boolean;
+  createdAt: string;
+  updatedAt: string;
+  timeline: TimelineEntry[];
+}
+
+export type TrackerEvent =
+  | { type: 'tracker.tracked'; resource: TrackedResource }
+  | { type: 'tracker.status'; resource: TrackedResource; from: string; to: string; source: StatusSource }
+  | { type: 'tracker.poll_failed'; resource: TrackedResource; error: string }
+  | { type: 'tracker.poll_stopped'; resource: TrackedResource; reason: string };
+
+export interface TrackerOptions {
+  /** Delay between polls of pending resources (default: 5 seconds) */
+  pollIntervalMs?: number;
+  /** Polls per resource before giving up on it (default: 120, ten minutes at the default interval) */
+  maxPolls?: number;
+  /** Client that polls a profile's resources (default: one per profile, actor "system:tracker", console logging) */
+  pollClient?: (profile: string | undefined) => CircleMintClient;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_MAX_POLLS = 120;
+
+function trackerClient(profile: string | undefined): CircleMintClient {
+  return new CircleMintClient({ profile, actor: 'system:tracker', logger: console });
+}
+
+/** A 4xx other than rate limiting: asking again will not give a different answer */
+function isFinalFailure(error: unknown): boolean {
+  return error instanceof CircleApiError && error.status >= 400 && error.status < 500 && error.status !== 429;
+}
+
+async function fetchStatus(client: CircleMintClient, kind: CreatedResourceKind, id: string): Promise<string> {
+  switch (kind) {
+    case 'payout': return (await client.getPayout(id)).data.status;
+    case 'businessPayout': return (await client.getBusinessPayout(id)).data.status;
+    case 'businessTransfer': return (await client.getBusinessTransfer(id)).data.status;
+  }
+}
+
+export class TransactionTracker {
+  private resources = new Map<string, TrackedResource>();
+  // Resources still being polled, with the number of polls made so far
+  private pending = new Map<string, number>();
+  private clients = new Map<string, CircleMintClient>();
+  private readonly pollIntervalMs: number;
+  private readonly maxPolls: number;
+  private readonly pollClient: (profile: string | undefined) => CircleMintClient;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly onEvent: (event: TrackerEvent) => void = () => {}, options: TrackerOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxPolls = options.maxPolls ?? DEFAULT_MAX_POLLS;
+    this.pollClient = options.pollClient ?? trackerClient;
+  }
+
+  list(): TrackedResource[] {
+    return [...this.resources.values()];
+  }
+
+  get(id: string): TrackedResource | undefined {
+    return this.resources.get(id);
+  }
+
+  /**
+   * Start following a created resource; a resource already tracked (journal replay) is left as is
+   */
+  track(created: CreatedResource): TrackedResource {
+    const existing = this.resources.get(created.id);
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const resource: TrackedResource = {
+      kind: created.kind,
+      id: created.id,
+      ...(created.profile && { profile: created.profile }),
+      status: created.status,
+      terminal: TERMINAL_STATUSES.includes(created.status),
+      createdAt: now,
+      updatedAt: now,
+      timeline: [{ at: now, status: created.status, source: 'created' }],
+    };
+    this.resources.set(resource.id, resource);
+    if (!resource.terminal) this.pending.set(resource.id, 0);
+    this.onEvent({ type: 'tracker.tracked', resource });
+    this.schedulePoll();
+    return resource;
+  }
+
+  /**
+   * Apply a received notification; ignored unless it is about a tracked resource
+   */
+  observe(notification: { resourceId?: string; status?: string }): TrackedResource | undefined {
+    const { resourceId, status } = notification;
+    if (!resourceId || !status || !this.resources.has(resourceId)) return undefined;
+    return this.update(resourceId, status, 'webhook');
+  }
+
+  /**
+   * Poll every resource that is not final yet
+   */
+  async pollOnce(): Promise<void> {
+    await Promise.all([...this.pending].map(async ([id, polls]) => {
+      const resource = this.resources.get(id)!;
+      this.pending.set(id, polls + 1);
+      try {
+        this.update(id, await fetchStatus(this.clientFor(resource.profile), resource.kind, id), 'poll');
+      } catch (error) {
+        this.onEvent({ type: 'tracker.poll_failed', resource, error: (error as Error).message });
+        if (isFinalFailure(error)) this.stopPolling(resource, (error as Error).message);
+      }
+      if (this.pending.get(id)! >= this.maxPolls) {
+        this.stopPolling(resource, `still ${resource.status} after ${this.maxPolls} polls`);
+      }
+    }));
+  }
+
+  /** Stop polling; tracked resources stay listed */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private update(id: string, status: string, source: StatusSource): TrackedResource {
+    const resource = this.resources.get(id)!;
+    // A late or duplicate notification never moves a final resource back
+    if (resource.status === status || resource.terminal) return resource;
+
+    const from = resource.status;
+    const at = new Date().toISOString();
+    resource.status = status;
+    resource.terminal = TERMINAL_STATUSES.includes(status);
+    resource.updatedAt = at;
+    resource.timeline.push({ at, status, source });
+    if (resource.terminal) this.pending.delete(id);
+    this.onEvent({ type: 'tracker.status', resource, from, to: status, source });
+    return resource;
+  }
+
+  private stopPolling(resource: TrackedResource, reason: string): void {
+    if (!this.pending.delete(resource.id)) return;
+    this.onEvent({ type: 'tracker.poll_stopped', resource, reason });
+  }
+
+  private clientFor(profile: string | undefined): CircleMintClient {
+    const key = profile ?? '';
+    let client = this.clients.get(key);
+    if (!client) {
+      client = this.pollClient(profile);
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  private schedulePoll(): void {
+    if (this.timer || this.pending.size === 0) return;
+    this.timer = setTimeout(async () => {
+      await this.pollOnce();
+      this.timer = undefined;
+      this.schedulePoll();
+    }, this.pollIntervalMs);
+    // Never keep the process alive just to poll
+    this.timer.unref();
+  }
+}
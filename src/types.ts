@@ -0,0 +1,253 @@
+/**
+ * Circle Mint API response models
+ * Shapes follow the Circle Mint API reference: https://developers.circle.com/api-reference/circle-mint
+ */
+
+/**
+ * Every Circle Mint response wraps its payload in a `data` envelope
+ */
+export interface CircleResponse<T> {
+  data: T;
+}
+
+// ─── Shared ──────────────────────────────────────────────────────────────
+
+export interface Amount {
+  amount: string;
+  currency: string;
+}
+
+export type TransactionStatus = 'pending' | 'complete' | 'failed';
+
+export interface BillingDetails {
+  name: string;
+  city: string;
+  country: string;
+  line1: string;
+  line2?: string;
+  district?: string;
+  postalCode: string;
+}
+
+export interface BankAddress {
+  bankName?: string;
+  city: string;
+  country: string;
+  line1?: string;
+  line2?: string;
+  district?: string;
+}
+
+// ─── Account ─────────────────────────────────────────────────────────────
+
+export interface Balance {
+  available: Amount[];
+  unsettled: Amount[];
+}
+
+export interface Wallet {
+  walletId: string;
+  entityId: string;
+  type: string;
+  description?: string;
+  balances: Amount[];
+}
+
+export interface SupportedChains {
+  chains: { id: string; name: string }[];
+  currencies: string[];
+}
+
+// ─── Deposits ────────────────────────────────────────────────────────────
+
+export interface DepositAddress {
+  id: string;
+  address: string;
+  addressTag?: string;
+  currency: string;
+  chain: string;
+}
+
+export interface Deposit {
+  id: string;
+  sourceWalletId?: string;
+  destination: {
+    type: string;
+    id?: string;
+    address?: string;
+    chain?: string;
+  };
+  amount: Amount;
+  status: TransactionStatus;
+  transactionHash?: string;
+  createDate: string;
+  updateDate?: string;
+}
+
+// ─── Payouts ─────────────────────────────────────────────────────────────
+
+export interface AddressBookRecipient {
+  id: string;
+  chain: string;
+  address: string;
+  addressTag?: string;
+  metadata: {
+    nickname?: string;
+    email?: string;
+    bns?: string;
+  };
+  status: 'pending' | 'active' | 'inactive' | 'denied';
+  createDate: string;
+  updateDate: string;
+}
+
+export interface Payout {
+  id: string;
+  sourceWalletId: string;
+  destination: {
+    type: 'address_book';
+    id: string;
+  };
+  amount: Amount;
+  toAmount?: Amount;
+  fees?: Amount;
+  networkFees?: Amount;
+  status: TransactionStatus;
+  errorCode?: string;
+  createDate: string;
+  updateDate: string;
+}
+
+export interface BusinessPayout {
+  id: string;
+  sourceWalletId: string;
+  destination: {
+    type: 'wire' | 'cubix' | 'pix' | 'sepa' | 'sepa_instant';
+    id: string;
+    name?: string;
+  };
+  amount: Amount;
+  toAmount?: Amount;
+  fees?: Amount;
+  trackingRef?: string;
+  status: TransactionStatus;
+  errorCode?: string;
+  createDate: string;
+  updateDate: string;
+}
+
+// ─── Wire Bank Accounts ──────────────────────────────────────────────────
+
+export interface WireBankAccount {
+  id: string;
+  status: TransactionStatus;
+  description: string;
+  trackingRef: string;
+  fingerprint: string;
+  billingDetails: BillingDetails;
+  bankAddress: BankAddress;
+  createDate: string;
+  updateDate: string;
+}
+
+export interface WireInstructions {
+  trackingRef: string;
+  beneficiary: {
+    name: string;
+    address1?: string;
+    address2?: string;
+  };
+  beneficiaryBank: {
+    name: string;
+    swiftCode?: string;
+    routingNumber: string;
+    accountNumber: string;
+    currency: string;
+    address?: string;
+    city?: string;
+    postalCode?: string;
+    country?: string;
+  };
+}
+
+export interface MockWirePayment {
+  trackingRef: string;
+  amount: Amount;
+  beneficiaryBank: {
+    accountNumber: string;
+  };
+  status: TransactionStatus;
+}
+
+export interface MockBlockchainPayment {
+  address: string;
+  chain: string;
+  amount: Amount;
+  status?: TransactionStatus;
+}
+
+// ─── Recipients & Transfers ──────────────────────────────────────────────
+
+export interface RecipientAddress {
+  id: string;
+  address: string;
+  addressTag?: string;
+  chain: string;
+  currency: string;
+  description: string;
+  status?: 'pending' | 'active' | 'inactive' | 'denied';
+}
+
+export interface Transfer {
+  id: string;
+  source: {
+    type: 'wallet';
+    id: string;
+  };
+  destination: {
+    type: 'verified_blockchain';
+    addressId: string;
+    address?: string;
+    addressTag?: string;
+    chain?: string;
+  };
+  amount: Amount;
+  transactionHash?: string;
+  status: TransactionStatus;
+  errorCode?: string;
+  createDate: string;
+}
+
+// ─── Express Route ───────────────────────────────────────────────────────
+
+export interface ExpressRoute {
+  id: string;
+  receiptAddressId: string;
+  destinationBankAccountId: string;
+  destinationType: 'wire' | 'sepa' | 'sepa_instant';
+  currency: 'USD' | 'EUR';
+  status?: string;
+  createDate?: string;
+}
+
+// ─── Notifications ───────────────────────────────────────────────────────
+
+export interface Subscription {
+  id: string;
+  endpoint: string;
+  subscriptionDetails: {
+    url: string;
+    status: 'pending' | 'confirmed' | 'deleted';
+  }[];
+}
+
+/**
+ * Key Circle signs notifications with (X-Circle-Key-Id / X-Circle-Signature)
+ * Reference: https://developers.circle.com/api-reference/cpn/common/get-public-key
+ */
+export interface NotificationPublicKey {
+  id: string;
+  algorithm: string;  // "ECDSA_SHA_256"
+  publicKey: string;  // base64 DER (SubjectPublicKeyInfo)
+  createDate?: string;
+}
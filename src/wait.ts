@@ -0,0 +1,130 @@
+/**
+ * Waiting for Circle resources to reach a final state
+ *
+ * Payouts, transfers, deposits and recipient verification all settle
+ * asynchronously. `waitFor` polls a check until it reports done or failed,
+ * rejecting with a typed error on failure or timeout. A wakeup (for example
+ * `notificationWakeups`, fed by the dashboard's /webhooks receiver) triggers
+ * the next check early instead of waiting out the poll interval.
+ */
+
+export interface WaitOptions {
+  /** Give up after this long (default: 60 seconds) */
+  timeoutMs?: number;
+  /** Delay between checks (default: 2 seconds) */
+  pollIntervalMs?: number;
+  /** Check again as soon as this signals, e.g. on a webhook for the resource */
+  wakeup?: WaitWakeup;
+}
+
+/** Subscribe `wake` to some source of "something changed"; returns the unsubscribe */
+export type WaitWakeup = (wake: () => void) => () => void;
+
+export type WaitCheck<T> =
+  | { state: 'done'; value: T }
+  | { state: 'failed'; value: T; reason: string }
+  | { state: 'pending'; value?: T };
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+/**
+ * The resource was still not final when the timeout ran out
+ */
+export class WaitTimeoutError extends Error {
+  readonly what: string;
+  readonly timeoutMs: number;
+  readonly last?: unknown;   // the resource as last seen, if it was found at all
+
+  constructor(what: string, timeoutMs: number, last?: unknown) {
+    super(`Timed out after ${timeoutMs}ms waiting for ${what}`);
+    this.name = 'WaitTimeoutError';
+    this.what = what;
+    this.timeoutMs = timeoutMs;
+    this.last = last;
+  }
+}
+
+/**
+ * The resource reached a final state other than the one waited for
+ */
+export class WaitFailedError extends Error {
+  readonly what: string;
+  readonly reason: string;
+  readonly resource: unknown;
+
+  constructor(what: string, reason: string, resource: unknown) {
+    super(`${what} ${reason}`);
+    this.name = 'WaitFailedError';
+    this.what = what;
+    this.reason = reason;
+    this.resource = resource;
+  }
+}
+
+// ─── Waiting ─────────────────────────────────────────────────────────────
+
+/**
+ * Run `check` until it is done (resolve with its value) or failed (reject
+ * with WaitFailedError); reject with WaitTimeoutError once `timeoutMs` passed
+ */
+export async function waitFor<T>(what: string, check: () => Promise<WaitCheck<T>>, options: WaitOptions = {}): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  let woken = false;
+  let wake = () => { woken = true; };
+  const unsubscribe = options.wakeup?.(() => wake());
+  try {
+    for (;;) {
+      woken = false;
+      const result = await check();
+      if (result.state === 'done') return result.value;
+      if (result.state === 'failed') throw new WaitFailedError(what, result.reason, result.value);
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new WaitTimeoutError(what, timeoutMs, result.value);
+      // A wakeup that fired during the check still counts
+      if (woken) continue;
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, Math.min(pollIntervalMs, remaining));
+        wake = () => { clearTimeout(timer); resolve(); };
+      });
+      wake = () => { woken = true; };
+    }
+  } finally {
+    unsubscribe?.();
+  }
+}
+
+/**
+ * Fan-out for wakeups: `notify` (e.g. on every received notification) wakes the
+ * waits for that resource, or every wait when the notification has no id
+ */
+export class WaitWakeups {
+  private listeners = new Set<(resourceId?: string) => void>();
+
+  notify(resourceId?: string): void {
+    for (const listener of this.listeners) listener(resourceId);
+  }
+
+  /** A wakeup for one resource; without an id, any notification wakes it */
+  for(resourceId?: string): WaitWakeup {
+    return wake => {
+      const listener = (id?: string) => {
+        if (!resourceId || !id || id === resourceId) wake();
+      };
+      this.listeners.add(listener);
+      return () => this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * This process's wakeups: notified for every notification the server receives
+ * (and, in the MCP server, whenever the notification store changes)
+ */
+export const notificationWakeups = new WaitWakeups();
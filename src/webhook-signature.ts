@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { CircleMintClient } from './circle-mint-client.js';
+import type { NotificationPublicKey } from './types.js';
+
+/**
+ * Circle notification signatures
+ *
+ * Circle signs each notification body with ECDSA over SHA-256 and sends the
+ * base64 signature in X-Circle-Signature and the signing key's id in
+ * X-Circle-Key-Id. The public key for an id comes from
+ * GET /v2/notifications/publicKey/{keyId}; keys rarely rotate, so they are
+ * cached by id, and ids that fail to resolve are remembered briefly. Anything
+ * that does not verify against the raw body is rejected.
+ * Reference: https://developers.circle.com/w3s/web3-services-notifications-quickstart
+ */
+
+export type PublicKeyProvider = (keyId: string) => Promise<NotificationPublicKey>;
+
+const SUPPORTED_ALGORITHMS = ['ECDSA_SHA_256'];
+
+/** Circle keys are long-lived; refetch daily so a rotated key is picked up */
+const DEFAULT_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fetch keys from Circle with the given client. The default client makes one
+ * attempt per lookup and writes no audit entries: key ids arrive on
+ * unauthenticated requests, so neither retries nor the audit trail should be
+ * at a caller's disposal.
+ */
+export function circlePublicKeys(client?: CircleMintClient): PublicKeyProvider {
+  let lookups = client;
+  return async keyId => {
+    lookups ??= new CircleMintClient({ audit: null, retry: { maxAttempts: 1 } });
+    return (await lookups.getNotificationPublicKey(keyId)).data;
+  };
+}
+
+export interface KeyCacheOptions {
+  ttlMs?: number;           // how long a fetched key is kept (default: a day)
+  failureTtlMs?: number;    // how long a failed key id is refused without asking again (default: 5 minutes)
+  fetchesPerMinute?: number; // lookups of uncached ids allowed per minute (default: 10)
+  maxEntries?: number;      // cached ids kept before the oldest are dropped (default: 1000)
+}
+
+/**
+ * Cache a provider's keys by id. A failed lookup is remembered for a short
+ * while, so a stream of notifications naming an unknown id asks Circle once,
+ * and lookups of new ids are rate-limited; beyond the limit they are refused
+ * without being remembered, so a real key is fetched once the flood passes.
+ */
+export function cachedPublicKeys(provider: PublicKeyProvider, options: KeyCacheOptions = {}): PublicKeyProvider {
+  const {
+    ttlMs = DEFAULT_KEY_TTL_MS,
+    failureTtlMs = 5 * 60 * 1000,
+    fetchesPerMinute = 10,
+    maxEntries = 1000,
+  } = options;
+  const cache = new Map<string, { key: Promise<NotificationPublicKey>; expiresAt: number }>();
+  let fetches: number[] = [];
+
+  return keyId => {
+    const now = Date.now();
+    const cached = cache.get(keyId);
+    if (cached && cached.expiresAt > now) return cached.key;
+
+    fetches = fetches.filter(at => at > now - 60_000);
+    if (fetches.length >= fetchesPerMinute) {
+      return Promise.reject(new Error('too many key lookups; try again shortly'));
+    }
+    fetches.push(now);
+
+    for (const [id, entry] of cache) {
+      if (entry.expiresAt <= now) cache.delete(id);
+    }
+    cache.delete(keyId);
+    while (cache.size >= maxEntries) cache.delete(cache.keys().next().value!);
+
+    const entry = { key: provider(keyId), expiresAt: now + ttlMs };
+    cache.set(keyId, entry);
+    entry.key.catch(() => { entry.expiresAt = Date.now() + failureTtlMs; });
+    return entry.key;
+  };
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────
+
+export type WebhookRejection = 'missing_signature' | 'unknown_key' | 'unsupported_algorithm' | 'invalid_signature';
+
+/**
+ * A notification that does not carry a valid Circle signature
+ */
+export class WebhookSignatureError extends Error {
+  readonly reason: WebhookRejection;
+  readonly keyId?: string;
+
+  constructor(reason: WebhookRejection, detail: string, keyId?: string) {
+    super(`Webhook rejected (${reason}): ${detail}`);
+    this.name = 'WebhookSignatureError';
+    this.reason = reason;
+    this.keyId = keyId;
+  }
+}
+
+// ─── Verification ────────────────────────────────────────────────────────
+
+export interface WebhookVerification {
+  verified: true;
+  keyId: string;
+  algorithm: string;
+}
+
+/**
+ * Verify a notification's signature over its raw body, exactly as received.
+ * Throws WebhookSignatureError when it cannot be verified.
+ */
+export async function verifyWebhookSignature(
+  body: Buffer | string,
+  headers: { signature?: string; keyId?: string },
+  keys: PublicKeyProvider
+): Promise<WebhookVerification> {
+  const { signature, keyId } = headers;
+  if (!signature || !keyId) {
+    throw new WebhookSignatureError('missing_signature', 'X-Circle-Signature and X-Circle-Key-Id headers are required');
+  }
+
+  let key: NotificationPublicKey;
+  try {
+    key = await keys(keyId);
+  } catch (error) {
+    throw new WebhookSignatureError('unknown_key', `could not get public key ${keyId}: ${(error as Error).message}`, keyId);
+  }
+  if (!SUPPORTED_ALGORITHMS.includes(key.algorithm)) {
+    throw new WebhookSignatureError('unsupported_algorithm', `key ${keyId} uses ${key.algorithm}`, keyId);
+  }
+
+  let valid: boolean;
+  try {
+    valid = crypto.verify(
+      'sha256',
+      Buffer.from(body),
+      { key: Buffer.from(key.publicKey, 'base64'), format: 'der', type: 'spki' },
+      Buffer.from(signature, 'base64')
+    );
+  } catch (error) {
+    throw new WebhookSignatureError('unknown_key', `public key ${keyId} is unusable: ${(error as Error).message}`, keyId);
+  }
+  if (!valid) {
+    throw new WebhookSignatureError('invalid_signature', `signature does not match the body for key ${keyId}`, keyId);
+  }
+  return { verified: true, keyId, algorithm: key.algorithm };
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { emulator } from './setup.js';
+import { available, ETH_ADDRESS, fundedBank, resetEmulator } from './helpers.js';
+import { AccountAndTransferTester } from '../src/account-and-transfers.js';
+import { CircleApiError } from '../src/errors.js';
+
+beforeEach(resetEmulator);
+
+describe('AccountAndTransferTester', () => {
+  test('checkBalance returns the available balance', async () => {
+    emulator.fund('25.00');
+    const balance = await new AccountAndTransferTester().checkBalance();
+
+    assert.deepEqual(balance.data.available, [{ amount: '25.00', currency: 'USD' }]);
+  });
+
+  test('createWireBankAccount applies sandbox defaults and overrides', async () => {
+    const tester = new AccountAndTransferTester();
+    const { data: bank } = await tester.createWireBankAccount({ billingName: 'Ada Lovelace' });
+
+    assert.equal(bank.status, 'pending');
+    assert.equal(bank.billingDetails.name, 'Ada Lovelace');
+    assert.match(bank.description, /\*\*\*\*0010$/);
+
+    const { data: accounts } = await tester.listWireBankAccounts();
+    assert.deepEqual(accounts.map(a => [a.id, a.status]), [[bank.id, 'complete']]);
+  });
+
+  test('createMockWirePayment credits the balance once settled', async () => {
+    const tester = new AccountAndTransferTester();
+    const { data: bank } = await tester.createWireBankAccount();
+    const { data: instructions } = await tester.getWireBankAccountInstructions(bank.id);
+
+    const { data: payment } = await tester.createMockWirePayment({
+      trackingRef: instructions.trackingRef,
+      amount: '75.00',
+      accountNumber: instructions.beneficiaryBank.accountNumber,
+    });
+
+    assert.equal(payment.status, 'pending');
+    assert.equal(await available(), '75.00');
+  });
+
+  test('createMockWirePayment rejects an unknown tracking reference', async () => {
+    const error = await new AccountAndTransferTester()
+      .createMockWirePayment({ trackingRef: 'CIRNOPE', amount: '1.00', accountNumber: '1' })
+      .catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 400);
+  });
+
+  test('createBusinessPayout debits the balance and completes', async () => {
+    const { bank } = await fundedBank(undefined, '50.00');
+    const tester = new AccountAndTransferTester();
+
+    const { data: payout } = await tester.createBusinessPayout({
+      destinationType: 'wire', destinationId: bank.id, amount: '20.00', currency: 'USD',
+    });
+    assert.equal(payout.status, 'pending');
+
+    const { data: settled } = await tester.getBusinessPayoutStatus(payout.id);
+    assert.equal(settled.status, 'complete');
+    assert.equal(await available(), '30.00');
+
+    const { data: complete } = await tester.listBusinessPayouts('complete');
+    assert.deepEqual(complete.map(p => p.id), [payout.id]);
+  });
+
+  test('createBusinessPayout fails with insufficient_funds beyond the balance', async () => {
+    const { bank } = await fundedBank(undefined, '5.00');
+    const tester = new AccountAndTransferTester();
+
+    const { data: payout } = await tester.createBusinessPayout({
+      destinationType: 'wire', destinationId: bank.id, amount: '20.00', currency: 'USD',
+    });
+    const { data: settled } = await tester.getBusinessPayoutStatus(payout.id);
+
+    assert.equal(settled.status, 'failed');
+    assert.equal(settled.errorCode, 'insufficient_funds');
+    assert.equal(await available(), '5.00');
+  });
+
+  test('createTransfer adds an address book entry and sends a formatted payout', async () => {
+    emulator.fund('10.00');
+    const tester = new AccountAndTransferTester();
+
+    const { data: payout } = await tester.createTransfer({ recipientAddress: ETH_ADDRESS, chain: 'ETH', amount: '2.5' });
+
+    assert.deepEqual(payout.amount, { amount: '2.50', currency: 'USD' });
+    const { data: status } = await tester.getTransferStatus(payout.id);
+    assert.equal(status.status, 'complete');
+    assert.equal(await available(), '7.50');
+  });
+
+  test('createTransfer rejects malformed amounts before calling Circle', async () => {
+    await assert.rejects(
+      new AccountAndTransferTester().createTransfer({ recipientAddress: ETH_ADDRESS, chain: 'ETH', amount: '1,00' }),
+      /Invalid amount format/
+    );
+    assert.ok(!emulator.requests.some(r => r.method === 'POST'));
+  });
+
+  test('recipient addresses verify and accept business transfers', async () => {
+    emulator.fund('10.00');
+    const tester = new AccountAndTransferTester();
+
+    const { data: recipient } = await tester.createRecipientAddress({ chain: 'ETH', address: ETH_ADDRESS, description: 'Treasury' });
+    assert.equal(recipient.status, 'pending');
+    assert.equal((await tester.getRecipientAddress(recipient.id)).data.status, 'active');
+    assert.deepEqual((await tester.listRecipientAddresses()).data.map(r => r.id), [recipient.id]);
+
+    const { data: transfer } = await tester.createBusinessTransfer({ recipientId: recipient.id, amount: '4.00', currency: 'USD' });
+    const { data: settled } = await tester.getBusinessTransferStatus(transfer.id);
+
+    assert.equal(settled.status, 'complete');
+    assert.ok(settled.transactionHash);
+    assert.equal(await available(), '6.00');
+  });
+
+  test('createBusinessTransfer refuses a recipient that is not verified yet', async () => {
+    emulator.settleDelayMs = 60_000;
+    const tester = new AccountAndTransferTester();
+    const { data: recipient } = await tester.createRecipientAddress({ chain: 'ETH', address: ETH_ADDRESS, description: 'New' });
+
+    const error = await tester.createBusinessTransfer({ recipientId: recipient.id, amount: '1.00', currency: 'USD' })
+      .catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 400);
+  });
+
+  test('createDepositAddress returns an address on the requested chain', async () => {
+    const { data: address } = await new AccountAndTransferTester().createDepositAddress({ chain: 'BASE', currency: 'USD' });
+
+    assert.equal(address.chain, 'BASE');
+    assert.match(address.address, /^0x[0-9a-f]{40}$/);
+  });
+
+  test('runTestFlow reuses an existing deposit address on the chain', async () => {
+    const tester = new AccountAndTransferTester();
+    await tester.createDepositAddress({ chain: 'ETH', currency: 'USD' });
+
+    await tester.runTestFlow({ blockchain: 'ETH' });
+
+    const created = emulator.requests.filter(r => r.method === 'POST');
+    assert.equal(created.length, 1);
+  });
+
+  test('runTestFlow creates a deposit address when none exists', async () => {
+    await new AccountAndTransferTester().runTestFlow({ blockchain: 'SOL' });
+
+    const created = emulator.requests.filter(r => r.method === 'POST');
+    assert.equal(created.length, 1);
+    assert.equal((created[0].body as { chain: string }).chain, 'SOL');
+  });
+});
@@ -0,0 +1,161 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, existsSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { emulator } from './setup.js';
+import { ETH_ADDRESS, resetEmulator } from './helpers.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import {
+  FileAuditLog,
+  GENESIS_HASH,
+  MemoryAuditLog,
+  verifyChain,
+  type NewAuditEntry,
+} from '../src/audit.js';
+
+beforeEach(resetEmulator);
+
+function entry(overrides: Partial<NewAuditEntry> = {}): NewAuditEntry {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    actor: 'cli:test',
+    environment: 'local',
+    method: 'GET',
+    endpoint: '/v1/businessAccount/balances',
+    outcome: 'ok',
+    status: 200,
+    durationMs: 5,
+    ...overrides,
+  };
+}
+
+describe('audit log', () => {
+  test('entries are chained and filterable', async () => {
+    const log = new MemoryAuditLog();
+    const first = await log.append(entry());
+    const second = await log.append(entry({ actor: 'dashboard:alice', method: 'POST', endpoint: '/v1/payouts', timestamp: '2026-01-02T00:00:00.000Z' }));
+    assert.equal(first.prevHash, GENESIS_HASH);
+    assert.equal(second.prevHash, first.hash);
+    assert.deepEqual([first.seq, second.seq], [1, 2]);
+
+    const seqs = async (filter: Parameters<typeof log.list>[0]) => (await log.list(filter)).map(e => e.seq);
+    assert.deepEqual(await seqs({ actor: 'dashboard:alice' }), [2]);
+    assert.deepEqual(await seqs({ method: 'post' }), [2]);
+    assert.deepEqual(await seqs({ endpoint: 'balances' }), [1]);
+    assert.deepEqual(await seqs({ since: '2026-01-02T00:00:00.000Z' }), [2]);
+    assert.deepEqual(await seqs({ limit: 1 }), [2]);
+    assert.deepEqual(await log.verify(), { ok: true, entries: 2 });
+  });
+
+  test('verifyChain finds an edited, removed or reordered entry', async () => {
+    const log = new MemoryAuditLog();
+    for (let i = 0; i < 3; i++) await log.append(entry({ durationMs: i }));
+    const entries = await log.list();
+
+    assert.equal(verifyChain([entries[0], { ...entries[1], actor: 'someone-else' }, entries[2]]).brokenAt, 2);
+    assert.equal(verifyChain([entries[0], entries[2]]).brokenAt, 3);
+    assert.equal(verifyChain([entries[1], entries[0], entries[2]]).brokenAt, 2);
+  });
+
+  test('the file log chains across instances and detects tampering', async () => {
+    const path = join(tmpdir(), `circle-audit-test-${process.pid}.jsonl`);
+    rmSync(path, { force: true });
+    try {
+      await new FileAuditLog(path).append(entry());
+      // Another process (a fresh instance) links to the file's last line
+      const log = new FileAuditLog(path);
+      const second = await log.append(entry({ outcome: 'error', status: 400 }));
+      assert.equal(second.seq, 2);
+      assert.deepEqual(await log.verify(), { ok: true, entries: 2 });
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n');
+      writeFileSync(path, [lines[0].replace('"status":200', '"status":201'), lines[1]].join('\n') + '\n');
+      assert.deepEqual(await log.verify(), { ok: false, entries: 2, brokenAt: 1 });
+
+      writeFileSync(path, [lines[0], '{not json', lines[1]].join('\n') + '\n');
+      assert.deepEqual(await log.verify(), { ok: false, entries: 3, brokenAt: 2 });
+      assert.equal((await log.list()).length, 2);
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  test('a line torn by a crash mid-append does not stop later appends', async () => {
+    const path = join(tmpdir(), `circle-audit-torn-test-${process.pid}.jsonl`);
+    rmSync(path, { force: true });
+    try {
+      const first = await new FileAuditLog(path).append(entry());
+      appendFileSync(path, '{"seq":2,"timestamp":"2026-01-');
+
+      const log = new FileAuditLog(path);
+      const next = await log.append(entry({ outcome: 'error', status: 400 }));
+      assert.deepEqual([next.seq, next.prevHash], [2, first.hash]);
+      assert.equal((await log.append(entry())).seq, 3);
+      assert.deepEqual((await log.list()).map(e => e.seq), [1, 2, 3]);
+      assert.deepEqual(await log.verify(), { ok: false, entries: 4, brokenAt: 2 });
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  test('concurrent writers (separate instances, as in separate processes) keep one chain', async () => {
+    const path = join(tmpdir(), `circle-audit-lock-test-${process.pid}.jsonl`);
+    rmSync(path, { force: true });
+    try {
+      const writers = [new FileAuditLog(path), new FileAuditLog(path), new FileAuditLog(path)];
+      await Promise.all(Array.from({ length: 30 }, (_, i) => writers[i % writers.length].append(entry())));
+
+      assert.deepEqual(await writers[0].verify(), { ok: true, entries: 30 });
+      assert.equal(existsSync(`${path}.lock`), false);
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  test('a lock left behind by a crashed writer is taken over once stale', async () => {
+    const path = join(tmpdir(), `circle-audit-stale-test-${process.pid}.jsonl`);
+    rmSync(path, { force: true });
+    writeFileSync(`${path}.lock`, '999999');
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, longAgo, longAgo);
+    try {
+      assert.equal((await new FileAuditLog(path).append(entry())).seq, 1);
+    } finally {
+      rmSync(path, { force: true });
+      rmSync(`${path}.lock`, { force: true });
+    }
+  });
+});
+
+describe('CircleMintClient audit', () => {
+  test('records successful, failed and blocked calls with the actor', async () => {
+    const audit = new MemoryAuditLog();
+    const client = new CircleMintClient({ actor: 'dashboard:alice', audit });
+
+    await client.getBalance();
+    emulator.failNext('POST', '/v1/addressBook/recipients', 400, { code: 2, message: 'Invalid entity' });
+    await assert.rejects(client.createAddressBookRecipient({ chain: 'ETH', address: ETH_ADDRESS, metadata: {} }));
+    const readOnly = new CircleMintClient({ actor: 'dashboard:alice', audit, safety: { readOnly: true } });
+    await assert.rejects(readOnly.createAddressBookRecipient({ chain: 'ETH', address: ETH_ADDRESS, metadata: {} }));
+
+    const [ok, failed, blocked] = await audit.list();
+    assert.deepEqual([ok.actor, ok.method, ok.endpoint, ok.outcome, ok.status], ['dashboard:alice', 'GET', '/v1/balances', 'ok', 200]);
+    assert.match(ok.circleRequestId!, /^[0-9a-f-]{36}$/);
+    assert.deepEqual([failed.outcome, failed.status], ['error', 400]);
+    assert.equal((failed.request as any).address, ETH_ADDRESS);
+    assert.match(failed.error!, /Invalid entity/);
+    assert.deepEqual([blocked.outcome, blocked.status], ['blocked', undefined]);
+    assert.ok(ok.durationMs >= 0);
+    assert.deepEqual(await audit.verify(), { ok: true, entries: 3 });
+  });
+
+  test('marks journal replays', async () => {
+    const audit = new MemoryAuditLog();
+    const client = new CircleMintClient({ audit });
+    const body = { chain: 'ETH', address: ETH_ADDRESS, metadata: {}, idempotencyKey: crypto.randomUUID() };
+    await client.createAddressBookRecipient(body);
+    await client.createAddressBookRecipient(body);
+    assert.deepEqual((await audit.list()).map(e => e.outcome), ['ok', 'replayed']);
+  });
+});
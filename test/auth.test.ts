@@ -0,0 +1,76 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'http';
+import {
+  authenticate,
+  parseCookies,
+  parseTokens,
+  SESSION_COOKIE,
+  SessionStore,
+  userForSecret,
+  type AuthSettings,
+} from '../src/auth.js';
+
+function settings(overrides: Partial<AuthSettings> = {}): AuthSettings {
+  return { password: '', tokens: new Map(), roles: new Map(), sessionTtlMs: 60_000, ...overrides };
+}
+
+/**
+ * Just enough of a request for `authenticate`
+ */
+function request(headers: Record<string, string> = {}, remoteAddress = '127.0.0.1'): IncomingMessage {
+  return { headers, socket: { remoteAddress } } as unknown as IncomingMessage;
+}
+
+describe('auth', () => {
+  test('parseTokens reads user:token pairs and rejects malformed entries', () => {
+    assert.deepEqual([...parseTokens(' alice:t1 , bob:t:2 ')], [['t1', 'alice'], ['t:2', 'bob']]);
+    assert.equal(parseTokens('').size, 0);
+    assert.throws(() => parseTokens('alice'), /expected user:token/);
+    assert.throws(() => parseTokens('alice:'), /expected user:token/);
+  });
+
+  test('the password signs in as admin, a token as its owner', () => {
+    const configured = settings({ password: 'pw', tokens: parseTokens('alice:t1') });
+    assert.equal(userForSecret(configured, 'pw'), 'admin');
+    assert.equal(userForSecret(configured, 't1'), 'alice');
+    assert.equal(userForSecret(configured, 'nope'), undefined);
+    assert.equal(userForSecret(settings(), ''), undefined);
+  });
+
+  test('without credentials only direct local requests get in', () => {
+    const sessions = new SessionStore();
+    assert.deepEqual(authenticate(request(), settings(), sessions), { name: 'local', via: 'local', role: 'approver' });
+    assert.equal(authenticate(request({}, '10.0.0.5'), settings(), sessions), undefined);
+    assert.equal(authenticate(request({ 'x-forwarded-for': '203.0.113.9' }), settings(), sessions), undefined);
+  });
+
+  test('with credentials, a bearer token or a live session is required', () => {
+    const sessions = new SessionStore();
+    const configured = settings({ password: 'pw', tokens: parseTokens('alice:t1') });
+    const id = sessions.create('admin', 60_000);
+
+    assert.equal(authenticate(request(), configured, sessions), undefined);
+    assert.deepEqual(authenticate(request({ authorization: 'Bearer t1' }), configured, sessions), { name: 'alice', via: 'token', role: 'viewer' });
+    assert.equal(authenticate(request({ authorization: 'Bearer pw' }), configured, sessions), undefined);
+    assert.deepEqual(
+      authenticate(request({ cookie: `theme=dark; ${SESSION_COOKIE}=${id}` }), configured, sessions),
+      { name: 'admin', via: 'session', role: 'approver' },
+    );
+
+    sessions.delete(id);
+    assert.equal(authenticate(request({ cookie: `${SESSION_COOKIE}=${id}` }), configured, sessions), undefined);
+  });
+
+  test('sessions expire', () => {
+    const sessions = new SessionStore();
+    const id = sessions.create('admin', 0);
+    assert.equal(sessions.get(id), undefined);
+  });
+
+  test('parseCookies decodes values', () => {
+    assert.deepEqual(parseCookies('a=1; b=x%20y; broken'), { a: '1', b: 'x y' });
+    assert.deepEqual(parseCookies(undefined), {});
+    assert.deepEqual(parseCookies('bad=%E0%A4%A; a=1'), { a: '1' });
+  });
+});
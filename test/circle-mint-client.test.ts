@@ -0,0 +1,285 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { emulator } from './setup.js';
+import { available, ETH_ADDRESS, fundedBank, resetEmulator } from './helpers.js';
+import { CircleMintClient, RequestPreviewedError } from '../src/circle-mint-client.js';
+import { CircleApiError, CircleResponseValidationError } from '../src/errors.js';
+import { collect } from '../src/pagination.js';
+import type { RequestAttempt } from '../src/retry.js';
+
+beforeEach(resetEmulator);
+
+describe('CircleMintClient requests', () => {
+  test('sends an authenticated request and returns the data envelope', async () => {
+    const client = new CircleMintClient();
+    const wallets = await client.getWallets();
+
+    assert.equal(wallets.data.length, 1);
+    assert.equal(wallets.data[0].type, 'merchant');
+    assert.deepEqual(emulator.requests.map(r => `${r.method} ${r.path}`), ['GET /v1/wallets']);
+  });
+
+  test('turns non-2xx responses into CircleApiError with Circle fields', async () => {
+    const client = new CircleMintClient();
+    const error = await client.getPayout('missing').catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 404);
+    assert.equal(error.method, 'GET');
+    assert.equal(error.endpoint, '/v1/payouts/missing');
+    assert.ok(error.isNotFound);
+  });
+
+  test('exposes field-level errors from a 400', async () => {
+    const client = new CircleMintClient();
+    const error = await client.createDepositAddress({ idempotencyKey: crypto.randomUUID(), currency: 'USD', chain: '' })
+      .catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 400);
+    assert.equal(error.code, 2);
+    assert.deepEqual(error.errors.map(e => e.location), ['chain']);
+  });
+
+  test('resolves deletes with an empty body', async () => {
+    const client = new CircleMintClient();
+    const { data: recipient } = await client.createAddressBookRecipient({
+      idempotencyKey: crypto.randomUUID(), chain: 'ETH', address: ETH_ADDRESS, metadata: {},
+    });
+
+    assert.equal(await client.deleteAddressBookRecipient(recipient.id), undefined);
+    assert.deepEqual((await client.listAddressBookRecipients()).data, []);
+  });
+
+  test('with preview, describes the request redacted and sends nothing', async () => {
+    const previews: unknown[] = [];
+    const client = new CircleMintClient({ preview: request => previews.push(request) });
+    const error = await client.createWireBankAccount({
+      idempotencyKey: 'k1',
+      accountNumber: '12340010',
+      routingNumber: '121000248',
+      billingDetails: { name: 'Ada', city: 'Boston', country: 'US', line1: '1 Main St', postalCode: '02201' },
+      bankAddress: { bankName: 'SAN FRANCISCO', city: 'SAN FRANCISCO', country: 'US', line1: '100 Money Street' },
+    }).catch(e => e);
+
+    assert.ok(error instanceof RequestPreviewedError);
+    assert.deepEqual(previews, [error.request]);
+    assert.equal(error.request.method, 'POST');
+    assert.match(error.request.url, /\/v1\/businessAccount\/banks\/wires$/);
+    assert.equal(error.request.headers.Authorization, 'Bearer [REDACTED]');
+    assert.equal((error.request.body as any).accountNumber, '…0010');
+    assert.deepEqual(emulator.requests, []);
+  });
+});
+
+describe('CircleMintClient fallbacks', () => {
+  test('getBalance falls back to the business account balance', async () => {
+    emulator.fund('12.50');
+    emulator.failNext('GET', '/v1/balances', 404);
+    const client = new CircleMintClient();
+
+    assert.equal(await available(client), '12.50');
+    assert.deepEqual(emulator.requests.map(r => r.path), ['/v1/balances', '/v1/businessAccount/balances']);
+  });
+
+  test('getBalance rethrows the original error when both endpoints fail', async () => {
+    emulator.failNext('GET', '/v1/balances', 403, { code: 3, message: 'Forbidden' });
+    emulator.failNext('GET', '/v1/businessAccount/balances', 404);
+    const error = await new CircleMintClient().getBalance().catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 403);
+  });
+
+  test('getBalance does not mask a malformed response', async () => {
+    emulator.failNext('GET', '/v1/balances', 200, { data: { available: 'lots' } });
+    const error = await new CircleMintClient().getBalance().catch(e => e);
+
+    assert.ok(error instanceof CircleResponseValidationError);
+    assert.equal(emulator.requests.length, 1);
+  });
+
+  test('listDeposits uses paymentIntents when it exists', async () => {
+    emulator.failPaymentIntents = false;
+    const deposits = await new CircleMintClient().listDeposits();
+
+    assert.deepEqual(deposits.data, []);
+    assert.deepEqual(emulator.requests.map(r => r.path), ['/v1/paymentIntents']);
+  });
+
+  test('listDeposits falls back to /v1/deposits on a paymentIntents 404', async () => {
+    const client = new CircleMintClient();
+    await fundedBank(client, '40.00');
+    emulator.requests.length = 0;
+
+    const deposits = await client.listDeposits({ pageSize: 5 });
+
+    assert.equal(deposits.data.length, 1);
+    assert.equal(deposits.data[0].amount.amount, '40.00');
+    assert.deepEqual(emulator.requests.map(r => r.path), ['/v1/paymentIntents?pageSize=5', '/v1/deposits?pageSize=5']);
+  });
+
+  test('listDeposits explains a missing deposits API when both endpoints 404', async () => {
+    emulator.failNext('GET', '/v1/deposits', 404, { code: -1, message: 'Not found' });
+    const error = await new CircleMintClient().listDeposits().catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 404);
+    assert.equal(error.endpoint, '/v1/deposits');
+    assert.match(error.message, /Deposits endpoint not found/);
+    assert.match(error.message, /Original error: Resource not found/);
+  });
+
+  test('listDeposits does not fall back on errors other than 404', async () => {
+    emulator.failPaymentIntents = false;
+    emulator.failNext('GET', '/v1/paymentIntents', 401, { code: 401, message: 'Invalid credentials' });
+    const error = await new CircleMintClient().listDeposits().catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.ok(error.isUnauthorized);
+    assert.equal(emulator.requests.length, 1);
+  });
+
+  test('listDeposits rethrows a non-404 error from the fallback', async () => {
+    emulator.failNext('GET', '/v1/deposits', 400, { code: 2, message: 'Invalid entity.' });
+    const error = await new CircleMintClient().listDeposits().catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 400);
+    assert.equal(error.circleMessage, 'Invalid entity.');
+  });
+
+  test('listDepositAddresses falls back to /v1/deposits/addresses', async () => {
+    const client = new CircleMintClient();
+    await client.createDepositAddress({ idempotencyKey: crypto.randomUUID(), currency: 'USD', chain: 'ETH' });
+
+    const addresses = await client.listDepositAddresses();
+
+    assert.equal(addresses.data.length, 1);
+    assert.equal(addresses.data[0].chain, 'ETH');
+  });
+
+  test('listDepositAddresses explains a missing endpoint when both 404', async () => {
+    emulator.failNext('GET', '/v1/deposits/addresses', 404);
+    const error = await new CircleMintClient().listDepositAddresses().catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.match(error.message, /Deposit addresses endpoint not found/);
+  });
+
+  test('getSupportedChains returns the built-in list when /v1/config is missing', async () => {
+    const chains = await new CircleMintClient().getSupportedChains();
+
+    assert.ok('chains' in chains);
+    assert.ok(chains.currencies.includes('USDC'));
+  });
+});
+
+describe('CircleMintClient strict mode', () => {
+  test('rejects responses that do not match the endpoint schema', async () => {
+    emulator.failNext('GET', '/v1/payouts/abc', 200, { data: { id: 'abc', amount: { amount: '1.00' }, status: 'sent' } });
+    const error = await new CircleMintClient({ strict: true }).getPayout('abc').catch(e => e);
+
+    assert.ok(error instanceof CircleResponseValidationError);
+    assert.deepEqual(error.issues.map(i => i.path).sort(), ['data.amount.currency', 'data.status']);
+  });
+
+  test('accepts the same response when strict mode is off', async () => {
+    emulator.failNext('GET', '/v1/payouts/abc', 200, { data: { id: 'abc', status: 'sent' } });
+    const payout = await new CircleMintClient({ strict: false }).getPayout('abc');
+
+    assert.equal(payout.data.id, 'abc');
+  });
+});
+
+describe('CircleMintClient retries', () => {
+  const fast = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 20 };
+
+  test('retries a 503 on an idempotent request and reports each attempt', async () => {
+    emulator.failNext('GET', '/v1/wallets', 503, { code: -1, message: 'Unavailable' }, 2);
+    const attempts: RequestAttempt[] = [];
+    const client = new CircleMintClient({ retry: fast, onAttempt: a => attempts.push(a) });
+
+    const wallets = await client.getWallets();
+
+    assert.equal(wallets.data.length, 1);
+    assert.deepEqual(attempts.map(a => [a.status, a.willRetry]), [[503, true], [503, true], [200, false]]);
+  });
+
+  test('gives up after maxAttempts with the last error', async () => {
+    emulator.failNext('GET', '/v1/wallets', 502, { code: -1, message: 'Bad gateway' }, 5);
+    const client = new CircleMintClient({ retry: fast, onAttempt: () => {} });
+    const error = await client.getWallets().catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(error.status, 502);
+    assert.equal(emulator.requests.length, 3);
+  });
+
+  test('does not retry a POST without an idempotencyKey', async () => {
+    emulator.failNext('POST', '/v1/notifications/subscriptions', 503, { code: -1, message: 'Unavailable' });
+    const client = new CircleMintClient({ retry: fast, onAttempt: () => {} });
+    const error = await client.createSubscription('https://example.com/webhooks').catch(e => e);
+
+    assert.ok(error instanceof CircleApiError);
+    assert.equal(emulator.requests.length, 1);
+  });
+
+  test('retries a POST that carries an idempotencyKey', async () => {
+    emulator.failNext('POST', '/v1/businessAccount/wallets/addresses/deposit', 429, { code: -1, message: 'Too many requests' });
+    const client = new CircleMintClient({ retry: fast, onAttempt: () => {} });
+    const address = await client.createDepositAddress({ idempotencyKey: crypto.randomUUID(), currency: 'USD', chain: 'ETH' });
+
+    assert.equal(address.data.chain, 'ETH');
+    assert.equal(emulator.requests.length, 2);
+  });
+
+  test('does not retry 4xx responses other than 429', async () => {
+    const client = new CircleMintClient({ retry: fast, onAttempt: () => {} });
+    await client.getPayout('missing').catch(() => {});
+
+    assert.equal(emulator.requests.length, 1);
+  });
+});
+
+describe('CircleMintClient pagination', () => {
+  async function createRecipients(client: CircleMintClient, count: number): Promise<string[]> {
+    const ids: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const { data } = await client.createAddressBookRecipient({
+        idempotencyKey: crypto.randomUUID(), chain: 'ETH', address: `${ETH_ADDRESS.slice(0, -2)}${i}0`, metadata: {},
+      });
+      ids.push(data.id);
+    }
+    return ids;
+  }
+
+  test('passes page parameters through as query parameters', async () => {
+    const client = new CircleMintClient();
+    await client.listPayouts({ pageSize: 10, pageAfter: 'abc', status: 'complete' });
+
+    assert.equal(emulator.requests[0].path, '/v1/payouts?status=complete&pageAfter=abc&pageSize=10');
+  });
+
+  test('iterators walk every page newest first', async () => {
+    const client = new CircleMintClient();
+    const ids = await createRecipients(client, 5);
+    emulator.requests.length = 0;
+
+    const all = await collect(client.iterateAddressBookRecipients({ pageSize: 2 }));
+
+    assert.deepEqual(all.map(r => r.id), [...ids].reverse());
+    assert.equal(emulator.requests.length, 3);
+  });
+
+  test('iterators stop early when the consumer breaks', async () => {
+    const client = new CircleMintClient();
+    await createRecipients(client, 5);
+    emulator.requests.length = 0;
+
+    for await (const _recipient of client.iterateAddressBookRecipients({ pageSize: 2 })) break;
+
+    assert.equal(emulator.requests.length, 1);
+  });
+});
@@ -0,0 +1,152 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { emulator } from './setup.js';
+import { available, ETH_ADDRESS, fundedBank, resetEmulator } from './helpers.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import { ExpressRouteTester } from '../src/express-route.js';
+import { collect } from '../src/pagination.js';
+
+beforeEach(resetEmulator);
+
+describe('ExpressRouteTester steps', () => {
+  test('linkBankAccount falls back to an existing account when creation is rejected', async () => {
+    const tester = new ExpressRouteTester();
+    const { data: first } = await tester.linkBankAccount();
+    emulator.failNext('POST', '/v1/businessAccount/banks/wires', 400, { code: 2023, message: 'Bank account already exists' });
+
+    const { data: second } = await tester.linkBankAccount();
+
+    assert.equal(second.id, first.id);
+  });
+
+  test('linkReceiptAddress falls back to the existing address on the same chain', async () => {
+    const tester = new ExpressRouteTester();
+    await tester.linkReceiptAddress({ chain: 'SOL' });
+    const { data: eth } = await tester.linkReceiptAddress({ chain: 'ETH' });
+    emulator.failNext('POST', '/v1/businessAccount/wallets/addresses/deposit', 409, { code: 2023, message: 'Address already exists' });
+
+    const { data: again } = await tester.linkReceiptAddress({ chain: 'ETH' });
+
+    assert.equal(again.id, eth.id);
+  });
+
+  test('initiateMockDeposit returns null when Circle reports a duplicate', async () => {
+    emulator.failNext('POST', '/v1/mocks/payments/wire', 409, { code: 2023, message: 'Payment already exists' });
+    const result = await new ExpressRouteTester().initiateMockDeposit({ trackingRef: 'CIR1', accountNumber: '1' });
+
+    assert.equal(result, null);
+  });
+
+  test('initiateOnChainDeposit credits the balance and swallows failures', async () => {
+    const tester = new ExpressRouteTester();
+    const { data: receipt } = await tester.linkReceiptAddress({ chain: 'ETH' });
+
+    const { data: deposit } = (await tester.initiateOnChainDeposit({ address: receipt.address, amount: '12.00' }))!;
+    assert.equal(deposit.status, 'pending');
+    assert.equal(await available(), '12.00');
+
+    assert.equal(await tester.initiateOnChainDeposit({ address: ETH_ADDRESS }), null);
+  });
+
+  test('initiateOnChainTransfer sends to a verified recipient', async () => {
+    emulator.fund('5.00');
+    const client = new CircleMintClient();
+    const { data: recipient } = await client.createRecipientAddress({
+      idempotencyKey: crypto.randomUUID(), address: ETH_ADDRESS, chain: 'ETH', currency: 'USD', description: 'Route test',
+    });
+
+    const { data: transfer } = await new ExpressRouteTester().initiateOnChainTransfer({ recipientId: recipient.id });
+
+    assert.deepEqual(transfer.amount, { amount: '1.00', currency: 'USD' });
+    assert.equal(transfer.destination.addressId, recipient.id);
+  });
+
+  test('initiateWithdrawal creates a wire payout with defaults', async () => {
+    const { bank } = await fundedBank();
+    const { data: payout } = await new ExpressRouteTester().initiateWithdrawal({ bankAccountId: bank.id });
+
+    assert.equal(payout.destination.type, 'wire');
+    assert.deepEqual(payout.amount, { amount: '10.00', currency: 'USD' });
+  });
+
+  test('createExpressRoute returns the existing route for a receipt address', async () => {
+    const tester = new ExpressRouteTester();
+    const { data: bank } = await tester.linkBankAccount();
+    const { data: receipt } = await tester.linkReceiptAddress();
+
+    const first = await tester.createExpressRoute({ receiptAddressId: receipt.id, bankAccountId: bank.id });
+    const second = await tester.createExpressRoute({ receiptAddressId: receipt.id, bankAccountId: bank.id });
+
+    assert.ok(first);
+    assert.equal(second?.data.id, first.data.id);
+  });
+
+  test('createExpressRoute returns null for an unknown bank account', async () => {
+    const tester = new ExpressRouteTester();
+    const { data: receipt } = await tester.linkReceiptAddress();
+
+    assert.equal(await tester.createExpressRoute({ receiptAddressId: receipt.id, bankAccountId: 'missing' }), null);
+  });
+});
+
+describe('ExpressRouteTester.runFullFlow', () => {
+  test('links accounts, moves funds and binds the express route', async () => {
+    const client = new CircleMintClient();
+
+    await new ExpressRouteTester().runFullFlow({ amount: '40.00' });
+    emulator.settleAll();
+
+    const [bank] = (await client.listWireBankAccounts()).data;
+    const [receipt] = (await client.listBusinessDepositAddresses()).data;
+    const routes = (await client.listExpressRoutes()).data;
+    const deposits = await collect(client.iterateDeposits());
+    const payouts = await collect(client.iterateBusinessPayouts());
+
+    assert.equal(receipt.chain, 'ETH');
+    assert.deepEqual(routes.map(r => [r.receiptAddressId, r.destinationBankAccountId]), [[receipt.id, bank.id]]);
+    assert.deepEqual(deposits.map(d => d.amount.amount).sort(), ['40.00', '40.00']);
+    assert.deepEqual(payouts.map(p => [p.destination.id, p.amount.amount, p.status]), [[bank.id, '10.00', 'complete']]);
+    assert.equal(await available(client), '70.00');
+  });
+
+  test('reuses the bank, receipt address and recipient it is given', async () => {
+    emulator.fund('20.00');
+    const client = new CircleMintClient();
+    const { bank } = await fundedBank(client);
+    const { data: receipt } = await client.createDepositAddress({ idempotencyKey: crypto.randomUUID(), currency: 'USD', chain: 'ETH' });
+    const { data: recipient } = await client.createRecipientAddress({
+      idempotencyKey: crypto.randomUUID(), address: ETH_ADDRESS, chain: 'ETH', currency: 'USD', description: 'Route test',
+    });
+    emulator.settleAll();
+    emulator.requests.length = 0;
+
+    await new ExpressRouteTester().runFullFlow({
+      existingBankId: bank.id,
+      existingDepositAddressId: receipt.id,
+      existingDepositAddress: receipt.address,
+      existingRecipientId: recipient.id,
+    });
+
+    const posts = emulator.requests.filter(r => r.method === 'POST').map(r => r.path);
+    assert.deepEqual(posts, [
+      '/v1/mocks/payments/wire',
+      '/v1/mocks/payments/blockchain',
+      '/v1/businessAccount/transfers',
+      '/v1/businessAccount/payouts',
+      '/v1/businessAccount/expressRoute',
+    ]);
+  });
+
+  test('deposits routed through an express route are redeemed to the bank', async () => {
+    const client = new CircleMintClient();
+    await new ExpressRouteTester().runFullFlow();
+    const [receipt] = (await client.listBusinessDepositAddresses()).data;
+
+    await client.createMockBlockchainDeposit({ address: receipt.address, amount: { amount: '15.00', currency: 'USD' }, chain: 'ETH' });
+    emulator.settleAll();
+
+    const payouts = await collect(client.iterateBusinessPayouts());
+    assert.deepEqual(payouts.map(p => p.amount.amount), ['15.00', '10.00']);
+  });
+});
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import { snsStringToSign, type SigningCertProvider, type SnsEnvelope } from '../src/sns.js';
+import type { WireBankAccount, WireInstructions } from '../src/types.js';
+import type { PublicKeyProvider } from '../src/webhook-signature.js';
+import { emulator } from './setup.js';
+
+export const ETH_ADDRESS = '0x8381470ED67C3802402dbbFa0058E8871F017A6F';
+
+/**
+ * Fresh emulator state for each test
+ */
+export function resetEmulator(): void {
+  emulator.reset();
+  emulator.settleDelayMs = 0;
+  emulator.failPaymentIntents = true;
+}
+
+/**
+ * Create a wire bank account and fund the balance through a settled mock wire
+ */
+export async function fundedBank(
+  client = new CircleMintClient(),
+  amount = '100.00'
+): Promise<{ bank: WireBankAccount; instructions: WireInstructions }> {
+  const { data: bank } = await client.createWireBankAccount({
+    idempotencyKey: crypto.randomUUID(),
+    accountNumber: '12340010',
+    routingNumber: '121000248',
+    billingDetails: { name: 'Satoshi Nakamoto', city: 'Boston', country: 'US', line1: '100 Money Street', postalCode: '01234' },
+    bankAddress: { bankName: 'SAN FRANCISCO', city: 'SAN FRANCISCO', country: 'US', line1: '100 Money Street' },
+  });
+  const { data: instructions } = await client.getWireBankAccountInstructions(bank.id);
+  await client.createMockWirePayment({
+    trackingRef: instructions.trackingRef,
+    amount: { amount, currency: 'USD' },
+    beneficiaryBank: { accountNumber: instructions.beneficiaryBank.accountNumber },
+  });
+  emulator.settleAll();
+  return { bank, instructions };
+}
+
+/**
+ * Available balance for a currency as a string ("0.00" when absent)
+ */
+export async function available(client = new CircleMintClient(), currency = 'USD'): Promise<string> {
+  const { data } = await client.getBalance();
+  return data.available.find(a => a.currency === currency)?.amount ?? '0.00';
+}
+
+// ─── Webhook signing ─────────────────────────────────────────────────────
+
+// Stands in for Circle's notification signing key
+const webhookKeyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+export const WEBHOOK_KEY_ID = 'test-webhook-key';
+
+/**
+ * Public key provider that only knows the local test key
+ */
+export const localWebhookKeys: PublicKeyProvider = async keyId => {
+  if (keyId !== WEBHOOK_KEY_ID) throw new Error(`No public key ${keyId}`);
+  return {
+    id: keyId,
+    algorithm: 'ECDSA_SHA_256',
+    publicKey: webhookKeyPair.publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+  };
+};
+
+/**
+ * X-Circle-* headers for a body signed the way Circle signs notifications
+ */
+export function signWebhook(body: string): Record<string, string> {
+  return {
+    'X-Circle-Key-Id': WEBHOOK_KEY_ID,
+    'X-Circle-Signature': crypto.sign('sha256', Buffer.from(body), webhookKeyPair.privateKey).toString('base64'),
+  };
+}
+
+// ─── SNS signing ─────────────────────────────────────────────────────────
+
+// Stands in for the AWS certificate behind SigningCertURL
+const snsKeyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+export const SNS_CERT_URL = 'https://sns.us-east-1.amazonaws.com/SimpleNotificationService-test.pem';
+export const SNS_TOPIC_ARN = 'arn:aws:sns:us-east-1:908968368384:sandbox_platform-notifications-topic';
+
+/**
+ * Certificate provider that only knows the local test key
+ */
+export const localSnsCerts: SigningCertProvider = async url => {
+  if (url !== SNS_CERT_URL) throw new Error(`No certificate at ${url}`);
+  return snsKeyPair.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+};
+
+/**
+ * An SNS envelope of the given type, signed (SignatureVersion 1) the way AWS signs them
+ */
+export function snsEnvelope(type: SnsEnvelope['Type'], fields: Partial<SnsEnvelope> = {}): SnsEnvelope {
+  const envelope: SnsEnvelope = {
+    Type: type,
+    MessageId: crypto.randomUUID(),
+    TopicArn: SNS_TOPIC_ARN,
+    Message: type === 'Notification' ? '{}' : `You have chosen to subscribe to the topic ${SNS_TOPIC_ARN}.`,
+    Timestamp: new Date().toISOString(),
+    SignatureVersion: '1',
+    Signature: '',
+    SigningCertURL: SNS_CERT_URL,
+    ...(type !== 'Notification' && {
+      Token: 'token-1',
+      SubscribeURL: `https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription&TopicArn=${SNS_TOPIC_ARN}&Token=token-1`,
+    }),
+    ...fields,
+  };
+  envelope.Signature = crypto.sign('sha1', Buffer.from(snsStringToSign(envelope)), snsKeyPair.privateKey).toString('base64');
+  return envelope;
+}
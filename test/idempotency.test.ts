@@ -0,0 +1,219 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { emulator, emulatorUrl } from './setup.js';
+import { ETH_ADDRESS, resetEmulator } from './helpers.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import {
+  FileIdempotencyJournal,
+  hashRequest,
+  IdempotencyConflictError,
+  InvalidIdempotencyKeyError,
+  isValidIdempotencyKey,
+  MemoryIdempotencyJournal,
+} from '../src/idempotency.js';
+import { app } from '../src/server.js';
+import { createMcpServer } from '../src/mcp-server.js';
+
+beforeEach(resetEmulator);
+
+const posts = (path: string) => emulator.requests.filter(r => r.method === 'POST' && r.path === path);
+
+function addressParams(idempotencyKey?: string) {
+  return { idempotencyKey, chain: 'ETH', address: ETH_ADDRESS, metadata: { nickname: 'Ops' } };
+}
+
+describe('idempotency keys', () => {
+  test('isValidIdempotencyKey accepts UUIDs only', () => {
+    assert.equal(isValidIdempotencyKey(crypto.randomUUID()), true);
+    assert.equal(isValidIdempotencyKey(`ab-${Date.now()}`), false);
+    assert.equal(isValidIdempotencyKey(42), false);
+  });
+
+  test('hashRequest ignores property order', () => {
+    assert.equal(hashRequest('a', 'POST', '/v1/x', { a: 1, b: { c: 2, d: 3 } }), hashRequest('a', 'POST', '/v1/x', { b: { d: 3, c: 2 }, a: 1 }));
+    assert.notEqual(hashRequest('a', 'POST', '/v1/x', { a: 1 }), hashRequest('a', 'POST', '/v1/y', { a: 1 }));
+    assert.notEqual(hashRequest('a', 'POST', '/v1/x', { a: 1 }), hashRequest('b', 'POST', '/v1/x', { a: 1 }));
+  });
+
+  test('the client fills in a UUID when no key is given', async () => {
+    await new CircleMintClient({ journal: null }).createAddressBookRecipient(addressParams());
+
+    const [request] = posts('/v1/addressBook/recipients');
+    assert.ok(isValidIdempotencyKey((request.body as { idempotencyKey: string }).idempotencyKey));
+  });
+
+  test('a custom provider must emit UUIDs', async () => {
+    const client = new CircleMintClient({ journal: null, idempotencyKeys: () => 'not-a-uuid' });
+
+    await assert.rejects(client.createAddressBookRecipient(addressParams()), InvalidIdempotencyKeyError);
+    assert.equal(emulator.requests.length, 0);
+  });
+
+  test('a caller-supplied key that is not a UUID is rejected before calling Circle', async () => {
+    const client = new CircleMintClient({ journal: null });
+
+    await assert.rejects(client.createAddressBookRecipient(addressParams('ab-123')), InvalidIdempotencyKeyError);
+    assert.equal(emulator.requests.length, 0);
+  });
+});
+
+describe('idempotency journal', () => {
+  test('an identical retry is replayed without reaching Circle', async () => {
+    const client = new CircleMintClient({ journal: new MemoryIdempotencyJournal() });
+    const key = crypto.randomUUID();
+
+    const first = await client.createAddressBookRecipient(addressParams(key));
+    const second = await client.createAddressBookRecipient(addressParams(key));
+
+    assert.deepEqual(second, first);
+    assert.equal(posts('/v1/addressBook/recipients').length, 1);
+  });
+
+  test('concurrent duplicates share one request', async () => {
+    const client = new CircleMintClient({ journal: new MemoryIdempotencyJournal() });
+    const key = crypto.randomUUID();
+
+    const [a, b] = await Promise.all([
+      client.createAddressBookRecipient(addressParams(key)),
+      client.createAddressBookRecipient(addressParams(key)),
+    ]);
+
+    assert.equal(a.data.id, b.data.id);
+    assert.equal(posts('/v1/addressBook/recipients').length, 1);
+  });
+
+  test('reusing a key for a different request is a conflict', async () => {
+    const client = new CircleMintClient({ journal: new MemoryIdempotencyJournal() });
+    const key = crypto.randomUUID();
+    await client.createAddressBookRecipient(addressParams(key));
+
+    const error = await client.createAddressBookRecipient({ ...addressParams(key), metadata: { nickname: 'Other' } })
+      .catch(e => e);
+
+    assert.ok(error instanceof IdempotencyConflictError);
+    assert.equal(error.original.endpoint, '/v1/addressBook/recipients');
+    assert.equal(posts('/v1/addressBook/recipients').length, 1);
+  });
+
+  test('failed requests are not recorded, so the same key can be retried', async () => {
+    const client = new CircleMintClient({ journal: new MemoryIdempotencyJournal() });
+    const key = crypto.randomUUID();
+    emulator.failNext('POST', '/v1/addressBook/recipients', 503, { code: -1, message: 'Unavailable' });
+
+    await assert.rejects(client.createAddressBookRecipient(addressParams(key)));
+    const { data } = await client.createAddressBookRecipient(addressParams(key));
+
+    assert.equal(data.metadata?.nickname, 'Ops');
+    assert.equal(posts('/v1/addressBook/recipients').length, 2);
+  });
+
+  test('the file journal survives a restart', async () => {
+    const path = join(tmpdir(), `circle-idempotency-test-${crypto.randomUUID()}.jsonl`);
+    const key = crypto.randomUUID();
+    try {
+      const first = await new CircleMintClient({ journal: new FileIdempotencyJournal(path) })
+        .createAddressBookRecipient(addressParams(key));
+      const replayed = await new CircleMintClient({ journal: new FileIdempotencyJournal(path) })
+        .createAddressBookRecipient(addressParams(key));
+
+      assert.deepEqual(replayed, first);
+      assert.equal(posts('/v1/addressBook/recipients').length, 1);
+      assert.equal((await readFile(path, 'utf8')).trim().split('\n').length, 1);
+    } finally {
+      await rm(path, { force: true });
+    }
+  });
+
+  test('expired entries are ignored', async () => {
+    const journal = new MemoryIdempotencyJournal(1000);
+    const key = crypto.randomUUID();
+    await journal.record({ account: 'a', key, method: 'POST', endpoint: '/v1/x', requestHash: 'h', response: {}, createdAt: new Date(Date.now() - 2000).toISOString() });
+
+    assert.equal(await journal.get('a', key), undefined);
+  });
+
+  test('the same key sent to another account is a new request', async () => {
+    const journal = new MemoryIdempotencyJournal();
+    const key = crypto.randomUUID();
+    const first = new CircleMintClient({ config: { apiKey: 'key-one', environment: 'local', baseUrl: emulatorUrl }, journal });
+    const second = new CircleMintClient({ config: { apiKey: 'key-two', environment: 'local', baseUrl: emulatorUrl }, journal });
+
+    await Promise.all([first.createAddressBookRecipient(addressParams(key)), second.createAddressBookRecipient(addressParams(key))]);
+    await first.createAddressBookRecipient(addressParams(key));
+
+    assert.equal(posts('/v1/addressBook/recipients').length, 2);
+  });
+});
+
+describe('caller-supplied keys', () => {
+  let server: Server;
+  let baseUrl: string;
+  let mcp: Client;
+
+  before(async () => {
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer({ role: 'approver' }).connect(serverTransport);
+    mcp = new Client({ name: 'idempotency-test', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+  });
+
+  after(async () => {
+    await mcp.close();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  async function post(path: string, body: unknown): Promise<{ status: number; json: any }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, json: await response.json() };
+  }
+
+  test('a resubmitted dashboard request returns the first result', async () => {
+    const body = { chain: 'ETH', address: ETH_ADDRESS, description: 'Treasury', idempotencyKey: crypto.randomUUID() };
+
+    const first = await post('/api/recipients', body);
+    const second = await post('/api/recipients', body);
+
+    assert.equal(second.status, 200);
+    assert.equal(second.json.data.data.id, first.json.data.data.id);
+    assert.equal(posts('/v1/businessAccount/wallets/addresses/recipient').length, 1);
+  });
+
+  test('the API maps an invalid key to 400 and a reused key to 409', async () => {
+    const invalid = await post('/api/recipients', { chain: 'ETH', address: ETH_ADDRESS, description: 'x', idempotencyKey: 'nope' });
+    assert.equal(invalid.status, 400);
+    assert.match(invalid.json.error, /Invalid idempotencyKey/);
+
+    const idempotencyKey = crypto.randomUUID();
+    await post('/api/recipients', { chain: 'ETH', address: ETH_ADDRESS, description: 'One', idempotencyKey });
+    const conflict = await post('/api/recipients', { chain: 'ETH', address: ETH_ADDRESS, description: 'Two', idempotencyKey });
+    assert.equal(conflict.status, 409);
+    assert.equal(conflict.json.idempotencyConflict.endpoint, '/v1/businessAccount/wallets/addresses/recipient');
+  });
+
+  test('an MCP tool re-run with the same key does not create a duplicate', async () => {
+    const args = { chain: 'ETH', address: ETH_ADDRESS, nickname: 'Ops', idempotencyKey: crypto.randomUUID() };
+
+    const first = await mcp.callTool({ name: 'add_address_book_recipient', arguments: args });
+    const second = await mcp.callTool({ name: 'add_address_book_recipient', arguments: args });
+
+    const text = (result: typeof first) => (result.content as { text: string }[])[0].text;
+    assert.equal(text(second), text(first));
+    assert.equal(posts('/v1/addressBook/recipients').length, 1);
+  });
+});
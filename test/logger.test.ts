@@ -0,0 +1,45 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import { currentLogger, RequestLogger, withLogger, type Logger } from '../src/logger.js';
+
+function silent(): Logger & { lines: string[] } {
+  const lines: string[] = [];
+  return { lines, log: line => lines.push(line as string), warn: line => lines.push(line as string), error: line => lines.push(line as string) };
+}
+
+describe('request logger', () => {
+  test('keeps its own lines, redacted and prefixed, and tags what it forwards', () => {
+    const sink = silent();
+    const logger = new RequestLogger('req-1', sink);
+    logger.log('created', { id: 'x' });
+    logger.warn('key SAND_API_KEY:abc:def leaked');
+    logger.error('failed');
+
+    assert.deepEqual(logger.text(), ['created {\n  "id": "x"\n}', '[WARN] key [REDACTED] leaked', '[ERR] failed']);
+    assert.deepEqual(logger.lines.map(l => l.level), ['info', 'warn', 'error']);
+    assert.equal(sink.lines[2], '[req-1] [ERR] failed');
+  });
+
+  test('withLogger scopes the current logger to one async flow', async () => {
+    const a = new RequestLogger('a', silent());
+    const b = new RequestLogger('b', silent());
+    const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+    await Promise.all([
+      withLogger(a, async () => { await tick(); currentLogger().log('from a'); }),
+      withLogger(b, async () => { currentLogger().log('from b'); await tick(); currentLogger().log('b again'); }),
+    ]);
+
+    assert.deepEqual(a.text(), ['from a']);
+    assert.deepEqual(b.text(), ['from b', 'b again']);
+    assert.equal(currentLogger(), console);
+  });
+
+  test('a client built in a request scope logs there', async () => {
+    const logger = new RequestLogger('req-2', silent());
+    const client = withLogger(logger, () => new CircleMintClient());
+    assert.equal(client.logger, logger);
+    assert.equal(new CircleMintClient().logger, console);
+  });
+});
@@ -0,0 +1,353 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { emulator, emulatorUrl, paymentRequestsPath } from './setup.js';
+import { ETH_ADDRESS, fundedBank, resetEmulator } from './helpers.js';
+import { createMcpServer, tools } from '../src/mcp-server.js';
+import { notificationWakeups } from '../src/wait.js';
+import { FilePaymentRequestStore, PaymentRequestQueue } from '../src/payment-requests.js';
+import { config } from '../src/config.js';
+
+let client: Client;
+const called = new Set<string>();
+
+before(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer({ role: 'approver' }).connect(serverTransport);
+  client = new Client({ name: 'mcp-server-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+});
+
+after(() => client.close());
+
+beforeEach(resetEmulator);
+
+interface ToolOutcome {
+  isError: boolean;
+  texts: string[];
+  json: any; // first text block parsed as JSON, when it is JSON
+}
+
+/**
+ * Call a tool over MCP and decode its text content
+ */
+async function call(name: string, args: Record<string, unknown> = {}): Promise<ToolOutcome> {
+  called.add(name);
+  const result = await client.callTool({ name, arguments: args });
+  const texts = (result.content as { type: string; text: string }[]).map(c => c.text);
+  let json: unknown;
+  try {
+    json = JSON.parse(texts[0]);
+  } catch {
+    json = undefined;
+  }
+  return { isError: Boolean(result.isError), texts, json };
+}
+
+async function ok(name: string, args?: Record<string, unknown>): Promise<any> {
+  const outcome = await call(name, args);
+  assert.equal(outcome.isError, false, `${name} failed: ${outcome.texts.join('\n')}`);
+  return outcome.json;
+}
+
+describe('mcp-server: tools/list', () => {
+  test('advertises every tool with an object input schema', async () => {
+    const listed = await client.listTools();
+
+    assert.deepEqual(listed.tools.map(t => t.name), tools.map(t => t.name));
+    for (const tool of listed.tools) assert.equal(tool.inputSchema.type, 'object');
+  });
+});
+
+describe('mcp-server: overview & deposits', () => {
+  test('list_profiles shows the default profile without its key', async () => {
+    const profiles = await ok('list_profiles');
+
+    assert.deepEqual(profiles, [{ name: 'default', environment: 'local', baseUrl: emulatorUrl, hasApiKey: true, isDefault: true, readOnly: false }]);
+  });
+
+  test('get_wallets, get_balance, get_supported_chains', async () => {
+    emulator.fund('9.00');
+
+    assert.equal((await ok('get_wallets')).data[0].type, 'merchant');
+    assert.deepEqual((await ok('get_balance')).data.available, [{ amount: '9.00', currency: 'USD' }]);
+    assert.ok((await ok('get_supported_chains')).currencies.includes('USDC'));
+  });
+
+  test('create_deposit_address, list_deposit_addresses, list_deposits', async () => {
+    const address = (await ok('create_deposit_address', { chain: 'ETH' })).data;
+    assert.equal(address.currency, 'USD');
+    assert.deepEqual((await ok('list_deposit_addresses')).data.map((a: any) => a.id), [address.id]);
+
+    await fundedBank(undefined, '10.00');
+    await fundedBank(undefined, '20.00');
+    assert.equal((await ok('list_deposits', { pageSize: 1 })).data.length, 1);
+    assert.equal((await ok('list_deposits', { pageSize: 1, all: true })).data.length, 2);
+  });
+});
+
+describe('mcp-server: address book & payouts', () => {
+  test('add, list, pay out to and delete an address book recipient', async () => {
+    emulator.fund('10.00');
+    const recipient = (await ok('add_address_book_recipient', { chain: 'ETH', address: ETH_ADDRESS, nickname: 'Ops' })).data;
+    assert.equal(recipient.metadata.nickname, 'Ops');
+    assert.deepEqual((await ok('list_address_book')).data.map((r: any) => r.id), [recipient.id]);
+
+    const payout = (await ok('create_payout', { recipientId: recipient.id, amount: '2' })).data;
+    assert.deepEqual(payout.amount, { amount: '2.00', currency: 'USD' });
+    assert.deepEqual((await ok('list_payouts', { all: true })).data.map((p: any) => p.id), [payout.id]);
+
+    assert.deepEqual(await ok('delete_address_book_recipient', { id: recipient.id }), { deleted: true, id: recipient.id });
+    assert.deepEqual((await ok('list_address_book')).data, []);
+  });
+});
+
+describe('mcp-server: wire accounts', () => {
+  test('create account, instructions, mock wire, business payout', async () => {
+    const bank = (await ok('create_wire_account', { billingName: 'Ada Lovelace' })).data;
+    assert.deepEqual((await ok('list_wire_accounts')).data.map((b: any) => b.id), [bank.id]);
+
+    const instructions = (await ok('get_wire_instructions', { bankAccountId: bank.id })).data;
+    assert.match(instructions.beneficiaryBank.accountNumber, /^…\d{4}$/);
+    const mock = (await ok('mock_wire_deposit', { bankAccountId: bank.id })).data;
+    assert.deepEqual(mock.amount, { amount: '100.00', currency: 'USD' });
+
+    const payout = (await ok('business_payout', { bankId: bank.id, amount: '7.5' })).data;
+    assert.deepEqual(payout.amount, { amount: '7.50', currency: 'USD' });
+  });
+});
+
+describe('mcp-server: recipients & transfers', () => {
+  test('create_recipient, list_recipients, business_transfer', async () => {
+    emulator.fund('5.00');
+    const recipient = (await ok('create_recipient', { chain: 'ETH', address: ETH_ADDRESS, description: 'Treasury' })).data;
+    assert.deepEqual((await ok('list_recipients')).data.map((r: any) => r.id), [recipient.id]);
+    assert.deepEqual((await ok('list_recipients', { all: true })).data.map((r: any) => r.id), [recipient.id]);
+
+    const transfer = (await ok('business_transfer', { recipientId: recipient.id })).data;
+    assert.deepEqual(transfer.amount, { amount: '1.00', currency: 'USD' });
+  });
+});
+
+describe('mcp-server: notifications', () => {
+  test('create, list and delete subscriptions', async () => {
+    const subscription = (await ok('create_subscription', { endpoint: 'https://example.com/webhooks' })).data;
+    assert.deepEqual((await ok('list_subscriptions')).data.map((s: any) => s.id), [subscription.id]);
+
+    assert.deepEqual(await ok('delete_subscription', { id: subscription.id }), { deleted: true, id: subscription.id });
+    assert.deepEqual((await ok('list_subscriptions')).data, []);
+  });
+});
+
+describe('mcp-server: express route', () => {
+  test('each step tool', async () => {
+    const bank = (await ok('express_route_link_bank')).data;
+    const receipt = (await ok('express_route_link_receipt')).data;
+    const instructions = (await ok('get_wire_instructions', { bankAccountId: bank.id })).data;
+
+    const wire = await ok('express_route_mock_deposit', { bankAccountId: bank.id, amount: '50.00' });
+    assert.equal(wire.data.trackingRef, instructions.trackingRef);
+
+    const onchain = await ok('express_route_onchain_deposit', { address: receipt.address });
+    assert.deepEqual(onchain.data.amount, { amount: '10.00', currency: 'USD' });
+
+    const recipient = (await ok('create_recipient', { chain: 'ETH', address: ETH_ADDRESS, description: 'Route' })).data;
+    assert.equal((await ok('express_route_transfer', { recipientId: recipient.id })).data.destination.addressId, recipient.id);
+    assert.equal((await ok('express_route_withdraw', { bankAccountId: bank.id })).data.destination.id, bank.id);
+
+    const route = (await ok('express_route_create', { receiptAddressId: receipt.id, bankAccountId: bank.id })).data;
+    assert.equal(route.destinationBankAccountId, bank.id);
+  });
+
+  test('express_route_run_full', async () => {
+    const result = await ok('express_route_run_full', { amount: '20.00' });
+
+    assert.deepEqual(result, { message: 'Express Route full flow completed successfully' });
+  });
+});
+
+describe('mcp-server: waiting', () => {
+  const fast = { pollIntervalSeconds: 0.01, timeoutSeconds: 2 };
+
+  test('wait_for_* tools return the final resource', async () => {
+    const { bank } = await fundedBank(undefined, '50.00');
+    const bookEntry = (await ok('add_address_book_recipient', { chain: 'ETH', address: ETH_ADDRESS })).data;
+    const payout = (await ok('create_payout', { recipientId: bookEntry.id, amount: '1' })).data;
+    assert.equal((await ok('wait_for_payout', { id: payout.id, ...fast })).data.status, 'complete');
+
+    const bankPayout = (await ok('business_payout', { bankId: bank.id, amount: '2' })).data;
+    assert.equal((await ok('wait_for_business_payout', { id: bankPayout.id, ...fast })).data.status, 'complete');
+
+    const recipient = (await ok('create_recipient', { chain: 'ETH', address: ETH_ADDRESS, description: 'Treasury' })).data;
+    assert.equal((await ok('wait_for_recipient_verified', { id: recipient.id, ...fast })).data.status, 'active');
+    const transfer = (await ok('business_transfer', { recipientId: recipient.id })).data;
+    assert.equal((await ok('wait_for_business_transfer', { id: transfer.id, ...fast })).data.status, 'complete');
+
+    const address = (await ok('create_deposit_address', { chain: 'ETH' })).data;
+    await ok('express_route_onchain_deposit', { address: address.address, amount: '4.00' });
+    assert.equal((await ok('wait_for_deposit', { address: address.address, amount: '4', ...fast })).data.status, 'complete');
+  });
+
+  test('a received notification checks a wait again without waiting out the poll interval', async () => {
+    const address = (await ok('create_deposit_address', { chain: 'ETH' })).data;
+    const started = Date.now();
+    const waiting = ok('wait_for_deposit', { address: address.address, amount: '4', pollIntervalSeconds: 60, timeoutSeconds: 120 });
+
+    while (!emulator.requests.some(r => r.method === 'GET' && r.path.startsWith('/v1/deposits'))) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    await ok('express_route_onchain_deposit', { address: address.address, amount: '4.00' });
+    notificationWakeups.notify();
+
+    assert.equal((await waiting).data.status, 'complete');
+    assert.ok(Date.now() - started < 5000);
+  });
+
+  test('a wait that runs out reports the timeout', async () => {
+    const outcome = await call('wait_for_deposit', { address: '0xnothing', amount: '1', pollIntervalSeconds: 0.01, timeoutSeconds: 0.05 });
+
+    assert.equal(outcome.isError, true);
+    assert.match(outcome.texts[0], /Timed out after 50ms waiting for deposit of 1.00 USD to 0xnothing/);
+    assert.equal(JSON.parse(outcome.texts[1]).timedOut.timeoutMs, 50);
+  });
+});
+
+describe('mcp-server: approvals', () => {
+  test('request_payout proposes; approve_request refuses the agent\'s own requests but sends others\'', async () => {
+    emulator.fund('10.00');
+    const recipient = (await ok('add_address_book_recipient', { chain: 'ETH', address: ETH_ADDRESS })).data;
+
+    const proposed = await ok('request_payout', { recipientId: recipient.id, amount: '1' });
+    assert.deepEqual([proposed.status, proposed.requestedBy], ['pending', 'mcp-agent']);
+    const own = await call('approve_request', { requestId: proposed.id });
+    assert.equal(own.isError, true);
+    assert.equal(JSON.parse(own.texts[1]).paymentRequest.reason, 'self_approval');
+    assert.equal(emulator.requests.filter(r => r.path === '/v1/payouts').length, 0);
+
+    const fromDashboard = await new PaymentRequestQueue(new FilePaymentRequestStore(paymentRequestsPath)).submit(
+      { kind: 'payout', params: { destination: { type: 'address_book', id: recipient.id }, amount: { amount: '2.00', currency: 'USD' } } },
+      { requestedBy: 'olga' },
+    );
+    assert.deepEqual((await ok('list_payment_requests', { status: 'pending' })).map((r: any) => r.id), [proposed.id, fromDashboard.id]);
+    const approved = await ok('approve_request', { requestId: fromDashboard.id });
+    assert.deepEqual([approved.status, approved.decidedBy], ['executed', 'mcp-agent']);
+  });
+
+  test('with CIRCLE_REQUIRE_APPROVAL payouts are submitted, and Express Route and raw sends refused', async () => {
+    config.requireApproval = true;
+    try {
+      const payout = await ok('create_payout', { recipientId: 'any', amount: '1' });
+      assert.deepEqual([payout.kind, payout.status, payout.requestedBy], ['payout', 'pending', 'mcp-agent']);
+      assert.equal((await ok('business_payout', { bankId: 'any', amount: '2' })).kind, 'businessPayout');
+      assert.equal((await ok('business_transfer', { recipientId: 'any' })).kind, 'businessTransfer');
+
+      for (const name of ['express_route_transfer', 'express_route_withdraw', 'express_route_run_full']) {
+        const refused = await call(name, { recipientId: 'any', bankAccountId: 'any' });
+        assert.equal(refused.isError, true);
+        assert.deepEqual(JSON.parse(refused.texts[1]).approvalRequired, { reason: 'approval_required', action: name });
+      }
+      for (const path of ['/v1/payouts/', '/v1/businessAccount//payouts', '/v1/businessAccount/%70ayouts']) {
+        const raw = await call('circle_raw_request', { method: 'POST', path, body: { amount: { amount: '1.00', currency: 'USD' } } });
+        assert.equal(raw.isError, true);
+        assert.deepEqual(JSON.parse(raw.texts[1]).approvalRequired, { reason: 'approval_required', action: `POST ${path}` });
+      }
+      assert.equal(emulator.requests.filter(r => r.method === 'POST').length, 0);
+    } finally {
+      config.requireApproval = false;
+    }
+  });
+});
+
+describe('mcp-server: roles', () => {
+  test('by default the server is an operator: it proposes payouts but cannot send them', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const agent = new Client({ name: 'mcp-server-test-default', version: '1.0.0' });
+    await agent.connect(clientTransport);
+    try {
+      const names = (await agent.listTools()).tools.map(t => t.name);
+      assert.ok(names.includes('request_payout'));
+      assert.ok(!names.includes('create_payout'));
+    } finally {
+      await agent.close();
+    }
+  });
+
+  test('a viewer server lists only read tools and refuses the rest', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer({ role: 'viewer' }).connect(serverTransport);
+    const viewer = new Client({ name: 'mcp-server-test-viewer', version: '1.0.0' });
+    await viewer.connect(clientTransport);
+    try {
+      const names = (await viewer.listTools()).tools.map(t => t.name);
+      assert.ok(names.includes('list_payouts'));
+      assert.ok(!names.includes('create_payout'));
+
+      const result = await viewer.callTool({ name: 'create_payout', arguments: { addressId: 'any', amount: '1.00' } });
+      const texts = (result.content as { type: string; text: string }[]).map(c => c.text);
+      assert.equal(result.isError, true);
+      assert.equal(texts[0], 'Error: create_payout needs the approver role; you are a viewer');
+      assert.deepEqual(JSON.parse(texts[1]).forbidden.required, 'approver');
+
+      // Raw requests: reads only
+      const raw = await viewer.callTool({ name: 'circle_raw_request', arguments: { method: 'POST', path: '/v1/payouts', body: {} } });
+      assert.equal(raw.isError, true);
+      assert.match((raw.content as { text: string }[])[0].text, /circle_raw_request POST needs the approver role/);
+      assert.equal(emulator.requests.length, 0);
+    } finally {
+      await viewer.close();
+    }
+  });
+});
+
+describe('mcp-server: raw requests', () => {
+  test('circle_raw_request reads and writes allowed paths and refuses the rest', async () => {
+    emulator.fund('7.00');
+    assert.deepEqual((await ok('circle_raw_request', { method: 'GET', path: '/v1/businessAccount/balances' })).data.available, [
+      { amount: '7.00', currency: 'USD' },
+    ]);
+
+    const created = await ok('circle_raw_request', {
+      method: 'POST',
+      path: '/v1/notifications/subscriptions',
+      body: { endpoint: 'https://example.com/webhooks' },
+    });
+    assert.deepEqual(await ok('circle_raw_request', { method: 'DELETE', path: `/v1/notifications/subscriptions/${created.data.id}` }), { data: null });
+
+    const outside = await call('circle_raw_request', { method: 'GET', path: '/v1/w3s/wallets' });
+    assert.equal(outside.isError, true);
+    assert.equal(JSON.parse(outside.texts[1]).blocked.reason, 'raw_path_not_allowed');
+  });
+});
+
+describe('mcp-server: errors', () => {
+  test('Circle errors come back as isError with the structured error', async () => {
+    const outcome = await call('get_wire_instructions', { bankAccountId: 'missing' });
+
+    assert.equal(outcome.isError, true);
+    assert.match(outcome.texts[0], /^Error: Circle Mint API Error \(404/);
+    assert.equal(JSON.parse(outcome.texts[1]).status, 404);
+  });
+
+  test('malformed Circle responses come back as isError with schema issues', async () => {
+    emulator.failNext('GET', '/v1/wallets', 200, { data: {} });
+    const outcome = await call('get_wallets');
+
+    assert.equal(outcome.isError, true);
+    assert.deepEqual(JSON.parse(outcome.texts[1]).issues.map((i: any) => i.path), ['data']);
+  });
+
+  test('unknown tools are reported, not thrown', async () => {
+    const outcome = await call('no_such_tool');
+
+    assert.equal(outcome.isError, true);
+    assert.equal(outcome.texts[0], 'Error: Unknown tool: no_such_tool');
+    called.delete('no_such_tool');
+  });
+
+  test('every advertised tool is exercised by this suite', () => {
+    const missing = tools.map(t => t.name).filter(name => !called.has(name));
+    assert.deepEqual(missing, []);
+  });
+});
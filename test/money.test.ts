@@ -0,0 +1,70 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CurrencyMismatchError, InvalidAmountError, Money } from '../src/money.js';
+
+describe('Money.parse', () => {
+  test('formats at the currency precision', () => {
+    assert.equal(Money.parse('1', 'USD').toString(), '1.00');
+    assert.equal(Money.parse('1.5', 'EUR').toString(), '1.50');
+    assert.equal(Money.parse('0.00000001', 'BTC').toString(), '0.00000001');
+    assert.equal(Money.parse('2', 'ETH').toString(), '2.000000000000000000');
+  });
+
+  test('keeps amounts beyond float precision exact', () => {
+    assert.equal(Money.parse('90071992547409.93', 'USD').toString(), '90071992547409.93');
+    assert.equal(Money.parse('0.1', 'USD').plus(Money.parse('0.2', 'USD')).toString(), '0.30');
+  });
+
+  test('rejects anything that is not a plain decimal', () => {
+    for (const input of ['1,00', '1e3', '-1', '+1', ' 1', '1.', '.5', '', 'abc', '0x10', 1 as unknown]) {
+      assert.throws(() => Money.parse(input, 'USD'), InvalidAmountError, `accepted ${JSON.stringify(input)}`);
+    }
+  });
+
+  test('never rounds extra decimal places', () => {
+    assert.throws(() => Money.parse('1.005', 'USD'), /at most 2 decimal places/);
+    assert.equal(Money.parse('1.005', 'BTC').toString(), '1.00500000');
+  });
+
+  test('rejects unsupported currencies', () => {
+    assert.throws(() => Money.parse('1.00', 'XYZ'), /Unsupported currency "XYZ"/);
+  });
+
+  test('parsePositive rejects zero', () => {
+    assert.throws(() => Money.parsePositive('0.00', 'USD'), /greater than zero/);
+  });
+});
+
+describe('Money arithmetic', () => {
+  test('plus, minus and compare within a currency', () => {
+    const ten = Money.parse('10', 'USD');
+    const three = Money.parse('3.25', 'USD');
+
+    assert.equal(ten.minus(three).toString(), '6.75');
+    assert.equal(three.minus(ten).toString(), '-6.75');
+    assert.equal(ten.compare(three), 1);
+    assert.equal(three.compare(ten), -1);
+    assert.equal(ten.compare(Money.parse('10.00', 'USD')), 0);
+  });
+
+  test('refuses to mix currencies', () => {
+    assert.throws(() => Money.parse('1', 'USD').plus(Money.parse('1', 'EUR')), CurrencyMismatchError);
+  });
+
+  test('totals sums per currency without truncating decimals', () => {
+    const totals = Money.totals([
+      { amount: '1.50', currency: 'USD' },
+      { amount: '2.00', currency: 'EUR' },
+      { amount: '0.75', currency: 'USD' },
+    ]);
+
+    assert.deepEqual(totals.map(t => t.toAmount()), [
+      { amount: '2.25', currency: 'USD' },
+      { amount: '2.00', currency: 'EUR' },
+    ]);
+  });
+
+  test('serialises as a Circle amount', () => {
+    assert.equal(JSON.stringify({ amount: Money.parse('7', 'SGD') }), '{"amount":{"amount":"7.00","currency":"SGD"}}');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  describeNotification,
+  FileNotificationStore,
+  MemoryNotificationStore,
+  replayNotification,
+} from '../src/notification-store.js';
+
+function payout(id: string, status: string) {
+  return { clientId: 'c1', notificationType: 'payouts', version: 1, payout: { id, status, amount: { amount: '1.00', currency: 'USD' } } };
+}
+
+describe('notification store', () => {
+  test('describeNotification finds type, resource id and status', () => {
+    assert.deepEqual(describeNotification(payout('p1', 'pending')), { type: 'payouts', resourceId: 'p1', status: 'pending' });
+    assert.deepEqual(describeNotification({ notificationType: 'test', message: 'hi' }), { type: 'test' });
+    assert.deepEqual(describeNotification('not json'), { type: 'unknown' });
+  });
+
+  test('list filters by type, resource, status, time and id', async () => {
+    const store = new MemoryNotificationStore();
+    await store.append({ timestamp: '2026-01-01T00:00:00.000Z', payload: payout('p1', 'pending'), verification: {} });
+    await store.append({ timestamp: '2026-01-02T00:00:00.000Z', payload: payout('p1', 'complete'), verification: {} });
+    await store.append({ timestamp: '2026-01-03T00:00:00.000Z', payload: { notificationType: 'transfers', transfer: { id: 't1', status: 'complete' } }, verification: {} });
+
+    const ids = async (filter: Parameters<typeof store.list>[0]) => (await store.list(filter)).map(n => n.id);
+    assert.deepEqual(await ids({}), [1, 2, 3]);
+    assert.deepEqual(await ids({ resourceId: 'p1' }), [1, 2]);
+    assert.deepEqual(await ids({ status: 'complete' }), [2, 3]);
+    assert.deepEqual(await ids({ type: 'transfers' }), [3]);
+    assert.deepEqual(await ids({ since: '2026-01-02T00:00:00.000Z', until: '2026-01-03T00:00:00.000Z' }), [2]);
+    assert.deepEqual(await ids({ afterId: 1 }), [2, 3]);
+    assert.deepEqual(await ids({ limit: 2 }), [2, 3]);
+    assert.equal((await store.get(2))?.status, 'complete');
+  });
+
+  test('the file store survives a restart and keeps numbering', async () => {
+    const path = join(tmpdir(), `circle-notifications-test-${process.pid}.jsonl`);
+    try {
+      const first = new FileNotificationStore(path);
+      await Promise.all([
+        first.append({ timestamp: new Date().toISOString(), payload: payout('p1', 'pending'), verification: { verified: true } }),
+        first.append({ timestamp: new Date().toISOString(), payload: payout('p2', 'pending'), verification: { verified: true } }),
+      ]);
+
+      const restarted = new FileNotificationStore(path);
+      assert.deepEqual((await restarted.list()).map(n => [n.id, n.resourceId]), [[1, 'p1'], [2, 'p2']]);
+      assert.equal((await restarted.append({ timestamp: new Date().toISOString(), payload: payout('p3', 'pending'), verification: {} })).id, 3);
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  test('replayNotification posts the stored payload to another endpoint', async () => {
+    const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+    const consumer = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(202).end();
+      });
+    });
+    await new Promise<void>(resolve => consumer.listen(0, '127.0.0.1', resolve));
+    const endpoint = `http://127.0.0.1:${(consumer.address() as AddressInfo).port}/events`;
+
+    try {
+      const stored = await new MemoryNotificationStore().append({ timestamp: new Date().toISOString(), payload: payout('p1', 'complete'), verification: {} });
+      const result = await replayNotification(stored, endpoint);
+
+      assert.deepEqual(result, { notificationId: 1, endpoint, status: 202, ok: true });
+      assert.deepEqual(JSON.parse(received[0].body), payout('p1', 'complete'));
+      assert.equal(received[0].headers['x-circle-replay'], '1');
+      await assert.rejects(replayNotification(stored, 'file:///etc/passwd'), /must be http\(s\)/);
+      await assert.rejects(replayNotification(stored, 'nowhere'), /Invalid replay endpoint/);
+    } finally {
+      await new Promise<void>(resolve => consumer.close(() => resolve()));
+    }
+  });
+});
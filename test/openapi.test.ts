@@ -0,0 +1,25 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { API_CLIENT_PATH, generateApiClient, matchRoute, requestIssues } from '../src/openapi.js';
+
+describe('openapi', () => {
+  test('a fixed path wins over the parameterized one it overlaps', () => {
+    assert.equal(matchRoute('GET', '/api/notifications/subscriptions')?.route.operationId, 'listSubscriptions');
+    assert.deepEqual(matchRoute('POST', '/api/notifications/7/replay')?.params, { id: '7' });
+    assert.equal(matchRoute('PUT', '/api/payouts'), undefined);
+  });
+
+  test('query text is read as the number or flag its schema expects', () => {
+    const match = matchRoute('GET', '/api/deposits')!;
+    assert.deepEqual(requestIssues(match, { query: { pageSize: '10', all: 'true' }, body: undefined }), []);
+    assert.deepEqual(requestIssues(match, { query: { pageSize: '1.5', all: 'yes' }, body: undefined }), [
+      { path: 'query.pageSize', message: 'expected integer' },
+      { path: 'query.all', message: 'expected boolean, got string' },
+    ]);
+  });
+
+  test('api-client.ts is up to date (npm run generate:api-client)', () => {
+    assert.equal(readFileSync(API_CLIENT_PATH, 'utf8'), generateApiClient());
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { emulator } from './setup.js';
+import { ETH_ADDRESS, resetEmulator } from './helpers.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import { CircleApiError } from '../src/errors.js';
+import {
+  FilePaymentRequestStore,
+  MemoryPaymentRequestStore,
+  PaymentRequestError,
+  PaymentRequestQueue,
+  type PaymentRequestBody,
+  type PaymentRequestEvent,
+} from '../src/payment-requests.js';
+
+beforeEach(resetEmulator);
+
+async function payoutBody(client: CircleMintClient, amount = '1.00'): Promise<PaymentRequestBody> {
+  const { data } = await client.createAddressBookRecipient({ chain: 'ETH', address: ETH_ADDRESS, metadata: {} });
+  return { kind: 'payout', params: { destination: { type: 'address_book', id: data.id }, amount: { amount, currency: 'USD' } } };
+}
+
+const payoutPosts = () => emulator.requests.filter(r => r.method === 'POST' && r.path === '/v1/payouts');
+
+describe('PaymentRequestQueue', () => {
+  test('nothing is sent until a different user approves', async () => {
+    const events: PaymentRequestEvent[] = [];
+    const queue = new PaymentRequestQueue(new MemoryPaymentRequestStore(), event => events.push(event));
+    const client = new CircleMintClient();
+    emulator.fund('10.00');
+
+    const request = await queue.submit(await payoutBody(client), { requestedBy: 'olga' });
+    assert.equal(request.status, 'pending');
+    assert.match(request.params.idempotencyKey!, /^[0-9a-f-]{36}$/);
+    assert.equal(payoutPosts().length, 0);
+
+    await assert.rejects(queue.approve(request.id, 'olga', client), (e: PaymentRequestError) => e.reason === 'self_approval');
+    assert.equal(payoutPosts().length, 0);
+
+    const executed = await queue.approve(request.id, 'alex', client);
+    assert.deepEqual([executed.status, executed.decidedBy], ['executed', 'alex']);
+    assert.ok(executed.resourceId);
+    assert.deepEqual((payoutPosts()[0].body as any).idempotencyKey, request.params.idempotencyKey);
+
+    await assert.rejects(queue.approve(request.id, 'alex', client), (e: PaymentRequestError) => e.reason === 'not_pending');
+    assert.deepEqual(events.map(e => e.type), ['payment_request.submitted', 'payment_request.executed']);
+  });
+
+  test('two approvals at once send once', async () => {
+    const queue = new PaymentRequestQueue(new MemoryPaymentRequestStore());
+    const client = new CircleMintClient();
+    emulator.fund('10.00');
+    const request = await queue.submit(await payoutBody(client), { requestedBy: 'olga' });
+
+    const outcomes = await Promise.allSettled([queue.approve(request.id, 'alex', client), queue.approve(request.id, 'alex', client)]);
+    assert.deepEqual(outcomes.map(o => o.status).sort(), ['fulfilled', 'rejected']);
+    assert.equal(payoutPosts().length, 1);
+  });
+
+  test('a Circle 4xx fails the request; a 5xx leaves it pending to approve again', async () => {
+    const queue = new PaymentRequestQueue(new MemoryPaymentRequestStore());
+    const client = new CircleMintClient();
+    const refused = await queue.submit(await payoutBody(client), { requestedBy: 'olga' });
+    const retried = await queue.submit(await payoutBody(client), { requestedBy: 'olga' });
+
+    emulator.failNext('POST', '/v1/payouts', 400, { code: 2, message: 'Insufficient funds' });
+    await assert.rejects(queue.approve(refused.id, 'alex', client), CircleApiError);
+    const failed = await queue.get(refused.id);
+    assert.equal(failed?.status, 'failed');
+    assert.match(failed?.error ?? '', /Insufficient funds/);
+
+    emulator.failNext('POST', '/v1/payouts', 503, { code: -1, message: 'Unavailable' });
+    await assert.rejects(queue.approve(retried.id, 'alex', client), CircleApiError);
+    assert.equal((await queue.get(retried.id))?.status, 'pending');
+  });
+
+  test('rejecting records who and why', async () => {
+    const queue = new PaymentRequestQueue(new MemoryPaymentRequestStore());
+    const request = await queue.submit(await payoutBody(new CircleMintClient()), { requestedBy: 'olga' });
+
+    const rejected = await queue.reject(request.id, 'alex', 'wrong amount');
+    assert.deepEqual([rejected.status, rejected.decidedBy, rejected.reason], ['rejected', 'alex', 'wrong amount']);
+    assert.deepEqual((await queue.list({ status: 'pending' })).length, 0);
+    await assert.rejects(queue.reject('missing', 'alex'), (e: PaymentRequestError) => e.reason === 'not_found');
+  });
+
+  test('the file store is shared between queues, latest state winning', async () => {
+    const path = join(tmpdir(), `circle-payment-requests-test-${process.pid}.jsonl`);
+    try {
+      const maker = new PaymentRequestQueue(new FilePaymentRequestStore(path));
+      const checker = new PaymentRequestQueue(new FilePaymentRequestStore(path));
+      const request = await maker.submit(await payoutBody(new CircleMintClient()), { requestedBy: 'olga', profile: 'default' });
+
+      await checker.reject(request.id, 'alex');
+      const [seen] = await maker.list();
+      assert.deepEqual([seen.id, seen.status, seen.profile], [request.id, 'rejected', 'default']);
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync, writeFileSync } from 'fs';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { emulator, emulatorUrl, profilesPath } from './setup.js';
+import { resetEmulator } from './helpers.js';
+import { startEmulator, type RunningEmulator } from '../src/emulator.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import {
+  getProfile,
+  listProfiles,
+  loadProfiles,
+  ProfileConfigError,
+  takeProfileFlag,
+  UnknownProfileError,
+} from '../src/profiles.js';
+import { app } from '../src/server.js';
+import { createMcpServer } from '../src/mcp-server.js';
+
+// A second account, so tests can tell which one a profile reached
+let other: RunningEmulator;
+
+before(async () => {
+  other = await startEmulator(0, { settleDelayMs: 0 });
+});
+
+after(() => other.close());
+
+beforeEach(() => {
+  resetEmulator();
+  other.emulator.reset();
+  process.env.CIRCLE_TEST_PROD_KEY = 'prod-key-from-env';
+  writeProfiles({
+    profiles: {
+      other: { environment: 'local', baseUrl: other.url, description: 'Second emulator' },
+      prod: { environment: 'production', apiKeyEnv: 'CIRCLE_TEST_PROD_KEY' },
+    },
+  });
+});
+
+afterEach(() => {
+  rmSync(profilesPath, { force: true });
+  delete process.env.CIRCLE_PROFILE;
+  delete process.env.CIRCLE_TEST_PROD_KEY;
+});
+
+function writeProfiles(file: unknown): void {
+  writeFileSync(profilesPath, typeof file === 'string' ? file : JSON.stringify(file));
+}
+
+describe('profiles file', () => {
+  test('the CIRCLE_* variables always form the "default" profile', () => {
+    rmSync(profilesPath);
+
+    assert.deepEqual(getProfile(), { name: 'default', apiKey: 'test-api-key', environment: 'local', baseUrl: emulatorUrl });
+  });
+
+  test('resolves apiKeyEnv and the environment\'s base URL', () => {
+    assert.deepEqual(getProfile('prod'), {
+      name: 'prod',
+      apiKey: 'prod-key-from-env',
+      environment: 'production',
+      baseUrl: 'https://api.circle.com',
+    });
+    assert.equal(getProfile('other').description, 'Second emulator');
+  });
+
+  test('the default is CIRCLE_PROFILE, else the file\'s default, else "default"', () => {
+    assert.equal(loadProfiles().defaultName, 'default');
+
+    writeProfiles({ default: 'other', profiles: { other: { environment: 'local', baseUrl: other.url } } });
+    assert.equal(getProfile().name, 'other');
+
+    process.env.CIRCLE_PROFILE = 'default';
+    assert.equal(getProfile().name, 'default');
+  });
+
+  test('listProfiles never includes keys', () => {
+    const listed = listProfiles();
+
+    assert.deepEqual(listed.map(p => [p.name, p.hasApiKey, p.isDefault]), [
+      ['default', true, true],
+      ['other', true, false],
+      ['prod', true, false],
+    ]);
+    assert.ok(!JSON.stringify(listed).includes('prod-key-from-env'));
+  });
+
+  test('unknown names and invalid files are reported', () => {
+    assert.throws(() => getProfile('missing'), (error: unknown) =>
+      error instanceof UnknownProfileError && /Available profiles: default, other, prod/.test(error.message));
+
+    writeProfiles('{ not json');
+    assert.throws(() => getProfile(), ProfileConfigError);
+
+    writeProfiles({ profiles: { odd: { environment: 'staging' } } });
+    assert.throws(() => getProfile(), /profile "odd" has unknown environment "staging"/);
+  });
+
+  test('takeProfileFlag accepts both flag forms', () => {
+    assert.deepEqual(takeProfileFlag(['balance', '--profile', 'prod']), { profile: 'prod', args: ['balance'] });
+    assert.deepEqual(takeProfileFlag(['--profile=other', 'help']), { profile: 'other', args: ['help'] });
+    assert.deepEqual(takeProfileFlag(['balance']), { profile: undefined, args: ['balance'] });
+    assert.throws(() => takeProfileFlag(['--profile']), /--profile needs a value/);
+  });
+});
+
+describe('client configuration', () => {
+  test('an explicit config wins over profiles', async () => {
+    other.emulator.fund('4.00');
+    const client = new CircleMintClient({ config: { apiKey: 'explicit', environment: 'local', baseUrl: other.url } });
+
+    const { data } = await client.getBalance();
+
+    assert.deepEqual(data.available, [{ amount: '4.00', currency: 'USD' }]);
+    assert.equal(client.profile, undefined);
+    assert.equal(emulator.requests.length, 0);
+  });
+
+  test('a named profile selects the account', async () => {
+    const client = new CircleMintClient({ profile: 'other' });
+
+    await client.getWallets();
+
+    assert.equal(client.profile, 'other');
+    assert.equal(other.emulator.requests.length, 1);
+    assert.equal(emulator.requests.length, 0);
+  });
+});
+
+describe('profile selection in the dashboard and MCP', () => {
+  let server: Server;
+  let baseUrl: string;
+  let mcp: Client;
+
+  before(async () => {
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer({ role: 'approver' }).connect(serverTransport);
+    mcp = new Client({ name: 'profiles-test', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+  });
+
+  after(async () => {
+    await mcp.close();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  async function balance(headers?: Record<string, string>): Promise<{ status: number; json: any }> {
+    const response = await fetch(`${baseUrl}/api/balance`, { headers });
+    return { status: response.status, json: await response.json() };
+  }
+
+  test('GET /api/profiles lists profiles without keys', async () => {
+    const json: any = await (await fetch(`${baseUrl}/api/profiles`)).json();
+
+    assert.deepEqual(json.data.data.map((p: any) => p.name), ['default', 'other', 'prod']);
+    assert.ok(json.data.data.every((p: any) => !('apiKey' in p)));
+  });
+
+  test('X-Circle-Profile picks the account, unknown names are a 400', async () => {
+    emulator.fund('1.00');
+    other.emulator.fund('2.00');
+
+    assert.equal((await balance()).json.data.data.available[0].amount, '1.00');
+    assert.equal((await balance({ 'X-Circle-Profile': 'other' })).json.data.data.available[0].amount, '2.00');
+
+    const unknown = await balance({ 'X-Circle-Profile': 'missing' });
+    assert.equal(unknown.status, 400);
+    assert.match(unknown.json.error, /Unknown profile "missing"/);
+    assert.equal(emulator.requests.length + other.emulator.requests.length, 2);
+  });
+
+  test('MCP tools take a profile argument', async () => {
+    other.emulator.fund('2.00');
+
+    const result = await mcp.callTool({ name: 'get_balance', arguments: { profile: 'other' } });
+    const missing = await mcp.callTool({ name: 'get_balance', arguments: { profile: 'missing' } });
+
+    assert.deepEqual(JSON.parse((result.content as { text: string }[])[0].text).data.available, [{ amount: '2.00', currency: 'USD' }]);
+    assert.equal(missing.isError, true);
+    assert.match((missing.content as { text: string }[])[0].text, /Unknown profile "missing"/);
+  });
+});
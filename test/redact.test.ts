@@ -0,0 +1,50 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFieldRules, REDACTED, Redactor } from '../src/redact.js';
+
+describe('redaction', () => {
+  test('masks secrets and cuts account numbers to their last four digits', () => {
+    const redactor = new Redactor();
+    assert.deepEqual(redactor.value({
+      idempotencyKey: 'k1',
+      entitySecretCiphertext: 'abc',
+      recoveryFile: { data: 'xyz' },
+      billingDetails: { name: 'Jane' },
+      bankAccount: { accountNumber: '12340010', routingNumber: '121000248' },
+      nested: [{ apiKey: 'x', iban: 'DE89370400440532013000' }],
+      hasApiKey: true,
+    }), {
+      idempotencyKey: 'k1',
+      entitySecretCiphertext: REDACTED,
+      recoveryFile: REDACTED,
+      billingDetails: { name: 'Jane' },
+      bankAccount: { accountNumber: '…0010', routingNumber: '121000248' },
+      nested: [{ apiKey: REDACTED, iban: '…3000' }],
+      hasApiKey: true,
+    });
+  });
+
+  test('scrubs text: API keys, bearer tokens, registered secrets and printed JSON', () => {
+    const redactor = new Redactor();
+    redactor.addSecret('a'.repeat(64));
+    redactor.addSecret('short');
+
+    assert.equal(redactor.text('key SAND_API_KEY:abc123:def456 used'), `key ${REDACTED} used`);
+    assert.equal(redactor.text('Authorization: Bearer t0k3n.value'), `Authorization: Bearer ${REDACTED}`);
+    assert.equal(redactor.text(`ENTITY_SECRET=${'a'.repeat(64)}`), `ENTITY_SECRET=${REDACTED}`);
+    assert.equal(redactor.text('a short word'), 'a short word');
+    assert.equal(
+      redactor.text(JSON.stringify({ beneficiaryBank: { accountNumber: '12340010', name: 'CRCL' } }, null, 2)),
+      JSON.stringify({ beneficiaryBank: { accountNumber: '…0010', name: 'CRCL' } }, null, 2)
+    );
+  });
+
+  test('configured rules add fields and override the defaults', () => {
+    const redactor = new Redactor(parseFieldRules('taxId, routingNumber:last4, accountNumber:keep'));
+    assert.deepEqual(
+      redactor.value({ taxId: '123-45-6789', routingNumber: '121000248', accountNumber: '12340010' }),
+      { taxId: REDACTED, routingNumber: '…0248', accountNumber: '12340010' }
+    );
+    assert.throws(() => parseFieldRules('iban:hash'), /CIRCLE_REDACT_FIELDS/);
+  });
+});
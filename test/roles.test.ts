@@ -0,0 +1,40 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasRole, parseRoles, PermissionDeniedError, requiredRoleForTool, roleOf, ROLES, TOOL_ALLOWLIST } from '../src/roles.js';
+import { tools } from '../src/mcp-server.js';
+
+describe('roles', () => {
+  test('roles are cumulative', () => {
+    assert.equal(hasRole('approver', 'operator'), true);
+    assert.equal(hasRole('operator', 'operator'), true);
+    assert.equal(hasRole('viewer', 'operator'), false);
+  });
+
+  test('parseRoles reads user:role pairs and rejects unknown roles', () => {
+    assert.deepEqual([...parseRoles(' alice:approver , bob:viewer ')], [['alice', 'approver'], ['bob', 'viewer']]);
+    assert.throws(() => parseRoles('alice:admin'), /expected user:viewer\|operator\|approver/);
+  });
+
+  test('admin and local are approvers unless listed; anyone else is a viewer', () => {
+    const roles = parseRoles('admin:operator');
+    assert.equal(roleOf('admin', roles), 'operator');
+    assert.equal(roleOf('local', roles), 'approver');
+    assert.equal(roleOf('carol', roles), 'viewer');
+  });
+
+  test('every MCP tool is on an allowlist, and each role includes the one below', () => {
+    assert.deepEqual(tools.map(t => t.name).filter(name => !requiredRoleForTool(name)), []);
+    for (const [lower, higher] of [[ROLES[0], ROLES[1]], [ROLES[1], ROLES[2]]] as const) {
+      for (const tool of TOOL_ALLOWLIST[lower]) assert.ok(TOOL_ALLOWLIST[higher].has(tool), `${higher} lacks ${tool}`);
+    }
+    assert.equal(requiredRoleForTool('list_payouts'), 'viewer');
+    assert.equal(requiredRoleForTool('create_recipient'), 'operator');
+    assert.equal(requiredRoleForTool('create_payout'), 'approver');
+  });
+
+  test('PermissionDeniedError says what was needed', () => {
+    const error = new PermissionDeniedError('create_payout', 'viewer', 'approver');
+    assert.equal(error.message, 'create_payout needs the approver role; you are a viewer');
+    assert.deepEqual(error.toJSON(), { reason: 'forbidden', action: 'create_payout', role: 'viewer', required: 'approver' });
+  });
+});
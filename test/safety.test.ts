@@ -0,0 +1,264 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { rmSync, writeFileSync } from 'fs';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { emulator, emulatorUrl, profilesPath } from './setup.js';
+import { ETH_ADDRESS, resetEmulator } from './helpers.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import type { ClientConfig } from '../src/config.js';
+import {
+  canonicalPath,
+  isProduction,
+  MemorySpendLedger,
+  movesMoney,
+  parseAmountLimits,
+  parseRawPaths,
+  SafetyBlockedError,
+  SafetyGuard,
+  type BlockReason,
+  type SafetyPolicy,
+} from '../src/safety.js';
+import { app } from '../src/server.js';
+import { createMcpServer } from '../src/mcp-server.js';
+
+beforeEach(resetEmulator);
+
+const production = { name: 'live', apiKey: 'live-key', environment: 'production', baseUrl: 'https://api.circle.com' } as const;
+const sandbox = { name: 'sb', apiKey: 'sb-key', environment: 'sandbox', baseUrl: 'https://api-sandbox.circle.com' } as const;
+
+const open: SafetyPolicy = { readOnly: false, maxAmount: {}, dailyLimit: {} };
+
+function guard(target: ClientConfig & { name?: string }, policy: Partial<SafetyPolicy> = {}, confirm?: string, ledger = new MemorySpendLedger()) {
+  return new SafetyGuard(target, { ...open, ...policy }, ledger, confirm);
+}
+
+function payout(amount: string, currency = 'USD') {
+  return { idempotencyKey: crypto.randomUUID(), amount: { amount, currency } };
+}
+
+function blockedFor(reason: BlockReason) {
+  return (error: unknown) => error instanceof SafetyBlockedError && error.reason === reason;
+}
+
+describe('amount limits', () => {
+  test('parseAmountLimits reads per-currency and catch-all limits', () => {
+    assert.deepEqual(parseAmountLimits('USD:1000, EUR:500'), { USD: '1000', EUR: '500' });
+    assert.deepEqual(parseAmountLimits('250'), { '*': '250' });
+    assert.deepEqual(parseAmountLimits(''), {});
+    assert.throws(() => parseAmountLimits('USD:lots'), /Invalid amount format "lots" for USD/);
+  });
+});
+
+describe('safety guard', () => {
+  test('reads always pass', async () => {
+    assert.equal(await guard(production, { readOnly: true }).authorize('GET', '/v1/payouts'), undefined);
+  });
+
+  test('read-only refuses every write, in any environment', async () => {
+    await assert.rejects(guard(sandbox, { readOnly: true }).authorize('DELETE', '/v1/notifications/subscriptions/x'), blockedFor('read_only'));
+    await assert.rejects(guard({ ...sandbox, readOnly: true }).authorize('POST', '/v1/addressBook/recipients', {}), blockedFor('read_only'));
+  });
+
+  test('production refuses mock endpoints even when confirmed', async () => {
+    await assert.rejects(guard(production, {}, 'live').authorize('POST', '/v1/mocks/payments/wire', {}), blockedFor('mock_in_production'));
+  });
+
+  test('production writes need the confirmation token', async () => {
+    await assert.rejects(guard(production).authorize('POST', '/v1/addressBook/recipients', {}), blockedFor('confirmation_required'));
+    await assert.rejects(guard(production, {}, 'wrong').authorize('POST', '/v1/addressBook/recipients', {}), blockedFor('confirmation_required'));
+    assert.equal(await guard(production, {}, 'live').authorize('POST', '/v1/addressBook/recipients', {}), undefined);
+
+    // A configured token replaces the profile name
+    await assert.rejects(guard(production, { confirmToken: 's3cret' }, 'live').authorize('POST', '/v1/addressBook/recipients', {}), blockedFor('confirmation_required'));
+    assert.equal(await guard(production, { confirmToken: 's3cret' }, 's3cret').authorize('POST', '/v1/addressBook/recipients', {}), undefined);
+  });
+
+  test('an account on the production host is production whatever its label', async () => {
+    const mislabelled = { ...production, environment: 'sandbox', baseUrl: 'https://API.circle.com/' } as const;
+    assert.equal(isProduction(mislabelled), true);
+    assert.equal(isProduction(sandbox), false);
+
+    await assert.rejects(guard(mislabelled).authorize('POST', '/v1/addressBook/recipients', {}), blockedFor('confirmation_required'));
+    await assert.rejects(guard(mislabelled, {}, 'live').authorize('POST', '/v1/mocks/payments/wire', {}), blockedFor('mock_in_production'));
+    assert.throws(() => guard(mislabelled, {}, 'live').authorizeRaw('POST', '/v1/payouts'), blockedFor('raw_write_in_production'));
+  });
+
+  test('the per-operation limit applies per currency', async () => {
+    const limited = guard(production, { maxAmount: { USD: '1000' } }, 'live');
+
+    await assert.rejects(limited.authorize('POST', '/v1/payouts', payout('1000.01')), blockedFor('amount_limit'));
+    assert.ok(await limited.authorize('POST', '/v1/payouts', payout('1000.00')));
+    assert.ok(await limited.authorize('POST', '/v1/businessAccount/payouts', payout('5000.00', 'EUR')));
+  });
+
+  test('the daily limit counts recorded and in-flight spends for the same account', async () => {
+    const ledger = new MemorySpendLedger();
+    // Its own key: reservations are process-wide, so an account other tests also authorised against would share them
+    const limited = guard({ ...production, apiKey: 'daily-key' }, { dailyLimit: { '*': '1000' } }, 'live', ledger);
+
+    const first = await limited.authorize('POST', '/v1/businessAccount/transfers', payout('600.00'));
+    await limited.record(first!);
+    limited.release(first!);
+
+    const inFlight = await limited.authorize('POST', '/v1/payouts', payout('300.00'));
+    await assert.rejects(limited.authorize('POST', '/v1/payouts', payout('200.00')), blockedFor('daily_limit'));
+
+    limited.release(inFlight!);
+    assert.ok(await limited.authorize('POST', '/v1/payouts', payout('400.00')));
+
+    // Another account has its own tally
+    const other = guard({ ...production, name: 'other', apiKey: 'other-key' }, { dailyLimit: { '*': '1000' } }, 'other', ledger);
+    assert.ok(await other.authorize('POST', '/v1/payouts', payout('1000.00')));
+  });
+
+  test('limits only apply in production', async () => {
+    assert.equal(await guard(sandbox, { maxAmount: { '*': '1' } }).authorize('POST', '/v1/payouts', payout('5.00')), undefined);
+  });
+
+  test('a query string or trailing slash does not slip a payout past the limit', async () => {
+    const limited = guard(production, { maxAmount: { USD: '10' } }, 'live');
+    await assert.rejects(limited.authorize('POST', '/v1/payouts?x=1', payout('11.00')), blockedFor('amount_limit'));
+    await assert.rejects(limited.authorize('POST', '/v1/businessAccount/transfers/', payout('11.00')), blockedFor('amount_limit'));
+  });
+});
+
+describe('raw requests', () => {
+  test('only paths under an allowed prefix pass', () => {
+    const sandboxed = guard(sandbox);
+    sandboxed.authorizeRaw('GET', '/v1/businessAccount/balances');
+    sandboxed.authorizeRaw('GET', '/v1/wallets?pageSize=5');
+    sandboxed.authorizeRaw('GET', '/v1/payouts/abc');
+
+    for (const path of ['/v1/w3s/wallets', '/v1/walletsX', '/v1/businessAccount', '/v1/businessAccount/../w3s/wallets', '/v1/businessAccount/%2E%2E/w3s', '/v1/payouts\\..\\x']) {
+      assert.throws(() => sandboxed.authorizeRaw('GET', path), blockedFor('raw_path_not_allowed'), path);
+    }
+
+    const narrow = guard(sandbox, { rawPaths: parseRawPaths('/v1/stablecoins') });
+    narrow.authorizeRaw('GET', '/v1/stablecoins');
+    assert.throws(() => narrow.authorizeRaw('GET', '/v1/wallets'), blockedFor('raw_path_not_allowed'));
+    assert.throws(() => parseRawPaths('v1/wallets'), /CIRCLE_RAW_PATHS/);
+  });
+
+  test('a doubled slash or an escaped letter does not slip a payout past the checks', async () => {
+    const limited = guard(production, { maxAmount: { USD: '10' }, rawProductionWrites: true }, 'live');
+    for (const path of ['/v1/businessAccount//payouts', '/v1/businessAccount/%70ayouts']) {
+      assert.equal(canonicalPath(path), '/v1/businessAccount/payouts');
+      assert.equal(movesMoney('POST', path), true, path);
+      limited.authorizeRaw('POST', path);
+      await assert.rejects(limited.authorize('POST', path, payout('11.00')), blockedFor('amount_limit'), path);
+    }
+    assert.equal(canonicalPath('//v1/payouts?to=a//b%20c'), '/v1/payouts?to=a//b%20c');
+    assert.throws(() => guard(sandbox).authorizeRaw('GET', '/v1/businessAccount/%2Fpayouts'), blockedFor('raw_path_not_allowed'));
+  });
+
+  test('production refuses raw writes unless they are turned on', () => {
+    guard(production).authorizeRaw('GET', '/v1/payouts');
+    assert.throws(() => guard(production, {}, 'live').authorizeRaw('POST', '/v1/payouts'), blockedFor('raw_write_in_production'));
+    guard(production, { rawProductionWrites: true }).authorizeRaw('POST', '/v1/payouts');
+    guard(sandbox).authorizeRaw('DELETE', '/v1/notifications/subscriptions/x');
+  });
+});
+
+describe('client', () => {
+  test('a blocked call never reaches Circle', async () => {
+    const client = new CircleMintClient({ config: { apiKey: 'k', environment: 'local', baseUrl: emulatorUrl, readOnly: true } });
+
+    await assert.rejects(
+      client.createAddressBookRecipient({ chain: 'ETH', address: ETH_ADDRESS, metadata: {} }),
+      /Blocked by safety guard \(read_only\): POST \/v1\/addressBook\/recipients/
+    );
+    assert.equal(emulator.requests.length, 0);
+    await client.getWallets();
+    assert.equal(emulator.requests.length, 1);
+  });
+
+  test('a raw request is sent in the form it was checked in', async () => {
+    const client = new CircleMintClient({ config: { apiKey: 'k', environment: 'local', baseUrl: emulatorUrl } });
+    await client.raw('GET', '/v1//%77allets?pageSize=5');
+    assert.equal(emulator.requests.at(-1)?.path, '/v1/wallets?pageSize=5');
+  });
+
+  test('runFullFlow-style mocks are refused in production before any network call', async () => {
+    const client = new CircleMintClient({ config: production, confirm: 'production' });
+
+    await assert.rejects(
+      client.createMockWirePayment({ trackingRef: 'ref', amount: { amount: '1.00', currency: 'USD' }, beneficiaryBank: { accountNumber: '1' } }),
+      blockedFor('mock_in_production')
+    );
+  });
+});
+
+describe('blocked calls in the dashboard and MCP', () => {
+  let server: Server;
+  let baseUrl: string;
+  let mcp: Client;
+
+  before(async () => {
+    writeFileSync(profilesPath, JSON.stringify({
+      profiles: {
+        live: { environment: 'production', apiKey: 'live-key' },
+        viewer: { environment: 'local', baseUrl: emulatorUrl, readOnly: true },
+      },
+    }));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer({ role: 'approver' }).connect(serverTransport);
+    mcp = new Client({ name: 'safety-test', version: '1.0.0' });
+    await mcp.connect(clientTransport);
+  });
+
+  after(async () => {
+    rmSync(profilesPath, { force: true });
+    await mcp.close();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  async function post(path: string, body: unknown, headers: Record<string, string>): Promise<{ status: number; json: any }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, json: await response.json() };
+  }
+
+  test('the API answers 403 with the reason', async () => {
+    const unconfirmed = await post('/api/payouts', { recipientId: 'r1', amount: '1.00' }, { 'X-Circle-Profile': 'live' });
+    assert.equal(unconfirmed.status, 403);
+    assert.deepEqual(unconfirmed.json.blocked, {
+      reason: 'confirmation_required',
+      operation: 'POST /v1/payouts',
+      detail: 'writes to profile "live" need confirmation (CLI --confirm <token>, dashboard prompt or MCP "confirm" argument); the token is the profile name',
+    });
+
+    const mock = await post('/api/mocks/wire', { trackingRef: 'ref', accountNumber: '1' }, { 'X-Circle-Profile': 'live', 'X-Circle-Confirm': 'live' });
+    assert.equal(mock.status, 403);
+    assert.equal(mock.json.blocked.reason, 'mock_in_production');
+
+    const readOnly = await post('/api/recipients', { chain: 'ETH', address: ETH_ADDRESS, description: 'x' }, { 'X-Circle-Profile': 'viewer' });
+    assert.equal(readOnly.status, 403);
+    assert.equal(readOnly.json.blocked.reason, 'read_only');
+    assert.equal(emulator.requests.length, 0);
+  });
+
+  test('MCP tools report the block and advertise confirm on writes only', async () => {
+    const result = await mcp.callTool({ name: 'create_subscription', arguments: { endpoint: 'https://example.com/hook', profile: 'viewer' } });
+    const texts = (result.content as { text: string }[]).map(c => c.text);
+
+    assert.equal(result.isError, true);
+    assert.match(texts[0], /Blocked by safety guard \(read_only\)/);
+    assert.equal(JSON.parse(texts[1]).blocked.reason, 'read_only');
+
+    const { tools } = await mcp.listTools();
+    const props = (name: string) => tools.find(t => t.name === name)!.inputSchema.properties ?? {};
+    assert.ok('confirm' in props('create_payout'));
+    assert.ok(!('confirm' in props('get_balance')));
+  });
+});
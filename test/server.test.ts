@@ -0,0 +1,897 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { emulator } from './setup.js';
+import {
+  ETH_ADDRESS,
+  fundedBank,
+  localSnsCerts,
+  localWebhookKeys,
+  resetEmulator,
+  signWebhook,
+  SNS_TOPIC_ARN,
+  snsEnvelope,
+} from './helpers.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import { config } from '../src/config.js';
+import { CLIENT_METHODS } from '../src/explorer.js';
+import { app, configureWebhooks } from '../src/server.js';
+import { DashboardApiClient, DashboardApiError } from '../src/api-client.js';
+import { notificationWakeups, waitFor, type WaitCheck } from '../src/wait.js';
+
+let server: Server;
+let baseUrl: string;
+const confirmedUrls: string[] = [];
+
+before(async () => {
+  configureWebhooks({
+    publicKeys: localWebhookKeys,
+    signingCerts: localSnsCerts,
+    confirmSubscription: async url => { confirmedUrls.push(url); },
+  });
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(resetEmulator);
+
+/**
+ * Call the dashboard API and return status + parsed JSON body
+ */
+async function api(method: string, path: string, body?: unknown): Promise<{ status: number; json: any }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const text = await response.text();
+  return { status: response.status, json: text ? JSON.parse(text) : undefined };
+}
+
+describe('server: overview', () => {
+  test('GET /api/account returns wallets', async () => {
+    const { status, json } = await api('GET', '/api/account');
+
+    assert.equal(status, 200);
+    assert.equal(json.data.data[0].type, 'merchant');
+    assert.ok(Array.isArray(json.logs));
+  });
+
+  test('GET /api/balance returns the balance', async () => {
+    emulator.fund('3.00');
+    const { status, json } = await api('GET', '/api/balance');
+
+    assert.equal(status, 200);
+    assert.deepEqual(json.data.data.available, [{ amount: '3.00', currency: 'USD' }]);
+  });
+
+  test('GET /api/chains returns chains and currencies', async () => {
+    const { status, json } = await api('GET', '/api/chains');
+
+    assert.equal(status, 200);
+    assert.ok(json.data.currencies.includes('USDC'));
+  });
+});
+
+describe('server: deposits', () => {
+  test('GET /api/deposits lists deposits, one page or all', async () => {
+    await fundedBank(undefined, '10.00');
+    await fundedBank(undefined, '20.00');
+
+    const page = await api('GET', '/api/deposits?pageSize=1');
+    const all = await api('GET', '/api/deposits?pageSize=1&all=true');
+
+    assert.equal(page.json.data.data.length, 1);
+    assert.deepEqual(all.json.data.data.map((d: any) => d.amount.amount), ['20.00', '10.00']);
+  });
+
+  test('POST then GET /api/deposits/addresses', async () => {
+    const created = await api('POST', '/api/deposits/addresses', { chain: 'ETH' });
+    const listed = await api('GET', '/api/deposits/addresses');
+
+    assert.equal(created.status, 200);
+    assert.equal(created.json.data.data.currency, 'USD');
+    assert.deepEqual(listed.json.data.data.map((a: any) => a.id), [created.json.data.data.id]);
+  });
+});
+
+describe('server: payouts', () => {
+  test('address book: create, list, delete', async () => {
+    const created = await api('POST', '/api/payouts/address-book', { chain: 'ETH', address: ETH_ADDRESS, nickname: 'Ops' });
+    const id = created.json.data.data.id;
+    assert.equal(created.json.data.data.metadata.nickname, 'Ops');
+
+    const listed = await api('GET', '/api/payouts/address-book');
+    assert.deepEqual(listed.json.data.data.map((r: any) => r.id), [id]);
+
+    const deleted = await api('DELETE', `/api/payouts/address-book/${id}`);
+    assert.equal(deleted.status, 200);
+    assert.deepEqual((await api('GET', '/api/payouts/address-book?all=true')).json.data.data, []);
+  });
+
+  test('POST /api/payouts formats the amount and GET lists it', async () => {
+    emulator.fund('10.00');
+    const recipient = await api('POST', '/api/payouts/address-book', { chain: 'ETH', address: ETH_ADDRESS });
+
+    const created = await api('POST', '/api/payouts', { recipientId: recipient.json.data.data.id, amount: '1' });
+    const listed = await api('GET', '/api/payouts');
+
+    assert.equal(created.status, 200);
+    assert.deepEqual(created.json.data.data.amount, { amount: '1.00', currency: 'USD' });
+    assert.deepEqual(listed.json.data.data.map((p: any) => p.id), [created.json.data.data.id]);
+  });
+
+  test('created payouts are tracked and follow webhooks', async () => {
+    emulator.fund('10.00');
+    const recipient = await api('POST', '/api/payouts/address-book', { chain: 'ETH', address: ETH_ADDRESS });
+    const id = (await api('POST', '/api/payouts', { recipientId: recipient.json.data.data.id, amount: '2.00' })).json.data.data.id;
+
+    const tracked = await api('GET', `/api/tracker/${id}`);
+    assert.deepEqual([tracked.json.data.data.kind, tracked.json.data.data.status], ['payout', 'pending']);
+
+    const webhook = JSON.stringify({ notificationType: 'payouts', payout: { id, status: 'complete' } });
+    await fetch(`${baseUrl}/webhooks`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...signWebhook(webhook) }, body: webhook });
+
+    const updated = await api('GET', `/api/tracker/${id}`);
+    assert.deepEqual(updated.json.data.data.timeline.map((t: any) => [t.status, t.source]), [['pending', 'created'], ['complete', 'webhook']]);
+    assert.ok((await api('GET', '/api/tracker')).json.data.data.some((r: any) => r.id === id));
+    assert.equal((await api('GET', '/api/tracker/unknown')).status, 404);
+  });
+
+  test('POST /api/payouts rejects a malformed amount before calling Circle', async () => {
+    const { status, json } = await api('POST', '/api/payouts', { recipientId: 'any', amount: '1.005' });
+
+    assert.equal(status, 400);
+    assert.match(json.error, /Invalid amount format "1.005" for USD/);
+    assert.ok(!emulator.requests.some(r => r.method === 'POST'));
+  });
+
+  test('Circle 4xx errors keep their status and expose circleError', async () => {
+    const { status, json } = await api('POST', '/api/payouts', { recipientId: 'missing', amount: '1.00' });
+
+    assert.equal(status, 404);
+    assert.equal(json.circleError.status, 404);
+    assert.match(json.error, /Circle Mint API Error \(404/);
+  });
+});
+
+describe('server: wire bank accounts', () => {
+  test('create account, read instructions, mock a wire, pay out', async () => {
+    const bank = await api('POST', '/api/banks/wires', { billingName: 'Ada Lovelace' });
+    const bankId = bank.json.data.data.id;
+    assert.equal(bank.json.data.data.billingDetails.name, 'Ada Lovelace');
+
+    const listed = await api('GET', '/api/banks/wires');
+    assert.deepEqual(listed.json.data.data.map((b: any) => b.id), [bankId]);
+
+    const instructions = (await api('GET', `/api/banks/wires/${bankId}/instructions`)).json.data.data;
+    const mock = await api('POST', '/api/mocks/wire', {
+      trackingRef: instructions.trackingRef,
+      accountNumber: instructions.beneficiaryBank.accountNumber,
+    });
+    assert.equal(mock.status, 200);
+    assert.deepEqual(mock.json.data.data.amount, { amount: '100.00', currency: 'USD' });
+
+    const payout = await api('POST', '/api/payouts/wire', { bankId, amount: '12.5' });
+    assert.equal(payout.status, 200);
+    assert.deepEqual(payout.json.data.data.amount, { amount: '12.50', currency: 'USD' });
+  });
+
+  test('GET instructions for an unknown account is a 404', async () => {
+    const { status, json } = await api('GET', '/api/banks/wires/missing/instructions');
+
+    assert.equal(status, 404);
+    assert.equal(json.circleError.endpoint, '/v1/businessAccount/banks/wires/missing/instructions');
+  });
+});
+
+describe('server: recipients & transfers', () => {
+  test('create and list recipients, then transfer', async () => {
+    emulator.fund('5.00');
+    const recipient = await api('POST', '/api/recipients', { chain: 'ETH', address: ETH_ADDRESS, description: 'Treasury' });
+    const id = recipient.json.data.data.id;
+
+    const page = await api('GET', '/api/recipients');
+    const all = await api('GET', '/api/recipients?all=true');
+    assert.deepEqual(page.json.data.data.map((r: any) => r.id), [id]);
+    assert.deepEqual(all.json.data.data.map((r: any) => r.id), [id]);
+
+    const transfer = await api('POST', '/api/transfers/business', { recipientId: id });
+    assert.equal(transfer.status, 200);
+    assert.deepEqual(transfer.json.data.data.amount, { amount: '1.00', currency: 'USD' });
+  });
+});
+
+describe('server: express route', () => {
+  test('each step route', async () => {
+    const bank = (await api('POST', '/api/express-route/link-bank', {})).json.data.data;
+    const receipt = (await api('POST', '/api/express-route/link-receipt', {})).json.data.data;
+    assert.equal(receipt.chain, 'ETH');
+
+    const instructions = (await api('GET', `/api/banks/wires/${bank.id}/instructions`)).json.data.data;
+    const wire = await api('POST', '/api/express-route/mock-deposit', {
+      trackingRef: instructions.trackingRef,
+      amount: '50.00',
+      accountNumber: instructions.beneficiaryBank.accountNumber,
+    });
+    assert.equal(wire.status, 200);
+
+    const onchain = await api('POST', '/api/express-route/onchain-deposit', { address: receipt.address, chain: 'ETH', amount: '5.00' });
+    assert.equal(onchain.json.data.data.address, receipt.address);
+
+    const recipient = (await api('POST', '/api/recipients', { chain: 'ETH', address: ETH_ADDRESS, description: 'Route' })).json.data.data;
+    const transfer = await api('POST', '/api/express-route/transfer', { recipientId: recipient.id });
+    assert.equal(transfer.status, 200);
+
+    const withdraw = await api('POST', '/api/express-route/withdraw', { bankAccountId: bank.id });
+    assert.deepEqual(withdraw.json.data.data.amount, { amount: '10.00', currency: 'USD' });
+
+    const route = await api('POST', '/api/express-route/create', { receiptAddressId: receipt.id, bankAccountId: bank.id });
+    assert.equal(route.json.data.data.receiptAddressId, receipt.id);
+  });
+
+  test('POST /api/express-route/run runs the full flow', async () => {
+    const { status, json } = await api('POST', '/api/express-route/run', { amount: '20.00' });
+
+    assert.equal(status, 200);
+    assert.equal(json.error, undefined);
+    assert.ok(emulator.requests.some(r => r.method === 'POST' && r.path === '/v1/businessAccount/expressRoute'));
+  });
+});
+
+describe('server: notifications', () => {
+  test('subscriptions: create, list, delete', async () => {
+    const created = await api('POST', '/api/notifications/subscriptions', { endpoint: 'https://example.com/webhooks' });
+    const id = created.json.data.data.id;
+
+    const listed = await api('GET', '/api/notifications/subscriptions');
+    assert.deepEqual(listed.json.data.data.map((s: any) => s.id), [id]);
+
+    const deleted = await api('DELETE', `/api/notifications/subscriptions/${id}`);
+    assert.equal(deleted.status, 200);
+    assert.deepEqual((await api('GET', '/api/notifications/subscriptions')).json.data.data, []);
+  });
+
+  test('HEAD /webhooks answers 200 for Circle endpoint verification', async () => {
+    const response = await fetch(`${baseUrl}/webhooks`, { method: 'HEAD' });
+    assert.equal(response.status, 200);
+  });
+
+  /**
+   * Subscribe to /api/events; `readUntil` resolves once the stream contains the text
+   */
+  async function openEvents(headers: Record<string, string> = {}) {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/api/events`, { headers, signal: controller.signal });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const events = {
+      response,
+      received: '',
+      async readUntil(needle: string) {
+        while (!events.received.includes(needle)) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          events.received += decoder.decode(value);
+        }
+      },
+      close: () => controller.abort(),
+    };
+    await events.readUntil('event: connected');
+    return events;
+  }
+
+  function postWebhook(body: string, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}/webhooks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+    });
+  }
+
+  test('webhooks and test notifications are pushed to /api/events', async () => {
+    const events = await openEvents();
+    assert.match(events.response.headers.get('content-type') ?? '', /^text\/event-stream/);
+
+    const webhook = JSON.stringify({ notificationType: 'payouts', payout: { id: 'p1' } });
+    assert.equal((await postWebhook(webhook, signWebhook(webhook))).status, 200);
+    await events.readUntil('"p1"');
+    await api('POST', '/api/test-notification');
+    await events.readUntil('"test"');
+    events.close();
+
+    assert.match(events.received, /event: notification\ndata: .*"notificationType":"payouts".*"verification":\{"verified":true,"keyId":"test-webhook-key"/);
+    assert.match(events.received, /"notificationType":"test".*"verified":false/);
+  });
+
+  test('unsigned or tampered webhooks are rejected and reported on /api/events', async () => {
+    const events = await openEvents();
+    const signed = JSON.stringify({ notificationType: 'payouts', payout: { id: 'p1', status: 'pending' } });
+    const forged = JSON.stringify({ notificationType: 'payouts', payout: { id: 'p1', status: 'complete' } });
+
+    const unsigned = await postWebhook(forged);
+    const tampered = await postWebhook(forged, signWebhook(signed));
+    await events.readUntil('invalid_signature');
+    events.close();
+
+    assert.equal(unsigned.status, 401);
+    assert.equal(tampered.status, 401);
+    assert.match(events.received, /event: rejected\ndata: .*"reason":"missing_signature"/);
+    assert.match(events.received, /event: rejected\ndata: .*"reason":"invalid_signature","keyId":"test-webhook-key"/);
+    assert.doesNotMatch(events.received, /event: notification/);
+  });
+
+  test('received notifications are stored and can be listed, filtered and fetched', async () => {
+    const pending = JSON.stringify({ notificationType: 'payouts', payout: { id: 'stored-1', status: 'pending' } });
+    const complete = JSON.stringify({ notificationType: 'payouts', payout: { id: 'stored-1', status: 'complete' } });
+    await postWebhook(pending, signWebhook(pending));
+    await postWebhook(complete, signWebhook(complete));
+
+    const listed = await api('GET', '/api/notifications?resourceId=stored-1');
+    assert.deepEqual(listed.json.data.data.map((n: any) => [n.type, n.status]), [['payouts', 'pending'], ['payouts', 'complete']]);
+    assert.equal((await api('GET', '/api/notifications?resourceId=stored-1&status=complete')).json.data.data.length, 1);
+
+    const id = listed.json.data.data[1].id;
+    const fetched = await api('GET', `/api/notifications/${id}`);
+    assert.equal(fetched.json.data.data.payload.payout.status, 'complete');
+    assert.equal(fetched.json.data.data.verification.verified, true);
+    assert.equal((await api('GET', '/api/notifications/999999')).status, 404);
+  });
+
+  test('a reconnect with Last-Event-ID gets the notifications it missed', async () => {
+    const before = await api('GET', '/api/notifications?limit=1');
+    const lastSeen = before.json.data.data[0]?.id ?? 0;
+    const missed = JSON.stringify({ notificationType: 'transfers', transfer: { id: 'missed-1', status: 'complete' } });
+    await postWebhook(missed, signWebhook(missed));
+
+    const events = await openEvents({ 'Last-Event-ID': String(lastSeen) });
+    await events.readUntil('"missed-1"');
+    events.close();
+
+    assert.match(events.received, new RegExp(`id: ${lastSeen + 1}\nevent: notification\ndata: .*"resourceId":"missed-1"`));
+  });
+
+  test('a stored notification can be replayed to another endpoint', async () => {
+    const stored = (await api('GET', '/api/notifications?limit=1')).json.data.data[0];
+    const replayed = await api('POST', `/api/notifications/${stored.id}/replay`, { endpoint: `${baseUrl}/api/test-notification` });
+    assert.deepEqual(replayed.json.data.data, { notificationId: stored.id, endpoint: `${baseUrl}/api/test-notification`, status: 200, ok: true });
+
+    assert.equal((await api('POST', '/api/notifications/999999/replay', { endpoint: baseUrl })).status, 404);
+    assert.equal((await api('POST', `/api/notifications/${stored.id}/replay`, { endpoint: 'ftp://example.com' })).status, 400);
+  });
+
+  function postSns(envelope: object) {
+    return fetch(`${baseUrl}/webhooks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain; charset=UTF-8', 'x-amz-sns-message-type': (envelope as { Type: string }).Type },
+      body: JSON.stringify(envelope),
+    });
+  }
+
+  test('a received notification wakes waits for its resource', async () => {
+    let checks = 0;
+    const check = async (): Promise<WaitCheck<number>> => ++checks > 1 ? { state: 'done', value: checks } : { state: 'pending' };
+    const waiting = waitFor('payout p3', check, { pollIntervalMs: 60_000, timeoutMs: 120_000, wakeup: notificationWakeups.for('p3') });
+
+    const message = JSON.stringify({ notificationType: 'payouts', payout: { id: 'p3', status: 'complete' } });
+    assert.equal((await postSns(snsEnvelope('Notification', { Message: message }))).status, 200);
+    assert.equal(await waiting, 2);
+  });
+
+  test('SNS subscription confirmations are confirmed automatically', async () => {
+    confirmedUrls.length = 0;
+    const events = await openEvents();
+    const confirmation = snsEnvelope('SubscriptionConfirmation');
+
+    assert.equal((await postSns(confirmation)).status, 200);
+    await events.readUntil('"state":"confirmed"');
+    events.close();
+
+    assert.deepEqual(confirmedUrls, [confirmation.SubscribeURL]);
+    assert.match(events.received, /event: subscription\ndata: .*"state":"confirming"/);
+    const listed = await api('GET', '/api/notifications/sns');
+    assert.deepEqual(listed.json.data.data.map((s: any) => [s.topicArn, s.state]), [[SNS_TOPIC_ARN, 'confirmed']]);
+  });
+
+  test('with auto-confirm off, the dashboard confirms', async () => {
+    confirmedUrls.length = 0;
+    config.snsAutoConfirm = false;
+    try {
+      assert.equal((await postSns(snsEnvelope('SubscriptionConfirmation', { Token: 'token-2' }))).status, 200);
+    } finally {
+      config.snsAutoConfirm = true;
+    }
+    assert.equal((await api('GET', '/api/notifications/sns')).json.data.data[0].state, 'awaiting_confirmation');
+    assert.deepEqual(confirmedUrls, []);
+
+    const confirmed = await api('POST', '/api/notifications/sns/confirm', { topicArn: SNS_TOPIC_ARN });
+    assert.equal(confirmed.json.data.data.state, 'confirmed');
+    assert.equal(confirmedUrls.length, 1);
+  });
+
+  test('SNS notifications are unwrapped; forged envelopes are rejected', async () => {
+    confirmedUrls.length = 0;
+    const events = await openEvents();
+    const message = JSON.stringify({ notificationType: 'payouts', payout: { id: 'p2', status: 'complete' } });
+    const forged = { ...snsEnvelope('SubscriptionConfirmation'), SubscribeURL: 'https://evil.example/confirm' };
+
+    assert.equal((await postSns(snsEnvelope('Notification', { Message: message }))).status, 200);
+    const otherTopic = snsEnvelope('SubscriptionConfirmation', { TopicArn: 'arn:aws:sns:us-east-1:123456789012:attacker' });
+
+    assert.equal((await postSns(forged)).status, 401);
+    assert.equal((await postSns(otherTopic)).status, 401);
+    await events.readUntil('untrusted_topic');
+    events.close();
+
+    assert.match(events.received, /event: notification\ndata: .*"payload":\{"notificationType":"payouts","payout":\{"id":"p2"/);
+    assert.match(events.received, /"verification":\{"verified":true,"via":"sns"/);
+    assert.match(events.received, /event: rejected\ndata: .*"reason":"untrusted_url"/);
+    assert.match(events.received, /event: rejected\ndata: .*"reason":"untrusted_topic"/);
+    assert.deepEqual(confirmedUrls, []);
+  });
+});
+
+describe('server: authentication', () => {
+  beforeEach(() => {
+    config.dashboardPassword = 'hunter2';
+    config.dashboardTokens = 'alice:alice-token';
+  });
+
+  afterEach(() => {
+    config.dashboardPassword = '';
+    config.dashboardTokens = '';
+  });
+
+  test('API calls need a session or bearer token once credentials are configured', async () => {
+    const anonymous = await api('GET', '/api/balance');
+    assert.equal(anonymous.status, 401);
+    assert.equal(anonymous.json.loginRequired, true);
+
+    const bearer = await fetch(`${baseUrl}/api/me`, { headers: { Authorization: 'Bearer alice-token' } });
+    assert.deepEqual(((await bearer.json()) as any).data, { name: 'alice', via: 'token', role: 'viewer' });
+    const wrongToken = await fetch(`${baseUrl}/api/me`, { headers: { Authorization: 'Bearer hunter2' } });
+    assert.equal(wrongToken.status, 401);
+  });
+
+  test('login sets a session cookie that logout ends', async () => {
+    assert.equal((await api('POST', '/api/login', { password: 'wrong' })).status, 401);
+
+    const login = await fetch(`${baseUrl}/api/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: 'hunter2' }),
+    });
+    const setCookie = login.headers.get('set-cookie') ?? '';
+    assert.match(setCookie, /HttpOnly; SameSite=Strict/);
+    const cookie = setCookie.split(';')[0];
+
+    const me = await fetch(`${baseUrl}/api/me`, { headers: { cookie: `other=%E0%A4%A; ${cookie}` } });
+    assert.deepEqual(((await me.json()) as any).data, { name: 'admin', via: 'session', role: 'approver' });
+
+    await fetch(`${baseUrl}/api/logout`, { method: 'POST', headers: { cookie } });
+    assert.equal((await fetch(`${baseUrl}/api/me`, { headers: { cookie } })).status, 401);
+  });
+
+  test('the generated client keeps the session cookie from login until logout', async () => {
+    const client = new DashboardApiClient({ baseUrl });
+    assert.equal((await client.getMe().catch(err => err)).status, 401);
+
+    assert.equal((await client.login({ password: 'hunter2' })).data.name, 'admin');
+    assert.deepEqual((await client.getMe()).data, { name: 'admin', via: 'session', role: 'approver' });
+
+    await client.logout();
+    assert.equal((await client.getMe().catch(err => err)).status, 401);
+  });
+
+  test('/webhooks stays open to Circle', async () => {
+    const webhook = JSON.stringify({ notificationType: 'payouts', payout: { id: 'auth-exempt' } });
+    const response = await fetch(`${baseUrl}/webhooks`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...signWebhook(webhook) }, body: webhook });
+    assert.equal(response.status, 200);
+  });
+
+  test('without credentials, proxied requests are not treated as local', async () => {
+    config.dashboardPassword = '';
+    config.dashboardTokens = '';
+    assert.equal((await api('GET', '/api/me')).json.data.name, 'local');
+    const proxied = await fetch(`${baseUrl}/api/me`, { headers: { 'X-Forwarded-For': '203.0.113.9' } });
+    assert.equal(proxied.status, 401);
+  });
+
+  test('cross-origin browsers are not let in unless listed', async () => {
+    const response = await fetch(`${baseUrl}/api/me`, { headers: { Origin: 'https://evil.example', Authorization: 'Bearer alice-token' } });
+    assert.equal(response.headers.get('access-control-allow-origin'), null);
+  });
+});
+
+describe('server: roles', () => {
+  beforeEach(() => {
+    config.dashboardTokens = 'vera:vera-token,olga:olga-token';
+    config.dashboardRoles = 'olga:operator';
+  });
+
+  afterEach(() => {
+    config.dashboardTokens = '';
+    config.dashboardRoles = '';
+  });
+
+  async function as(token: string, method: string, path: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, ...(body ? { 'Content-Type': 'application/json' } : {}) },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, json: (await response.json()) as any };
+  }
+
+  test('viewers read but cannot create anything', async () => {
+    assert.equal((await as('vera-token', 'GET', '/api/recipients')).status, 200);
+
+    const denied = await as('vera-token', 'POST', '/api/recipients', { address: ETH_ADDRESS, chain: 'ETH', description: 'x' });
+    assert.equal(denied.status, 403);
+    assert.deepEqual(denied.json.forbidden, { reason: 'forbidden', action: 'POST /api/recipients', role: 'viewer', required: 'operator' });
+  });
+
+  test('operators create recipients but only approvers send money', async () => {
+    emulator.fund('10.00');
+    const created = await as('olga-token', 'POST', '/api/recipients', { address: ETH_ADDRESS, chain: 'ETH', description: 'x' });
+    assert.equal(created.status, 200);
+
+    const denied = await as('olga-token', 'POST', '/api/transfers/business', { recipientId: created.json.data.data.id, amount: '1.00' });
+    assert.equal(denied.status, 403);
+    assert.match(denied.json.error, /POST \/api\/transfers\/business needs the approver role; you are an operator/);
+    assert.equal(emulator.requests.filter(r => r.path === '/v1/transfers').length, 0);
+  });
+});
+
+describe('server: payment requests', () => {
+  beforeEach(() => {
+    config.dashboardTokens = 'olga:olga-token,alex:alex-token';
+    config.dashboardRoles = 'olga:operator,alex:approver';
+  });
+
+  afterEach(() => {
+    config.dashboardTokens = '';
+    config.dashboardRoles = '';
+    config.requireApproval = false;
+  });
+
+  async function as(token: string, method: string, path: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, ...(body ? { 'Content-Type': 'application/json' } : {}) },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, json: (await response.json()) as any };
+  }
+
+  test('an operator submits, a different approver approves, and only then Circle is called', async () => {
+    emulator.fund('10.00');
+    const recipient = await as('olga-token', 'POST', '/api/payouts/address-book', { chain: 'ETH', address: ETH_ADDRESS });
+    const submitted = await as('olga-token', 'POST', '/api/payouts', {
+      recipientId: recipient.json.data.data.id, amount: '2', requestApproval: true,
+    });
+    assert.equal(submitted.status, 200);
+    const request = submitted.json.data.data;
+    assert.deepEqual([request.status, request.requestedBy, request.params.amount], ['pending', 'olga', { amount: '2.00', currency: 'USD' }]);
+    assert.equal(emulator.requests.filter(r => r.path === '/v1/payouts').length, 0);
+
+    assert.equal((await as('olga-token', 'POST', `/api/payment-requests/${request.id}/approve`, {})).status, 403);
+    assert.deepEqual((await as('olga-token', 'GET', '/api/payment-requests?status=pending')).json.data.data.map((r: any) => r.id), [request.id]);
+
+    const approved = await as('alex-token', 'POST', `/api/payment-requests/${request.id}/approve`, {});
+    assert.equal(approved.status, 200);
+    assert.deepEqual([approved.json.data.data.status, approved.json.data.data.decidedBy], ['executed', 'alex']);
+    assert.equal((await as('alex-token', 'GET', `/api/tracker/${approved.json.data.data.resourceId}`)).status, 200);
+
+    const again = await as('alex-token', 'POST', `/api/payment-requests/${request.id}/approve`, {});
+    assert.equal(again.status, 409);
+    assert.equal(again.json.paymentRequest.reason, 'not_pending');
+  });
+
+  test('with CIRCLE_REQUIRE_APPROVAL every transfer waits, and approvers cannot approve their own', async () => {
+    config.requireApproval = true;
+    const submitted = await as('alex-token', 'POST', '/api/transfers/business', { recipientId: 'any', amount: '1.00' });
+    assert.equal(submitted.json.data.data.kind, 'businessTransfer');
+
+    const own = await as('alex-token', 'POST', `/api/payment-requests/${submitted.json.data.data.id}/approve`, {});
+    assert.equal(own.status, 403);
+    assert.equal(own.json.paymentRequest.reason, 'self_approval');
+
+    const rejected = await as('alex-token', 'POST', `/api/payment-requests/${submitted.json.data.data.id}/reject`, { reason: 'typo' });
+    assert.deepEqual([rejected.json.data.data.status, rejected.json.data.data.reason], ['rejected', 'typo']);
+    assert.equal((await as('alex-token', 'GET', '/api/payment-requests/missing')).status, 404);
+    assert.equal(emulator.requests.filter(r => r.path === '/v1/businessAccount/transfers').length, 0);
+  });
+
+  test('with CIRCLE_REQUIRE_APPROVAL the Express Route money steps are refused', async () => {
+    config.requireApproval = true;
+    const transfer = await as('alex-token', 'POST', '/api/express-route/transfer', { recipientId: 'any', amount: '1.00' });
+    assert.equal(transfer.status, 403);
+    assert.deepEqual(transfer.json.approvalRequired, { reason: 'approval_required', action: 'POST /api/express-route/transfer' });
+    assert.equal((await as('alex-token', 'POST', '/api/express-route/withdraw', { bankAccountId: 'any', amount: '1.00' })).status, 403);
+    assert.equal((await as('alex-token', 'POST', '/api/express-route/run', {})).status, 403);
+    assert.equal(emulator.requests.length, 0);
+  });
+
+  test('without approval, operators still cannot send money directly', async () => {
+    const direct = await as('olga-token', 'POST', '/api/payouts/wire', { bankId: 'any', amount: '5.00' });
+    assert.equal(direct.status, 403);
+    assert.equal(direct.json.forbidden.required, 'approver');
+  });
+});
+
+describe('server: request logging', () => {
+  test('concurrent requests each get only their own log lines and correlation id', async () => {
+    const body = { chain: 'ETH', address: ETH_ADDRESS, idempotencyKey: crypto.randomUUID() };
+    await api('POST', '/api/payouts/address-book', body);
+
+    const call = (path: string, correlationId: string, init: RequestInit = {}) =>
+      fetch(`${baseUrl}${path}`, { ...init, headers: { 'Content-Type': 'application/json', 'X-Correlation-Id': correlationId } });
+    const [replayed, balance] = await Promise.all([
+      call('/api/payouts/address-book', 'replay-1', { method: 'POST', body: JSON.stringify(body) }),
+      call('/api/balance', 'balance-1'),
+    ]);
+    const replayedJson = (await replayed.json()) as any;
+    const balanceJson = (await balance.json()) as any;
+
+    assert.equal(replayed.headers.get('X-Correlation-Id'), 'replay-1');
+    assert.equal(replayedJson.correlationId, 'replay-1');
+    assert.equal(replayedJson.logs.length, 1);
+    assert.match(replayedJson.logs[0], /replayed from journal/);
+    assert.deepEqual([balanceJson.correlationId, balanceJson.logs], ['balance-1', []]);
+  });
+
+  test('a correlation id is generated when none (or a malformed one) is sent', async () => {
+    const response = await fetch(`${baseUrl}/api/balance`, { headers: { 'X-Correlation-Id': 'not ok\n' } });
+    assert.match(response.headers.get('X-Correlation-Id')!, /^[0-9a-f-]{36}$/);
+  });
+});
+
+describe('server: audit log', () => {
+  afterEach(() => {
+    config.dashboardTokens = '';
+  });
+
+  test('records calls as the signed-in user and serves them filtered', async () => {
+    config.dashboardTokens = 'alice:alice-token';
+    const headers = { Authorization: 'Bearer alice-token' };
+    await fetch(`${baseUrl}/api/balance`, { headers });
+
+    const response = await fetch(`${baseUrl}/api/audit?actor=dashboard:alice&endpoint=/v1/balances&limit=1`, { headers });
+    const [entry] = ((await response.json()) as any).data.data;
+    assert.deepEqual([entry.actor, entry.method, entry.endpoint, entry.outcome], ['dashboard:alice', 'GET', '/v1/balances', 'ok']);
+
+    const verified = await fetch(`${baseUrl}/api/audit/verify`, { headers });
+    assert.equal(((await verified.json()) as any).data.data.ok, true);
+  });
+});
+
+describe('server: request validation', () => {
+  test('a missing chain or a non-numeric amount is a 422 listing the fields, and Circle is not called', async () => {
+    const address = await api('POST', '/api/deposits/addresses', { currency: 'USD' });
+    assert.equal(address.status, 422);
+    assert.deepEqual(address.json.fields, [{ path: 'body.chain', message: 'is required' }]);
+
+    const payout = await api('POST', '/api/payouts', { recipientId: '', amount: 'ten', currency: 'XYZ' });
+    assert.equal(payout.status, 422);
+    assert.deepEqual(payout.json.fields.map((f: any) => f.path), ['body.recipientId', 'body.amount', 'body.currency']);
+    assert.match(payout.json.error, /^Invalid request: body\.recipientId must not be empty/);
+    assert.equal(emulator.requests.filter(r => r.method === 'POST').length, 0);
+  });
+
+  test('query and path parameters are checked as numbers where they are numbers', async () => {
+    assert.deepEqual((await api('GET', '/api/payouts?pageSize=abc')).json.fields, [
+      { path: 'query.pageSize', message: 'expected integer, got string' },
+    ]);
+    assert.equal((await api('GET', '/api/payouts?pageSize=5')).status, 200);
+    assert.equal((await api('GET', '/api/notifications/abc')).status, 422);
+    assert.equal((await api('GET', '/api/notifications/12345')).status, 404);
+  });
+
+  test('the OpenAPI document describes every route the server serves', async () => {
+    const { status, json: spec } = await api('GET', '/api/openapi.json');
+    assert.equal(status, 200);
+    assert.equal(spec.openapi, '3.0.3');
+
+    const served = (app.router.stack as any[])
+      .filter(layer => layer.route?.path.startsWith('/api/'))
+      .flatMap(layer => Object.keys(layer.route.methods).map(method => `${method} ${layer.route.path.replace(/:(\w+)/g, '{$1}')}`));
+    const documented = Object.entries(spec.paths).flatMap(([path, operations]) => Object.keys(operations as object).map(method => `${method} ${path}`));
+    assert.deepEqual(served.sort(), documented.sort());
+    assert.equal(spec.paths['/api/payouts'].post.requestBody.content['application/json'].schema.required.includes('amount'), true);
+    assert.deepEqual(spec.paths['/api/balance'].get.responses[200].content['application/json'].schema.allOf[1].properties.data.properties.data, {
+      $ref: '#/components/schemas/Balance',
+    });
+    assert.deepEqual(spec.components.schemas.Balance.required, ['available', 'unsettled']);
+  });
+
+  test('the generated client calls the API and throws on a 422', async () => {
+    emulator.fund('4.00');
+    const client = new DashboardApiClient({ baseUrl });
+    assert.deepEqual((await client.getBalance()).data?.data.available, [{ amount: '4.00', currency: 'USD' }]);
+
+    const error: unknown = await client.createPayout({ recipientId: 'r1', amount: '1,00' }).catch(err => err);
+    assert.ok(error instanceof DashboardApiError);
+    assert.equal(error.status, 422);
+    assert.deepEqual(error.body?.fields?.map(field => field.path), ['body.amount']);
+  });
+});
+
+describe('server: API explorer', () => {
+  async function preview(method: string, path: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'X-Circle-Preview': 'true', ...(body ? { 'Content-Type': 'application/json' } : {}) },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, json: (await response.json()) as any };
+  }
+
+  test('X-Circle-Preview answers with the redacted Circle request and sends nothing', async () => {
+    const { status, json } = await preview('POST', '/api/payouts', { recipientId: 'r1', amount: '5' });
+    assert.equal(status, 200);
+    assert.equal(json.data, null);
+    assert.equal(json.preview.method, 'POST');
+    assert.match(json.preview.url, /\/v1\/payouts$/);
+    assert.equal(json.preview.headers.Authorization, 'Bearer [REDACTED]');
+    assert.deepEqual(json.preview.body.amount, { amount: '5.00', currency: 'USD' });
+    assert.deepEqual(json.preview.body.destination, { type: 'address_book', id: 'r1' });
+    assert.equal(emulator.requests.filter(r => r.method === 'POST').length, 0);
+
+    const list = await preview('GET', '/api/payouts?pageSize=5');
+    assert.match(list.json.preview.url, /\/v1\/payouts\?pageSize=5$/);
+    assert.equal(list.json.preview.body, undefined);
+  });
+
+  test('routes that do not make a single Circle request cannot be previewed', async () => {
+    const { status, json } = await preview('POST', '/api/express-route/run', {});
+    assert.equal(status, 400);
+    assert.match(json.error, /cannot be previewed/);
+  });
+
+  test('client methods are listed with their schemas, and can be previewed or called', async () => {
+    const { json } = await api('GET', '/api/explorer/methods');
+    const transfer = json.data.data.find((m: any) => m.name === 'createBusinessTransfer');
+    assert.equal(transfer.role, 'approver');
+    assert.deepEqual(transfer.args.required, ['destination', 'amount']);
+
+    const previewed = await preview('POST', '/api/explorer/methods/createBusinessTransfer', {
+      destination: { type: 'verified_blockchain', addressId: 'a1' },
+      amount: { amount: '1.00', currency: 'USD' },
+    });
+    assert.match(previewed.json.preview.url, /\/v1\/businessAccount\/transfers$/);
+    assert.equal(emulator.requests.length, 0);
+
+    emulator.fund('3.00');
+    const balance = await api('POST', '/api/explorer/methods/getBalance', {});
+    assert.deepEqual(balance.json.data.data.available, [{ amount: '3.00', currency: 'USD' }]);
+
+    const invalid = await api('POST', '/api/explorer/methods/getPayout', { id: '' });
+    assert.equal(invalid.status, 422);
+    assert.deepEqual(invalid.json.fields, [{ path: 'body.id', message: 'must not be empty' }]);
+    assert.equal((await api('POST', '/api/explorer/methods/request', {})).status, 404);
+  });
+
+  test('a viewer previews a payment method but cannot send it', async () => {
+    config.dashboardTokens = 'vera:vera-token';
+    try {
+      const as = (headers: Record<string, string>) => fetch(`${baseUrl}/api/explorer/methods/createPayout`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer vera-token', 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ destination: { type: 'address_book', id: 'r1' }, amount: { amount: '1.00', currency: 'USD' } }),
+      });
+      assert.equal((await as({ 'X-Circle-Preview': 'true' })).status, 200);
+      const denied = await as({});
+      assert.equal(denied.status, 403);
+      assert.equal(((await denied.json()) as any).forbidden.action, 'CircleMintClient.createPayout');
+      assert.equal(emulator.requests.length, 0);
+    } finally {
+      config.dashboardTokens = '';
+    }
+  });
+
+  test('the explorer offers every client method that makes a request', () => {
+    // raw() has its own route, /api/raw
+    const internal = new Set(['constructor', 'newIdempotencyKey', 'raw', 'request', 'recordAudit', 'reportCreated', 'dispatch', 'journaled', 'send', 'fetchWithRetry', 'headers', 'withKey', 'paginate']);
+    const methods = Object.getOwnPropertyNames(CircleMintClient.prototype)
+      .filter(name => !internal.has(name) && !/^(waitFor|iterate)/.test(name));
+    assert.deepEqual(CLIENT_METHODS.map(m => m.name).sort(), methods.sort());
+  });
+});
+
+describe('server: raw requests', () => {
+  afterEach(() => {
+    config.dashboardTokens = '';
+    config.requireApproval = false;
+  });
+
+  test('POST /api/raw calls any allowed Circle path, audited like any other call', async () => {
+    emulator.fund('6.00');
+    const { status, json } = await api('POST', '/api/raw', { method: 'GET', path: '/v1/businessAccount/balances' });
+    assert.equal(status, 200);
+    assert.deepEqual(json.data.data.available, [{ amount: '6.00', currency: 'USD' }]);
+
+    const created = await api('POST', '/api/raw', { method: 'POST', path: '/v1/notifications/subscriptions', body: { endpoint: 'https://example.com/hook' } });
+    assert.equal(created.json.data.data.endpoint, 'https://example.com/hook');
+    const deleted = await api('POST', '/api/raw', { method: 'DELETE', path: `/v1/notifications/subscriptions/${created.json.data.data.id}` });
+    assert.deepEqual([deleted.status, deleted.json.data], [200, null]);
+
+    const audited = await api('GET', '/api/audit?endpoint=/v1/notifications/subscriptions&method=POST&limit=1');
+    assert.equal(audited.json.data.data[0].request.endpoint, 'https://example.com/hook');
+  });
+
+  test('paths outside CIRCLE_RAW_PATHS are refused, and so are bad methods', async () => {
+    const outside = await api('POST', '/api/raw', { method: 'GET', path: '/v1/w3s/wallets' });
+    assert.equal(outside.status, 403);
+    assert.equal(outside.json.blocked.reason, 'raw_path_not_allowed');
+
+    const method = await api('POST', '/api/raw', { method: 'TRACE', path: '/v1/wallets' });
+    assert.equal(method.status, 422);
+    assert.deepEqual(method.json.fields.map((f: any) => f.path), ['body.method']);
+    assert.equal(emulator.requests.length, 0);
+  });
+
+  test('raw requests can be previewed', async () => {
+    const response = await fetch(`${baseUrl}/api/raw`, {
+      method: 'POST',
+      headers: { 'X-Circle-Preview': 'true', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ method: 'POST', path: '/v1/payouts', body: { amount: { amount: '1.00', currency: 'USD' } } }),
+    });
+    const json = (await response.json()) as any;
+    assert.match(json.preview.url, /\/v1\/payouts$/);
+    assert.deepEqual(json.preview.body, { amount: { amount: '1.00', currency: 'USD' } });
+    assert.equal(emulator.requests.length, 0);
+  });
+
+  test('viewers only read, and payouts wait for approval when it is required', async () => {
+    config.dashboardTokens = 'vera:vera-token';
+    const as = (body: unknown) => fetch(`${baseUrl}/api/raw`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer vera-token', 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    assert.equal((await as({ method: 'GET', path: '/v1/wallets' })).status, 200);
+    const denied = await as({ method: 'POST', path: '/v1/notifications/subscriptions', body: { endpoint: 'https://example.com/hook' } });
+    assert.equal(denied.status, 403);
+    assert.equal(((await denied.json()) as any).forbidden.action, 'POST /v1/notifications/subscriptions');
+
+    config.dashboardTokens = '';
+    config.requireApproval = true;
+    for (const path of ['/v1/payouts', '/v1/businessAccount//payouts', '/v1/businessAccount/%70ayouts']) {
+      const held = await api('POST', '/api/raw', { method: 'POST', path, body: { amount: { amount: '1.00', currency: 'USD' } } });
+      assert.equal(held.status, 403);
+      assert.match(held.json.error, /needs approval/);
+      assert.deepEqual(held.json.approvalRequired, { reason: 'approval_required', action: `POST ${path}` });
+    }
+    assert.equal(emulator.requests.filter(r => r.method === 'POST').length, 0);
+  });
+});
+
+describe('server: errors', () => {
+  test('Circle 5xx becomes 502', async () => {
+    emulator.failNext('GET', '/v1/wallets', 503, { code: -1, message: 'Unavailable' });
+    const { status, json } = await api('GET', '/api/account');
+
+    assert.equal(status, 502);
+    assert.equal(json.circleError.status, 503);
+  });
+
+  test('a malformed Circle response becomes 502 with schema issues', async () => {
+    emulator.failNext('GET', '/v1/wallets', 200, { data: [{ walletId: 1 }] });
+    const { status, json } = await api('GET', '/api/account');
+
+    assert.equal(status, 502);
+    assert.deepEqual(json.issues.map((i: any) => i.path).sort(), ['data[0].entityId', 'data[0].walletId']);
+  });
+
+  test('unknown /api routes return a JSON 404', async () => {
+    const { status, json } = await api('GET', '/api/nope');
+
+    assert.equal(status, 404);
+    assert.deepEqual(json, { error: 'API route not found' });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Test setup — preloaded with `--import` (see `npm test`)
+ *
+ * Starts an emulator on a random loopback port and points config.ts at it
+ * before any test module imports the client. Preloading matters: config.ts
+ * reads the environment once at import time.
+ */
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { startEmulator } from '../src/emulator.js';
+
+const running = await startEmulator(0, { settleDelayMs: 0 });
+running.server.unref();
+
+process.env.CIRCLE_ENV = 'local';
+process.env.CIRCLE_BASE_URL = running.url;
+process.env.CIRCLE_API_KEY = 'test-api-key';
+process.env.CIRCLE_RETRY_MAX_ATTEMPTS = '1';
+process.env.CIRCLE_STRICT_RESPONSES = 'true';
+
+// Each test file runs in its own process; give each a throwaway replay journal
+export const journalPath = join(tmpdir(), `circle-idempotency-${process.pid}.jsonl`);
+process.env.CIRCLE_IDEMPOTENCY_JOURNAL = journalPath;
+process.on('exit', () => rmSync(journalPath, { force: true }));
+
+// …a spend ledger…
+export const spendLedgerPath = join(tmpdir(), `circle-spend-${process.pid}.jsonl`);
+process.env.CIRCLE_SPEND_LEDGER = spendLedgerPath;
+process.on('exit', () => rmSync(spendLedgerPath, { force: true }));
+
+// …a notification store…
+export const notificationStorePath = join(tmpdir(), `circle-notifications-${process.pid}.jsonl`);
+process.env.CIRCLE_NOTIFICATION_STORE = notificationStorePath;
+process.on('exit', () => rmSync(notificationStorePath, { force: true }));
+
+// …a payment request queue…
+export const paymentRequestsPath = join(tmpdir(), `circle-payment-requests-${process.pid}.jsonl`);
+process.env.CIRCLE_PAYMENT_REQUESTS = paymentRequestsPath;
+process.on('exit', () => rmSync(paymentRequestsPath, { force: true }));
+
+// …an audit log…
+export const auditLogPath = join(tmpdir(), `circle-audit-${process.pid}.jsonl`);
+process.env.CIRCLE_AUDIT_LOG = auditLogPath;
+process.on('exit', () => rmSync(auditLogPath, { force: true }));
+
+// …and a profiles file path of its own, so a developer's circle.profiles.json is never read
+export const profilesPath = join(tmpdir(), `circle-profiles-${process.pid}.json`);
+process.env.CIRCLE_PROFILES_FILE = profilesPath;
+process.on('exit', () => rmSync(profilesPath, { force: true }));
+
+export const emulator = running.emulator;
+export const emulatorUrl = running.url;
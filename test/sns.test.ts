@@ -0,0 +1,117 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { localSnsCerts, SNS_TOPIC_ARN, snsEnvelope } from './helpers.js';
+import {
+  isAllowedTopic,
+  isSnsUrl,
+  parseSnsEnvelope,
+  parseSnsTopics,
+  snsStringToSign,
+  SnsSubscriptions,
+  SnsVerificationError,
+  unwrapSnsMessage,
+  verifySnsEnvelope,
+  type SnsRejection,
+  type SnsSubscription,
+} from '../src/sns.js';
+
+function rejectedFor(reason: SnsRejection) {
+  return (error: unknown) => error instanceof SnsVerificationError && error.reason === reason;
+}
+
+describe('SNS envelopes', () => {
+  test('only HTTPS SNS hosts are trusted', () => {
+    assert.ok(isSnsUrl('https://sns.us-east-1.amazonaws.com/cert.pem'));
+    assert.ok(isSnsUrl('https://sns.cn-north-1.amazonaws.com.cn/cert.pem'));
+    assert.ok(!isSnsUrl('http://sns.us-east-1.amazonaws.com/cert.pem'));
+    assert.ok(!isSnsUrl('https://sns.us-east-1.amazonaws.com.evil.example/cert.pem'));
+    assert.ok(!isSnsUrl('https://evil.example/sns.us-east-1.amazonaws.com'));
+    assert.ok(!isSnsUrl('not a url'));
+  });
+
+  test('parseSnsEnvelope rejects bodies that are not envelopes', () => {
+    assert.throws(() => parseSnsEnvelope('nope'), rejectedFor('malformed_envelope'));
+    assert.throws(() => parseSnsEnvelope(JSON.stringify({ Type: 'Other' })), rejectedFor('malformed_envelope'));
+    assert.throws(() => parseSnsEnvelope(JSON.stringify({ Type: 'Notification', MessageId: 'm1' })), /TopicArn is missing/);
+    assert.equal(parseSnsEnvelope(JSON.stringify(snsEnvelope('Notification'))).Type, 'Notification');
+  });
+
+  test('the string to sign lists the signed fields in order, skipping absent ones', () => {
+    const envelope = snsEnvelope('Notification', { MessageId: 'm1', Message: '{"a":1}', Timestamp: 't' });
+    assert.equal(snsStringToSign(envelope), `Message\n{"a":1}\nMessageId\nm1\nTimestamp\nt\nTopicArn\n${SNS_TOPIC_ARN}\nType\nNotification\n`);
+  });
+
+  test('signed envelopes verify; anything else is rejected with a reason', async () => {
+    await verifySnsEnvelope(snsEnvelope('Notification'), localSnsCerts);
+    await verifySnsEnvelope(snsEnvelope('SubscriptionConfirmation'), localSnsCerts);
+
+    const tampered = { ...snsEnvelope('Notification', { Message: '{"status":"pending"}' }), Message: '{"status":"complete"}' };
+    await assert.rejects(verifySnsEnvelope(tampered, localSnsCerts), rejectedFor('invalid_signature'));
+    await assert.rejects(
+      verifySnsEnvelope(snsEnvelope('Notification', { SigningCertURL: 'https://evil.example/cert.pem' }), localSnsCerts),
+      rejectedFor('untrusted_url')
+    );
+    await assert.rejects(
+      verifySnsEnvelope(snsEnvelope('SubscriptionConfirmation', { SubscribeURL: 'https://evil.example/confirm' }), localSnsCerts),
+      rejectedFor('untrusted_url')
+    );
+    await assert.rejects(
+      verifySnsEnvelope(snsEnvelope('Notification', { SigningCertURL: 'https://sns.eu-west-1.amazonaws.com/other.pem' }), localSnsCerts),
+      rejectedFor('unknown_certificate')
+    );
+    await assert.rejects(
+      verifySnsEnvelope({ ...snsEnvelope('Notification'), SignatureVersion: '3' as '1' }, localSnsCerts),
+      rejectedFor('unsupported_signature_version')
+    );
+  });
+
+  test('only Circle topics, or the ones configured, are accepted', async () => {
+    assert.ok(isAllowedTopic(SNS_TOPIC_ARN, parseSnsTopics('')));
+    assert.ok(isAllowedTopic('arn:aws:sns:us-east-1:123456789012:mine', parseSnsTopics('123456789012')));
+    assert.ok(isAllowedTopic('arn:aws:sns:us-east-1:123456789012:mine', parseSnsTopics('arn:aws:sns:us-east-1:123456789012:mine')));
+    assert.ok(!isAllowedTopic('arn:aws:sns:us-east-1:123456789012:other', parseSnsTopics('arn:aws:sns:us-east-1:123456789012:mine')));
+    assert.ok(!isAllowedTopic(SNS_TOPIC_ARN, parseSnsTopics('123456789012')));
+    assert.ok(!isAllowedTopic('908968368384', parseSnsTopics('')));
+
+    const elsewhere = snsEnvelope('SubscriptionConfirmation', { TopicArn: 'arn:aws:sns:us-east-1:123456789012:attacker' });
+    await assert.rejects(verifySnsEnvelope(elsewhere, localSnsCerts), rejectedFor('untrusted_topic'));
+  });
+
+  test('unwrapSnsMessage parses the Circle payload', () => {
+    assert.deepEqual(unwrapSnsMessage(snsEnvelope('Notification', { Message: '{"notificationType":"payouts"}' })), { notificationType: 'payouts' });
+    assert.equal(unwrapSnsMessage(snsEnvelope('Notification', { Message: 'plain text' })), 'plain text');
+  });
+});
+
+describe('SNS subscriptions', () => {
+  test('confirm visits the SubscribeURL and records each state', async () => {
+    const changes: SnsSubscription[] = [];
+    const visited: string[] = [];
+    const subscriptions = new SnsSubscriptions(s => changes.push(s));
+
+    subscriptions.update(SNS_TOPIC_ARN, { state: 'awaiting_confirmation', subscribeUrl: 'https://sns.us-east-1.amazonaws.com/?confirm' });
+    const confirmed = await subscriptions.confirm(SNS_TOPIC_ARN, async url => { visited.push(url); });
+
+    assert.deepEqual(visited, ['https://sns.us-east-1.amazonaws.com/?confirm']);
+    assert.equal(confirmed.state, 'confirmed');
+    assert.deepEqual(changes.map(s => s.state), ['awaiting_confirmation', 'confirming', 'confirmed']);
+    assert.deepEqual(subscriptions.list(), [confirmed]);
+  });
+
+  test('a failed confirmation keeps the error until the next attempt', async () => {
+    const subscriptions = new SnsSubscriptions();
+    subscriptions.update(SNS_TOPIC_ARN, { state: 'awaiting_confirmation', subscribeUrl: 'https://sns.us-east-1.amazonaws.com/?confirm' });
+
+    const failed = await subscriptions.confirm(SNS_TOPIC_ARN, async () => { throw new Error('SNS answered HTTP 403'); });
+    assert.equal(failed.state, 'confirmation_failed');
+    assert.equal(failed.error, 'SNS answered HTTP 403');
+
+    const retried = await subscriptions.confirm(SNS_TOPIC_ARN, async () => {});
+    assert.equal(retried.state, 'confirmed');
+    assert.equal(retried.error, undefined);
+  });
+
+  test('confirming an unknown topic throws', async () => {
+    await assert.rejects(new SnsSubscriptions().confirm('arn:aws:sns:us-east-1:1:unknown', async () => {}), /No pending SNS subscription/);
+  });
+});
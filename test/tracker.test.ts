@@ -0,0 +1,138 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { auditLogPath, emulator } from './setup.js';
+import { ETH_ADDRESS, fundedBank, resetEmulator } from './helpers.js';
+import { fileAuditLog } from '../src/audit.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import { TransactionTracker, type TrackerEvent } from '../src/tracker.js';
+
+beforeEach(resetEmulator);
+
+/**
+ * A tracker that never polls on its own, and a client that reports to it
+ */
+function tracked(options: { maxPolls?: number } = {}) {
+  const events: TrackerEvent[] = [];
+  const tracker = new TransactionTracker(event => events.push(event), { pollIntervalMs: 60_000, ...options });
+  const client = new CircleMintClient({ onCreated: created => tracker.track(created) });
+  return { tracker, client, events };
+}
+
+async function addressBookRecipient(client: CircleMintClient): Promise<string> {
+  const { data } = await client.createAddressBookRecipient({ chain: 'ETH', address: ETH_ADDRESS, metadata: {} });
+  return data.id;
+}
+
+async function pendingPayout(client: CircleMintClient): Promise<string> {
+  emulator.fund('10.00');
+  const { data: payout } = await client.createPayout({
+    idempotencyKey: crypto.randomUUID(),
+    destination: { type: 'address_book', id: await addressBookRecipient(client) },
+    amount: { amount: '1.00', currency: 'USD' },
+  });
+  return payout.id;
+}
+
+describe('TransactionTracker', () => {
+  test('records payouts created through the client and polls them to a final status', async () => {
+    const { tracker, client, events } = tracked();
+    emulator.fund('10.00');
+    const { data: payout } = await client.createPayout({
+      idempotencyKey: crypto.randomUUID(),
+      destination: { type: 'address_book', id: await addressBookRecipient(client) },
+      amount: { amount: '1.00', currency: 'USD' },
+    });
+
+    assert.deepEqual(tracker.list().map(r => [r.kind, r.id, r.status]), [['payout', payout.id, 'pending']]);
+    await tracker.pollOnce();
+    tracker.stop();
+
+    const resource = tracker.get(payout.id)!;
+    assert.equal(resource.status, 'complete');
+    assert.equal(resource.terminal, true);
+    assert.deepEqual(resource.timeline.map(t => [t.status, t.source]), [['pending', 'created'], ['complete', 'poll']]);
+    assert.deepEqual(events.map(e => e.type), ['tracker.tracked', 'tracker.status']);
+  });
+
+  test('business payouts and transfers are tracked too; reads are not', async () => {
+    const { tracker, client } = tracked();
+    const { bank } = await fundedBank(client, '50.00');
+    await client.createBusinessPayout({
+      idempotencyKey: crypto.randomUUID(),
+      destination: { type: 'wire', id: bank.id },
+      amount: { amount: '5.00', currency: 'USD' },
+    });
+    await client.getBalance();
+    tracker.stop();
+
+    assert.deepEqual(tracker.list().map(r => r.kind), ['businessPayout']);
+  });
+
+  test('a webhook moves the status before the next poll, and a late one never reopens it', async () => {
+    const { tracker, client, events } = tracked();
+    emulator.fund('10.00');
+    const { data: payout } = await client.createPayout({
+      idempotencyKey: crypto.randomUUID(),
+      destination: { type: 'address_book', id: await addressBookRecipient(client) },
+      amount: { amount: '1.00', currency: 'USD' },
+    });
+
+    tracker.observe({ resourceId: payout.id, status: 'complete' });
+    tracker.observe({ resourceId: payout.id, status: 'pending' });
+    assert.equal(tracker.observe({ resourceId: 'someone-else', status: 'complete' }), undefined);
+    await tracker.pollOnce();
+    tracker.stop();
+
+    assert.deepEqual(tracker.get(payout.id)!.timeline.map(t => [t.status, t.source]), [['pending', 'created'], ['complete', 'webhook']]);
+    const change = events.find(e => e.type === 'tracker.status');
+    assert.deepEqual(change && { from: change.from, to: change.to, source: change.source }, { from: 'pending', to: 'complete', source: 'webhook' });
+  });
+
+  test('poll failures are reported and retried', async () => {
+    const { tracker, client, events } = tracked();
+    const id = await pendingPayout(client);
+
+    emulator.failNext('GET', `/v1/payouts/${id}`, 503, { code: 1, message: 'Unavailable' });
+    await tracker.pollOnce();
+    assert.equal(tracker.get(id)!.status, 'pending');
+    assert.equal(events.at(-1)?.type, 'tracker.poll_failed');
+
+    await tracker.pollOnce();
+    tracker.stop();
+    assert.equal(tracker.get(id)!.status, 'complete');
+  });
+
+  test('polling stops on a 4xx or after maxPolls; a notification still settles the resource', async () => {
+    const { tracker, client, events } = tracked({ maxPolls: 2 });
+    const gone = await pendingPayout(client);
+    emulator.failNext('GET', `/v1/payouts/${gone}`, 404, { code: 2, message: 'Not found' });
+    await tracker.pollOnce();
+    assert.deepEqual(events.filter(e => e.type === 'tracker.poll_stopped').map(e => e.resource.id), [gone]);
+
+    const slow = await pendingPayout(client);
+    emulator.failNext('GET', `/v1/payouts/${slow}`, 503, { code: 1, message: 'Unavailable' }, 5);
+    const before = emulator.requests.length;
+    await tracker.pollOnce();
+    await tracker.pollOnce();
+    await tracker.pollOnce();
+    tracker.stop();
+
+    assert.equal(emulator.requests.length - before, 2);
+    assert.deepEqual(events.filter(e => e.type === 'tracker.poll_stopped').map(e => e.resource.id), [gone, slow]);
+    tracker.observe({ resourceId: slow, status: 'complete' });
+    assert.equal(tracker.get(slow)!.status, 'complete');
+  });
+
+  test('polls are made by the tracker, not by the client that created the resource', async () => {
+    const { tracker } = tracked();
+    const creator = new CircleMintClient({ actor: 'dashboard:alice', onCreated: created => tracker.track(created) });
+    const id = await pendingPayout(creator);
+
+    await tracker.pollOnce();
+    tracker.stop();
+
+    const polls = (await fileAuditLog(auditLogPath).list()).filter(e => e.endpoint === `/v1/payouts/${id}`);
+    assert.deepEqual(polls.map(e => e.actor), ['system:tracker']);
+  });
+});
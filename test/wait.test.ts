@@ -0,0 +1,102 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { emulator } from './setup.js';
+import { ETH_ADDRESS, fundedBank, resetEmulator } from './helpers.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import { waitFor, WaitFailedError, WaitTimeoutError, WaitWakeups, type WaitCheck } from '../src/wait.js';
+
+beforeEach(resetEmulator);
+
+const fast = { pollIntervalMs: 5, timeoutMs: 1000 };
+
+/**
+ * A check that reports pending until its nth call, then `last`
+ */
+function checkAfter<T>(n: number, last: WaitCheck<T>) {
+  let calls = 0;
+  const check = async (): Promise<WaitCheck<T>> => (++calls >= n ? last : { state: 'pending' });
+  return { check, calls: () => calls };
+}
+
+describe('waitFor', () => {
+  test('polls until done', async () => {
+    const { check, calls } = checkAfter(3, { state: 'done', value: 'ok' });
+    assert.equal(await waitFor('thing', check, fast), 'ok');
+    assert.equal(calls(), 3);
+  });
+
+  test('rejects with WaitFailedError on a failed final state', async () => {
+    const { check } = checkAfter(2, { state: 'failed', value: { id: 'p1' }, reason: 'failed (insufficient_funds)' });
+    await assert.rejects(waitFor('payout p1', check, fast), (error: unknown) =>
+      error instanceof WaitFailedError && error.message === 'payout p1 failed (insufficient_funds)' && (error.resource as any).id === 'p1');
+  });
+
+  test('rejects with WaitTimeoutError, keeping the last value seen', async () => {
+    const check = async (): Promise<WaitCheck<string>> => ({ state: 'pending', value: 'still pending' });
+    await assert.rejects(waitFor('thing', check, { pollIntervalMs: 5, timeoutMs: 30 }), (error: unknown) =>
+      error instanceof WaitTimeoutError && error.timeoutMs === 30 && error.last === 'still pending');
+  });
+
+  test('a wakeup checks again without waiting out the poll interval', async () => {
+    const wakeups = new WaitWakeups();
+    const { check, calls } = checkAfter(2, { state: 'done', value: 'woken' });
+    const started = Date.now();
+    const waiting = waitFor('p1', check, { pollIntervalMs: 60_000, timeoutMs: 120_000, wakeup: wakeups.for('p1') });
+
+    await new Promise(resolve => setImmediate(resolve));
+    wakeups.notify('other');
+    wakeups.notify('p1');
+    assert.equal(await waiting, 'woken');
+    assert.equal(calls(), 2);
+    assert.ok(Date.now() - started < 5000);
+  });
+});
+
+describe('client waits', () => {
+  const client = () => new CircleMintClient();
+
+  test('waitForPayout and waitForBusinessTransfer resolve with the completed resource', async () => {
+    emulator.fund('10.00');
+    const c = client();
+    const { data: recipient } = await c.createAddressBookRecipient({ chain: 'ETH', address: ETH_ADDRESS, metadata: {} });
+    const { data: payout } = await c.createPayout({
+      destination: { type: 'address_book', id: recipient.id },
+      amount: { amount: '1.00', currency: 'USD' },
+    });
+    assert.equal((await c.waitForPayout(payout.id, fast)).status, 'complete');
+
+    const { data: address } = await c.createRecipientAddress({ chain: 'ETH', address: ETH_ADDRESS, currency: 'USD', description: 'Treasury' });
+    assert.equal((await c.waitForRecipientVerified(address.id, fast)).status, 'active');
+    const { data: transfer } = await c.createBusinessTransfer({
+      destination: { type: 'verified_blockchain', addressId: address.id },
+      amount: { amount: '1.00', currency: 'USD' },
+    });
+    assert.ok((await c.waitForBusinessTransfer(transfer.id, fast)).transactionHash);
+  });
+
+  test('waitForBusinessPayout rejects when the payout fails', async () => {
+    const c = client();
+    const { bank } = await fundedBank(c, '5.00');
+    const { data: payout } = await c.createBusinessPayout({
+      idempotencyKey: crypto.randomUUID(),
+      destination: { type: 'wire', id: bank.id },
+      amount: { amount: '20.00', currency: 'USD' },
+    });
+
+    await assert.rejects(c.waitForBusinessPayout(payout.id, fast), (error: unknown) =>
+      error instanceof WaitFailedError && error.reason === 'failed (insufficient_funds)');
+  });
+
+  test('waitForDeposit finds the matching deposit to an address', async () => {
+    const c = client();
+    const { data: address } = await c.createDepositAddress({ chain: 'ETH', currency: 'USD' });
+    await c.createMockBlockchainDeposit({ address: address.address, chain: 'ETH', amount: { amount: '3.00', currency: 'USD' } });
+
+    const deposit = await c.waitForDeposit(address.address, { amount: '3', currency: 'USD' }, fast);
+    assert.equal(deposit.status, 'complete');
+    assert.deepEqual(deposit.amount, { amount: '3.00', currency: 'USD' });
+
+    await assert.rejects(c.waitForDeposit(address.address, { amount: '4.00', currency: 'USD' }, { pollIntervalMs: 5, timeoutMs: 30 }), WaitTimeoutError);
+  });
+});
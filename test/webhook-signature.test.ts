@@ -0,0 +1,106 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { auditLogPath, emulator } from './setup.js';
+import { localWebhookKeys, resetEmulator, signWebhook, WEBHOOK_KEY_ID } from './helpers.js';
+import { fileAuditLog } from '../src/audit.js';
+import { CircleMintClient } from '../src/circle-mint-client.js';
+import {
+  cachedPublicKeys,
+  circlePublicKeys,
+  verifyWebhookSignature,
+  WebhookSignatureError,
+  type PublicKeyProvider,
+  type WebhookRejection,
+} from '../src/webhook-signature.js';
+
+beforeEach(resetEmulator);
+
+const body = JSON.stringify({ notificationType: 'transfers', transfer: { id: 't1', status: 'complete' } });
+
+function headersOf(signed: Record<string, string>) {
+  return { signature: signed['X-Circle-Signature'], keyId: signed['X-Circle-Key-Id'] };
+}
+
+function rejectedFor(reason: WebhookRejection) {
+  return (error: unknown) => error instanceof WebhookSignatureError && error.reason === reason;
+}
+
+describe('verifyWebhookSignature', () => {
+  test('accepts a body signed with the advertised key', async () => {
+    const result = await verifyWebhookSignature(Buffer.from(body), headersOf(signWebhook(body)), localWebhookKeys);
+
+    assert.deepEqual(result, { verified: true, keyId: WEBHOOK_KEY_ID, algorithm: 'ECDSA_SHA_256' });
+  });
+
+  test('rejects missing headers, unknown keys, other algorithms and altered bodies', async () => {
+    const signed = headersOf(signWebhook(body));
+
+    await assert.rejects(verifyWebhookSignature(body, {}, localWebhookKeys), rejectedFor('missing_signature'));
+    await assert.rejects(verifyWebhookSignature(body, { ...signed, keyId: 'other' }, localWebhookKeys), rejectedFor('unknown_key'));
+    await assert.rejects(
+      verifyWebhookSignature(body, signed, async id => ({ ...await localWebhookKeys(id), algorithm: 'RSA_SHA_256' })),
+      rejectedFor('unsupported_algorithm')
+    );
+    await assert.rejects(verifyWebhookSignature(body.replace('complete', 'failed'), signed, localWebhookKeys), rejectedFor('invalid_signature'));
+    await assert.rejects(verifyWebhookSignature(body, { ...signed, signature: 'bm90IGEgc2lnbmF0dXJl' }, localWebhookKeys), rejectedFor('invalid_signature'));
+  });
+});
+
+describe('public keys', () => {
+  test('circlePublicKeys reads the key from Circle', async () => {
+    const key = await localWebhookKeys(WEBHOOK_KEY_ID);
+    emulator.failNext('GET', `/v2/notifications/publicKey/${WEBHOOK_KEY_ID}`, 200, { data: key });
+
+    const fetched = await circlePublicKeys(new CircleMintClient())(WEBHOOK_KEY_ID);
+
+    assert.deepEqual(fetched, key);
+  });
+
+  test('cachedPublicKeys fetches each key once and remembers failures briefly', async () => {
+    let calls = 0;
+    let fail = true;
+    const flaky: PublicKeyProvider = async keyId => {
+      calls++;
+      if (fail) throw new Error('unreachable');
+      return localWebhookKeys(keyId);
+    };
+    const remembered = cachedPublicKeys(flaky);
+    await assert.rejects(remembered(WEBHOOK_KEY_ID));
+    fail = false;
+    await assert.rejects(remembered(WEBHOOK_KEY_ID));
+    assert.equal(calls, 1);
+
+    const retried = cachedPublicKeys(flaky, { failureTtlMs: 0 });
+    fail = true;
+    await assert.rejects(retried(WEBHOOK_KEY_ID));
+    fail = false;
+    await retried(WEBHOOK_KEY_ID);
+    await retried(WEBHOOK_KEY_ID);
+    assert.equal(calls, 3);
+  });
+
+  test('cachedPublicKeys rate-limits lookups of new key ids', async () => {
+    const asked: string[] = [];
+    const keys = cachedPublicKeys(async keyId => {
+      asked.push(keyId);
+      return localWebhookKeys(WEBHOOK_KEY_ID);
+    }, { fetchesPerMinute: 2 });
+
+    await keys('a');
+    await keys('b');
+    await assert.rejects(keys('c'), /too many key lookups/);
+    await keys('a');
+
+    assert.deepEqual(asked, ['a', 'b']);
+  });
+
+  test('circlePublicKeys makes one unaudited attempt by default', async () => {
+    emulator.failNext('GET', '/v2/notifications/publicKey/nope', 503, { message: 'unavailable' });
+
+    await assert.rejects(circlePublicKeys()('nope'));
+
+    assert.equal(emulator.requests.filter(r => r.path.includes('/publicKey/nope')).length, 1);
+    const audited = await fileAuditLog(auditLogPath).list();
+    assert.ok(!audited.some(e => e.endpoint.includes('/publicKey/nope')));
+  });
+});